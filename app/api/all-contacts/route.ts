@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql, desc, asc, or, ilike, and, eq } from "drizzle-orm";
+import {
+  sql,
+  desc,
+  asc,
+  or,
+  ilike,
+  and,
+  eq,
+  getTableColumns,
+} from "drizzle-orm";
 import { z } from "zod";
 import { unstable_cache } from "next/cache";
 import { contact } from "@/lib/db/schema";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { filterColumns, parseFilterParams } from "@/lib/filter-columns";
 
 const CACHE_TTL_SECONDS = 60;
 
@@ -46,10 +57,15 @@ export async function GET(request: NextRequest) {
     const { page, limit, search, sortBy, sortOrder, title, gender } =
       parsedParams.data;
     const offset = (page - 1) * limit;
+    const filterableColumns = getTableColumns(contact);
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     const cacheKey = `contacts:${page}:${limit}:${
       search || ""
-    }:${sortBy}:${sortOrder}:${title || ""}:${gender || ""}`;
+    }:${sortBy}:${sortOrder}:${title || ""}:${gender || ""}:${joinOperator}:${JSON.stringify(filters)}`;
     const cacheTags = [
       `contacts`,
       `contacts:page:${page}`,
@@ -60,7 +76,9 @@ export async function GET(request: NextRequest) {
 
     const cachedQuery = unstable_cache(
       async () => {
-        const conditions = [];
+        const conditions = [
+          filterColumns({ columns: filterableColumns, filters, joinOperator }),
+        ];
 
         if (search) {
           conditions.push(
@@ -76,8 +94,7 @@ export async function GET(request: NextRequest) {
         if (title) conditions.push(eq(contact.title, title));
         if (gender) conditions.push(eq(contact.gender, gender));
 
-        const whereClause =
-          conditions.length > 0 ? and(...conditions) : undefined;
+        const whereClause = and(...conditions);
         let orderByClause;
         switch (sortBy) {
           case "id":
@@ -180,12 +197,13 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response, {
       headers: {
-        "Cache-Control": `public, s-maxage=${CACHE_TTL_SECONDS}`,
+        "Cache-Control": "private, no-store",
         Vary: "Origin, Accept-Encoding",
         "X-Total-Count": response.pagination.totalCount.toString(),
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching contacts:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,44 @@
+import { db } from "@/lib/db";
+import { apiKey } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { publicApiKeyColumns } from "@/lib/services/api-keys";
+import { and, eq, isNull } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+
+// Keys are revoked rather than deleted so their history stays readable
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const keyId = parseInt(id, 10);
+    if (isNaN(keyId) || keyId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid API key ID" },
+        { status: 400 }
+      );
+    }
+
+    const [revoked] = await db
+      .update(apiKey)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKey.id, keyId), isNull(apiKey.revokedAt)))
+      .returning(publicApiKeyColumns);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "API key not found or already revoked" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "API key revoked successfully",
+      apiKey: revoked,
+    });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from "@/lib/db";
+import { apiKey } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { getRequestUser } from "@/lib/auth/session";
+import { createApiKey, publicApiKeyColumns } from "@/lib/services/api-keys";
+import { desc } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1, "Name is required"),
+});
+
+export async function GET() {
+  try {
+    const apiKeys = await db
+      .select(publicApiKeyColumns)
+      .from(apiKey)
+      .orderBy(desc(apiKey.createdAt));
+
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name } = createApiKeySchema.parse(body);
+
+    const created = await createApiKey(
+      name,
+      getRequestUser(request)?.id ?? null
+    );
+
+    return NextResponse.json(
+      {
+        message: "API key created. Copy it now; it will not be shown again.",
+        ...created,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating API key:", error);
+    return ErrorHandler.handle(error);
+  }
+}
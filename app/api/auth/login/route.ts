@@ -0,0 +1,89 @@
+import { db } from "@/lib/db";
+import { solicitor, user } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { verifyPassword } from "@/lib/auth/password";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  signSession,
+} from "@/lib/auth/session";
+import { eq, sql } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const loginSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email, password } = loginSchema.parse(body);
+
+    const [account] = await db
+      .select({ user, solicitorContactId: solicitor.contactId })
+      .from(user)
+      .leftJoin(solicitor, eq(user.solicitorId, solicitor.id))
+      .where(sql`lower(${user.email}) = ${email.toLowerCase()}`)
+      .limit(1);
+
+    if (
+      !account ||
+      !account.user.isActive ||
+      !(await verifyPassword(password, account.user.passwordHash))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    await db
+      .update(user)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(user.id, account.user.id));
+
+    const token = await signSession({
+      userId: account.user.id,
+      role: account.user.role,
+      solicitorId: account.user.solicitorId,
+      solicitorContactId: account.solicitorContactId,
+      tokenVersion: account.user.tokenVersion,
+    });
+
+    const response = NextResponse.json({
+      user: {
+        id: account.user.id,
+        email: account.user.email,
+        name: account.user.name,
+        role: account.user.role,
+        solicitorId: account.user.solicitorId,
+      },
+    });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error signing in:", error);
+    return ErrorHandler.handle(error);
+  }
+}
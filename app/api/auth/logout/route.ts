@@ -0,0 +1,8 @@
+import { SESSION_COOKIE } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+
+export async function POST() {
+  const response = NextResponse.json({ message: "Signed out" });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
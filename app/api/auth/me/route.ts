@@ -0,0 +1,39 @@
+import { db } from "@/lib/db";
+import { user } from "@/lib/db/schema";
+import { getRequestUser } from "@/lib/auth/session";
+import { ErrorHandler } from "@/lib/error-handler";
+import { eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const [account] = await db
+      .select({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        solicitorId: user.solicitorId,
+      })
+      .from(user)
+      .where(eq(user.id, currentUser.id))
+      .limit(1);
+
+    if (!account) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ user: account });
+  } catch (error) {
+    console.error("Error fetching current user:", error);
+    return ErrorHandler.handle(error);
+  }
+}
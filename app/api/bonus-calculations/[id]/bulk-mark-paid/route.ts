@@ -1,6 +1,12 @@
 import { db } from "@/lib/db";
 import { bonusCalculation } from "@/lib/db/schema";
-import { sql } from "drizzle-orm";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import {
+  deliverWebhooksAfterResponse,
+  emitWebhookEvent,
+} from "@/lib/services/webhooks";
+import { asc, inArray } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
@@ -15,14 +21,55 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const updatedCalculations = await db
-      .update(bonusCalculation)
-      .set({
-        isPaid: true,
-        paidAt: new Date(),
-      })
-      .where(sql`${bonusCalculation.id} = ANY(${calculationIds})`)
-      .returning();
+    const context = auditContext(request);
+    const updatedCalculations = await db.transaction(async (tx) => {
+      // Locked in id order so overlapping requests queue rather than deadlock
+      // or pay a bonus twice
+      const existing = await tx
+        .select()
+        .from(bonusCalculation)
+        .where(inArray(bonusCalculation.id, calculationIds))
+        .orderBy(asc(bonusCalculation.id))
+        .for("update");
+      const clawbacks = existing.filter((row) => row.isClawback);
+      if (clawbacks.length > 0) {
+        throw new HttpError(
+          409,
+          `Clawbacks are recovered from the solicitor and cannot be marked as paid: #${clawbacks.map((row) => row.id).join(", #")}`
+        );
+      }
+
+      // Bonuses already paid are left as they are and get no bonus.paid event
+      const unpaidIds = existing
+        .filter((row) => !row.isPaid)
+        .map((row) => row.id);
+      if (unpaidIds.length === 0) return [];
+
+      const result = await tx
+        .update(bonusCalculation)
+        .set({
+          isPaid: true,
+          paidAt: new Date(),
+        })
+        .where(inArray(bonusCalculation.id, unpaidIds))
+        .returning();
+
+      for (const calculation of result) {
+        await recordAudit(
+          tx,
+          context,
+          "bonus_calculation",
+          existing.find((row) => row.id === calculation.id)!,
+          calculation
+        );
+        await emitWebhookEvent(tx, "bonus.paid", {
+          bonusCalculation: calculation,
+        });
+      }
+      return result;
+    });
+
+    deliverWebhooksAfterResponse();
 
     return NextResponse.json({
       bonusCalculations: updatedCalculations,
@@ -30,9 +77,6 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Error bulk marking bonuses as paid:", error);
-    return NextResponse.json(
-      { error: "Failed to bulk mark bonuses as paid" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,5 +1,11 @@
 import { db } from "@/lib/db";
 import { bonusCalculation } from "@/lib/db/schema";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import {
+  deliverWebhooksAfterResponse,
+  emitWebhookEvent,
+} from "@/lib/services/webhooks";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -10,28 +16,46 @@ export async function POST(
   const { id } = await params;
   const calculationId = parseInt(id, 10);
   try {
-    const updatedCalculation = await db
-      .update(bonusCalculation)
-      .set({
-        isPaid: true,
-        paidAt: new Date(),
-      })
-      .where(eq(bonusCalculation.id, calculationId))
-      .returning();
+    const context = auditContext(request);
+    const updatedCalculation = await db.transaction(async (tx) => {
+      // Locked so two requests can't both pay the bonus and emit bonus.paid
+      const [existing] = await tx
+        .select()
+        .from(bonusCalculation)
+        .where(eq(bonusCalculation.id, calculationId))
+        .for("update");
+      if (!existing) {
+        throw new HttpError(404, "Bonus calculation not found");
+      }
+      if (existing.isClawback) {
+        throw new HttpError(
+          409,
+          "A clawback is recovered from the solicitor and cannot be marked as paid"
+        );
+      }
+      if (existing.isPaid) return existing;
 
-    if (updatedCalculation.length === 0) {
-      return NextResponse.json(
-        { error: "Bonus calculation not found" },
-        { status: 404 }
-      );
-    }
+      const [updated] = await tx
+        .update(bonusCalculation)
+        .set({
+          isPaid: true,
+          paidAt: new Date(),
+        })
+        .where(eq(bonusCalculation.id, calculationId))
+        .returning();
+      await recordAudit(tx, context, "bonus_calculation", existing, updated);
 
-    return NextResponse.json({ bonusCalculation: updatedCalculation[0] });
+      await emitWebhookEvent(tx, "bonus.paid", {
+        bonusCalculation: updated,
+      });
+      return updated;
+    });
+
+    deliverWebhooksAfterResponse();
+
+    return NextResponse.json({ bonusCalculation: updatedCalculation });
   } catch (error) {
     console.error("Error marking bonus as paid:", error);
-    return NextResponse.json(
-      { error: "Failed to mark bonus as paid" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,12 +1,9 @@
 import { db } from "@/lib/db";
-import {
-  payment,
-  category,
-  pledge,
-  bonusRule,
-  bonusCalculation,
-} from "@/lib/db/schema";
-import { eq, and, lte, sql, desc } from "drizzle-orm";
+import { payment, category, pledge, bonusCalculation } from "@/lib/db/schema";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { resolveBonus } from "@/lib/services/bonus";
+import { and, eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
@@ -21,114 +18,126 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const paymentDetails = await db
-      .select({
-        id: payment.id,
-        solicitorId: payment.solicitorId,
-        amountUsd: payment.amountUsd,
-        paymentDate: payment.paymentDate,
-        categoryName: category.name,
-      })
-      .from(payment)
-      .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
-      .leftJoin(category, eq(pledge.categoryId, category.id))
-      .where(eq(payment.id, paymentId))
-      .limit(1);
+    const context = auditContext(request);
+    const result = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(payment)
+        .where(eq(payment.id, paymentId))
+        .for("update");
+      if (!existing || !existing.solicitorId) {
+        throw new HttpError(
+          404,
+          "Payment not found or not assigned to solicitor"
+        );
+      }
+      if (existing.refundOfPaymentId) {
+        throw new HttpError(409, "A refund's bonus cannot be recalculated");
+      }
 
-    if (paymentDetails.length === 0 || !paymentDetails[0].solicitorId) {
-      return NextResponse.json(
-        { error: "Payment not found or not assigned to solicitor" },
-        { status: 404 }
-      );
-    }
-
-    const paymentInfo = paymentDetails[0];
-
-    const solicitorId = paymentInfo.solicitorId as number;
-
-    const paymentAmount = parseFloat(paymentInfo.amountUsd || "0");
-    const isDonation = paymentInfo.categoryName
-      ?.toLowerCase()
-      .includes("donation");
-
-    const applicableRules = await db
-      .select()
-      .from(bonusRule)
-      .where(
-        and(
-          eq(bonusRule.solicitorId, solicitorId), // Now guaranteed to be a number
-          eq(bonusRule.isActive, true),
-          lte(bonusRule.effectiveFrom, paymentInfo.paymentDate),
-          sql`(${bonusRule.effectiveTo} IS NULL OR ${bonusRule.effectiveTo} >= ${paymentInfo.paymentDate})`,
-          sql`(${bonusRule.paymentType} = 'both' OR 
-                 (${bonusRule.paymentType} = 'donation' AND ${isDonation}) OR
-                 (${bonusRule.paymentType} = 'tuition' AND NOT ${isDonation}))`,
-          sql`(${bonusRule.minAmount} IS NULL OR ${bonusRule.minAmount} <= ${paymentAmount})`,
-          sql`(${bonusRule.maxAmount} IS NULL OR ${bonusRule.maxAmount} >= ${paymentAmount})`
-        )
-      )
-      .orderBy(desc(bonusRule.priority));
-
-    let bonusPercentage = "0";
-    let bonusAmount = "0";
-    let bonusRuleId = null;
+      // A paid bonus has left the organisation, and a refund has already
+      // reduced or clawed back the bonus; recalculating from the original
+      // amount would pay it again or undo the refund's adjustment
+      const [bonus] = await tx
+        .select()
+        .from(bonusCalculation)
+        .where(eq(bonusCalculation.paymentId, paymentId))
+        .for("update");
+      if (bonus?.isPaid) {
+        throw new HttpError(
+          409,
+          "The bonus for this payment has been paid and cannot be recalculated"
+        );
+      }
+      const [refundEntry] = await tx
+        .select({ id: payment.id })
+        .from(payment)
+        .where(eq(payment.refundOfPaymentId, paymentId))
+        .limit(1);
+      if (refundEntry) {
+        throw new HttpError(
+          409,
+          "The payment has been refunded and its bonus cannot be recalculated"
+        );
+      }
 
-    if (applicableRules.length > 0) {
-      const rule = applicableRules[0];
-      bonusPercentage = rule.bonusPercentage || "0";
-      bonusAmount = (
-        (paymentAmount * parseFloat(bonusPercentage)) /
-        100
-      ).toFixed(2);
-      bonusRuleId = rule.id;
-    }
-
-    await db
-      .update(payment)
-      .set({
-        bonusPercentage,
-        bonusAmount,
-        bonusRuleId,
-        updatedAt: new Date(),
-      })
-      .where(eq(payment.id, paymentId));
+      const [details] = await tx
+        .select({ isTaxDeductible: category.isTaxDeductible })
+        .from(pledge)
+        .leftJoin(category, eq(pledge.categoryId, category.id))
+        .where(eq(pledge.id, existing.pledgeId));
 
-    // Delete existing bonus calculation
-    await db
-      .delete(bonusCalculation)
-      .where(eq(bonusCalculation.paymentId, paymentId));
+      const solicitorId = existing.solicitorId;
+      const paymentAmount = parseFloat(existing.amountUsd || "0");
+      const { rule, bonusRuleId, bonusPercentage, bonusAmount } =
+        await resolveBonus(tx, {
+          solicitorId,
+          paymentDate: existing.paymentDate,
+          amountUsd: paymentAmount,
+          isDonation: !!details?.isTaxDeductible,
+        });
 
-    // Create new bonus calculation if there's a bonus
-    let newCalculation = null;
-    if (parseFloat(bonusAmount) > 0) {
-      const result = await db
-        .insert(bonusCalculation)
-        .values({
-          paymentId,
-          solicitorId, // Use the type-asserted solicitorId
-          bonusRuleId,
-          paymentAmount: paymentAmount.toString(),
+      const [updated] = await tx
+        .update(payment)
+        .set({
           bonusPercentage,
           bonusAmount,
-          calculatedAt: new Date(),
-          isPaid: false,
-          notes: `Recalculated using rule: ${applicableRules[0]?.ruleName}`,
+          bonusRuleId,
+          updatedAt: new Date(),
         })
+        .where(eq(payment.id, paymentId))
         .returning();
+      await recordAudit(tx, context, "payment", existing, updated);
 
-      newCalculation = result[0];
-    }
+      // Replace the unpaid bonus calculation
+      if (bonus) {
+        await recordAudit(tx, context, "bonus_calculation", bonus, null);
+        await tx
+          .delete(bonusCalculation)
+          .where(
+            and(
+              eq(bonusCalculation.id, bonus.id),
+              eq(bonusCalculation.isPaid, false)
+            )
+          );
+      }
+
+      // Create new bonus calculation if there's a bonus
+      let newCalculation = null;
+      if (parseFloat(bonusAmount) > 0) {
+        [newCalculation] = await tx
+          .insert(bonusCalculation)
+          .values({
+            paymentId,
+            solicitorId,
+            bonusRuleId,
+            paymentAmount: paymentAmount.toString(),
+            bonusPercentage,
+            bonusAmount,
+            calculatedAt: new Date(),
+            isPaid: false,
+            notes: `Recalculated using rule: ${rule?.ruleName}`,
+          })
+          .returning();
+        await recordAudit(
+          tx,
+          context,
+          "bonus_calculation",
+          null,
+          newCalculation
+        );
+      }
+
+      return { newCalculation, bonusAmount };
+    });
 
     return NextResponse.json({
-      bonusCalculation: newCalculation,
+      bonusCalculation: result.newCalculation,
       recalculated: true,
-      bonusAmount: parseFloat(bonusAmount),
+      bonusAmount: parseFloat(result.bonusAmount),
     });
   } catch (error) {
     console.error("Error recalculating bonus:", error);
-    return NextResponse.json(
-      { error: "Failed to recalculate bonus" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, getTableColumns } from "drizzle-orm";
 import {
   bonusCalculation,
   contact,
@@ -8,6 +8,24 @@ import {
   payment,
   bonusRule,
 } from "@/lib/db/schema";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+
+// The listed solicitor, payment and rule fields come from the query's joins
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(bonusCalculation),
+  solicitorFirstName: contact.firstName,
+  solicitorLastName: contact.lastName,
+  solicitorCode: solicitor.solicitorCode,
+  paymentDate: payment.paymentDate,
+  paymentReference: payment.referenceNumber,
+  ruleName: bonusRule.ruleName,
+};
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,8 +33,13 @@ export async function GET(request: NextRequest) {
     const solicitorId = searchParams.get("solicitorId");
     const isPaid = searchParams.get("isPaid");
 
-    // eslint-disable-next-line prefer-const
-    let whereConditions = [];
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+    const whereConditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (solicitorId) {
       whereConditions.push(
@@ -24,6 +47,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Solicitors only ever see their own bonuses
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      whereConditions.push(eq(bonusCalculation.solicitorId, ownSolicitorId));
+    }
+
     if (isPaid !== null) {
       whereConditions.push(eq(bonusCalculation.isPaid, isPaid === "true"));
     }
@@ -56,11 +85,12 @@ export async function GET(request: NextRequest) {
       .innerJoin(contact, eq(solicitor.contactId, contact.id))
       .innerJoin(payment, eq(bonusCalculation.paymentId, payment.id))
       .leftJoin(bonusRule, eq(bonusCalculation.bonusRuleId, bonusRule.id))
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .where(and(...whereConditions))
       .orderBy(desc(bonusCalculation.calculatedAt));
 
     return NextResponse.json({ bonusCalculations: calculations });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching bonus calculations:", error);
     return NextResponse.json(
       { error: "Failed to fetch bonus calculations" },
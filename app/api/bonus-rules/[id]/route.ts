@@ -1,5 +1,6 @@
 import { db } from "@/lib/db";
 import { bonusRule } from "@/lib/db/schema";
+import { auditContext, recordAudit } from "@/lib/services/audit";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -11,14 +12,31 @@ export async function PUT(
   const ruleId = parseInt(id, 10);
   try {
     const body = await request.json();
-    const updatedRule = await db
-      .update(bonusRule)
-      .set({
-        ...body,
-        updatedAt: new Date(),
-      })
-      .where(eq(bonusRule.id, ruleId))
-      .returning();
+    const updatedRule = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(bonusRule)
+        .where(eq(bonusRule.id, ruleId))
+        .for("update");
+      if (!existing) return [];
+
+      const result = await tx
+        .update(bonusRule)
+        .set({
+          ...body,
+          updatedAt: new Date(),
+        })
+        .where(eq(bonusRule.id, ruleId))
+        .returning();
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "bonus_rule",
+        existing,
+        result[0]
+      );
+      return result;
+    });
 
     if (updatedRule.length === 0) {
       return NextResponse.json(
@@ -44,10 +62,22 @@ export async function DELETE(
   const { id } = await params;
   const ruleId = parseInt(id, 10);
   try {
-    const deletedRule = await db
-      .delete(bonusRule)
-      .where(eq(bonusRule.id, ruleId))
-      .returning();
+    const deletedRule = await db.transaction(async (tx) => {
+      const result = await tx
+        .delete(bonusRule)
+        .where(eq(bonusRule.id, ruleId))
+        .returning();
+      if (result.length > 0) {
+        await recordAudit(
+          tx,
+          auditContext(request),
+          "bonus_rule",
+          result[0],
+          null
+        );
+      }
+      return result;
+    });
 
     if (deletedRule.length === 0) {
       return NextResponse.json(
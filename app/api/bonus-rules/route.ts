@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { eq, desc } from "drizzle-orm";
 import { bonusRule, contact, solicitor } from "@/lib/db/schema";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { auditContext, recordAudit } from "@/lib/services/audit";
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,6 +15,11 @@ export async function GET(request: NextRequest) {
     if (solicitorId) {
       whereConditions.push(eq(bonusRule.solicitorId, parseInt(solicitorId)));
     }
+
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      whereConditions.push(eq(bonusRule.solicitorId, ownSolicitorId));
+    }
     const query = db
       .select({
         id: bonusRule.id,
@@ -89,22 +96,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const newRule = await db
-      .insert(bonusRule)
-      .values({
-        solicitorId,
-        ruleName,
-        bonusPercentage,
-        paymentType,
-        minAmount,
-        maxAmount,
-        effectiveFrom,
-        effectiveTo,
-        isActive,
-        priority,
-        notes,
-      })
-      .returning();
+    const newRule = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(bonusRule)
+        .values({
+          solicitorId,
+          ruleName,
+          bonusPercentage,
+          paymentType,
+          minAmount,
+          maxAmount,
+          effectiveFrom,
+          effectiveTo,
+          isActive,
+          priority,
+          notes,
+        })
+        .returning();
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "bonus_rule",
+        null,
+        created[0]
+      );
+      return created;
+    });
 
     return NextResponse.json({ bonusRule: newRule[0] }, { status: 201 });
   } catch (error) {
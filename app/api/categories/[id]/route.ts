@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { and, eq, ne } from "drizzle-orm";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { category } from "@/lib/db/schema";
+import { categorySchema } from "@/lib/form-schemas/category";
+
+// Fields left out are kept. Whether a category is tax-deductible decides
+// which payments appear on donors' tax statements and which bonus rules apply.
+const updateCategorySchema = categorySchema.partial();
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const categoryId = parseInt(id, 10);
+    if (isNaN(categoryId) || categoryId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid category ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateCategorySchema.parse(body);
+
+    const [existingCategory] = await db
+      .select({ id: category.id })
+      .from(category)
+      .where(eq(category.id, categoryId))
+      .limit(1);
+    if (!existingCategory) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.name !== undefined) {
+      const [duplicate] = await db
+        .select({ id: category.id })
+        .from(category)
+        .where(
+          and(
+            eq(category.name, validatedData.name),
+            eq(category.isActive, true),
+            ne(category.id, categoryId)
+          )
+        )
+        .limit(1);
+      if (duplicate) {
+        return NextResponse.json(
+          {
+            error: "Duplicate category",
+            message: `Category with name '${validatedData.name}' already exists`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const [updated] = await db
+      .update(category)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(eq(category.id, categoryId))
+      .returning();
+
+    return NextResponse.json({
+      message: "Category updated successfully",
+      category: updated,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating category:", error);
+    return ErrorHandler.handle(error);
+  }
+}
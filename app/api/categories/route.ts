@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql, desc, asc, or, ilike, and, eq } from "drizzle-orm";
+import {
+  sql,
+  desc,
+  asc,
+  or,
+  ilike,
+  and,
+  eq,
+  getTableColumns,
+} from "drizzle-orm";
 import { z } from "zod";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { filterColumns, parseFilterParams } from "@/lib/filter-columns";
 import { category, NewCategory } from "@/lib/db/schema";
 import { categorySchema } from "@/lib/form-schemas/category";
 
@@ -43,8 +53,15 @@ export async function GET(request: NextRequest) {
     const { page, limit, search, sortBy, sortOrder, isActive } =
       parsedParams.data;
     const offset = (page - 1) * limit;
+    const filterableColumns = getTableColumns(category);
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
-    const conditions = [];
+    const conditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (search) {
       conditions.push(
@@ -57,7 +74,7 @@ export async function GET(request: NextRequest) {
     if (isActive !== undefined)
       conditions.push(eq(category.isActive, isActive));
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
     let orderByClause;
     switch (sortBy) {
       case "id":
@@ -136,6 +153,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching categories:", error);
     return NextResponse.json(
       {
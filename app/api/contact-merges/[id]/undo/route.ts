@@ -0,0 +1,26 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { undoMerge } from "@/lib/services/contact-merge";
+import { NextRequest, NextResponse } from "next/server";
+
+// Restores the merged contact and moves its records back
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mergeId = parseInt((await params).id, 10);
+    if (isNaN(mergeId) || mergeId <= 0) {
+      return NextResponse.json({ error: "Invalid merge ID" }, { status: 400 });
+    }
+
+    const merge = await undoMerge(mergeId, auditContext(request));
+    return NextResponse.json({
+      message: `Contact #${merge.mergedContactId} restored`,
+      merge,
+    });
+  } catch (error) {
+    console.error("Error undoing contact merge:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { previewMerge } from "@/lib/services/contact-merge";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedContactId: z.number().int().positive(),
+});
+
+// Both contacts side by side, the suggested field values and what would move
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { survivorId, mergedContactId } = QueryParamsSchema.parse({
+      survivorId: parseInt(searchParams.get("survivorId") || "", 10),
+      mergedContactId: parseInt(searchParams.get("mergedContactId") || "", 10),
+    });
+
+    const preview = await previewMerge(survivorId, mergedContactId);
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error previewing contact merge:", error);
+    return ErrorHandler.handle(error);
+  }
+}
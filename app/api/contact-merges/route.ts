@@ -0,0 +1,93 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  MERGEABLE_FIELDS,
+  listContactMerges,
+  mergeContacts,
+} from "@/lib/services/contact-merge";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  contactId: z.number().int().positive().optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+const mergeSchema = z
+  .object({
+    survivorId: z.number().int().positive(),
+    mergedContactId: z.number().int().positive(),
+    fields: z
+      .record(z.enum(MERGEABLE_FIELDS), z.enum(["survivor", "merged"]))
+      .optional(),
+  })
+  .refine((data) => data.survivorId !== data.mergedContactId, {
+    message: "A contact cannot be merged into itself",
+    path: ["mergedContactId"],
+  });
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = QueryParamsSchema.parse({
+      contactId: searchParams.get("contactId")
+        ? parseInt(searchParams.get("contactId")!, 10)
+        : undefined,
+      limit: searchParams.get("limit")
+        ? parseInt(searchParams.get("limit")!, 10)
+        : undefined,
+    });
+
+    const merges = await listContactMerges(params);
+    return NextResponse.json({ merges });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching contact merges:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Merges one contact into another, moving its records to the survivor
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = mergeSchema.parse(body);
+
+    const merge = await mergeContacts(validatedData, auditContext(request));
+    return NextResponse.json(
+      {
+        message: `Contact #${merge.mergedContactId} merged into #${merge.survivorId}`,
+        merge,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error merging contacts:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,107 @@
+import { db } from "@/lib/db";
+import { auditLog, user } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { and, desc, eq, sql, SQL } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  contactId: z.number().positive(),
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(25),
+  tableName: z
+    .enum([
+      "contact",
+      "pledge",
+      "payment",
+      "payment_plan",
+      "solicitor",
+      "bonus_rule",
+      "bonus_calculation",
+      "contact_credit",
+    ])
+    .optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  try {
+    const { contactId, page, limit, tableName } = QueryParamsSchema.parse({
+      contactId: parseInt(id, 10),
+      page: parseInt(searchParams.get("page") || "1", 10),
+      limit: parseInt(searchParams.get("limit") || "25", 10),
+      tableName: searchParams.get("tableName") || undefined,
+    });
+
+    const conditions: SQL<unknown>[] = [eq(auditLog.contactId, contactId)];
+    if (tableName) {
+      conditions.push(eq(auditLog.tableName, tableName));
+    }
+    const whereClause = and(...conditions);
+
+    const [entries, countResult] = await Promise.all([
+      db
+        .select({
+          id: auditLog.id,
+          tableName: auditLog.tableName,
+          recordId: auditLog.recordId,
+          action: auditLog.action,
+          fieldName: auditLog.fieldName,
+          oldValue: auditLog.oldValue,
+          newValue: auditLog.newValue,
+          changedBy: auditLog.changedBy,
+          changedByName: sql<
+            string | null
+          >`COALESCE(${user.name}, ${user.email})`,
+          changedAt: auditLog.changedAt,
+          ipAddress: auditLog.ipAddress,
+          userAgent: auditLog.userAgent,
+        })
+        .from(auditLog)
+        .leftJoin(user, eq(auditLog.changedBy, user.id))
+        .where(whereClause)
+        .orderBy(desc(auditLog.changedAt), desc(auditLog.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(auditLog)
+        .where(whereClause),
+    ]);
+
+    const totalCount = Number(countResult[0]?.count || 0);
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return NextResponse.json({
+      auditLog: entries,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching audit log:", error);
+    return ErrorHandler.handle(error);
+  }
+}
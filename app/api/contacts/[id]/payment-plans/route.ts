@@ -1,8 +1,29 @@
 import { db } from "@/lib/db";
 import { paymentPlan, pledge } from "@/lib/db/schema";
-import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
+import {
+  eq,
+  desc,
+  or,
+  ilike,
+  and,
+  SQL,
+  sql,
+  inArray,
+  getTableColumns,
+} from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(paymentPlan),
+  exchangeRate: pledge.exchangeRate,
+};
 
 const PlanStatusEnum = z.enum([
   "active",
@@ -45,6 +66,10 @@ export async function GET(
       search,
       planStatus,
     } = queryParams;
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     // First, get all pledge IDs for this contact
     const pledges = await db
@@ -57,7 +82,7 @@ export async function GET(
         { paymentPlans: [] },
         {
           headers: {
-            "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+            "Cache-Control": "private, no-store",
           },
         }
       );
@@ -85,6 +110,8 @@ export async function GET(
         remainingAmount: paymentPlan.remainingAmount,
         planStatus: paymentPlan.planStatus,
         autoRenew: paymentPlan.autoRenew,
+        renewWithNewPledge: paymentPlan.renewWithNewPledge,
+        renewedFromPlanId: paymentPlan.renewedFromPlanId,
         remindersSent: paymentPlan.remindersSent,
         lastReminderDate: paymentPlan.lastReminderDate,
         isActive: paymentPlan.isActive,
@@ -96,10 +123,11 @@ export async function GET(
       })
       .from(paymentPlan)
       .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
-      .where(inArray(paymentPlan.pledgeId, pledgeIds))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [
+      inArray(paymentPlan.pledgeId, pledgeIds),
+    ];
 
     if (planStatus) {
       conditions.push(eq(paymentPlan.planStatus, planStatus));
@@ -119,10 +147,17 @@ export async function GET(
       conditions.push(or(...searchConditions)!);
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
+    if (filterCondition) {
+      conditions.push(filterCondition);
     }
 
+    query = query.where(and(...conditions));
+
     const offset = (page - 1) * limit;
     query = query
       .limit(limit)
@@ -135,11 +170,12 @@ export async function GET(
       { paymentPlans },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-store",
         },
       }
     );
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error(error);
     return NextResponse.json(
       { error: "Failed to fetch payment plans" },
@@ -1,8 +1,22 @@
 import { db } from "@/lib/db";
-import { payment, pledge } from "@/lib/db/schema";
-import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
+import { payment, paymentAllocation, pledge } from "@/lib/db/schema";
+import {
+  eq,
+  desc,
+  or,
+  ilike,
+  and,
+  SQL,
+  sql,
+  inArray,
+  getTableColumns,
+} from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { filterColumns, parseFilterParams } from "@/lib/filter-columns";
+
+const filterableColumns = getTableColumns(payment);
 
 const PaymentStatusEnum = z.enum([
   "pending",
@@ -46,6 +60,10 @@ export async function GET(
       search,
       paymentStatus,
     } = queryParams;
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
     const pledges = await db
       .select({ id: pledge.id })
       .from(pledge)
@@ -56,7 +74,7 @@ export async function GET(
         { payments: [] },
         {
           headers: {
-            "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+            "Cache-Control": "private, no-store",
           },
         }
       );
@@ -78,14 +96,25 @@ export async function GET(
         receiptNumber: payment.receiptNumber,
         receiptIssued: payment.receiptIssued,
         notes: payment.notes,
+        refundOfPaymentId: payment.refundOfPaymentId,
         paymentPlanId: payment.paymentPlanId,
         pledgeId: payment.pledgeId,
       })
       .from(payment)
-      .where(inArray(payment.pledgeId, pledgeIds))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [
+      or(
+        inArray(payment.pledgeId, pledgeIds),
+        inArray(
+          payment.id,
+          db
+            .select({ paymentId: paymentAllocation.paymentId })
+            .from(paymentAllocation)
+            .where(inArray(paymentAllocation.pledgeId, pledgeIds))
+        )
+      )!,
+    ];
 
     if (paymentStatus) {
       conditions.push(eq(payment.paymentStatus, paymentStatus));
@@ -108,10 +137,17 @@ export async function GET(
       conditions.push(or(...searchConditions)!);
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
+    if (filterCondition) {
+      conditions.push(filterCondition);
     }
 
+    query = query.where(and(...conditions));
+
     const offset = (page - 1) * limit;
     query = query
       .limit(limit)
@@ -124,11 +160,12 @@ export async function GET(
       { payments },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-store",
         },
       }
     );
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error(error);
     return NextResponse.json(
       { error: "Failed to fetch payments" },
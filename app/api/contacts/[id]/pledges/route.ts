@@ -2,6 +2,29 @@ import { db } from "@/lib/db";
 import { pledge, category, contact } from "@/lib/db/schema";
 import { sql, eq, and, or, gte, lte, ilike, SQL } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+
+const filterableColumns: FilterableColumns = {
+  id: pledge.id,
+  pledgeDate: pledge.pledgeDate,
+  description: pledge.description,
+  originalAmount: pledge.originalAmount,
+  currency: pledge.currency,
+  originalAmountUsd: pledge.originalAmountUsd,
+  totalPaid: pledge.totalPaid,
+  totalPaidUsd: pledge.totalPaidUsd,
+  balance: pledge.balance,
+  balanceUsd: pledge.balanceUsd,
+  notes: pledge.notes,
+  categoryName: category.name,
+  categoryDescription: category.description,
+  progressPercentage: sql`CASE WHEN ${pledge.originalAmount}::numeric > 0 THEN ROUND((${pledge.totalPaid}::numeric / ${pledge.originalAmount}::numeric) * 100, 1) ELSE 0 END`,
+};
 
 export async function GET(
   request: NextRequest,
@@ -41,6 +64,11 @@ export async function GET(
   }
 
   try {
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+
     let query = db
       .select({
         id: pledge.id,
@@ -113,6 +141,15 @@ export async function GET(
       }
     }
 
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
+    if (filterCondition) {
+      conditions.push(filterCondition);
+    }
+
     // Apply conditions only if there are any
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
@@ -125,6 +162,7 @@ export async function GET(
 
     return NextResponse.json({ pledges });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error(error);
     return NextResponse.json(
       { error: "Failed to fetch pledges" },
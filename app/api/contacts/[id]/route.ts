@@ -1,8 +1,21 @@
 import { db } from "@/lib/db";
 import { contact, pledge, contactRoles, studentRoles } from "@/lib/db/schema";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { contactFormSchema } from "@/lib/form-schemas/contact";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import {
+  getContactDetails,
+  normalizeContactDetails,
+  primaryContactFields,
+  saveContactDetails,
+} from "@/lib/services/contact-details";
+import { getCreditBalances } from "@/lib/services/credits";
 import { eq, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
+// Fields left out are kept; a list that is sent replaces the old one whole
+const updateContactSchema = contactFormSchema.partial();
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -54,6 +67,15 @@ export async function GET(
       .from(pledge)
       .where(eq(pledge.contactId, contactId));
 
+    // Credit on account is kept per currency; the summary shows it in USD
+    const creditBalances = await getCreditBalances(db, contactId);
+    const creditBalanceUsd = creditBalances.reduce(
+      (total, row) => total + parseFloat(row.balanceUsd),
+      0
+    );
+
+    const details = await getContactDetails(db, contactId);
+
     const [roleCounts] = await db
       .select({
         totalContactRoles: sql<number>`COUNT(*)`.as("totalContactRoles"),
@@ -68,11 +90,16 @@ export async function GET(
         ...contactData.contact,
         contactRoles: contactData.contactRoles,
         studentRoles: contactData.studentRoles,
+        ...details,
       },
-      financialSummary: financialSummary || {
-        totalPledgedUsd: 0,
-        totalPaidUsd: 0,
-        currentBalanceUsd: 0,
+      financialSummary: {
+        ...(financialSummary || {
+          totalPledgedUsd: 0,
+          totalPaidUsd: 0,
+          currentBalanceUsd: 0,
+        }),
+        creditBalanceUsd,
+        creditBalances,
       },
       pagination: {
         page,
@@ -82,9 +109,10 @@ export async function GET(
       },
     };
 
+    // Not cached, as the contact can be edited from the page showing it
     return NextResponse.json(responseData, {
       status: 200,
-      headers: { "Cache-Control": "public, max-age=300" },
+      headers: { "Cache-Control": "private, no-cache" },
     });
   } catch (error) {
     console.error("Failed to fetch contact", {
@@ -98,3 +126,51 @@ export async function GET(
     );
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const contactId = parseInt(id, 10);
+    if (isNaN(contactId) || contactId <= 0) {
+      throw new HttpError(400, "Invalid contact ID");
+    }
+
+    const validatedData = updateContactSchema.parse(await request.json());
+    const details = normalizeContactDetails(validatedData);
+
+    const updated = await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(contact)
+        .where(eq(contact.id, contactId))
+        .for("update");
+      if (!before) throw new HttpError(404, "Contact not found");
+
+      const [after] = await tx
+        .update(contact)
+        .set({
+          firstName: validatedData.firstName,
+          lastName: validatedData.lastName,
+          title: validatedData.title,
+          gender: validatedData.gender,
+          ...primaryContactFields(details),
+          updatedAt: new Date(),
+        })
+        .where(eq(contact.id, contactId))
+        .returning();
+      await saveContactDetails(tx, contactId, details);
+      await recordAudit(tx, auditContext(request), "contact", before, after);
+      return after;
+    });
+
+    return NextResponse.json({
+      message: "Contact updated successfully",
+      contact: updated,
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+}
@@ -1,5 +1,6 @@
 import { db } from "@/lib/db";
 import { solicitor, contact } from "@/lib/db/schema";
+import { auditContext, recordAudit } from "@/lib/services/audit";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -148,29 +149,39 @@ export async function POST(
     }
 
     // Create new solicitor
-    const newSolicitor = await db
-      .insert(solicitor)
-      .values({
-        contactId,
-        solicitorCode: solicitorCode || null,
-        status,
-        commissionRate: commissionRate ? commissionRate.toString() : null,
-        hireDate: hireDate || null,
-        terminationDate: terminationDate || null,
-        notes: notes || null,
-      })
-      .returning({
-        id: solicitor.id,
-        contactId: solicitor.contactId,
-        solicitorCode: solicitor.solicitorCode,
-        status: solicitor.status,
-        commissionRate: solicitor.commissionRate,
-        hireDate: solicitor.hireDate,
-        terminationDate: solicitor.terminationDate,
-        notes: solicitor.notes,
-        createdAt: solicitor.createdAt,
-        updatedAt: solicitor.updatedAt,
-      });
+    const newSolicitor = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(solicitor)
+        .values({
+          contactId,
+          solicitorCode: solicitorCode || null,
+          status,
+          commissionRate: commissionRate ? commissionRate.toString() : null,
+          hireDate: hireDate || null,
+          terminationDate: terminationDate || null,
+          notes: notes || null,
+        })
+        .returning({
+          id: solicitor.id,
+          contactId: solicitor.contactId,
+          solicitorCode: solicitor.solicitorCode,
+          status: solicitor.status,
+          commissionRate: solicitor.commissionRate,
+          hireDate: solicitor.hireDate,
+          terminationDate: solicitor.terminationDate,
+          notes: solicitor.notes,
+          createdAt: solicitor.createdAt,
+          updatedAt: solicitor.updatedAt,
+        });
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "solicitor",
+        null,
+        created[0]
+      );
+      return created;
+    });
 
     // Get the complete solicitor data with contact information
     const solicitorWithContact = await db
@@ -254,7 +265,7 @@ export async function PUT(
 
     // Check if solicitor exists for this contact
     const existingSolicitor = await db
-      .select({ id: solicitor.id })
+      .select()
       .from(solicitor)
       .where(eq(solicitor.contactId, contactId))
       .limit(1);
@@ -283,32 +294,45 @@ export async function PUT(
     }
 
     // Update solicitor
-    const updatedSolicitor = await db
-      .update(solicitor)
-      .set({
-        solicitorCode: solicitorCode !== undefined ? solicitorCode : undefined,
-        status: status !== undefined ? status : undefined,
-        commissionRate:
-          commissionRate !== undefined ? commissionRate.toString() : undefined,
-        hireDate: hireDate !== undefined ? hireDate : undefined,
-        terminationDate:
-          terminationDate !== undefined ? terminationDate : undefined,
-        notes: notes !== undefined ? notes : undefined,
-        updatedAt: new Date(),
-      })
-      .where(eq(solicitor.contactId, contactId))
-      .returning({
-        id: solicitor.id,
-        contactId: solicitor.contactId,
-        solicitorCode: solicitor.solicitorCode,
-        status: solicitor.status,
-        commissionRate: solicitor.commissionRate,
-        hireDate: solicitor.hireDate,
-        terminationDate: solicitor.terminationDate,
-        notes: solicitor.notes,
-        createdAt: solicitor.createdAt,
-        updatedAt: solicitor.updatedAt,
-      });
+    const updatedSolicitor = await db.transaction(async (tx) => {
+      const result = await tx
+        .update(solicitor)
+        .set({
+          solicitorCode:
+            solicitorCode !== undefined ? solicitorCode : undefined,
+          status: status !== undefined ? status : undefined,
+          commissionRate:
+            commissionRate !== undefined
+              ? commissionRate.toString()
+              : undefined,
+          hireDate: hireDate !== undefined ? hireDate : undefined,
+          terminationDate:
+            terminationDate !== undefined ? terminationDate : undefined,
+          notes: notes !== undefined ? notes : undefined,
+          updatedAt: new Date(),
+        })
+        .where(eq(solicitor.contactId, contactId))
+        .returning({
+          id: solicitor.id,
+          contactId: solicitor.contactId,
+          solicitorCode: solicitor.solicitorCode,
+          status: solicitor.status,
+          commissionRate: solicitor.commissionRate,
+          hireDate: solicitor.hireDate,
+          terminationDate: solicitor.terminationDate,
+          notes: solicitor.notes,
+          createdAt: solicitor.createdAt,
+          updatedAt: solicitor.updatedAt,
+        });
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "solicitor",
+        existingSolicitor[0],
+        result[0]
+      );
+      return result;
+    });
 
     // Get the complete solicitor data with contact information
     const solicitorWithContact = await db
@@ -361,7 +385,7 @@ export async function DELETE(
   try {
     // Check if solicitor exists for this contact
     const existingSolicitor = await db
-      .select({ id: solicitor.id })
+      .select()
       .from(solicitor)
       .where(eq(solicitor.contactId, contactId))
       .limit(1);
@@ -374,7 +398,16 @@ export async function DELETE(
     }
 
     // Delete solicitor (this will cascade delete bonus rules and calculations)
-    await db.delete(solicitor).where(eq(solicitor.contactId, contactId));
+    await db.transaction(async (tx) => {
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "solicitor",
+        existingSolicitor[0],
+        null
+      );
+      await tx.delete(solicitor).where(eq(solicitor.contactId, contactId));
+    });
 
     return NextResponse.json({
       message: "Solicitor deleted successfully",
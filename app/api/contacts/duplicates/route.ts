@@ -0,0 +1,47 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { findDuplicateContacts } from "@/lib/services/contact-duplicates";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  minScore: z.number().min(0).max(1).default(0.6),
+  limit: z.number().int().min(1).max(500).default(100),
+  contactId: z.number().int().positive().optional(),
+});
+
+// Pairs of contacts that look like the same person, for review before merging
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = QueryParamsSchema.parse({
+      minScore: searchParams.get("minScore")
+        ? parseFloat(searchParams.get("minScore")!)
+        : undefined,
+      limit: searchParams.get("limit")
+        ? parseInt(searchParams.get("limit")!, 10)
+        : undefined,
+      contactId: searchParams.get("contactId")
+        ? parseInt(searchParams.get("contactId")!, 10)
+        : undefined,
+    });
+
+    const duplicates = await findDuplicateContacts(params);
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error finding duplicate contacts:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { eq, sql, desc, asc, like, or, ilike } from "drizzle-orm";
+import { and, eq, sql, desc, asc, like, or, ilike, exists } from "drizzle-orm";
 import type {
   Column,
   ColumnBaseConfig,
@@ -9,6 +9,9 @@ import type {
 } from "drizzle-orm";
 import {
   contact,
+  contactAddress,
+  contactEmail,
+  contactPhone,
   pledge,
   studentRoles,
   contactRoles,
@@ -17,7 +20,18 @@ import {
 } from "@/lib/db/schema";
 import { z } from "zod";
 import { contactFormSchema } from "@/lib/form-schemas/contact";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import {
+  normalizeContactDetails,
+  primaryContactFields,
+  saveContactDetails,
+} from "@/lib/services/contact-details";
 
 interface ContactResponse {
   id: number;
@@ -39,6 +53,80 @@ interface ContactResponse {
   lastPaymentDate: Date | null;
 }
 
+// Totals are summed per contact, so they are filtered through subqueries;
+// role columns come from the joins the count query repeats
+const filterableColumns: FilterableColumns = {
+  id: contact.id,
+  firstName: contact.firstName,
+  lastName: contact.lastName,
+  email: contact.email,
+  phone: contact.phone,
+  title: contact.title,
+  gender: contact.gender,
+  address: contact.address,
+  createdAt: contact.createdAt,
+  updatedAt: contact.updatedAt,
+  totalPledgedUsd: sql`(SELECT COALESCE(SUM(${pledge.originalAmountUsd}), 0) FROM ${pledge} WHERE ${pledge.contactId} = ${contact.id})`,
+  totalPaidUsd: sql`(SELECT COALESCE(SUM(${pledge.totalPaidUsd}), 0) FROM ${pledge} WHERE ${pledge.contactId} = ${contact.id})`,
+  currentBalanceUsd: sql`(SELECT COALESCE(SUM(${pledge.balanceUsd}), 0) FROM ${pledge} WHERE ${pledge.contactId} = ${contact.id})`,
+  studentProgram: studentRoles.program,
+  studentStatus: studentRoles.status,
+  roleName: contactRoles.roleName,
+  lastPaymentDate: sql`(SELECT MAX(${payment.paymentDate}) FROM ${payment} INNER JOIN ${pledge} ON ${payment.pledgeId} = ${pledge.id} WHERE ${pledge.contactId} = ${contact.id})`,
+};
+
+// Matches the name or any of the contact's emails, phones or addresses.
+// Phones are compared on digits alone, so "(555) 123" finds 555-1234.
+function searchCondition(search: string) {
+  const pattern = `%${search}%`;
+  const digits = search.replace(/\D/g, "");
+  return or(
+    ilike(contact.firstName, pattern),
+    ilike(contact.lastName, pattern),
+    ilike(contact.email, pattern),
+    like(contact.phone, pattern),
+    exists(
+      db
+        .select({ id: contactEmail.id })
+        .from(contactEmail)
+        .where(
+          and(
+            eq(contactEmail.contactId, contact.id),
+            ilike(contactEmail.email, pattern)
+          )
+        )
+    ),
+    digits.length >= 3
+      ? exists(
+          db
+            .select({ id: contactPhone.id })
+            .from(contactPhone)
+            .where(
+              and(
+                eq(contactPhone.contactId, contact.id),
+                sql`regexp_replace(COALESCE(${contactPhone.countryCode}, '') || ${contactPhone.number}, '[^0-9]', '', 'g') LIKE ${`%${digits}%`}`
+              )
+            )
+        )
+      : undefined,
+    exists(
+      db
+        .select({ id: contactAddress.id })
+        .from(contactAddress)
+        .where(
+          and(
+            eq(contactAddress.contactId, contact.id),
+            or(
+              ilike(contactAddress.street, pattern),
+              ilike(contactAddress.city, pattern),
+              ilike(contactAddress.postalCode, pattern)
+            )
+          )
+        )
+    )
+  );
+}
+
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(10),
@@ -69,6 +157,10 @@ export async function GET(request: NextRequest) {
 
     const { page, limit, search, sortBy, sortOrder } = parsedParams.data;
     const offset = (page - 1) * limit;
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     const selectedFields = {
       id: contact.id,
@@ -99,14 +191,10 @@ export async function GET(request: NextRequest) {
       ),
     };
 
-    const whereClause = search
-      ? or(
-          ilike(contact.firstName, `%${search}%`),
-          ilike(contact.lastName, `%${search}%`),
-          ilike(contact.email, `%${search}%`),
-          like(contact.phone, `%${search}%`)
-        )
-      : undefined;
+    const whereClause = and(
+      search ? searchCondition(search) : undefined,
+      filterColumns({ columns: filterableColumns, filters, joinOperator })
+    );
 
     const query = db
       .select(selectedFields)
@@ -162,6 +250,8 @@ export async function GET(request: NextRequest) {
         count: sql<number>`count(distinct ${contact.id})`.as("count"),
       })
       .from(contact)
+      .leftJoin(studentRoles, eq(contact.id, studentRoles.contactId))
+      .leftJoin(contactRoles, eq(contact.id, contactRoles.contactId))
       .where(whereClause);
 
     const [contacts, totalCountResult] = await Promise.all([
@@ -186,6 +276,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching contacts:", error);
     return NextResponse.json(
       {
@@ -201,17 +292,21 @@ export async function POST(request: Request) {
   try {
     const body = await request.json();
     const validatedData = contactFormSchema.parse(body);
+    const details = normalizeContactDetails(validatedData);
     const newContact: NewContact = {
       firstName: validatedData.firstName,
       lastName: validatedData.lastName,
-      email: validatedData.email,
-      phone: validatedData.phone,
       title: validatedData.title,
       gender: validatedData.gender,
-      address: validatedData.address,
+      ...primaryContactFields(details),
     };
 
-    const result = await db.insert(contact).values(newContact).returning();
+    const result = await db.transaction(async (tx) => {
+      const created = await tx.insert(contact).values(newContact).returning();
+      await saveContactDetails(tx, created[0].id, details);
+      await recordAudit(tx, auditContext(request), "contact", null, created[0]);
+      return created;
+    });
 
     return NextResponse.json(
       {
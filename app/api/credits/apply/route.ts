@@ -0,0 +1,57 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { applyCredit } from "@/lib/services/credits";
+import { format } from "date-fns";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const applyCreditSchema = z.object({
+  contactId: z.number().positive(),
+  pledgeId: z.number().positive(),
+  amount: z.number().positive("Amount must be positive").optional(),
+  creditDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .optional(),
+  notes: z.string().optional(),
+});
+
+// Applies credit on the contact's account to one of their pledges, by default
+// as much as the pledge balance takes
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { contactId, ...validatedData } = applyCreditSchema.parse(body);
+
+    const result = await applyCredit(
+      contactId,
+      {
+        ...validatedData,
+        creditDate:
+          validatedData.creditDate ?? format(new Date(), "yyyy-MM-dd"),
+      },
+      auditContext(request)
+    );
+
+    return NextResponse.json(
+      { message: "Credit applied to pledge", ...result },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error applying credit:", error);
+    return ErrorHandler.handle(error);
+  }
+}
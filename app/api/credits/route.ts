@@ -0,0 +1,97 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  getContactCredits,
+  getCreditBalances,
+  recordUnappliedPayment,
+} from "@/lib/services/credits";
+import { CURRENCIES } from "@/lib/services/exchange-rates";
+import { format } from "date-fns";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const unappliedPaymentSchema = z.object({
+  contactId: z.number().positive(),
+  amount: z.number().positive("Amount must be positive"),
+  currency: z.enum(CURRENCIES),
+  creditDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .optional(),
+  paymentMethod: z
+    .enum([
+      "credit_card",
+      "cash",
+      "check",
+      "bank_transfer",
+      "paypal",
+      "wire_transfer",
+      "other",
+    ])
+    .optional(),
+  referenceNumber: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// A contact's credit balances per currency and the entries behind them
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const contactId = parseInt(searchParams.get("contactId") || "", 10);
+    if (isNaN(contactId) || contactId <= 0) {
+      return NextResponse.json(
+        { error: "A valid contactId is required" },
+        { status: 400 }
+      );
+    }
+
+    const [balances, credits] = await Promise.all([
+      getCreditBalances(db, contactId),
+      getContactCredits(db, contactId),
+    ]);
+
+    return NextResponse.json({ balances, credits });
+  } catch (error) {
+    console.error("Error fetching credits:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Records money received that has no pledge to go to yet
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = unappliedPaymentSchema.parse(body);
+
+    const credit = await recordUnappliedPayment(
+      {
+        ...validatedData,
+        creditDate:
+          validatedData.creditDate ?? format(new Date(), "yyyy-MM-dd"),
+      },
+      auditContext(request)
+    );
+
+    return NextResponse.json(
+      { message: "Unapplied payment recorded as credit", credit },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error recording unapplied payment:", error);
+    return ErrorHandler.handle(error);
+  }
+}
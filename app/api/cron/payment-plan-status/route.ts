@@ -0,0 +1,57 @@
+import { authenticateCron } from "@/lib/auth/cron";
+import { ErrorHandler } from "@/lib/error-handler";
+import { renewCompletedPlans } from "@/lib/services/plan-renewal";
+import { runPlanStatusJob } from "@/lib/services/plan-status";
+import { deliverWebhooksAfterResponse } from "@/lib/services/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const querySchema = z.object({
+  asOf: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be formatted as yyyy-MM-dd")
+    .optional(),
+  graceDays: z.coerce.number().int().min(0).max(90).optional(),
+});
+
+// Moves payment plans to overdue, completed or back to active from their
+// schedule and payments, then renews completed auto-renew plans for the next
+// period. Safe to run as often as wanted; daily is enough.
+export async function GET(request: NextRequest) {
+  try {
+    authenticateCron(request);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = querySchema.safeParse({
+      asOf: searchParams.get("asOf") ?? undefined,
+      graceDays:
+        searchParams.get("graceDays") ??
+        process.env.PLAN_OVERDUE_GRACE_DAYS ??
+        undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await runPlanStatusJob(parsed.data);
+    const renewal = await renewCompletedPlans();
+    deliverWebhooksAfterResponse();
+    return NextResponse.json({
+      ...result,
+      renewals: renewal.renewals,
+      renewalErrors: renewal.errors,
+    });
+  } catch (error) {
+    console.error("Error updating payment plan statuses:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { authenticateCron } from "@/lib/auth/cron";
+import { ErrorHandler } from "@/lib/error-handler";
+import { runReminderJob } from "@/lib/services/reminders";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const querySchema = z.object({
+  asOf: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be formatted as yyyy-MM-dd")
+    .optional(),
+});
+
+// Sends the payment reminders due today. Meant to run once a day, after the
+// payment plan status job; a second run the same day sends nothing new.
+export async function GET(request: NextRequest) {
+  try {
+    authenticateCron(request);
+
+    const { searchParams } = new URL(request.url);
+    const parsed = querySchema.safeParse({
+      asOf: searchParams.get("asOf") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await runReminderJob(parsed.data);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error sending payment reminders:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { authenticateCron } from "@/lib/auth/cron";
+import { ErrorHandler } from "@/lib/error-handler";
+import { deliverDueWebhooks } from "@/lib/services/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// Retries webhook deliveries that failed or were never picked up after the
+// request that queued them. Meant to run every minute or so.
+export async function GET(request: NextRequest) {
+  try {
+    authenticateCron(request);
+    const result = await deliverDueWebhooks();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error delivering webhooks:", error);
+    return ErrorHandler.handle(error);
+  }
+}
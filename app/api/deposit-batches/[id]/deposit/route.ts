@@ -0,0 +1,51 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { markBatchDeposited } from "@/lib/services/deposit-batches";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const depositSchema = z.object({
+  depositDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .optional(),
+});
+
+// Locks the batch once it has been taken to the bank
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseInt((await params).id, 10);
+    if (isNaN(batchId) || batchId <= 0) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = depositSchema.parse(body);
+
+    const batch = await markBatchDeposited(
+      batchId,
+      validatedData,
+      auditContext(request)
+    );
+    return NextResponse.json({ message: "Batch marked as deposited", batch });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error depositing batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  addPaymentsToBatch,
+  removePaymentsFromBatch,
+} from "@/lib/services/deposit-batches";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const batchPaymentsSchema = z.object({
+  paymentIds: z
+    .array(z.number().int().positive())
+    .min(1, "Choose at least one payment"),
+});
+
+function parseBatchId(id: string): number | null {
+  const batchId = parseInt(id, 10);
+  return isNaN(batchId) || batchId <= 0 ? null : batchId;
+}
+
+function validationResponse(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: "Validation failed",
+      details: error.issues.map((issue) => ({
+        field: issue.path.join("."),
+        message: issue.message,
+      })),
+    },
+    { status: 400 }
+  );
+}
+
+// Adds checks to an open batch
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseBatchId((await params).id);
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const { paymentIds } = batchPaymentsSchema.parse(await request.json());
+    const payments = await addPaymentsToBatch(
+      batchId,
+      paymentIds,
+      auditContext(request)
+    );
+    return NextResponse.json({
+      message: `${payments.length} payment${payments.length === 1 ? "" : "s"} added to the batch`,
+      payments,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationResponse(error);
+
+    console.error("Error adding payments to deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Takes checks back out of an open batch
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseBatchId((await params).id);
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const { paymentIds } = batchPaymentsSchema.parse(await request.json());
+    await removePaymentsFromBatch(batchId, paymentIds, auditContext(request));
+    return NextResponse.json({ message: "Payments removed from the batch" });
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationResponse(error);
+
+    console.error("Error removing payments from deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,57 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { reconcileDepositBatch } from "@/lib/services/deposit-batches";
+import { CURRENCIES } from "@/lib/services/exchange-rates";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const reconcileSchema = z.object({
+  bankTotals: z
+    .array(
+      z.object({
+        currency: z.enum(CURRENCIES),
+        amount: z.number().nonnegative(),
+      })
+    )
+    .min(1, "Enter the amount the bank shows for the deposit"),
+  bankReference: z.string().optional(),
+});
+
+// Matches a deposited batch against the bank statement
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseInt((await params).id, 10);
+    if (isNaN(batchId) || batchId <= 0) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = reconcileSchema.parse(body);
+
+    const batch = await reconcileDepositBatch(
+      batchId,
+      validatedData,
+      auditContext(request)
+    );
+    return NextResponse.json({ message: "Batch reconciled", batch });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error reconciling deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,105 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  deleteDepositBatch,
+  getDepositBatch,
+  updateDepositBatch,
+} from "@/lib/services/deposit-batches";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateBatchSchema = z.object({
+  depositDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .optional(),
+  bankAccount: z.string().trim().min(1, "Bank account is required").optional(),
+  notes: z.string().optional(),
+});
+
+function parseBatchId(id: string): number | null {
+  const batchId = parseInt(id, 10);
+  return isNaN(batchId) || batchId <= 0 ? null : batchId;
+}
+
+// The batch with its totals and the payments in it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseBatchId((await params).id);
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const detail = await getDepositBatch(db, batchId);
+    if (!detail) {
+      return NextResponse.json(
+        { error: "Deposit batch not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("Error fetching deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseBatchId((await params).id);
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateBatchSchema.parse(body);
+
+    const batch = await updateDepositBatch(
+      batchId,
+      validatedData,
+      auditContext(request)
+    );
+    return NextResponse.json({ message: "Deposit batch updated", batch });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseBatchId((await params).id);
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    await deleteDepositBatch(batchId, auditContext(request));
+    return NextResponse.json({ message: "Deposit batch deleted" });
+  } catch (error) {
+    console.error("Error deleting deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  getDepositBatch,
+  renderDepositSlipPdf,
+} from "@/lib/services/deposit-batches";
+import { NextRequest, NextResponse } from "next/server";
+
+// The printable deposit slip summary for a batch
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const batchId = parseInt((await params).id, 10);
+    if (isNaN(batchId) || batchId <= 0) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+    }
+
+    const detail = await getDepositBatch(db, batchId);
+    if (!detail) {
+      return NextResponse.json(
+        { error: "Deposit batch not found" },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await renderDepositSlipPdf(detail);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="deposit-slip-${batchId}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering deposit slip:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,90 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  createDepositBatch,
+  listDepositBatches,
+} from "@/lib/services/deposit-batches";
+import { format } from "date-fns";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  status: z.enum(["open", "deposited", "reconciled"]).optional(),
+});
+
+const createBatchSchema = z.object({
+  depositDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .optional(),
+  bankAccount: z.string().trim().min(1, "Bank account is required"),
+  notes: z.string().optional(),
+  paymentIds: z.array(z.number().int().positive()).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = QueryParamsSchema.parse({
+      status: searchParams.get("status") || undefined,
+    });
+
+    const batches = await listDepositBatches(db, params);
+    return NextResponse.json({ batches });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching deposit batches:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Opens a batch, optionally with the checks that go into it
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = createBatchSchema.parse(body);
+
+    const batch = await createDepositBatch(
+      {
+        ...validatedData,
+        depositDate:
+          validatedData.depositDate ?? format(new Date(), "yyyy-MM-dd"),
+      },
+      auditContext(request)
+    );
+
+    return NextResponse.json(
+      { message: "Deposit batch created", batch },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { listUndepositedChecks } from "@/lib/services/deposit-batches";
+import { NextResponse } from "next/server";
+
+// Completed checks waiting to go into a deposit batch
+export async function GET() {
+  try {
+    const payments = await listUndepositedChecks(db);
+    return NextResponse.json({ payments });
+  } catch (error) {
+    console.error("Error fetching undeposited checks:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,57 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  parseExchangeRateCsv,
+  upsertExchangeRates,
+} from "@/lib/services/exchange-rates";
+import { NextRequest, NextResponse } from "next/server";
+
+// Accepts the CSV as the raw request body or as a "file" form field. Nothing
+// is stored unless every row is valid.
+export async function POST(request: NextRequest) {
+  try {
+    let csv: string;
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const file = (await request.formData()).get("file");
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: "A CSV file is required" },
+          { status: 400 }
+        );
+      }
+      csv = await file.text();
+    } else {
+      csv = await request.text();
+    }
+
+    const { rates, errors } = parseExchangeRateCsv(csv);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: errors.map((error) => ({
+            field: `line ${error.line}`,
+            message: error.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (rates.length === 0) {
+      return NextResponse.json(
+        { error: "The CSV contains no rates" },
+        { status: 400 }
+      );
+    }
+
+    const count = await upsertExchangeRates(db, rates, "csv");
+
+    return NextResponse.json(
+      { message: "Exchange rates imported successfully", count },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error importing exchange rates:", error);
+    return ErrorHandler.handle(error);
+  }
+}
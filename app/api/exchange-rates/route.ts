@@ -0,0 +1,94 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  CURRENCIES,
+  resolveRates,
+  upsertExchangeRates,
+} from "@/lib/services/exchange-rates";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const manualRatesSchema = z.object({
+  rates: z
+    .array(
+      z.object({
+        date: dateSchema,
+        currency: z.enum(CURRENCIES),
+        rateToUsd: z.number().positive("Rate must be positive"),
+      })
+    )
+    .min(1, "At least one rate is required"),
+});
+
+// Rates for a date as the server will apply them, keyed by currency. Used by
+// the forms to preview USD amounts; the server recomputes them on save.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = dateSchema.parse(
+      searchParams.get("date") || new Date().toISOString().split("T")[0]
+    );
+
+    const resolved = await resolveRates(db, date);
+    const rates: Record<string, string> = {};
+    const rateDates: Record<string, string> = {};
+    for (const [currency, rate] of Object.entries(resolved)) {
+      rates[currency] = rate.rateToUsd.toString();
+      rateDates[currency] = rate.date;
+    }
+
+    return NextResponse.json({
+      data: { currency: "USD", date, rates, rateDates },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching exchange rates:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { rates } = manualRatesSchema.parse(body);
+
+    const count = await upsertExchangeRates(db, rates, "manual");
+
+    return NextResponse.json(
+      { message: "Exchange rates saved successfully", count },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error saving exchange rates:", error);
+    return ErrorHandler.handle(error);
+  }
+}
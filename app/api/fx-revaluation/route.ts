@@ -0,0 +1,46 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { CURRENCIES } from "@/lib/services/exchange-rates";
+import { buildRevaluationReport } from "@/lib/services/fx-revaluation";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  asOf: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  currency: z.enum(CURRENCIES).optional(),
+  contactId: z.coerce.number().positive().optional(),
+  includeClosed: z.boolean().default(false),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = QueryParamsSchema.parse({
+      asOf: searchParams.get("asOf") || new Date().toISOString().split("T")[0],
+      currency: searchParams.get("currency") || undefined,
+      contactId: searchParams.get("contactId") || undefined,
+      includeClosed: searchParams.get("includeClosed") === "true",
+    });
+
+    const report = await buildRevaluationReport(db, filters);
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error building FX revaluation report:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,125 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  deleteHousehold,
+  getHousehold,
+  updateHousehold,
+} from "@/lib/services/households";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// Fields left out are kept; a member list that is sent replaces the old one
+const updateHouseholdSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  street: z.string().nullish(),
+  street2: z.string().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  postalCode: z.string().nullish(),
+  country: z.string().nullish(),
+  notes: z.string().nullish(),
+  members: z
+    .array(
+      z.object({
+        contactId: z.number().int().positive(),
+        role: z.enum(["head", "spouse", "child", "other"]),
+      })
+    )
+    .optional(),
+});
+
+function parseHouseholdId(id: string): number | null {
+  const householdId = parseInt(id, 10);
+  return isNaN(householdId) || householdId <= 0 ? null : householdId;
+}
+
+// The household with its members, their students and the giving of all of them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const householdId = parseHouseholdId((await params).id);
+    if (!householdId) {
+      return NextResponse.json(
+        { error: "Invalid household ID" },
+        { status: 400 }
+      );
+    }
+
+    const detail = await getHousehold(db, householdId);
+    if (!detail) {
+      return NextResponse.json(
+        { error: "Household not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("Error fetching household:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const householdId = parseHouseholdId((await params).id);
+    if (!householdId) {
+      return NextResponse.json(
+        { error: "Invalid household ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateHouseholdSchema.parse(body);
+
+    const household = await updateHousehold(
+      householdId,
+      validatedData,
+      auditContext(request)
+    );
+    return NextResponse.json({ message: "Household updated", household });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating household:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const householdId = parseHouseholdId((await params).id);
+    if (!householdId) {
+      return NextResponse.json(
+        { error: "Invalid household ID" },
+        { status: 400 }
+      );
+    }
+
+    await deleteHousehold(householdId, auditContext(request));
+    return NextResponse.json({ message: "Household deleted" });
+  } catch (error) {
+    console.error("Error deleting household:", error);
+    return ErrorHandler.handle(error);
+  }
+}
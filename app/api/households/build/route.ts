@@ -0,0 +1,42 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { buildHouseholds } from "@/lib/services/households";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const buildSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+// Groups contacts into households from their spouse and parent
+// relationships; a dry run only reports what it would do
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validatedData = buildSchema.parse(body);
+
+    const result = await buildHouseholds(auditContext(request), validatedData);
+    return NextResponse.json({
+      message: validatedData.dryRun
+        ? "Households previewed"
+        : "Households built",
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error building households:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,90 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { createHousehold, listHouseholds } from "@/lib/services/households";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  search: z.string().trim().optional(),
+});
+
+const createHouseholdSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  street: z.string().nullish(),
+  street2: z.string().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  postalCode: z.string().nullish(),
+  country: z.string().nullish(),
+  notes: z.string().nullish(),
+  members: z
+    .array(
+      z.object({
+        contactId: z.number().int().positive(),
+        role: z.enum(["head", "spouse", "child", "other"]),
+      })
+    )
+    .optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = QueryParamsSchema.parse({
+      search: searchParams.get("search") || undefined,
+    });
+
+    const households = await listHouseholds(db, params);
+    return NextResponse.json({ households });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching households:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = createHouseholdSchema.parse(body);
+
+    const household = await createHousehold(
+      validatedData,
+      auditContext(request)
+    );
+
+    return NextResponse.json(
+      { message: "Household created", household },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating household:", error);
+    return ErrorHandler.handle(error);
+  }
+}
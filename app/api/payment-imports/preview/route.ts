@@ -0,0 +1,75 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { CURRENCIES } from "@/lib/services/exchange-rates";
+import {
+  DATE_FORMATS,
+  IMPORT_FIELDS,
+  IMPORT_SOURCES,
+  matchPaymentImport,
+  parsePaymentImport,
+} from "@/lib/services/payment-import";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const previewSchema = z.object({
+  source: z.enum(IMPORT_SOURCES),
+  csv: z.string().min(1, "The CSV file is empty"),
+  mapping: z.record(z.enum(IMPORT_FIELDS), z.string()).optional(),
+  dateFormat: z.enum(DATE_FORMATS).optional(),
+  defaultCurrency: z.enum(CURRENCIES).optional(),
+});
+
+// Parses an export and suggests a pledge for each line. Nothing is stored;
+// the confirmed lines are sent back to POST /api/payment-imports.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { csv, ...options } = previewSchema.parse(body);
+
+    const parsed = parsePaymentImport(csv, options);
+    if (!parsed.mapping.date || !parsed.mapping.amount) {
+      return NextResponse.json(
+        {
+          error: "Choose the date and amount columns",
+          headers: parsed.headers,
+          mapping: parsed.mapping,
+        },
+        { status: 400 }
+      );
+    }
+
+    const lines = await matchPaymentImport(db, parsed.lines);
+    const summary = {
+      total: lines.length,
+      matched: lines.filter((line) => line.status === "matched").length,
+      unmatched: lines.filter((line) => line.status === "unmatched").length,
+      duplicate: lines.filter((line) => line.status === "duplicate").length,
+      skipped: lines.filter((line) => line.status === "skipped").length,
+      invalid: lines.filter((line) => line.status === "invalid").length,
+    };
+
+    return NextResponse.json({
+      headers: parsed.headers,
+      mapping: parsed.mapping,
+      dateFormat: parsed.dateFormat,
+      lines,
+      summary,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error previewing payment import:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { CURRENCIES } from "@/lib/services/exchange-rates";
+import {
+  IMPORT_SOURCES,
+  postPaymentImport,
+} from "@/lib/services/payment-import";
+import { deliverWebhooksAfterResponse } from "@/lib/services/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const confirmedLineSchema = z
+  .object({
+    lineNumber: z.number().int().positive(),
+    paymentDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Payment date must be YYYY-MM-DD"),
+    amount: z.number().positive("Amount must be positive"),
+    currency: z.enum(CURRENCIES),
+    reference: z.string().optional(),
+    description: z.string().optional(),
+    pledgeId: z.number().positive().optional(),
+    paymentPlanId: z.number().positive().nullable().optional(),
+    contactId: z.number().positive().optional(),
+  })
+  .refine((line) => line.pledgeId || line.contactId, {
+    message: "Each line needs a pledge, or a contact to hold it as credit",
+    path: ["pledgeId"],
+  });
+
+const postImportSchema = z.object({
+  source: z.enum(IMPORT_SOURCES),
+  lines: z.array(confirmedLineSchema).min(1, "No lines were confirmed"),
+});
+
+// Posts the lines confirmed on the review screen. Each line succeeds or fails
+// on its own, and the response reports every one.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { source, lines } = postImportSchema.parse(body);
+
+    const results = await postPaymentImport(
+      db,
+      source,
+      lines,
+      auditContext(request)
+    );
+    deliverWebhooksAfterResponse();
+
+    const failed = results.filter((result) => result.status === "failed");
+    return NextResponse.json(
+      {
+        message:
+          failed.length === 0
+            ? `Imported ${results.length} line${results.length === 1 ? "" : "s"}`
+            : `Imported ${results.length - failed.length} of ${results.length} lines`,
+        results,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error importing payments:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { db } from "@/lib/db";
+import { paymentPlan, paymentPlanInstallment } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { asc, eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const planId = parseInt(id, 10);
+    if (isNaN(planId) || planId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid payment plan ID" },
+        { status: 400 }
+      );
+    }
+
+    const [plan] = await db
+      .select({ id: paymentPlan.id })
+      .from(paymentPlan)
+      .where(eq(paymentPlan.id, planId))
+      .limit(1);
+    if (!plan) {
+      return NextResponse.json(
+        { error: "Payment plan not found" },
+        { status: 404 }
+      );
+    }
+
+    const installments = await db
+      .select()
+      .from(paymentPlanInstallment)
+      .where(eq(paymentPlanInstallment.paymentPlanId, planId))
+      .orderBy(asc(paymentPlanInstallment.installmentNumber));
+
+    return NextResponse.json({ installments });
+  } catch (error) {
+    console.error("Error fetching installments:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { db } from "@/lib/db";
+import {
+  paymentPlan,
+  paymentReminder,
+  reminderTemplate,
+} from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { desc, eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const planId = parseInt(id, 10);
+    if (isNaN(planId) || planId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid payment plan ID" },
+        { status: 400 }
+      );
+    }
+
+    const [plan] = await db
+      .select({ id: paymentPlan.id })
+      .from(paymentPlan)
+      .where(eq(paymentPlan.id, planId))
+      .limit(1);
+    if (!plan) {
+      return NextResponse.json(
+        { error: "Payment plan not found" },
+        { status: 404 }
+      );
+    }
+
+    const reminders = await db
+      .select({
+        id: paymentReminder.id,
+        installmentId: paymentReminder.installmentId,
+        templateId: paymentReminder.templateId,
+        templateName: reminderTemplate.name,
+        channel: paymentReminder.channel,
+        recipient: paymentReminder.recipient,
+        subject: paymentReminder.subject,
+        body: paymentReminder.body,
+        dueDate: paymentReminder.dueDate,
+        status: paymentReminder.status,
+        transport: paymentReminder.transport,
+        error: paymentReminder.error,
+        createdAt: paymentReminder.createdAt,
+      })
+      .from(paymentReminder)
+      .leftJoin(
+        reminderTemplate,
+        eq(paymentReminder.templateId, reminderTemplate.id)
+      )
+      .where(eq(paymentReminder.paymentPlanId, planId))
+      .orderBy(desc(paymentReminder.createdAt), desc(paymentReminder.id));
+
+    return NextResponse.json({ reminders });
+  } catch (error) {
+    console.error("Error fetching payment reminders:", error);
+    return ErrorHandler.handle(error);
+  }
+}
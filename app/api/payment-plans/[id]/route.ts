@@ -1,8 +1,36 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { db } from "@/lib/db";
 import { paymentPlan, pledge } from "@/lib/db/schema";
-import { ErrorHandler } from "@/lib/error-handler";
-import { eq, desc, or, ilike, and, SQL, sql } from "drizzle-orm";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { regenerateInstallments } from "@/lib/services/installments";
+import { recordPlanStatusChange } from "@/lib/services/plan-status";
+import { syncPaymentPlanTotals } from "@/lib/services/ledger";
+import {
+  buildCustomSchedule,
+  buildSchedule,
+  validateCustomSchedule,
+  validateInstallmentPlan,
+} from "@/lib/payment-schedule";
+import {
+  deliverWebhooksAfterResponse,
+  emitWebhookEvent,
+} from "@/lib/services/webhooks";
+import {
+  eq,
+  desc,
+  or,
+  ilike,
+  and,
+  SQL,
+  sql,
+  getTableColumns,
+} from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -24,6 +52,11 @@ const QueryParamsSchema = z.object({
 
 type QueryParams = z.infer<typeof QueryParamsSchema>;
 
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(paymentPlan),
+  exchangeRate: sql`(SELECT ${pledge.exchangeRate} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`,
+};
+
 const updatePaymentPlanSchema = z.object({
   planName: z.string().optional(),
   frequency: z
@@ -57,11 +90,21 @@ const updatePaymentPlanSchema = z.object({
   endDate: z.string().optional(),
   nextPaymentDate: z.string().optional(),
   autoRenew: z.boolean().optional(),
+  renewWithNewPledge: z.boolean().optional(),
   planStatus: z
     .enum(["active", "completed", "cancelled", "paused", "overdue"])
     .optional(),
   notes: z.string().optional(),
   internalNotes: z.string().optional(),
+  // Replaces a custom plan's installments
+  customSchedule: z
+    .array(
+      z.object({
+        dueDate: z.string().min(1, "Due date is required"),
+        amount: z.number().positive("Installment amount must be positive"),
+      })
+    )
+    .optional(),
 });
 
 export async function GET(
@@ -81,6 +124,10 @@ export async function GET(
     });
 
     const { pledgeId, page, limit, search, planStatus } = queryParams;
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     let query = db
       .select({
@@ -101,6 +148,8 @@ export async function GET(
         remainingAmount: paymentPlan.remainingAmount,
         planStatus: paymentPlan.planStatus,
         autoRenew: paymentPlan.autoRenew,
+        renewWithNewPledge: paymentPlan.renewWithNewPledge,
+        renewedFromPlanId: paymentPlan.renewedFromPlanId,
         remindersSent: paymentPlan.remindersSent,
         lastReminderDate: paymentPlan.lastReminderDate,
         isActive: paymentPlan.isActive,
@@ -114,10 +163,9 @@ export async function GET(
         )`.as("exchangeRate"),
       })
       .from(paymentPlan)
-      .where(eq(paymentPlan.pledgeId, pledgeId))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [eq(paymentPlan.pledgeId, pledgeId)];
 
     if (planStatus) {
       conditions.push(eq(paymentPlan.planStatus, planStatus));
@@ -137,10 +185,17 @@ export async function GET(
       conditions.push(or(...searchConditions)!);
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
+    if (filterCondition) {
+      conditions.push(filterCondition);
     }
 
+    query = query.where(and(...conditions));
+
     const offset = (page - 1) * limit;
     query = query
       .limit(limit)
@@ -153,11 +208,12 @@ export async function GET(
       { paymentPlans },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-store",
         },
       }
     );
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error(error);
     return NextResponse.json(
       { error: "Failed to fetch payment plans" },
@@ -195,7 +251,16 @@ export async function DELETE(
     }
 
     // Delete the payment plan
-    await db.delete(paymentPlan).where(eq(paymentPlan.id, planId));
+    await db.transaction(async (tx) => {
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "payment_plan",
+        existingPlan[0],
+        null
+      );
+      await tx.delete(paymentPlan).where(eq(paymentPlan.id, planId));
+    });
 
     return NextResponse.json({
       message: "Payment plan deleted successfully",
@@ -240,7 +305,7 @@ export async function PATCH(
 
     // Prepare update data
     const updateData: any = {
-      updatedAt: new Date().toISOString(),
+      updatedAt: new Date(),
     };
 
     // Only include fields that were provided in the request
@@ -281,6 +346,9 @@ export async function PATCH(
     if (validatedData.autoRenew !== undefined) {
       updateData.autoRenew = validatedData.autoRenew;
     }
+    if (validatedData.renewWithNewPledge !== undefined) {
+      updateData.renewWithNewPledge = validatedData.renewWithNewPledge;
+    }
     if (validatedData.planStatus !== undefined) {
       updateData.planStatus = validatedData.planStatus;
       // Update isActive based on plan status
@@ -293,12 +361,129 @@ export async function PATCH(
       updateData.internalNotes = validatedData.internalNotes || null;
     }
 
+    // A custom plan's schedule is entered explicitly, and has to be given
+    // again whenever the plan becomes custom or its total changes
+    const frequency = validatedData.frequency ?? existingPlan[0].frequency;
+    let customSchedule: ReturnType<typeof buildCustomSchedule> | undefined;
+    if (frequency === "custom") {
+      const needsSchedule =
+        existingPlan[0].frequency !== "custom" ||
+        validatedData.totalPlannedAmount !== undefined;
+      if (validatedData.customSchedule || needsSchedule) {
+        const problem = validateCustomSchedule(
+          validatedData.customSchedule ?? [],
+          validatedData.totalPlannedAmount ??
+            parseFloat(existingPlan[0].totalPlannedAmount)
+        );
+        if (problem) {
+          return NextResponse.json(
+            {
+              error: "Validation failed",
+              details: [{ field: "customSchedule", message: problem }],
+            },
+            { status: 400 }
+          );
+        }
+        customSchedule = buildCustomSchedule(validatedData.customSchedule!);
+        updateData.numberOfInstallments = customSchedule.length;
+        updateData.installmentAmount = customSchedule[0].amount;
+        updateData.startDate = customSchedule[0].dueDate;
+        updateData.endDate = customSchedule[customSchedule.length - 1].dueDate;
+      }
+    } else if (validatedData.customSchedule) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: [
+            {
+              field: "customSchedule",
+              message: "Only custom plans take an explicit schedule",
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    // A changed schedule is regenerated below; its end date follows the last
+    // installment
+    const scheduleChanged =
+      frequency === "custom"
+        ? customSchedule !== undefined
+        : validatedData.frequency !== undefined ||
+          validatedData.totalPlannedAmount !== undefined ||
+          validatedData.installmentAmount !== undefined ||
+          validatedData.numberOfInstallments !== undefined ||
+          validatedData.startDate !== undefined;
+    if (scheduleChanged && !customSchedule) {
+      const merged = { ...existingPlan[0], ...updateData };
+      const problem =
+        frequency === "one_time"
+          ? null
+          : validateInstallmentPlan(
+              parseFloat(merged.totalPlannedAmount),
+              parseFloat(merged.installmentAmount),
+              merged.numberOfInstallments
+            );
+      if (problem) {
+        return NextResponse.json(
+          {
+            error: "Validation failed",
+            details: [{ field: "installmentAmount", message: problem }],
+          },
+          { status: 400 }
+        );
+      }
+      const schedule = buildSchedule(merged);
+      if (schedule.length > 0) {
+        updateData.endDate = schedule[schedule.length - 1].dueDate;
+      }
+    }
+
     // Update the payment plan
-    const updatedPlan = await db
-      .update(paymentPlan)
-      .set(updateData)
-      .where(eq(paymentPlan.id, planId))
-      .returning();
+    const updatedPlan = await db.transaction(async (tx) => {
+      const result = await tx
+        .update(paymentPlan)
+        .set(updateData)
+        .where(eq(paymentPlan.id, planId))
+        .returning();
+      if (result.length > 0) {
+        await recordAudit(
+          tx,
+          auditContext(request),
+          "payment_plan",
+          existingPlan[0],
+          result[0]
+        );
+        if (scheduleChanged) {
+          await regenerateInstallments(tx, result[0], customSchedule);
+        }
+        // Cancelling a plan cancels its unpaid installments, and reopening
+        // it brings them back
+        if (
+          scheduleChanged ||
+          result[0].planStatus !== existingPlan[0].planStatus
+        ) {
+          result[0] = (await syncPaymentPlanTotals(tx, planId)) ?? result[0];
+        }
+        await recordPlanStatusChange(
+          tx,
+          existingPlan[0],
+          result[0],
+          auditContext(request).changedBy
+        );
+        if (
+          result[0].planStatus === "overdue" &&
+          existingPlan[0].planStatus !== "overdue"
+        ) {
+          await emitWebhookEvent(tx, "payment_plan.overdue", {
+            paymentPlan: result[0],
+          });
+        }
+      }
+      return result;
+    });
+    deliverWebhooksAfterResponse();
 
     if (updatedPlan.length === 0) {
       return NextResponse.json(
@@ -0,0 +1,56 @@
+import { db } from "@/lib/db";
+import { paymentPlan, paymentPlanStatusChange, user } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { desc, eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const planId = parseInt(id, 10);
+    if (isNaN(planId) || planId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid payment plan ID" },
+        { status: 400 }
+      );
+    }
+
+    const [plan] = await db
+      .select({ id: paymentPlan.id })
+      .from(paymentPlan)
+      .where(eq(paymentPlan.id, planId))
+      .limit(1);
+    if (!plan) {
+      return NextResponse.json(
+        { error: "Payment plan not found" },
+        { status: 404 }
+      );
+    }
+
+    const statusChanges = await db
+      .select({
+        id: paymentPlanStatusChange.id,
+        fromStatus: paymentPlanStatusChange.fromStatus,
+        toStatus: paymentPlanStatusChange.toStatus,
+        reason: paymentPlanStatusChange.reason,
+        changedBy: paymentPlanStatusChange.changedBy,
+        changedByName: user.name,
+        createdAt: paymentPlanStatusChange.createdAt,
+      })
+      .from(paymentPlanStatusChange)
+      .leftJoin(user, eq(paymentPlanStatusChange.changedBy, user.id))
+      .where(eq(paymentPlanStatusChange.paymentPlanId, planId))
+      .orderBy(
+        desc(paymentPlanStatusChange.createdAt),
+        desc(paymentPlanStatusChange.id)
+      );
+
+    return NextResponse.json({ statusChanges });
+  } catch (error) {
+    console.error("Error fetching payment plan status history:", error);
+    return ErrorHandler.handle(error);
+  }
+}
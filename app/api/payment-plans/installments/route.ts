@@ -0,0 +1,182 @@
+import { db } from "@/lib/db";
+import {
+  contact,
+  paymentPlan,
+  paymentPlanInstallment,
+  pledge,
+} from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { and, asc, eq, gte, lte, sql, SQL } from "drizzle-orm";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const QueryParamsSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  status: z
+    .enum(["pending", "partially_paid", "paid", "overdue", "cancelled"])
+    .optional(),
+  contactId: z.number().positive().optional(),
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(50),
+});
+
+const filterableColumns: FilterableColumns = {
+  id: paymentPlanInstallment.id,
+  paymentPlanId: paymentPlanInstallment.paymentPlanId,
+  installmentNumber: paymentPlanInstallment.installmentNumber,
+  dueDate: paymentPlanInstallment.dueDate,
+  amount: paymentPlanInstallment.amount,
+  status: paymentPlanInstallment.status,
+  paymentId: paymentPlanInstallment.paymentId,
+  paidAmount: paymentPlanInstallment.paidAmount,
+  paidDate: paymentPlanInstallment.paidDate,
+  currency: paymentPlan.currency,
+  planName: paymentPlan.planName,
+  numberOfInstallments: paymentPlan.numberOfInstallments,
+  pledgeId: pledge.id,
+  pledgeDescription: pledge.description,
+  contactId: contact.id,
+  contactName: sql`CONCAT(${contact.firstName}, ' ', ${contact.lastName})`,
+};
+
+// Installments falling due in a date range, the current month by default,
+// across all active plans
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const today = new Date();
+  try {
+    const { from, to, status, contactId, page, limit } =
+      QueryParamsSchema.parse({
+        from:
+          searchParams.get("from") || format(startOfMonth(today), "yyyy-MM-dd"),
+        to: searchParams.get("to") || format(endOfMonth(today), "yyyy-MM-dd"),
+        status: searchParams.get("status") || undefined,
+        contactId: searchParams.get("contactId")
+          ? parseInt(searchParams.get("contactId")!, 10)
+          : undefined,
+        page: parseInt(searchParams.get("page") || "1", 10),
+        limit: parseInt(searchParams.get("limit") || "50", 10),
+      });
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+
+    const conditions: SQL<unknown>[] = [
+      gte(paymentPlanInstallment.dueDate, from),
+      lte(paymentPlanInstallment.dueDate, to),
+      eq(paymentPlan.isActive, true),
+    ];
+    if (status) {
+      conditions.push(eq(paymentPlanInstallment.status, status));
+    }
+    if (contactId) {
+      conditions.push(eq(pledge.contactId, contactId));
+    }
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
+    if (filterCondition) {
+      conditions.push(filterCondition);
+    }
+    const whereClause = and(...conditions);
+
+    const [installments, summary] = await Promise.all([
+      db
+        .select({
+          id: paymentPlanInstallment.id,
+          paymentPlanId: paymentPlanInstallment.paymentPlanId,
+          installmentNumber: paymentPlanInstallment.installmentNumber,
+          dueDate: paymentPlanInstallment.dueDate,
+          amount: paymentPlanInstallment.amount,
+          status: paymentPlanInstallment.status,
+          paymentId: paymentPlanInstallment.paymentId,
+          paidAmount: paymentPlanInstallment.paidAmount,
+          paidDate: paymentPlanInstallment.paidDate,
+          currency: paymentPlan.currency,
+          planName: paymentPlan.planName,
+          numberOfInstallments: paymentPlan.numberOfInstallments,
+          pledgeId: pledge.id,
+          pledgeDescription: pledge.description,
+          contactId: contact.id,
+          contactName: sql<string>`CONCAT(${contact.firstName}, ' ', ${contact.lastName})`,
+        })
+        .from(paymentPlanInstallment)
+        .innerJoin(
+          paymentPlan,
+          eq(paymentPlanInstallment.paymentPlanId, paymentPlan.id)
+        )
+        .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+        .innerJoin(contact, eq(pledge.contactId, contact.id))
+        .where(whereClause)
+        .orderBy(
+          asc(paymentPlanInstallment.dueDate),
+          asc(paymentPlanInstallment.id)
+        )
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({
+          currency: paymentPlan.currency,
+          count: sql<number>`count(*)`,
+          amountDue: sql<string>`COALESCE(SUM(${paymentPlanInstallment.amount}), 0)`,
+          amountPaid: sql<string>`COALESCE(SUM(${paymentPlanInstallment.paidAmount}), 0)`,
+        })
+        .from(paymentPlanInstallment)
+        .innerJoin(
+          paymentPlan,
+          eq(paymentPlanInstallment.paymentPlanId, paymentPlan.id)
+        )
+        .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+        .innerJoin(contact, eq(pledge.contactId, contact.id))
+        .where(whereClause)
+        .groupBy(paymentPlan.currency),
+    ]);
+
+    const totalCount = summary.reduce((sum, row) => sum + Number(row.count), 0);
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return NextResponse.json({
+      installments,
+      // Totals per currency, as plans are not all in the same one
+      summary: summary.map((row) => ({ ...row, count: Number(row.count) })),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching due installments:", error);
+    return ErrorHandler.handle(error);
+  }
+}
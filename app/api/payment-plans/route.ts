@@ -2,39 +2,124 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { paymentPlan, pledge } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import { sql, eq, and, getTableColumns } from "drizzle-orm";
 import { z } from "zod";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { regenerateInstallments } from "@/lib/services/installments";
+import {
+  buildCustomSchedule,
+  buildSchedule,
+  validateCustomSchedule,
+  validateInstallmentPlan,
+} from "@/lib/payment-schedule";
 
-const paymentPlanSchema = z.object({
-  pledgeId: z.number().positive(),
-  planName: z.string().optional(),
-  frequency: z.enum([
-    "weekly",
-    "monthly",
-    "quarterly",
-    "biannual",
-    "annual",
-    "one_time",
-    "custom",
-  ]),
-  totalPlannedAmount: z
-    .number()
-    .positive("Total planned amount must be positive"),
-  currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]),
-  installmentAmount: z.number().positive("Installment amount must be positive"),
-  numberOfInstallments: z
-    .number()
-    .int()
-    .positive("Number of installments must be positive"),
-  startDate: z.string().min(1, "Start date is required"),
-  endDate: z.string().optional(),
-  nextPaymentDate: z.string().optional(),
-  autoRenew: z.boolean().default(false),
-  notes: z.string().optional(),
-  internalNotes: z.string().optional(),
+const customInstallmentSchema = z.object({
+  dueDate: z.string().min(1, "Due date is required"),
+  amount: z.number().positive("Installment amount must be positive"),
 });
 
+const paymentPlanSchema = z
+  .object({
+    pledgeId: z.number().positive(),
+    planName: z.string().optional(),
+    frequency: z.enum([
+      "weekly",
+      "monthly",
+      "quarterly",
+      "biannual",
+      "annual",
+      "one_time",
+      "custom",
+    ]),
+    totalPlannedAmount: z
+      .number()
+      .positive("Total planned amount must be positive"),
+    currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]),
+    installmentAmount: z
+      .number()
+      .positive("Installment amount must be positive")
+      .optional(),
+    numberOfInstallments: z
+      .number()
+      .int()
+      .positive("Number of installments must be positive")
+      .optional(),
+    startDate: z.string().min(1, "Start date is required").optional(),
+    endDate: z.string().optional(),
+    nextPaymentDate: z.string().optional(),
+    autoRenew: z.boolean().default(false),
+    // On renewal, open a new pledge for the next period instead of extending
+    // this one
+    renewWithNewPledge: z.boolean().default(false),
+    notes: z.string().optional(),
+    internalNotes: z.string().optional(),
+    // Explicit installments for custom plans, which have no fixed period
+    customSchedule: z.array(customInstallmentSchema).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.frequency === "custom") {
+      const problem = validateCustomSchedule(
+        data.customSchedule ?? [],
+        data.totalPlannedAmount
+      );
+      if (problem) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["customSchedule"],
+          message: problem,
+        });
+      }
+      return;
+    }
+
+    if (data.customSchedule) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["customSchedule"],
+        message: "Only custom plans take an explicit schedule",
+      });
+    }
+    for (const field of [
+      "installmentAmount",
+      "numberOfInstallments",
+      "startDate",
+    ] as const) {
+      if (data[field] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: "Required",
+        });
+      }
+    }
+
+    // A one-time plan's single installment is always the total
+    if (
+      data.frequency !== "one_time" &&
+      data.installmentAmount !== undefined &&
+      data.numberOfInstallments !== undefined
+    ) {
+      const problem = validateInstallmentPlan(
+        data.totalPlannedAmount,
+        data.installmentAmount,
+        data.numberOfInstallments
+      );
+      if (problem) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["installmentAmount"],
+          message: problem,
+        });
+      }
+    }
+  });
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -49,20 +134,51 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Pledge not found" }, { status: 404 });
     }
 
+    // A custom plan's count and dates follow its explicit schedule
+    const customSchedule =
+      validatedData.frequency === "custom"
+        ? buildCustomSchedule(validatedData.customSchedule ?? [])
+        : undefined;
+    const startDate = customSchedule
+      ? customSchedule[0].dueDate
+      : validatedData.startDate!;
+    const installmentAmount = customSchedule
+      ? customSchedule[0].amount
+      : validatedData.installmentAmount!.toString();
+    const numberOfInstallments = customSchedule
+      ? customSchedule.length
+      : validatedData.numberOfInstallments!;
+
+    const schedule =
+      customSchedule ??
+      buildSchedule({
+        startDate,
+        frequency: validatedData.frequency,
+        numberOfInstallments,
+        installmentAmount,
+        totalPlannedAmount: validatedData.totalPlannedAmount.toString(),
+      });
+
     const newPaymentPlan = {
       pledgeId: validatedData.pledgeId,
       planName: validatedData.planName || null,
       frequency: validatedData.frequency,
       totalPlannedAmount: validatedData.totalPlannedAmount.toString(),
       currency: validatedData.currency,
-      installmentAmount: validatedData.installmentAmount.toString(),
-      numberOfInstallments: validatedData.numberOfInstallments,
-      startDate: validatedData.startDate,
-      endDate: validatedData.endDate || null,
-      nextPaymentDate: validatedData.nextPaymentDate || validatedData.startDate,
+      installmentAmount,
+      numberOfInstallments,
+      startDate,
+      endDate:
+        schedule.length > 0
+          ? schedule[schedule.length - 1].dueDate
+          : validatedData.endDate || null,
+      nextPaymentDate: customSchedule
+        ? startDate
+        : validatedData.nextPaymentDate || startDate,
       remainingAmount: validatedData.totalPlannedAmount.toString(),
       planStatus: "active" as const,
       autoRenew: validatedData.autoRenew,
+      renewWithNewPledge: validatedData.renewWithNewPledge,
       remindersSent: 0,
       lastReminderDate: null,
       isActive: true,
@@ -71,10 +187,23 @@ export async function POST(request: NextRequest) {
     };
 
     // Create the payment plan
-    const paymentPlanResult = await db
-      .insert(paymentPlan)
-      .values(newPaymentPlan)
-      .returning();
+    const paymentPlanResult = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(paymentPlan)
+        .values(newPaymentPlan)
+        .returning();
+      if (created.length > 0) {
+        await recordAudit(
+          tx,
+          auditContext(request),
+          "payment_plan",
+          null,
+          created[0]
+        );
+        await regenerateInstallments(tx, created[0], customSchedule);
+      }
+      return created;
+    });
 
     if (paymentPlanResult.length === 0) {
       return NextResponse.json(
@@ -130,6 +259,14 @@ const querySchema = z.object({
     .optional(),
 });
 
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(paymentPlan),
+  exchangeRate: sql`(SELECT ${pledge.exchangeRate} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`,
+  pledgeDescription: sql`(SELECT ${pledge.description} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`,
+  pledgeOriginalAmount: sql`(SELECT ${pledge.originalAmount} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`,
+  contactId: sql`(SELECT ${pledge.contactId} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`,
+};
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -162,7 +299,13 @@ export async function GET(request: NextRequest) {
     const { pledgeId, contactId, page, limit, planStatus, frequency } =
       parsedParams.data;
     const offset = (page - 1) * limit;
-    const conditions = [];
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+    const conditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (pledgeId) {
       conditions.push(eq(paymentPlan.pledgeId, pledgeId));
@@ -182,7 +325,7 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(paymentPlan.frequency, frequency));
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     const paymentPlansQuery = db
       .select({
@@ -203,6 +346,8 @@ export async function GET(request: NextRequest) {
         remainingAmount: paymentPlan.remainingAmount,
         planStatus: paymentPlan.planStatus,
         autoRenew: paymentPlan.autoRenew,
+        renewWithNewPledge: paymentPlan.renewWithNewPledge,
+        renewedFromPlanId: paymentPlan.renewedFromPlanId,
         isActive: paymentPlan.isActive,
         notes: paymentPlan.notes,
         internalNotes: paymentPlan.internalNotes,
@@ -267,6 +412,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching payment plans:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,143 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { payment, type Receipt } from "@/lib/db/schema";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import {
+  getReceipt,
+  issueReceipt,
+  receiptFileName,
+} from "@/lib/services/receipts";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// The segment is named after the pledge listing that shares this path, but
+// like the sibling PATCH and DELETE handlers it holds a payment ID here.
+
+const issueReceiptSchema = z.object({
+  receiptType: z
+    .enum(["invoice", "confirmation", "receipt", "other"])
+    .optional(),
+});
+
+function parsePaymentId(id: string): number | null {
+  const paymentId = parseInt(id, 10);
+  return isNaN(paymentId) || paymentId <= 0 ? null : paymentId;
+}
+
+function pdfResponse(stored: Receipt, status = 200) {
+  return new NextResponse(new Uint8Array(stored.pdf), {
+    status,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${receiptFileName(stored)}"`,
+      "X-Receipt-Number": stored.receiptNumber,
+      "X-Receipt-Copy": stored.copyNumber.toString(),
+    },
+  });
+}
+
+// Downloads a stored receipt: the original, or `?copy=n` for a duplicate
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pledgeId: string }> }
+) {
+  try {
+    const { pledgeId } = await params;
+    const paymentId = parsePaymentId(pledgeId);
+    if (!paymentId) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    const copy = parseInt(
+      new URL(request.url).searchParams.get("copy") ?? "0",
+      10
+    );
+    if (isNaN(copy) || copy < 0) {
+      return NextResponse.json(
+        { error: "Invalid copy number" },
+        { status: 400 }
+      );
+    }
+
+    // Solicitors only see receipts for the payments they solicited
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      const [owned] = await db
+        .select({ id: payment.id })
+        .from(payment)
+        .where(
+          and(
+            eq(payment.id, paymentId),
+            eq(payment.solicitorId, ownSolicitorId)
+          )
+        );
+      if (!owned) {
+        return NextResponse.json(
+          { error: "Payment not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const stored = await getReceipt(paymentId, copy);
+    if (!stored) {
+      return NextResponse.json(
+        { error: "No receipt has been issued for this payment" },
+        { status: 404 }
+      );
+    }
+
+    return pdfResponse(stored);
+  } catch (error) {
+    console.error("Error fetching receipt:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Issues the payment's receipt, or a duplicate copy once one exists, and
+// returns the PDF
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pledgeId: string }> }
+) {
+  try {
+    const { pledgeId } = await params;
+    const paymentId = parsePaymentId(pledgeId);
+    if (!paymentId) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { receiptType } = issueReceiptSchema.parse(body);
+
+    const { receipt } = await issueReceipt(paymentId, {
+      receiptType,
+      context: auditContext(request),
+    });
+    return pdfResponse(receipt, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error issuing receipt:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,93 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { refundPayment } from "@/lib/services/refunds";
+import { deliverWebhooksAfterResponse } from "@/lib/services/webhooks";
+import { format } from "date-fns";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// As with the receipt route, the segment holds a payment ID here
+
+const refundPaymentSchema = z.object({
+  amount: z.number().positive("Refund amount must be positive").optional(),
+  refundDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Refund date must be YYYY-MM-DD")
+    .optional(),
+  paymentMethod: z
+    .enum([
+      "credit_card",
+      "cash",
+      "check",
+      "bank_transfer",
+      "paypal",
+      "wire_transfer",
+      "other",
+    ])
+    .optional(),
+  referenceNumber: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+function parsePaymentId(id: string): number | null {
+  const paymentId = parseInt(id, 10);
+  return isNaN(paymentId) || paymentId <= 0 ? null : paymentId;
+}
+
+// Refunds the payment in full, or in part when an amount is given
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pledgeId: string }> }
+) {
+  try {
+    const { pledgeId } = await params;
+    const paymentId = parsePaymentId(pledgeId);
+    if (!paymentId) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = refundPaymentSchema.parse(body);
+
+    const result = await refundPayment(
+      paymentId,
+      {
+        ...validatedData,
+        refundDate:
+          validatedData.refundDate ?? format(new Date(), "yyyy-MM-dd"),
+      },
+      auditContext(request)
+    );
+    deliverWebhooksAfterResponse();
+
+    return NextResponse.json(
+      {
+        message:
+          result.payment.paymentStatus === "refunded"
+            ? "Payment refunded in full"
+            : "Payment partially refunded",
+        ...result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error refunding payment:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -1,8 +1,40 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { db } from "@/lib/db";
-import { payment, pledge } from "@/lib/db/schema";
-import { ErrorHandler } from "@/lib/error-handler";
-import { eq, desc, or, ilike, and, SQL, sql } from "drizzle-orm";
+import {
+  contactCredit,
+  payment,
+  paymentAllocation,
+  pledge,
+} from "@/lib/db/schema";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { convertToUsd } from "@/lib/services/exchange-rates";
+import {
+  assertCreditCovered,
+  captureOverpayment,
+  loadCreditContactIds,
+} from "@/lib/services/credits";
+import { assertDepositBatchAllows } from "@/lib/services/deposit-batches";
+import { syncLedgerTargets } from "@/lib/services/ledger";
+import { loadLedgerTargets } from "@/lib/services/ledger-entries";
+import { assertNotReceipted } from "@/lib/services/receipts";
+import {
+  eq,
+  desc,
+  or,
+  ilike,
+  and,
+  inArray,
+  SQL,
+  sql,
+  getTableColumns,
+} from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -25,16 +57,16 @@ const QueryParamsSchema = z.object({
 
 type QueryParams = z.infer<typeof QueryParamsSchema>;
 
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(payment),
+  pledgeExchangeRate: pledge.exchangeRate,
+};
+
 const updatePaymentSchema = z.object({
   amount: z.number().positive("Amount must be positive").optional(),
   currency: z
     .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
     .optional(),
-  amountUsd: z.number().positive("Amount in USD must be positive").optional(),
-  exchangeRate: z
-    .number()
-    .positive("Exchange rate must be positive")
-    .optional(),
   paymentDate: z.string().min(1, "Payment date is required").optional(),
   receivedDate: z.string().optional(),
   paymentMethod: z
@@ -51,11 +83,9 @@ const updatePaymentSchema = z.object({
   paymentStatus: PaymentStatusEnum.optional(),
   referenceNumber: z.string().optional(),
   checkNumber: z.string().optional(),
-  receiptNumber: z.string().optional(),
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional(),
-  receiptIssued: z.boolean().optional(),
   solicitorId: z
     .number()
     .positive("Solicitor ID must be positive")
@@ -81,10 +111,10 @@ const updatePaymentSchema = z.object({
 
 export async function GET(
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
+  { params }: { params: Promise<{ pledgeId: string }> }
 ) {
   try {
-    const { id } = await params;
+    const { pledgeId: id } = await params;
     const { searchParams } = new URL(request.url);
 
     const queryParams: QueryParams = QueryParamsSchema.parse({
@@ -96,6 +126,10 @@ export async function GET(
     });
 
     const { pledgeId, page, limit, search, paymentStatus } = queryParams;
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     let query = db
       .select({
@@ -120,21 +154,38 @@ export async function GET(
         bonusAmount: payment.bonusAmount,
         bonusRuleId: payment.bonusRuleId,
         notes: payment.notes,
+        refundOfPaymentId: payment.refundOfPaymentId,
         createdAt: payment.createdAt,
         updatedAt: payment.updatedAt,
         pledgeExchangeRate: pledge.exchangeRate,
       })
       .from(payment)
       .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
-      .where(eq(payment.pledgeId, pledgeId))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    // Split payments are listed under every pledge they are allocated to
+    const conditions: SQL<unknown>[] = [
+      or(
+        eq(payment.pledgeId, pledgeId),
+        inArray(
+          payment.id,
+          db
+            .select({ paymentId: paymentAllocation.paymentId })
+            .from(paymentAllocation)
+            .where(eq(paymentAllocation.pledgeId, pledgeId))
+        )
+      )!,
+    ];
 
     if (paymentStatus) {
       conditions.push(eq(payment.paymentStatus, paymentStatus));
     }
 
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      conditions.push(eq(payment.solicitorId, ownSolicitorId));
+    }
+
     if (search) {
       const searchConditions: SQL<unknown>[] = [];
       searchConditions.push(
@@ -152,10 +203,17 @@ export async function GET(
       conditions.push(or(...searchConditions)!);
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
+    if (filterCondition) {
+      conditions.push(filterCondition);
     }
 
+    query = query.where(and(...conditions));
+
     const offset = (page - 1) * limit;
     query = query.limit(limit).offset(offset).orderBy(desc(payment.createdAt));
 
@@ -165,11 +223,12 @@ export async function GET(
       { payments },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-store",
         },
       }
     );
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error(error);
     return NextResponse.json(
       { error: "Failed to fetch payments" },
@@ -200,7 +259,52 @@ export async function DELETE(
     if (existingPayment.length === 0) {
       return NextResponse.json({ error: "Payment not found" }, { status: 404 });
     }
-    await db.delete(payment).where(eq(payment.id, paymentId));
+    // Deleting one entry of a full refund would leave the rest marked refunded
+    if (
+      existingPayment[0].refundOfPaymentId &&
+      existingPayment[0].paymentStatus === "refunded"
+    ) {
+      return NextResponse.json(
+        { error: "Entries of a full refund cannot be deleted" },
+        { status: 409 }
+      );
+    }
+    await db.transaction(async (tx) => {
+      // Refund entries cascade with the payment they refund, taking their
+      // clawbacks along unaudited, so a refunded payment stays on the books
+      await tx
+        .select({ id: payment.id })
+        .from(payment)
+        .where(eq(payment.id, paymentId))
+        .for("update");
+      const [refundEntry] = await tx
+        .select({ id: payment.id })
+        .from(payment)
+        .where(eq(payment.refundOfPaymentId, paymentId))
+        .limit(1);
+      if (refundEntry) {
+        throw new HttpError(
+          409,
+          "Payments that have been refunded cannot be deleted"
+        );
+      }
+
+      // Read before the delete takes a split payment's allocations with it
+      const targets = await loadLedgerTargets(tx, existingPayment);
+      const creditContactIds = await loadCreditContactIds(tx, paymentId);
+      await assertDepositBatchAllows(tx, existingPayment[0], null);
+      await assertNotReceipted(tx, [paymentId]);
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "payment",
+        existingPayment[0],
+        null
+      );
+      await tx.delete(payment).where(eq(payment.id, paymentId));
+      await syncLedgerTargets(tx, targets);
+      await assertCreditCovered(tx, creditContactIds);
+    });
 
     return NextResponse.json({
       message: "Payment deleted successfully",
@@ -213,11 +317,11 @@ export async function DELETE(
 
 export async function PATCH(
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
+  { params }: { params: Promise<{ pledgeId: string }> }
 ) {
   try {
-    const { id } = await params;
-    const paymentId = parseInt(id);
+    const { pledgeId } = await params;
+    const paymentId = parseInt(pledgeId);
 
     if (isNaN(paymentId) || paymentId <= 0) {
       return NextResponse.json(
@@ -240,9 +344,95 @@ export async function PATCH(
       return NextResponse.json({ error: "Payment not found" }, { status: 404 });
     }
 
+    // Taking back money that was received has to post the reversing entry
+    // and reduce or claw back the solicitor's bonus, which only the refund
+    // action does, so a completed payment keeps its status here
+    const newStatus = validatedData.paymentStatus;
+    if (
+      newStatus !== undefined &&
+      newStatus !== existingPayment[0].paymentStatus &&
+      (newStatus === "refunded" ||
+        existingPayment[0].paymentStatus === "completed")
+    ) {
+      return NextResponse.json(
+        {
+          error: `Payments are refunded through /api/payments/${paymentId}/refund rather than by changing their status`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Amounts and statuses on either side of a refund are managed by the
+    // refund action, which keeps the linked entries consistent
+    if (
+      validatedData.amount !== undefined ||
+      validatedData.currency !== undefined ||
+      validatedData.paymentStatus !== undefined
+    ) {
+      const [linkedRefund] = await db
+        .select({ id: payment.id })
+        .from(payment)
+        .where(eq(payment.refundOfPaymentId, paymentId))
+        .limit(1);
+      const current = existingPayment[0];
+      const unchanged =
+        (validatedData.amount === undefined ||
+          validatedData.amount === parseFloat(current.amount)) &&
+        (validatedData.currency ?? current.currency) === current.currency &&
+        (validatedData.paymentStatus ?? current.paymentStatus) ===
+          current.paymentStatus;
+      if ((current.refundOfPaymentId || linkedRefund) && !unchanged) {
+        return NextResponse.json(
+          {
+            error:
+              "The amount, currency and status of refunded payments and their refunds cannot be edited",
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // A split payment's allocations add up to its amount, and an overpayment's
+    // credit was measured against it, so both are re-entered rather than edited
+    if (
+      (validatedData.amount !== undefined &&
+        validatedData.amount !== parseFloat(existingPayment[0].amount)) ||
+      (validatedData.currency !== undefined &&
+        validatedData.currency !== existingPayment[0].currency)
+    ) {
+      const [allocation] = await db
+        .select({ id: paymentAllocation.id })
+        .from(paymentAllocation)
+        .where(eq(paymentAllocation.paymentId, paymentId))
+        .limit(1);
+      if (allocation) {
+        return NextResponse.json(
+          {
+            error:
+              "The amount and currency of a split payment cannot be edited; delete and re-enter it",
+          },
+          { status: 409 }
+        );
+      }
+      const [credit] = await db
+        .select({ id: contactCredit.id })
+        .from(contactCredit)
+        .where(eq(contactCredit.paymentId, paymentId))
+        .limit(1);
+      if (credit) {
+        return NextResponse.json(
+          {
+            error:
+              "The amount and currency of a payment whose overpayment is held as credit cannot be edited; delete and re-enter it",
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // Prepare update data
     const updateData: any = {
-      updatedAt: new Date().toISOString(),
+      updatedAt: new Date(),
     };
 
     // Only include fields that were provided in the request
@@ -252,12 +442,6 @@ export async function PATCH(
     if (validatedData.currency !== undefined) {
       updateData.currency = validatedData.currency;
     }
-    if (validatedData.amountUsd !== undefined) {
-      updateData.amountUsd = validatedData.amountUsd.toString();
-    }
-    if (validatedData.exchangeRate !== undefined) {
-      updateData.exchangeRate = validatedData.exchangeRate.toString();
-    }
     if (validatedData.paymentDate !== undefined) {
       updateData.paymentDate = validatedData.paymentDate;
     }
@@ -276,15 +460,9 @@ export async function PATCH(
     if (validatedData.checkNumber !== undefined) {
       updateData.checkNumber = validatedData.checkNumber || null;
     }
-    if (validatedData.receiptNumber !== undefined) {
-      updateData.receiptNumber = validatedData.receiptNumber || null;
-    }
     if (validatedData.receiptType !== undefined) {
       updateData.receiptType = validatedData.receiptType || null;
     }
-    if (validatedData.receiptIssued !== undefined) {
-      updateData.receiptIssued = validatedData.receiptIssued;
-    }
     if (validatedData.solicitorId !== undefined) {
       updateData.solicitorId = validatedData.solicitorId;
     }
@@ -302,12 +480,68 @@ export async function PATCH(
       updateData.notes = validatedData.notes || null;
     }
 
-    // Update the payment
-    const updatedPayment = await db
-      .update(payment)
-      .set(updateData)
-      .where(eq(payment.id, paymentId))
-      .returning();
+    // The USD amount follows the server's rate whenever the amount, currency
+    // or date changes
+    if (
+      validatedData.amount !== undefined ||
+      validatedData.currency !== undefined ||
+      validatedData.paymentDate !== undefined
+    ) {
+      const current = existingPayment[0];
+      const { amountUsd, exchangeRate } = await convertToUsd(
+        db,
+        validatedData.amount ?? parseFloat(current.amount),
+        validatedData.currency ?? current.currency,
+        validatedData.paymentDate ?? current.paymentDate
+      );
+      updateData.amountUsd = amountUsd.toString();
+      updateData.exchangeRate = exchangeRate.toString();
+    }
+
+    // Update the payment and re-derive the totals it feeds into
+    const updatedPayment = await db.transaction(async (tx) => {
+      await assertDepositBatchAllows(tx, existingPayment[0], updateData);
+      const result = await tx
+        .update(payment)
+        .set(updateData)
+        .where(eq(payment.id, paymentId))
+        .returning();
+
+      if (result.length > 0) {
+        await recordAudit(
+          tx,
+          auditContext(request),
+          "payment",
+          existingPayment[0],
+          result[0]
+        );
+        // Covers the pledge the payment was on before the edit as well
+        const synced = await syncLedgerTargets(
+          tx,
+          await loadLedgerTargets(tx, [existingPayment[0], result[0]])
+        );
+        // Completing a pending payment or raising its amount can take a
+        // pledge past its original amount, like posting a new payment can
+        if (result[0].paymentStatus === "completed") {
+          const allocations = await tx
+            .select()
+            .from(paymentAllocation)
+            .where(eq(paymentAllocation.paymentId, paymentId));
+          await captureOverpayment(
+            tx,
+            auditContext(request),
+            result[0],
+            allocations,
+            synced.pledges
+          );
+        }
+        await assertCreditCovered(
+          tx,
+          await loadCreditContactIds(tx, paymentId)
+        );
+      }
+      return result;
+    });
 
     if (updatedPayment.length === 0) {
       return NextResponse.json(
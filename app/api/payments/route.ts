@@ -1,16 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { payment, pledge } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import {
+  contact,
+  depositBatch,
+  payment,
+  paymentAllocation,
+  pledge,
+  solicitor,
+} from "@/lib/db/schema";
+import { sql, eq, and, or, ilike, getTableColumns } from "drizzle-orm";
 import { z } from "zod";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { auditContext } from "@/lib/services/audit";
+import { postPayment } from "@/lib/services/payment-posting";
+import { deliverWebhooksAfterResponse } from "@/lib/services/webhooks";
 
 const paymentSchema = z.object({
   pledgeId: z.number().positive(),
   amount: z.number().positive("Payment amount must be positive"),
   currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]),
-  amountUsd: z.number().positive("Payment amount in USD must be positive"),
-  exchangeRate: z.number().positive("Exchange rate must be positive"),
   paymentDate: z.string().min(1, "Payment date is required"),
   receivedDate: z.string().optional(),
   paymentMethod: z.enum([
@@ -34,120 +48,49 @@ const paymentSchema = z.object({
     .default("completed"),
   referenceNumber: z.string().optional(),
   checkNumber: z.string().optional(),
-  receiptNumber: z.string().optional(),
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional(),
-  receiptIssued: z.boolean().default(false),
   // NEW SOLICITOR FIELDS
   solicitorId: z.number().positive().optional(),
   bonusPercentage: z.number().min(0).max(100).optional(),
-  bonusAmount: z.number().min(0).optional(),
   bonusRuleId: z.number().positive().optional(),
   notes: z.string().optional(),
   paymentPlanId: z.number().positive().optional(),
+  // One payment covering several pledges, e.g. tuition and a donation
+  allocations: z
+    .array(
+      z.object({
+        pledgeId: z.number().positive(),
+        paymentPlanId: z.number().positive().optional(),
+        amount: z.number().positive("Allocated amount must be positive"),
+        notes: z.string().optional(),
+      })
+    )
+    .min(2, "A split payment needs at least two allocations")
+    .optional(),
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const validatedData = paymentSchema.parse(body);
-
-    // First, get the current pledge data
-    const currentPledge = await db
-      .select()
-      .from(pledge)
-      .where(eq(pledge.id, validatedData.pledgeId))
-      .limit(1);
-
-    if (currentPledge.length === 0) {
-      return NextResponse.json({ error: "Pledge not found" }, { status: 404 });
-    }
-
-    const pledgeData = currentPledge[0];
-    const currentTotalPaid = parseFloat(pledgeData.totalPaid);
-    const currentTotalPaidUsd = parseFloat(pledgeData.totalPaidUsd || "0");
-    const originalAmount = parseFloat(pledgeData.originalAmount);
-    const originalAmountUsd = parseFloat(pledgeData.originalAmountUsd || "0");
-
-    // Calculate new totals
-    const newTotalPaid = currentTotalPaid + validatedData.amount;
-    const newTotalPaidUsd = currentTotalPaidUsd + validatedData.amountUsd;
-    const newBalance = originalAmount - newTotalPaid;
-    const newBalanceUsd = originalAmountUsd - newTotalPaidUsd;
-
-    // Prepare the new payment with all schema fields
-    const newPayment = {
-      pledgeId: validatedData.pledgeId,
-      amount: validatedData.amount.toString(),
-      currency: validatedData.currency,
-      amountUsd: validatedData.amountUsd.toString(),
-      exchangeRate: validatedData.exchangeRate.toString(),
-      paymentDate: validatedData.paymentDate,
-      receivedDate: validatedData.receivedDate || validatedData.paymentDate,
-      paymentMethod: validatedData.paymentMethod,
-      paymentStatus: validatedData.paymentStatus,
-      referenceNumber: validatedData.referenceNumber || null,
-      checkNumber: validatedData.checkNumber || null,
-      receiptNumber: validatedData.receiptNumber || null,
-      receiptType: validatedData.receiptType || null,
-      receiptIssued: validatedData.receiptIssued,
-      // NEW SOLICITOR FIELDS
-      solicitorId: validatedData.solicitorId || null,
-      bonusPercentage: validatedData.bonusPercentage?.toString() || null,
-      bonusAmount: validatedData.bonusAmount?.toString() || null,
-      bonusRuleId: validatedData.bonusRuleId || null,
-      notes: validatedData.notes || null,
-      paymentPlanId: validatedData.paymentPlanId || null,
-    };
-
-    // Create the payment first
-    const paymentResult = await db
-      .insert(payment)
-      .values(newPayment)
-      .returning();
-
-    if (paymentResult.length === 0) {
-      return NextResponse.json(
-        { error: "Failed to create payment" },
-        { status: 500 }
-      );
-    }
-
-    // Update the pledge with new totals
-    const updateResult = await db
-      .update(pledge)
-      .set({
-        totalPaid: newTotalPaid.toString(),
-        totalPaidUsd: newTotalPaidUsd.toString(),
-        balance: Math.max(0, newBalance).toString(),
-        balanceUsd: Math.max(0, newBalanceUsd).toString(),
-        updatedAt: new Date(),
-      })
-      .where(eq(pledge.id, validatedData.pledgeId))
-      .returning();
-
-    if (updateResult.length === 0) {
-      // If pledge update fails, we should ideally delete the payment
-      // But since we can't use transactions, log this as an error
-      console.error("Payment created but pledge update failed", {
-        paymentId: paymentResult[0].id,
-        pledgeId: validatedData.pledgeId,
-      });
-
-      return NextResponse.json(
-        {
-          error: "Payment created but pledge update failed",
-          paymentId: paymentResult[0].id,
-        },
-        { status: 500 }
-      );
-    }
+    const result = await postPayment(validatedData, auditContext(request));
+    deliverWebhooksAfterResponse();
 
     return NextResponse.json(
       {
-        message: "Payment created successfully",
-        payment: paymentResult[0],
+        message:
+          result.credits.length > 0
+            ? "Payment created; the overpayment is held as credit"
+            : "Payment created successfully",
+        payment: result.payment,
+        pledge: result.pledge,
+        paymentPlan: result.paymentPlan,
+        allocations: result.allocations,
+        pledges: result.pledges,
+        credits: result.credits,
+        bonusCalculation: result.bonusCalculation,
       },
       { status: 201 }
     );
@@ -170,6 +113,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
+interface PaymentAllocationSummary {
+  pledgeId: number;
+  paymentPlanId: number | null;
+  amount: string;
+  amountUsd: string | null;
+  pledgeDescription: string | null;
+}
+
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(payment),
+  pledgeDescription: sql`(SELECT ${pledge.description} FROM ${pledge} WHERE ${pledge.id} = ${payment.pledgeId})`,
+  contactId: sql`(SELECT ${pledge.contactId} FROM ${pledge} WHERE ${pledge.id} = ${payment.pledgeId})`,
+  solicitorName: sql`(SELECT CONCAT(${contact.firstName}, ' ', ${contact.lastName}) FROM ${solicitor} JOIN ${contact} ON ${solicitor.contactId} = ${contact.id} WHERE ${solicitor.id} = ${payment.solicitorId})`,
+  depositBatchStatus: sql`(SELECT ${depositBatch.status} FROM ${depositBatch} WHERE ${depositBatch.id} = ${payment.depositBatchId})`,
+};
+
 const querySchema = z.object({
   pledgeId: z.number().positive().optional(),
   contactId: z.number().positive().optional(),
@@ -253,15 +212,30 @@ export async function GET(request: NextRequest) {
       hasSolicitor,
     } = parsedParams.data;
     const offset = (page - 1) * limit;
-    const conditions = [];
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+    const conditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
+    // Split payments are listed under every pledge they are allocated to
     if (pledgeId) {
-      conditions.push(eq(payment.pledgeId, pledgeId));
+      conditions.push(
+        or(
+          eq(payment.pledgeId, pledgeId),
+          sql`${payment.id} IN (SELECT payment_id FROM ${paymentAllocation} WHERE pledge_id = ${pledgeId})`
+        )!
+      );
     }
 
     if (contactId) {
       conditions.push(
-        sql`${payment.pledgeId} IN (SELECT id FROM ${pledge} WHERE contact_id = ${contactId})`
+        or(
+          sql`${payment.pledgeId} IN (SELECT id FROM ${pledge} WHERE contact_id = ${contactId})`,
+          sql`${payment.id} IN (SELECT pa.payment_id FROM ${paymentAllocation} pa JOIN ${pledge} p ON p.id = pa.pledge_id WHERE p.contact_id = ${contactId})`
+        )!
       );
     }
 
@@ -270,6 +244,12 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(payment.solicitorId, solicitorId));
     }
 
+    // Solicitors only ever see their own payments
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      conditions.push(eq(payment.solicitorId, ownSolicitorId));
+    }
+
     // NEW: Filter by whether payment has a solicitor or not
     if (hasSolicitor !== undefined) {
       if (hasSolicitor) {
@@ -281,11 +261,12 @@ export async function GET(request: NextRequest) {
 
     if (search) {
       conditions.push(
-        sql`${payment.referenceNumber} ILIKE ${"%" + search + "%"} OR ${
-          payment.checkNumber
-        } ILIKE ${"%" + search + "%"} OR ${payment.notes} ILIKE ${
-          "%" + search + "%"
-        } OR ${payment.receiptNumber} ILIKE ${"%" + search + "%"}`
+        or(
+          ilike(payment.referenceNumber, `%${search}%`),
+          ilike(payment.checkNumber, `%${search}%`),
+          ilike(payment.notes, `%${search}%`),
+          ilike(payment.receiptNumber, `%${search}%`)
+        )!
       );
     }
 
@@ -305,7 +286,7 @@ export async function GET(request: NextRequest) {
       conditions.push(sql`${payment.paymentDate} <= ${endDate}`);
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     const paymentsQuery = db
       .select({
@@ -330,7 +311,9 @@ export async function GET(request: NextRequest) {
         bonusAmount: payment.bonusAmount,
         bonusRuleId: payment.bonusRuleId,
         notes: payment.notes,
+        refundOfPaymentId: payment.refundOfPaymentId,
         paymentPlanId: payment.paymentPlanId,
+        depositBatchId: payment.depositBatchId,
         createdAt: payment.createdAt,
         updatedAt: payment.updatedAt,
         // Pledge information
@@ -343,6 +326,18 @@ export async function GET(request: NextRequest) {
         contactId: sql<number>`(
           SELECT contact_id FROM ${pledge} WHERE id = ${payment.pledgeId}
         )`.as("contactId"),
+        allocations: sql<PaymentAllocationSummary[] | null>`(
+          SELECT json_agg(json_build_object(
+            'pledgeId', pa.pledge_id,
+            'paymentPlanId', pa.payment_plan_id,
+            'amount', pa.amount::text,
+            'amountUsd', pa.amount_usd::text,
+            'pledgeDescription', p.description
+          ) ORDER BY pa.id)
+          FROM ${paymentAllocation} pa
+          JOIN ${pledge} p ON p.id = pa.pledge_id
+          WHERE pa.payment_id = ${payment.id}
+        )`.as("allocations"),
         // NEW: Solicitor information
         solicitorName: sql<string>`(
           SELECT CONCAT(c.first_name, ' ', c.last_name)
@@ -350,6 +345,9 @@ export async function GET(request: NextRequest) {
           JOIN contact c ON s.contact_id = c.id
           WHERE s.id = ${payment.solicitorId}
         )`.as("solicitorName"),
+        depositBatchStatus: sql<string | null>`(
+          SELECT status FROM ${depositBatch} WHERE id = ${payment.depositBatchId}
+        )`.as("depositBatchStatus"),
       })
       .from(payment)
       .where(whereClause)
@@ -401,6 +399,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching payments:", error);
     return NextResponse.json(
       {
@@ -10,6 +10,8 @@ import {
 } from "@/lib/db/schema";
 import { sql, eq } from "drizzle-orm";
 import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { assertNotReceipted } from "@/lib/services/receipts";
 
 export async function GET(
   request: NextRequest,
@@ -193,7 +195,7 @@ export async function DELETE(
       return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
     }
     const existingPledge = await db
-      .select({ id: pledge.id })
+      .select()
       .from(pledge)
       .where(eq(pledge.id, pledgeId))
       .limit(1);
@@ -201,48 +203,62 @@ export async function DELETE(
     if (existingPledge.length === 0) {
       return NextResponse.json({ error: "Pledge not found" }, { status: 404 });
     }
-    const [relatedPayments, relatedPaymentPlans, bonusCalculations] =
-      await Promise.all([
-        db
-          .select({ count: sql<number>`count(*)` })
-          .from(payment)
-          .where(eq(payment.pledgeId, pledgeId)),
-        db
-          .select({ count: sql<number>`count(*)` })
-          .from(paymentPlan)
-          .where(eq(paymentPlan.pledgeId, pledgeId)),
-        db
-          .select({ count: sql<number>`count(*)` })
-          .from(bonusCalculation)
-          .innerJoin(payment, eq(payment.id, bonusCalculation.paymentId))
-          .where(eq(payment.pledgeId, pledgeId)),
-      ]);
 
-    const paymentCount = Number(relatedPayments[0]?.count || 0);
-    const paymentPlanCount = Number(relatedPaymentPlans[0]?.count || 0);
-    const bonusCalculationCount = Number(bonusCalculations[0]?.count || 0);
-    const deletedRecords = {
-      bonusCalculations: bonusCalculationCount,
-      payments: paymentCount,
-      paymentPlans: paymentPlanCount,
-    };
-    if (bonusCalculationCount > 0) {
-      await db.delete(bonusCalculation).where(
-        sql`${bonusCalculation.paymentId} IN (
-            SELECT id FROM ${payment} WHERE pledge_id = ${pledgeId}
-          )`
+    const context = auditContext(request);
+    const deletedRecords = await db.transaction(async (tx) => {
+      const [relatedPayments, relatedPaymentPlans, bonusCalculations] =
+        await Promise.all([
+          tx.select().from(payment).where(eq(payment.pledgeId, pledgeId)),
+          tx
+            .select()
+            .from(paymentPlan)
+            .where(eq(paymentPlan.pledgeId, pledgeId)),
+          tx
+            .select({ count: sql<number>`count(*)` })
+            .from(bonusCalculation)
+            .innerJoin(payment, eq(payment.id, bonusCalculation.paymentId))
+            .where(eq(payment.pledgeId, pledgeId)),
+        ]);
+
+      const bonusCalculationCount = Number(bonusCalculations[0]?.count || 0);
+      await assertNotReceipted(
+        tx,
+        relatedPayments.map((row) => row.id)
       );
-    }
 
-    if (paymentCount > 0) {
-      await db.delete(payment).where(eq(payment.pledgeId, pledgeId));
-    }
+      // Audit while the pledge still exists, so each row maps to its contact
+      for (const row of relatedPayments) {
+        await recordAudit(tx, context, "payment", row, null);
+      }
+      for (const row of relatedPaymentPlans) {
+        await recordAudit(tx, context, "payment_plan", row, null);
+      }
+      await recordAudit(tx, context, "pledge", existingPledge[0], null);
 
-    if (paymentPlanCount > 0) {
-      await db.delete(paymentPlan).where(eq(paymentPlan.pledgeId, pledgeId));
-    }
+      if (bonusCalculationCount > 0) {
+        await tx.delete(bonusCalculation).where(
+          sql`${bonusCalculation.paymentId} IN (
+              SELECT id FROM ${payment} WHERE pledge_id = ${pledgeId}
+            )`
+        );
+      }
 
-    await db.delete(pledge).where(eq(pledge.id, pledgeId));
+      if (relatedPayments.length > 0) {
+        await tx.delete(payment).where(eq(payment.pledgeId, pledgeId));
+      }
+
+      if (relatedPaymentPlans.length > 0) {
+        await tx.delete(paymentPlan).where(eq(paymentPlan.pledgeId, pledgeId));
+      }
+
+      await tx.delete(pledge).where(eq(pledge.id, pledgeId));
+
+      return {
+        bonusCalculations: bonusCalculationCount,
+        payments: relatedPayments.length,
+        paymentPlans: relatedPaymentPlans.length,
+      };
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { pledge, NewPledge } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import { pledge, NewPledge, category } from "@/lib/db/schema";
+import { sql, eq, and, getTableColumns } from "drizzle-orm";
 import { z } from "zod";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { convertToUsd } from "@/lib/services/exchange-rates";
+import {
+  deliverWebhooksAfterResponse,
+  emitWebhookEvent,
+} from "@/lib/services/webhooks";
 
 const pledgeSchema = z.object({
   contactId: z.number().positive(),
@@ -14,10 +25,8 @@ const pledgeSchema = z.object({
   currency: z
     .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
     .default("USD"),
-  originalAmountUsd: z
-    .number()
-    .positive("Pledge amount in USD must be positive"),
-  exchangeRate: z.number().positive("Exchange rate must be positive"), // Added exchange rate validation
+  // Date of the rate used for the USD amount; defaults to the pledge date
+  exchangeRateDate: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -25,8 +34,14 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const validatedData = pledgeSchema.parse(body);
+    const { amountUsd: originalAmountUsd, exchangeRate } = await convertToUsd(
+      db,
+      validatedData.originalAmount,
+      validatedData.currency,
+      validatedData.exchangeRateDate || validatedData.pledgeDate
+    );
     const balance = validatedData.originalAmount;
-    const balanceUsd = validatedData.originalAmountUsd;
+    const balanceUsd = originalAmountUsd;
 
     const newPledge: NewPledge = {
       contactId: validatedData.contactId,
@@ -35,8 +50,8 @@ export async function POST(request: NextRequest) {
       description: validatedData.description,
       originalAmount: validatedData.originalAmount.toString(),
       currency: validatedData.currency,
-      originalAmountUsd: validatedData.originalAmountUsd.toString(),
-      exchangeRate: validatedData.exchangeRate.toString(), // Added exchange rate field
+      originalAmountUsd: originalAmountUsd.toString(),
+      exchangeRate: exchangeRate.toString(),
       totalPaid: "0",
       totalPaidUsd: "0",
       balance: balance.toString(),
@@ -45,7 +60,13 @@ export async function POST(request: NextRequest) {
       notes: validatedData.notes || null,
     };
 
-    const result = await db.insert(pledge).values(newPledge).returning();
+    const result = await db.transaction(async (tx) => {
+      const created = await tx.insert(pledge).values(newPledge).returning();
+      await recordAudit(tx, auditContext(request), "pledge", null, created[0]);
+      await emitWebhookEvent(tx, "pledge.created", { pledge: created[0] });
+      return created;
+    });
+    deliverWebhooksAfterResponse();
 
     return NextResponse.json(
       {
@@ -73,6 +94,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(pledge),
+  progressPercentage: sql`CASE WHEN ${pledge.originalAmount}::numeric = 0 THEN 0 ELSE ROUND((${pledge.totalPaid}::numeric / ${pledge.originalAmount}::numeric) * 100) END`,
+  categoryName: sql`(SELECT ${category.name} FROM ${category} WHERE ${category.id} = ${pledge.categoryId})`,
+};
+
 const querySchema = z.object({
   contactId: z.number().positive().optional(),
   categoryId: z.number().positive().optional(),
@@ -126,9 +153,15 @@ export async function GET(request: NextRequest) {
       endDate,
     } = parsedParams.data;
     const offset = (page - 1) * limit;
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     // Build WHERE conditions
-    const conditions = [];
+    const conditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (contactId) {
       conditions.push(eq(pledge.contactId, contactId));
@@ -170,7 +203,7 @@ export async function GET(request: NextRequest) {
       conditions.push(sql`${pledge.pledgeDate} <= ${endDate}`);
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     // Execute queries
     const pledgesQuery = db
@@ -254,6 +287,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching pledges:", error);
     return NextResponse.json(
       {
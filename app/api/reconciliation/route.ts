@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { auditContext } from "@/lib/services/audit";
+import { reconcileLedger } from "@/lib/services/reconciliation";
+
+const reconcileSchema = z.object({
+  fix: z.boolean().default(false),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const report = await reconcileLedger(auditContext(request));
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error reconciling ledger:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { fix } = reconcileSchema.parse(body);
+    const report = await reconcileLedger(auditContext(request), { fix });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error reconciling ledger:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql, desc, asc, or, ilike, and, eq } from "drizzle-orm";
+import {
+  sql,
+  desc,
+  asc,
+  or,
+  ilike,
+  and,
+  eq,
+  getTableColumns,
+} from "drizzle-orm";
 import { z } from "zod";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { filterColumns, parseFilterParams } from "@/lib/filter-columns";
 import { relationships, NewRelationship, contact } from "@/lib/db/schema";
 import { relationshipSchema } from "@/lib/form-schemas/relationships";
 
@@ -175,10 +185,20 @@ export async function GET(request: NextRequest) {
       relatedContactId,
     } = parsedParams.data;
     const offset = (page - 1) * limit;
+    const filterableColumns = getTableColumns(relationships);
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+    const filterCondition = filterColumns({
+      columns: filterableColumns,
+      filters,
+      joinOperator,
+    });
 
     // If querying for a specific contact's relationships, show both directions
     if (contactId) {
-      const conditions = [];
+      const conditions = [filterCondition];
 
       if (search) {
         conditions.push(
@@ -200,8 +220,7 @@ export async function GET(request: NextRequest) {
           )
         );
 
-      const whereClause =
-        conditions.length > 0 ? and(...conditions) : undefined;
+      const whereClause = and(...conditions);
 
       // Get relationships where the contact is the source (contactId)
       const forwardRelationsQuery = db
@@ -337,7 +356,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Original query logic for non-contact-specific queries
-    const conditions = [];
+    const conditions = [filterCondition];
 
     if (search) {
       conditions.push(
@@ -354,7 +373,7 @@ export async function GET(request: NextRequest) {
     if (relatedContactId)
       conditions.push(eq(relationships.relatedContactId, relatedContactId));
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
     let orderByClause;
     switch (sortBy) {
       case "id":
@@ -467,6 +486,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching relationships:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,119 @@
+import { db } from "@/lib/db";
+import { reminderTemplate, type NewReminderTemplate } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateTemplateSchema = z.object({
+  name: z.string().min(1, "Name is required").optional(),
+  daysFromDue: z.number().int().min(-365).max(365).optional(),
+  channel: z.enum(["email", "sms"]).optional(),
+  subject: z.string().optional(),
+  body: z.string().min(1, "Body is required").optional(),
+  isActive: z.boolean().optional(),
+});
+
+function parseTemplateId(id: string): number | null {
+  const templateId = parseInt(id, 10);
+  return isNaN(templateId) || templateId <= 0 ? null : templateId;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const templateId = parseTemplateId(id);
+    if (!templateId) {
+      return NextResponse.json(
+        { error: "Invalid reminder template ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateTemplateSchema.parse(body);
+
+    const updateData: Partial<NewReminderTemplate> = {
+      ...validatedData,
+      updatedAt: new Date(),
+    };
+    if (validatedData.subject !== undefined) {
+      updateData.subject = validatedData.subject || null;
+    }
+
+    const [updated] = await db
+      .update(reminderTemplate)
+      .set(updateData)
+      .where(eq(reminderTemplate.id, templateId))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Reminder template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Reminder template updated successfully",
+      template: updated,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating reminder template:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Reminders already sent keep their wording; only the link to the template
+// is cleared
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const templateId = parseTemplateId(id);
+    if (!templateId) {
+      return NextResponse.json(
+        { error: "Invalid reminder template ID" },
+        { status: 400 }
+      );
+    }
+
+    const [deleted] = await db
+      .delete(reminderTemplate)
+      .where(eq(reminderTemplate.id, templateId))
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Reminder template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Reminder template deleted successfully",
+      template: deleted,
+    });
+  } catch (error) {
+    console.error("Error deleting reminder template:", error);
+    return ErrorHandler.handle(error);
+  }
+}
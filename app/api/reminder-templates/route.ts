@@ -0,0 +1,72 @@
+import { db } from "@/lib/db";
+import { reminderTemplate } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { REMINDER_PLACEHOLDERS } from "@/lib/services/reminders";
+import { asc } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const createTemplateSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  daysFromDue: z.number().int().min(-365).max(365),
+  channel: z.enum(["email", "sms"]).default("email"),
+  subject: z.string().optional(),
+  body: z.string().min(1, "Body is required"),
+  isActive: z.boolean().default(true),
+});
+
+export async function GET() {
+  try {
+    const templates = await db
+      .select()
+      .from(reminderTemplate)
+      .orderBy(asc(reminderTemplate.daysFromDue), asc(reminderTemplate.id));
+
+    return NextResponse.json({
+      templates,
+      placeholders: REMINDER_PLACEHOLDERS,
+    });
+  } catch (error) {
+    console.error("Error fetching reminder templates:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = createTemplateSchema.parse(body);
+
+    const [created] = await db
+      .insert(reminderTemplate)
+      .values({
+        ...validatedData,
+        subject: validatedData.subject || null,
+      })
+      .returning();
+
+    return NextResponse.json(
+      {
+        message: "Reminder template created successfully",
+        template: created,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating reminder template:", error);
+    return ErrorHandler.handle(error);
+  }
+}
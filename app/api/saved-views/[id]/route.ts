@@ -0,0 +1,87 @@
+import { getRequestUser } from "@/lib/auth/session";
+import { ErrorHandler } from "@/lib/error-handler";
+import { deleteSavedView, updateSavedView } from "@/lib/services/saved-views";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateSavedViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+  filters: z.array(z.object({ id: z.string(), value: z.unknown() })).optional(),
+  sorting: z.array(z.object({ id: z.string(), desc: z.boolean() })).optional(),
+  columnVisibility: z.record(z.boolean()).optional(),
+  pageSize: z.number().int().min(1).max(100).optional(),
+  isShared: z.boolean().optional(),
+});
+
+function parseViewId(id: string): number | null {
+  const viewId = parseInt(id, 10);
+  return isNaN(viewId) || viewId <= 0 ? null : viewId;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const viewId = parseViewId((await params).id);
+    if (!viewId) {
+      return NextResponse.json({ error: "Invalid view ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateSavedViewSchema.parse(body);
+
+    const view = await updateSavedView(viewId, currentUser.id, validatedData);
+    return NextResponse.json({ message: `View "${view.name}" updated`, view });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating saved view:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const viewId = parseViewId((await params).id);
+    if (!viewId) {
+      return NextResponse.json({ error: "Invalid view ID" }, { status: 400 });
+    }
+
+    await deleteSavedView(viewId, currentUser.id);
+    return NextResponse.json({ message: "Saved view deleted" });
+  } catch (error) {
+    console.error("Error deleting saved view:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,96 @@
+import { getRequestUser } from "@/lib/auth/session";
+import { ErrorHandler } from "@/lib/error-handler";
+import { createSavedView, listSavedViews } from "@/lib/services/saved-views";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const tableKeySchema = z.string().trim().min(1, "Table key is required");
+
+const savedViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  filters: z.array(z.object({ id: z.string(), value: z.unknown() })),
+  sorting: z.array(z.object({ id: z.string(), desc: z.boolean() })),
+  columnVisibility: z.record(z.boolean()),
+  pageSize: z.number().int().min(1).max(100),
+  isShared: z.boolean(),
+});
+
+const createSavedViewSchema = savedViewSchema.extend({
+  tableKey: tableKeySchema,
+  filters: savedViewSchema.shape.filters.default([]),
+  sorting: savedViewSchema.shape.sorting.default([]),
+  columnVisibility: savedViewSchema.shape.columnVisibility.default({}),
+  pageSize: savedViewSchema.shape.pageSize.default(10),
+  isShared: savedViewSchema.shape.isShared.default(false),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const tableKey = tableKeySchema.parse(searchParams.get("table") ?? "");
+
+    const views = await listSavedViews(tableKey, currentUser.id);
+    return NextResponse.json({ views });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join(".") || "table",
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching saved views:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { tableKey, ...input } = createSavedViewSchema.parse(body);
+
+    const view = await createSavedView(tableKey, currentUser.id, input);
+    return NextResponse.json(
+      { message: `View "${view.name}" saved`, view },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating saved view:", error);
+    return ErrorHandler.handle(error);
+  }
+}
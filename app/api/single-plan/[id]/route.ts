@@ -43,6 +43,8 @@ export async function GET(
               remainingAmount: paymentPlan.remainingAmount,
               planStatus: paymentPlan.planStatus,
               autoRenew: paymentPlan.autoRenew,
+              renewWithNewPledge: paymentPlan.renewWithNewPledge,
+              renewedFromPlanId: paymentPlan.renewedFromPlanId,
               remindersSent: paymentPlan.remindersSent,
               lastReminderDate: paymentPlan.lastReminderDate,
               isActive: paymentPlan.isActive,
@@ -111,6 +113,6 @@ export async function GET(
 
   return NextResponse.json(result.data, {
     status: 200,
-    headers: { "Cache-Control": "public, max-age=300" },
+    headers: { "Cache-Control": "private, no-store" },
   });
 }
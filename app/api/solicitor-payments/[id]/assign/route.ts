@@ -1,12 +1,8 @@
 import { db } from "@/lib/db";
-import {
-  payment,
-  category,
-  pledge,
-  bonusRule,
-  bonusCalculation,
-} from "@/lib/db/schema";
-import { eq, and, lte, sql, desc } from "drizzle-orm";
+import { payment, category, pledge, bonusCalculation } from "@/lib/db/schema";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { resolveBonus } from "@/lib/services/bonus";
+import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(
@@ -32,7 +28,7 @@ export async function POST(
         id: payment.id,
         amountUsd: payment.amountUsd,
         paymentDate: payment.paymentDate,
-        categoryName: category.name,
+        isTaxDeductible: category.isTaxDeductible,
       })
       .from(payment)
       .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
@@ -47,70 +43,57 @@ export async function POST(
     const paymentInfo = paymentDetails[0];
     const paymentAmount = parseFloat(paymentInfo.amountUsd || "0");
     const paymentDate = paymentInfo.paymentDate;
-    const isDonation = paymentInfo.categoryName
-      ?.toLowerCase()
-      .includes("donation");
-
-    // Find applicable bonus rules
-    const applicableRules = await db
-      .select()
-      .from(bonusRule)
-      .where(
-        and(
-          eq(bonusRule.solicitorId, solicitorId),
-          eq(bonusRule.isActive, true),
-          lte(bonusRule.effectiveFrom, paymentDate),
-          sql`(${bonusRule.effectiveTo} IS NULL OR ${bonusRule.effectiveTo} >= ${paymentDate})`,
-          sql`(${bonusRule.paymentType} = 'both' OR 
-                   (${bonusRule.paymentType} = 'donation' AND ${isDonation}) OR
-                   (${bonusRule.paymentType} = 'tuition' AND NOT ${isDonation}))`,
-          sql`(${bonusRule.minAmount} IS NULL OR ${bonusRule.minAmount} <= ${paymentAmount})`,
-          sql`(${bonusRule.maxAmount} IS NULL OR ${bonusRule.maxAmount} >= ${paymentAmount})`
-        )
-      )
-      .orderBy(desc(bonusRule.priority));
+    const { rule, bonusRuleId, bonusPercentage, bonusAmount } =
+      await resolveBonus(db, {
+        solicitorId,
+        paymentDate,
+        amountUsd: paymentAmount,
+        isDonation: !!paymentInfo.isTaxDeductible,
+      });
 
-    let bonusPercentage = "0";
-    let bonusAmount = "0";
-    let bonusRuleId = null;
+    // Update payment with solicitor assignment and create its bonus
+    // calculation record together
+    const updatedPayment = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(payment)
+        .where(eq(payment.id, paymentId))
+        .for("update");
 
-    if (applicableRules.length > 0) {
-      const rule = applicableRules[0]; // Highest priority rule
-      bonusPercentage = rule.bonusPercentage || "0";
-      bonusAmount = (
-        (paymentAmount * parseFloat(bonusPercentage)) /
-        100
-      ).toFixed(2);
-      bonusRuleId = rule.id;
-    }
-
-    // Update payment with solicitor assignment
-    const updatedPayment = await db
-      .update(payment)
-      .set({
-        solicitorId,
-        bonusPercentage,
-        bonusAmount,
-        bonusRuleId,
-        updatedAt: new Date(),
-      })
-      .where(eq(payment.id, paymentId))
-      .returning();
+      const result = await tx
+        .update(payment)
+        .set({
+          solicitorId,
+          bonusPercentage,
+          bonusAmount,
+          bonusRuleId,
+          updatedAt: new Date(),
+        })
+        .where(eq(payment.id, paymentId))
+        .returning();
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "payment",
+        existing,
+        result[0]
+      );
 
-    // Create bonus calculation record
-    if (parseFloat(bonusAmount) > 0) {
-      await db.insert(bonusCalculation).values({
-        paymentId,
-        solicitorId,
-        bonusRuleId,
-        paymentAmount: paymentAmount.toString(),
-        bonusPercentage,
-        bonusAmount,
-        calculatedAt: new Date(),
-        isPaid: false,
-        notes: `Auto-calculated on assignment using rule: ${applicableRules[0]?.ruleName}`,
-      });
-    }
+      if (parseFloat(bonusAmount) > 0) {
+        await tx.insert(bonusCalculation).values({
+          paymentId,
+          solicitorId,
+          bonusRuleId,
+          paymentAmount: paymentAmount.toString(),
+          bonusPercentage,
+          bonusAmount,
+          calculatedAt: new Date(),
+          isPaid: false,
+          notes: `Auto-calculated on assignment using rule: ${rule?.ruleName}`,
+        });
+      }
+      return result;
+    });
 
     return NextResponse.json({
       payment: updatedPayment[0],
@@ -1,5 +1,6 @@
 import { db } from "@/lib/db";
 import { bonusCalculation, payment } from "@/lib/db/schema";
+import { auditContext, recordAudit } from "@/lib/services/audit";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -10,23 +11,40 @@ export async function POST(
   const { id } = await params;
   const paymentId = parseInt(id, 10);
   try {
-    // Remove bonus calculation if exists
-    await db
-      .delete(bonusCalculation)
-      .where(eq(bonusCalculation.paymentId, paymentId));
+    const updatedPayment = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(payment)
+        .where(eq(payment.id, paymentId))
+        .for("update");
+      if (!existing) return [];
 
-    // Update payment to remove solicitor assignment
-    const updatedPayment = await db
-      .update(payment)
-      .set({
-        solicitorId: null,
-        bonusPercentage: null,
-        bonusAmount: null,
-        bonusRuleId: null,
-        updatedAt: new Date(),
-      })
-      .where(eq(payment.id, paymentId))
-      .returning();
+      // Remove bonus calculation if exists
+      await tx
+        .delete(bonusCalculation)
+        .where(eq(bonusCalculation.paymentId, paymentId));
+
+      // Update payment to remove solicitor assignment
+      const result = await tx
+        .update(payment)
+        .set({
+          solicitorId: null,
+          bonusPercentage: null,
+          bonusAmount: null,
+          bonusRuleId: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(payment.id, paymentId))
+        .returning();
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "payment",
+        existing,
+        result[0]
+      );
+      return result;
+    });
 
     if (updatedPayment.length === 0) {
       return NextResponse.json({ error: "Payment not found" }, { status: 404 });
@@ -1,15 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { eq, desc, isNull, isNotNull, and } from "drizzle-orm";
+import { eq, desc, isNull, isNotNull, and, getTableColumns } from "drizzle-orm";
 import { payment, contact, pledge, category, solicitor } from "@/lib/db/schema";
 import { alias } from "drizzle-orm/pg-core";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+
+const solicitorContact = alias(contact, "s_contact");
+
+// The listed contact, pledge and solicitor fields come from the query's joins
+const filterableColumns: FilterableColumns = {
+  ...getTableColumns(payment),
+  contactFirstName: contact.firstName,
+  contactLastName: contact.lastName,
+  contactEmail: contact.email,
+  pledgeDescription: pledge.description,
+  categoryName: category.name,
+  solicitorFirstName: solicitorContact.firstName,
+  solicitorLastName: solicitorContact.lastName,
+  solicitorCode: solicitor.solicitorCode,
+};
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const assigned = searchParams.get("assigned");
     const solicitorId = searchParams.get("solicitorId");
-    const whereConditions = [];
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
+    const whereConditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (assigned === "true") {
       whereConditions.push(isNotNull(payment.solicitorId));
@@ -20,7 +48,12 @@ export async function GET(request: NextRequest) {
     if (solicitorId) {
       whereConditions.push(eq(payment.solicitorId, parseInt(solicitorId)));
     }
-    const solicitorContact = alias(contact, "s_contact");
+
+    // Solicitors only ever see their own payments
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      whereConditions.push(eq(payment.solicitorId, ownSolicitorId));
+    }
     const payments = await db
       .select({
         id: payment.id,
@@ -53,11 +86,12 @@ export async function GET(request: NextRequest) {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(solicitor, eq(payment.solicitorId, solicitor.id))
       .leftJoin(solicitorContact, eq(solicitor.contactId, solicitorContact.id))
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .where(and(...whereConditions))
       .orderBy(desc(payment.paymentDate));
 
     return NextResponse.json({ payments });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching payments:", error);
     return NextResponse.json(
       { error: "Failed to fetch payments" },
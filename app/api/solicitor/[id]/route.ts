@@ -1,5 +1,6 @@
 import { db } from "@/lib/db";
 import { solicitor } from "@/lib/db/schema";
+import { auditContext, recordAudit } from "@/lib/services/audit";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -11,14 +12,31 @@ export async function PUT(
   const solicitorId = parseInt(id, 10);
   try {
     const body = await request.json();
-    const updatedSolicitor = await db
-      .update(solicitor)
-      .set({
-        ...body,
-        updatedAt: new Date(),
-      })
-      .where(eq(solicitor.id, solicitorId))
-      .returning();
+    const updatedSolicitor = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(solicitor)
+        .where(eq(solicitor.id, solicitorId))
+        .for("update");
+      if (!existing) return [];
+
+      const result = await tx
+        .update(solicitor)
+        .set({
+          ...body,
+          updatedAt: new Date(),
+        })
+        .where(eq(solicitor.id, solicitorId))
+        .returning();
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "solicitor",
+        existing,
+        result[0]
+      );
+      return result;
+    });
 
     if (updatedSolicitor.length === 0) {
       return NextResponse.json(
@@ -44,10 +62,22 @@ export async function DELETE(
   const { id } = await params;
   const solicitorId = parseInt(id, 10);
   try {
-    const deletedSolicitor = await db
-      .delete(solicitor)
-      .where(eq(solicitor.id, solicitorId))
-      .returning();
+    const deletedSolicitor = await db.transaction(async (tx) => {
+      const result = await tx
+        .delete(solicitor)
+        .where(eq(solicitor.id, solicitorId))
+        .returning();
+      if (result.length > 0) {
+        await recordAudit(
+          tx,
+          auditContext(request),
+          "solicitor",
+          result[0],
+          null
+        );
+      }
+      return result;
+    });
 
     if (deletedSolicitor.length === 0) {
       return NextResponse.json(
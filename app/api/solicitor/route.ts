@@ -1,30 +1,72 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { eq, desc, sql, and, or, ilike } from "drizzle-orm";
 import { solicitor, contact, payment, bonusCalculation } from "@/lib/db/schema";
+import { restrictedSolicitorId } from "@/lib/auth/session";
+import { auditContext, recordAudit } from "@/lib/services/audit";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import {
+  escapeLike,
+  filterColumns,
+  parseFilterParams,
+  type FilterableColumns,
+} from "@/lib/filter-columns";
+
+// Performance metrics are summed per solicitor, so they are filtered through
+// subqueries
+const filterableColumns: FilterableColumns = {
+  id: solicitor.id,
+  contactId: solicitor.contactId,
+  solicitorCode: solicitor.solicitorCode,
+  status: solicitor.status,
+  commissionRate: solicitor.commissionRate,
+  hireDate: solicitor.hireDate,
+  terminationDate: solicitor.terminationDate,
+  notes: solicitor.notes,
+  firstName: contact.firstName,
+  lastName: contact.lastName,
+  email: contact.email,
+  phone: contact.phone,
+  totalRaised: sql`(SELECT COALESCE(SUM(${payment.amountUsd}), 0) FROM ${payment} WHERE ${payment.solicitorId} = ${solicitor.id})`,
+  paymentsCount: sql`(SELECT COUNT(*) FROM ${payment} WHERE ${payment.solicitorId} = ${solicitor.id})`,
+  bonusEarned: sql`(SELECT COALESCE(SUM(${bonusCalculation.bonusAmount}), 0) FROM ${bonusCalculation} WHERE ${bonusCalculation.solicitorId} = ${solicitor.id})`,
+  lastActivity: sql`(SELECT MAX(${payment.paymentDate}) FROM ${payment} WHERE ${payment.solicitorId} = ${solicitor.id})`,
+};
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const search = searchParams.get("search");
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
     // Build where conditions array
-    const whereConditions = [];
+    const whereConditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (status && status !== "all") {
       whereConditions.push(eq(solicitor.status, status as any));
     }
 
+    const ownSolicitorId = restrictedSolicitorId(request);
+    if (ownSolicitorId) {
+      whereConditions.push(eq(solicitor.id, ownSolicitorId));
+    }
+
     if (search) {
+      const pattern = `%${escapeLike(search)}%`;
       whereConditions.push(
-        sql`(
-          LOWER(${contact.firstName}) LIKE LOWER(${"%" + search + "%"}) OR
-          LOWER(${contact.lastName}) LIKE LOWER(${"%" + search + "%"}) OR
-          LOWER(${contact.email}) LIKE LOWER(${"%" + search + "%"}) OR
-          LOWER(${solicitor.solicitorCode}) LIKE LOWER(${"%" + search + "%"})
-        )`
+        or(
+          ilike(contact.firstName, pattern),
+          ilike(contact.lastName, pattern),
+          ilike(contact.email, pattern),
+          ilike(solicitor.solicitorCode, pattern)
+        )
       );
     }
 
@@ -57,7 +99,7 @@ export async function GET(request: NextRequest) {
         bonusCalculation,
         eq(bonusCalculation.solicitorId, solicitor.id)
       )
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .where(and(...whereConditions))
       .groupBy(
         solicitor.id,
         solicitor.contactId,
@@ -78,6 +120,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ solicitors });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching solicitors:", error);
     return NextResponse.json(
       { error: "Failed to fetch solicitors" },
@@ -131,17 +174,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const newSolicitor = await db
-      .insert(solicitor)
-      .values({
-        contactId,
-        solicitorCode,
-        status,
-        commissionRate,
-        hireDate,
-        notes,
-      })
-      .returning();
+    const newSolicitor = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(solicitor)
+        .values({
+          contactId,
+          solicitorCode,
+          status,
+          commissionRate,
+          hireDate,
+          notes,
+        })
+        .returning();
+      await recordAudit(
+        tx,
+        auditContext(request),
+        "solicitor",
+        null,
+        created[0]
+      );
+      return created;
+    });
 
     return NextResponse.json({ solicitor: newSolicitor[0] }, { status: 201 });
   } catch (error) {
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql, desc, asc, or, ilike, and, eq } from "drizzle-orm";
+import {
+  sql,
+  desc,
+  asc,
+  or,
+  ilike,
+  and,
+  eq,
+  getTableColumns,
+} from "drizzle-orm";
 import { z } from "zod";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ErrorHandler, HttpError } from "@/lib/error-handler";
+import { filterColumns, parseFilterParams } from "@/lib/filter-columns";
 import { studentRoles } from "@/lib/db/schema";
 import { studentRoleSchema } from "@/lib/form-schemas/student-role";
 
@@ -82,8 +92,15 @@ export async function GET(request: NextRequest) {
       contactId,
     } = parsedParams.data;
     const offset = (page - 1) * limit;
+    const filterableColumns = getTableColumns(studentRoles);
+    const { filters, joinOperator } = parseFilterParams(
+      searchParams,
+      filterableColumns
+    );
 
-    const conditions = [];
+    const conditions = [
+      filterColumns({ columns: filterableColumns, filters, joinOperator }),
+    ];
 
     if (search) {
       conditions.push(
@@ -108,7 +125,7 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(studentRoles.isActive, isActive));
     if (contactId) conditions.push(eq(studentRoles.contactId, contactId));
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     let orderByClause;
     switch (sortBy) {
@@ -245,6 +262,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) return ErrorHandler.handle(error);
     console.error("Error fetching student roles:", error);
     return NextResponse.json(
       {
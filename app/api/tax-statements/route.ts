@@ -0,0 +1,69 @@
+import { db } from "@/lib/db";
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  buildTaxStatements,
+  renderTaxStatementsPdf,
+  taxStatementsToCsv,
+} from "@/lib/services/tax-statements";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  contactId: z.coerce.number().positive().optional(),
+  format: z.enum(["json", "pdf", "csv"]).default("json"),
+});
+
+// Year-end statements for one donor, or every donor in the year when no
+// contact is given
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = QueryParamsSchema.parse({
+      year: searchParams.get("year") || new Date().getFullYear() - 1,
+      contactId: searchParams.get("contactId") || undefined,
+      format: searchParams.get("format") || undefined,
+    });
+
+    const statements = await buildTaxStatements(db, params);
+    const fileName = params.contactId
+      ? `tax-statement-${params.year}-contact-${params.contactId}`
+      : `tax-statements-${params.year}`;
+
+    if (params.format === "csv") {
+      return new NextResponse(taxStatementsToCsv(statements), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${fileName}.csv"`,
+        },
+      });
+    }
+    if (params.format === "pdf") {
+      const pdf = await renderTaxStatementsPdf(statements);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${fileName}.pdf"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ year: params.year, statements });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error building tax statements:", error);
+    return ErrorHandler.handle(error);
+  }
+}
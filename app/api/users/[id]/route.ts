@@ -0,0 +1,69 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import { USER_ROLES } from "@/lib/auth/roles";
+import { getRequestUser } from "@/lib/auth/session";
+import { updateUser } from "@/lib/services/users";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateUserSchema = z.object({
+  name: z.string().optional().nullable(),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .optional(),
+  role: z.enum(USER_ROLES).optional(),
+  solicitorId: z.number().positive().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseInt(id, 10);
+    if (isNaN(userId) || userId <= 0) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateUserSchema.parse(body);
+
+    // Keep at least one admin able to sign in
+    const currentUser = getRequestUser(request);
+    if (
+      currentUser?.id === userId &&
+      (validatedData.isActive === false ||
+        (validatedData.role && validatedData.role !== "admin"))
+    ) {
+      return NextResponse.json(
+        { error: "You cannot deactivate or demote your own account" },
+        { status: 400 }
+      );
+    }
+
+    const updatedUser = await updateUser(userId, validatedData);
+
+    return NextResponse.json({
+      message: "User updated successfully",
+      user: updatedUser,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating user:", error);
+    return ErrorHandler.handle(error);
+  }
+}
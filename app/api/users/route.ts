@@ -0,0 +1,64 @@
+import { db } from "@/lib/db";
+import { user } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { USER_ROLES } from "@/lib/auth/roles";
+import { createUser, publicUserColumns } from "@/lib/services/users";
+import { asc } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const createUserSchema = z
+  .object({
+    email: z.string().email("Invalid email address"),
+    name: z.string().optional(),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    role: z.enum(USER_ROLES),
+    solicitorId: z.number().positive().optional().nullable(),
+  })
+  .refine((data) => data.role !== "solicitor" || !!data.solicitorId, {
+    message: "Solicitor users must be linked to a solicitor",
+    path: ["solicitorId"],
+  });
+
+export async function GET() {
+  try {
+    const users = await db
+      .select(publicUserColumns)
+      .from(user)
+      .orderBy(asc(user.email));
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = createUserSchema.parse(body);
+    const newUser = await createUser(validatedData);
+
+    return NextResponse.json(
+      { message: "User created successfully", user: newUser },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating user:", error);
+    return ErrorHandler.handle(error);
+  }
+}
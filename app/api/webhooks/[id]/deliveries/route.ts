@@ -0,0 +1,82 @@
+import { db } from "@/lib/db";
+import { webhookDelivery } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { and, desc, eq, sql, SQL } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const QueryParamsSchema = z.object({
+  webhookId: z.number().positive(),
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(25),
+  status: z.enum(["pending", "delivered", "failed"]).optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  try {
+    const { webhookId, page, limit, status } = QueryParamsSchema.parse({
+      webhookId: parseInt(id, 10),
+      page: parseInt(searchParams.get("page") || "1", 10),
+      limit: parseInt(searchParams.get("limit") || "25", 10),
+      status: searchParams.get("status") || undefined,
+    });
+
+    const conditions: SQL<unknown>[] = [
+      eq(webhookDelivery.endpointId, webhookId),
+    ];
+    if (status) {
+      conditions.push(eq(webhookDelivery.status, status));
+    }
+    const whereClause = and(...conditions);
+
+    const [deliveries, countResult] = await Promise.all([
+      db
+        .select()
+        .from(webhookDelivery)
+        .where(whereClause)
+        .orderBy(desc(webhookDelivery.createdAt), desc(webhookDelivery.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(webhookDelivery)
+        .where(whereClause),
+    ]);
+
+    const totalCount = Number(countResult[0]?.count || 0);
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return NextResponse.json({
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching webhook deliveries:", error);
+    return ErrorHandler.handle(error);
+  }
+}
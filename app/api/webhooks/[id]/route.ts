@@ -0,0 +1,132 @@
+import { db } from "@/lib/db";
+import { webhookEndpoint, type NewWebhookEndpoint } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  generateWebhookSecret,
+  publicWebhookEndpointColumns,
+  WEBHOOK_EVENTS,
+} from "@/lib/services/webhooks";
+import { eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateWebhookSchema = z.object({
+  url: z.string().url("A valid URL is required").optional(),
+  description: z.string().optional(),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, "Select at least one event")
+    .optional(),
+  isActive: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+function parseWebhookId(id: string): number | null {
+  const webhookId = parseInt(id, 10);
+  return isNaN(webhookId) || webhookId <= 0 ? null : webhookId;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const webhookId = parseWebhookId(id);
+    if (!webhookId) {
+      return NextResponse.json(
+        { error: "Invalid webhook ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateWebhookSchema.parse(body);
+
+    const updateData: Partial<NewWebhookEndpoint> = { updatedAt: new Date() };
+    if (validatedData.url !== undefined) {
+      updateData.url = validatedData.url;
+    }
+    if (validatedData.description !== undefined) {
+      updateData.description = validatedData.description || null;
+    }
+    if (validatedData.events !== undefined) {
+      updateData.events = Array.from(new Set(validatedData.events));
+    }
+    if (validatedData.isActive !== undefined) {
+      updateData.isActive = validatedData.isActive;
+    }
+    const secret = validatedData.rotateSecret
+      ? generateWebhookSecret()
+      : undefined;
+    if (secret) {
+      updateData.secret = secret;
+    }
+
+    const [updated] = await db
+      .update(webhookEndpoint)
+      .set(updateData)
+      .where(eq(webhookEndpoint.id, webhookId))
+      .returning(publicWebhookEndpointColumns);
+
+    if (!updated) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: "Webhook updated successfully",
+      webhook: updated,
+      ...(secret && { secret }),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating webhook:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+// Deleting an endpoint also drops its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const webhookId = parseWebhookId(id);
+    if (!webhookId) {
+      return NextResponse.json(
+        { error: "Invalid webhook ID" },
+        { status: 400 }
+      );
+    }
+
+    const [deleted] = await db
+      .delete(webhookEndpoint)
+      .where(eq(webhookEndpoint.id, webhookId))
+      .returning(publicWebhookEndpointColumns);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: "Webhook deleted successfully",
+      webhook: deleted,
+    });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return ErrorHandler.handle(error);
+  }
+}
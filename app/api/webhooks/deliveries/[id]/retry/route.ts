@@ -0,0 +1,40 @@
+import { ErrorHandler } from "@/lib/error-handler";
+import {
+  deliverWebhooksAfterResponse,
+  retryWebhookDelivery,
+} from "@/lib/services/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deliveryId = parseInt(id, 10);
+    if (isNaN(deliveryId) || deliveryId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid delivery ID" },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await retryWebhookDelivery(deliveryId);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Delivery not found or not failed" },
+        { status: 404 }
+      );
+    }
+
+    deliverWebhooksAfterResponse();
+
+    return NextResponse.json({
+      message: "Delivery queued for retry",
+      delivery,
+    });
+  } catch (error) {
+    console.error("Error retrying webhook delivery:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { db } from "@/lib/db";
+import { webhookEndpoint } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { getRequestUser } from "@/lib/auth/session";
+import {
+  generateWebhookSecret,
+  publicWebhookEndpointColumns,
+  WEBHOOK_EVENTS,
+} from "@/lib/services/webhooks";
+import { desc } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const createWebhookSchema = z.object({
+  url: z.string().url("A valid URL is required"),
+  description: z.string().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Select at least one event"),
+});
+
+export async function GET() {
+  try {
+    const webhooks = await db
+      .select(publicWebhookEndpointColumns)
+      .from(webhookEndpoint)
+      .orderBy(desc(webhookEndpoint.createdAt));
+
+    return NextResponse.json({ webhooks, availableEvents: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = createWebhookSchema.parse(body);
+    const secret = generateWebhookSecret();
+
+    const [created] = await db
+      .insert(webhookEndpoint)
+      .values({
+        url: validatedData.url,
+        description: validatedData.description || null,
+        events: Array.from(new Set(validatedData.events)),
+        secret,
+        createdBy: getRequestUser(request)?.id ?? null,
+      })
+      .returning(publicWebhookEndpointColumns);
+
+    return NextResponse.json(
+      {
+        message:
+          "Webhook created. Copy the signing secret now; it will not be shown again.",
+        webhook: created,
+        secret,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating webhook:", error);
+    return ErrorHandler.handle(error);
+  }
+}
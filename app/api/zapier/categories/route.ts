@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { category } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const categories = await db.select().from(category);
-    return NextResponse.json(categories);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(category),
+        cursorKey: feedCursorKey(category),
+      })
+      .from(category)
+      .where(feedWhere(category, query))
+      .orderBy(...feedOrderBy(category))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching categories:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch categories" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { contactRoles } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const roles = await db.select().from(contactRoles);
-    return NextResponse.json(roles);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(contactRoles),
+        cursorKey: feedCursorKey(contactRoles),
+      })
+      .from(contactRoles)
+      .where(feedWhere(contactRoles, query))
+      .orderBy(...feedOrderBy(contactRoles))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching contact roles:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch contact roles" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
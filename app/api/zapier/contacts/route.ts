@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { contact } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const contacts = await db.select().from(contact);
-    return NextResponse.json(contacts);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(contact),
+        cursorKey: feedCursorKey(contact),
+      })
+      .from(contact)
+      .where(feedWhere(contact, query))
+      .orderBy(...feedOrderBy(contact))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching contacts:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch contacts" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { paymentPlan } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const plans = await db.select().from(paymentPlan);
-    return NextResponse.json(plans);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(paymentPlan),
+        cursorKey: feedCursorKey(paymentPlan),
+      })
+      .from(paymentPlan)
+      .where(feedWhere(paymentPlan, query))
+      .orderBy(...feedOrderBy(paymentPlan))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching payment plans:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch payment plans" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
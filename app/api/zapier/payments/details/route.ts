@@ -1,4 +1,4 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import {
   payment,
@@ -10,10 +10,22 @@ import {
   bonusRule,
 } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const paymentsWithDetails = await db
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
       .select({
         id: payment.id,
         amount: payment.amount,
@@ -60,6 +72,8 @@ export async function GET() {
         bonusRuleId: bonusRule.id,
         bonusRuleName: bonusRule.ruleName,
         bonusRulePaymentType: bonusRule.paymentType,
+        updatedAt: payment.updatedAt,
+        cursorKey: feedCursorKey(payment),
       })
       .from(payment)
       .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
@@ -67,14 +81,14 @@ export async function GET() {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(paymentPlan, eq(payment.paymentPlanId, paymentPlan.id))
       .leftJoin(solicitor, eq(payment.solicitorId, solicitor.id))
-      .leftJoin(bonusRule, eq(payment.bonusRuleId, bonusRule.id));
+      .leftJoin(bonusRule, eq(payment.bonusRuleId, bonusRule.id))
+      .where(feedWhere(payment, query))
+      .orderBy(...feedOrderBy(payment))
+      .limit(query.limit + 1);
 
-    return NextResponse.json(paymentsWithDetails);
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching payments with details:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch payments with details" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
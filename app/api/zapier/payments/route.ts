@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { payment } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const payments = await db.select().from(payment);
-    return NextResponse.json(payments);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(payment),
+        cursorKey: feedCursorKey(payment),
+      })
+      .from(payment)
+      .where(feedWhere(payment, query))
+      .orderBy(...feedOrderBy(payment))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching payments:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch payments" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
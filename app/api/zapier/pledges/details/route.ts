@@ -1,4 +1,4 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import {
   pledge,
@@ -8,10 +8,22 @@ import {
   paymentPlan,
 } from "@/lib/db/schema";
 import { eq, sql } from "drizzle-orm";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const pledgesWithDetails = await db
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
       .select({
         // Pledge core details
         id: pledge.id,
@@ -28,6 +40,8 @@ export async function GET() {
         balanceUsd: pledge.balanceUsd,
         isActive: pledge.isActive,
         notes: pledge.notes,
+        updatedAt: pledge.updatedAt,
+        cursorKey: feedCursorKey(pledge),
 
         // Contact (Donor) details
         contactFirstName: contact.firstName,
@@ -64,14 +78,14 @@ export async function GET() {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(payment, eq(pledge.id, payment.pledgeId))
       .leftJoin(paymentPlan, eq(pledge.id, paymentPlan.pledgeId))
-      .groupBy(pledge.id, contact.id, category.id);
+      .where(feedWhere(pledge, query))
+      .groupBy(pledge.id, contact.id, category.id)
+      .orderBy(...feedOrderBy(pledge))
+      .limit(query.limit + 1);
 
-    return NextResponse.json(pledgesWithDetails);
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching pledges with details:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch pledges with details" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { pledge } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const pledges = await db.select().from(pledge);
-    return NextResponse.json(pledges);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(pledge),
+        cursorKey: feedCursorKey(pledge),
+      })
+      .from(pledge)
+      .where(feedWhere(pledge, query))
+      .orderBy(...feedOrderBy(pledge))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching pledges:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch pledges" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
@@ -1,16 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getTableColumns } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { relationships } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { authenticateApiKey } from "@/lib/services/api-keys";
+import {
+  feedCursorKey,
+  feedOrderBy,
+  feedPage,
+  feedWhere,
+  parseFeedQuery,
+} from "@/lib/services/feeds";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const relationshipData = await db.select().from(relationships);
-    return NextResponse.json(relationshipData);
+    await authenticateApiKey(request);
+    const query = parseFeedQuery(request);
+
+    const rows = await db
+      .select({
+        ...getTableColumns(relationships),
+        cursorKey: feedCursorKey(relationships),
+      })
+      .from(relationships)
+      .where(feedWhere(relationships, query))
+      .orderBy(...feedOrderBy(relationships))
+      .limit(query.limit + 1);
+
+    return NextResponse.json(feedPage(rows, query.limit));
   } catch (error) {
     console.error("Error fetching relationships:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch relationships" },
-      { status: 500 }
-    );
+    return ErrorHandler.handle(error);
   }
 }
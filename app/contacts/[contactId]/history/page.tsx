@@ -0,0 +1,19 @@
+import AuditLogTable from "@/components/audit-log/audit-log-client";
+import React from "react";
+
+export default async function HistoryPage({
+  params,
+}: {
+  params: Promise<{ contactId: string }>;
+}) {
+  const { contactId } = await params;
+  const contactIdNumber = parseInt(contactId, 10);
+  if (isNaN(contactIdNumber)) {
+    return (
+      <div className="p-4">
+        <div className="text-red-600">Invalid contact ID</div>
+      </div>
+    );
+  }
+  return <AuditLogTable contactId={contactIdNumber} />;
+}
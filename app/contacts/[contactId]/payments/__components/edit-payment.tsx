@@ -149,11 +149,9 @@ const editPaymentSchema = z.object({
     .optional(),
   referenceNumber: z.string().optional(),
   checkNumber: z.string().optional(),
-  receiptNumber: z.string().optional(),
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional(),
-  receiptIssued: z.boolean().optional(),
   // Solicitor fields
   solicitorId: z.number().positive().optional(),
   bonusPercentage: z.number().min(0).max(100).optional(),
@@ -241,9 +239,7 @@ export default function EditPaymentDialog({
       paymentStatus: payment.paymentStatus as any,
       referenceNumber: payment.referenceNumber || "",
       checkNumber: payment.checkNumber || "",
-      receiptNumber: payment.receiptNumber || "",
       receiptType: payment.receiptType as any,
-      receiptIssued: payment.receiptIssued,
       solicitorId: payment.solicitorId || undefined,
       bonusPercentage: payment.bonusPercentage
         ? parseFloat(payment.bonusPercentage)
@@ -313,9 +309,7 @@ export default function EditPaymentDialog({
       paymentStatus: payment.paymentStatus as any,
       referenceNumber: payment.referenceNumber || "",
       checkNumber: payment.checkNumber || "",
-      receiptNumber: payment.receiptNumber || "",
       receiptType: payment.receiptType as any,
-      receiptIssued: payment.receiptIssued,
       solicitorId: payment.solicitorId || undefined,
       bonusPercentage: payment.bonusPercentage
         ? parseFloat(payment.bonusPercentage)
@@ -613,7 +607,7 @@ export default function EditPaymentDialog({
                 )}
               />
 
-              {watchedPaymentMethod === "check" ? (
+              {watchedPaymentMethod === "check" && (
                 <FormField
                   control={form.control}
                   name="checkNumber"
@@ -627,24 +621,10 @@ export default function EditPaymentDialog({
                     </FormItem>
                   )}
                 />
-              ) : (
-                <FormField
-                  control={form.control}
-                  name="receiptNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Receipt Number</FormLabel>
-                      <FormControl>
-                        <Input {...field} placeholder="Receipt number" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
               )}
             </div>
 
-            {/* Receipt Type and Receipt Issued Row */}
+            {/* Receipt Type Row */}
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -670,23 +650,6 @@ export default function EditPaymentDialog({
                   </FormItem>
                 )}
               />
-
-              <FormField
-                control={form.control}
-                name="receiptIssued"
-                render={({ field }) => (
-                  <FormItem className="flex items-center space-x-2 pt-6">
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <FormLabel className="!mt-0">Receipt Issued</FormLabel>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
             </div>
             {/* Solicitor Section Toggle */}
             <div className="border-t pt-4">
@@ -60,9 +60,7 @@ export interface UpdatePaymentRequest {
   paymentStatus?: Payment["paymentStatus"];
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
   receiptType?: Payment["receiptType"];
-  receiptIssued?: boolean;
   solicitorId?: number;
   bonusPercentage?: number;
   bonusAmount?: number;
@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Undo2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useContactMergesQuery,
+  useDuplicateContactsQuery,
+  useUndoMergeMutation,
+  type DuplicatePair,
+} from "@/lib/query/contact-merges/useContactMergeQuery";
+import MergeContactsDialog from "./merge-contacts-dialog";
+
+function ContactCell({ contact }: { contact: DuplicatePair["contact"] }) {
+  return (
+    <div className="space-y-0.5">
+      <Link
+        href={`/contacts/${contact.id}`}
+        className="font-medium hover:underline"
+      >
+        {contact.firstName} {contact.lastName}
+      </Link>
+      <p className="text-xs text-gray-500">
+        #{contact.id}
+        {contact.email && ` · ${contact.email}`}
+        {contact.phone && ` · ${contact.phone}`}
+      </p>
+      {contact.address && (
+        <p className="text-xs text-gray-500">{contact.address}</p>
+      )}
+    </div>
+  );
+}
+
+export default function ContactDuplicates() {
+  const [minScore, setMinScore] = useState(0.6);
+  const [pair, setPair] = useState<{
+    survivorId: number;
+    mergedContactId: number;
+  } | null>(null);
+
+  const { data, isLoading, error } = useDuplicateContactsQuery(minScore);
+  const { data: mergesData } = useContactMergesQuery();
+  const undoMutation = useUndoMergeMutation();
+
+  const handleUndo = async (mergeId: number) => {
+    try {
+      const response = await undoMutation.mutateAsync(mergeId);
+      toast.success(response.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Undo failed");
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to look for duplicate contacts. Please try again later.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Possible Duplicates</CardTitle>
+          <div className="flex gap-2">
+            <Select
+              value={String(minScore)}
+              onValueChange={(value) => setMinScore(Number(value))}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0.5">Loose matches</SelectItem>
+                <SelectItem value="0.6">Likely matches</SelectItem>
+                <SelectItem value="0.8">Strong matches</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/contacts">All Contacts</Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Contact
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Possible Duplicate
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Match
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 4 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-24" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.duplicates.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={4}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No likely duplicates found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.duplicates.map((duplicate) => (
+                    <TableRow
+                      key={`${duplicate.contact.id}-${duplicate.duplicate.id}`}
+                    >
+                      <TableCell>
+                        <ContactCell contact={duplicate.contact} />
+                      </TableCell>
+                      <TableCell>
+                        <ContactCell contact={duplicate.duplicate} />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">
+                          {Math.round(duplicate.score * 100)}%
+                        </p>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {duplicate.reasons.map((reason) => (
+                            <Badge key={reason} variant="secondary">
+                              {reason}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          onClick={() =>
+                            setPair({
+                              survivorId: duplicate.contact.id,
+                              mergedContactId: duplicate.duplicate.id,
+                            })
+                          }
+                        >
+                          Review
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Merges</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Merged
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Into
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    When
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    By
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mergesData?.merges.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No contacts have been merged yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  mergesData?.merges.map((merge) => (
+                    <TableRow key={merge.id}>
+                      <TableCell>
+                        {merge.mergedName} #{merge.mergedContactId}
+                      </TableCell>
+                      <TableCell>
+                        <Link
+                          href={`/contacts/${merge.survivorId}`}
+                          className="hover:underline"
+                        >
+                          {merge.survivorName} #{merge.survivorId}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {format(new Date(merge.mergedAt), "MMM d, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>{merge.mergedByName ?? "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {merge.undoneAt ? (
+                          <Badge className="bg-yellow-100 text-yellow-800">
+                            undone
+                          </Badge>
+                        ) : (
+                          merge.canUndo && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={undoMutation.isPending}
+                              onClick={() => handleUndo(merge.id)}
+                            >
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Undo
+                            </Button>
+                          )
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <MergeContactsDialog pair={pair} onClose={() => setPair(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ArrowLeftRight, Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useMergeContactsMutation,
+  useMergePreviewQuery,
+  type FieldSource,
+  type MergeableField,
+} from "@/lib/query/contact-merges/useContactMergeQuery";
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  firstName: "First name",
+  lastName: "Last name",
+  email: "Email",
+  phone: "Phone",
+  title: "Title",
+  gender: "Gender",
+  address: "Address",
+};
+
+interface MergeContactsDialogProps {
+  pair: { survivorId: number; mergedContactId: number } | null;
+  onClose: () => void;
+}
+
+export default function MergeContactsDialog({
+  pair,
+  onClose,
+}: MergeContactsDialogProps) {
+  const [ids, setIds] = useState(pair);
+  const [fields, setFields] = useState<Partial<
+    Record<MergeableField, FieldSource>
+  > | null>(null);
+
+  useEffect(() => {
+    setIds(pair);
+    setFields(null);
+  }, [pair]);
+
+  const { data: preview, isLoading } = useMergePreviewQuery(
+    ids?.survivorId ?? null,
+    ids?.mergedContactId ?? null
+  );
+  const mergeMutation = useMergeContactsMutation();
+
+  // The suggestion applies until a value is picked by hand
+  const sources = fields ?? preview?.fields;
+
+  const handleMerge = async () => {
+    if (!ids || !sources) return;
+    try {
+      const response = await mergeMutation.mutateAsync({
+        ...ids,
+        fields: sources,
+      });
+      toast.success(response.message);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Merge failed");
+    }
+  };
+
+  const recordSummary = preview
+    ? [
+        [preview.counts.pledges, "pledge"],
+        [preview.counts.studentRoles, "student role"],
+        [preview.counts.contactRoles, "contact role"],
+        [preview.counts.relationships, "relationship"],
+        [preview.counts.solicitors, "solicitor record"],
+        [preview.counts.credits, "credit entry"],
+      ]
+        .filter(([count]) => Number(count) > 0)
+        .map(([count, label]) => `${count} ${label}${count === 1 ? "" : "s"}`)
+    : [];
+
+  return (
+    <Dialog open={!!pair} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge Contacts</DialogTitle>
+          <DialogDescription>
+            Pick the value to keep for each field. Everything attached to the
+            merged contact moves to the surviving one, and the merge can be
+            undone for 30 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !preview || !sources ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32" />
+                    <TableHead>Survivor #{preview.survivor.id}</TableHead>
+                    <TableHead>
+                      <div className="flex items-center justify-between gap-2">
+                        Merged #{preview.merged.id}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setIds({
+                              survivorId: preview.merged.id,
+                              mergedContactId: preview.survivor.id,
+                            });
+                            setFields(null);
+                          }}
+                        >
+                          <ArrowLeftRight className="h-4 w-4 mr-1" />
+                          Swap
+                        </Button>
+                      </div>
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(FIELD_LABELS) as MergeableField[]).map(
+                    (field) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">
+                          {FIELD_LABELS[field]}
+                        </TableCell>
+                        {(["survivor", "merged"] as const).map((source) => (
+                          <TableCell
+                            key={source}
+                            onClick={() =>
+                              setFields({ ...sources, [field]: source })
+                            }
+                            className={`cursor-pointer ${
+                              sources[field] === source
+                                ? "bg-green-50 font-medium"
+                                : "text-gray-500"
+                            }`}
+                          >
+                            {preview[source][field] || "—"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    )
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {recordSummary.length > 0
+                ? `Moves ${recordSummary.join(", ")} to the survivor.`
+                : "The merged contact has no records to move."}
+            </p>
+
+            {preview.blocker && (
+              <Alert variant="destructive">
+                <AlertDescription>{preview.blocker}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!preview || !!preview.blocker || mergeMutation.isPending}
+            onClick={handleMerge}
+          >
+            {mergeMutation.isPending && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import ContactDuplicates from "./_components/contact-duplicates";
+
+const ContactDuplicatesPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ContactDuplicates />
+    </Suspense>
+  );
+};
+
+export default ContactDuplicatesPage;
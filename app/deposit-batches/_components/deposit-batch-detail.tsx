@@ -0,0 +1,406 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { CheckCircle, Landmark, Loader2, Printer, Trash2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useAddBatchPaymentsMutation,
+  useDeleteDepositBatchMutation,
+  useDepositBatchMutation,
+  useDepositBatchQuery,
+  useReconcileDepositBatchMutation,
+  useRemoveBatchPaymentsMutation,
+  useUndepositedChecksQuery,
+  type DepositBatchPayment,
+  type DepositBatchStatus,
+  type DepositBatchTotal,
+} from "@/lib/query/deposit-batches/useDepositBatchQuery";
+
+export const STATUS_STYLES: Record<DepositBatchStatus, string> = {
+  open: "bg-blue-100 text-blue-800",
+  deposited: "bg-yellow-100 text-yellow-800",
+  reconciled: "bg-green-100 text-green-800",
+};
+
+export const formatTotals = (totals: DepositBatchTotal[]) =>
+  totals.length === 0
+    ? "—"
+    : totals
+        .map(
+          (total) =>
+            `${total.currency} ${total.amount.toLocaleString("en-US", {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}`
+        )
+        .join(", ");
+
+interface DepositBatchDetailProps {
+  batchId: number;
+  onDeleted: () => void;
+}
+
+const formatAmount = (amount: string | number, currency: string) =>
+  `${currency} ${Number(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+function ChecksTable({
+  payments,
+  selected,
+  onToggle,
+  emptyMessage,
+}: {
+  payments: DepositBatchPayment[];
+  selected?: Set<number>;
+  onToggle?: (paymentId: number) => void;
+  emptyMessage: string;
+}) {
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {onToggle && <TableHead className="w-10" />}
+            <TableHead>Check #</TableHead>
+            <TableHead>Payer</TableHead>
+            <TableHead>Pledge</TableHead>
+            <TableHead>Dated</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {payments.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={onToggle ? 6 : 5}
+                className="text-center py-6 text-gray-500"
+              >
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            payments.map((row) => (
+              <TableRow key={row.id}>
+                {onToggle && (
+                  <TableCell>
+                    <Checkbox
+                      checked={selected?.has(row.id)}
+                      onCheckedChange={() => onToggle(row.id)}
+                    />
+                  </TableCell>
+                )}
+                <TableCell>{row.checkNumber ?? "—"}</TableCell>
+                <TableCell>
+                  <Link
+                    href={`/contacts/${row.contactId}/payments`}
+                    className="hover:underline"
+                  >
+                    {row.contactName}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  {row.pledgeDescription || `Pledge #${row.pledgeId}`}
+                </TableCell>
+                <TableCell>{row.paymentDate}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatAmount(row.amount, row.currency)}
+                  {row.paymentStatus !== "completed" && (
+                    <Badge className="ml-2 bg-red-100 text-red-800">
+                      {row.paymentStatus}
+                    </Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function DepositBatchDetail({
+  batchId,
+  onDeleted,
+}: DepositBatchDetailProps) {
+  const [inBatchSelected, setInBatchSelected] = useState<Set<number>>(
+    new Set()
+  );
+  const [undepositedSelected, setUndepositedSelected] = useState<Set<number>>(
+    new Set()
+  );
+  const [reconcileOpen, setReconcileOpen] = useState(false);
+  const [bankAmounts, setBankAmounts] = useState<Record<string, string>>({});
+  const [bankReference, setBankReference] = useState("");
+
+  const { data, isLoading } = useDepositBatchQuery(batchId);
+  const isOpen = data?.batch.status === "open";
+  const { data: undeposited } = useUndepositedChecksQuery();
+
+  const addMutation = useAddBatchPaymentsMutation();
+  const removeMutation = useRemoveBatchPaymentsMutation();
+  const depositMutation = useDepositBatchMutation();
+  const reconcileMutation = useReconcileDepositBatchMutation();
+  const deleteMutation = useDeleteDepositBatchMutation();
+
+  const toggle =
+    (setter: React.Dispatch<React.SetStateAction<Set<number>>>) =>
+    (paymentId: number) =>
+      setter((current) => {
+        const next = new Set(current);
+        if (next.has(paymentId)) next.delete(paymentId);
+        else next.add(paymentId);
+        return next;
+      });
+
+  const run = async (action: () => Promise<{ message: string }>) => {
+    try {
+      const response = await action();
+      toast.success(response.message);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Action failed");
+      return false;
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { batch, payments } = data;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            Batch #{batch.id}
+            <Badge className={STATUS_STYLES[batch.status]}>
+              {batch.status}
+            </Badge>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {batch.bankAccount} · deposit date {batch.depositDate}
+            {batch.bankReference && ` · bank ref ${batch.bankReference}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a
+              href={`/api/deposit-batches/${batch.id}/slip`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Deposit Slip
+            </a>
+          </Button>
+          {isOpen && (
+            <>
+              <Button
+                size="sm"
+                disabled={payments.length === 0 || depositMutation.isPending}
+                onClick={() =>
+                  run(() => depositMutation.mutateAsync({ batchId }))
+                }
+              >
+                <Landmark className="h-4 w-4 mr-2" />
+                Mark Deposited
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={async () => {
+                  if (await run(() => deleteMutation.mutateAsync(batchId))) {
+                    onDeleted();
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </>
+          )}
+          {batch.status === "deposited" && (
+            <Button
+              size="sm"
+              onClick={() => {
+                setBankAmounts({});
+                setBankReference(batch.bankReference ?? "");
+                setReconcileOpen(true);
+              }}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Reconcile
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm">
+          <span className="font-medium">
+            {batch.paymentCount} check{batch.paymentCount === 1 ? "" : "s"}:
+          </span>{" "}
+          {formatTotals(batch.totals)}
+        </p>
+
+        <div className="space-y-2">
+          <ChecksTable
+            payments={payments}
+            selected={isOpen ? inBatchSelected : undefined}
+            onToggle={isOpen ? toggle(setInBatchSelected) : undefined}
+            emptyMessage="No checks in this batch yet"
+          />
+          {isOpen && inBatchSelected.size > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={removeMutation.isPending}
+              onClick={async () => {
+                const removed = await run(() =>
+                  removeMutation.mutateAsync({
+                    batchId,
+                    paymentIds: [...inBatchSelected],
+                  })
+                );
+                if (removed) setInBatchSelected(new Set());
+              }}
+            >
+              Remove {inBatchSelected.size} from Batch
+            </Button>
+          )}
+        </div>
+
+        {isOpen && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-gray-900">Undeposited Checks</h4>
+            <ChecksTable
+              payments={undeposited?.payments ?? []}
+              selected={undepositedSelected}
+              onToggle={toggle(setUndepositedSelected)}
+              emptyMessage="Every completed check is already in a batch"
+            />
+            <Button
+              size="sm"
+              disabled={undepositedSelected.size === 0 || addMutation.isPending}
+              onClick={async () => {
+                const added = await run(() =>
+                  addMutation.mutateAsync({
+                    batchId,
+                    paymentIds: [...undepositedSelected],
+                  })
+                );
+                if (added) setUndepositedSelected(new Set());
+              }}
+            >
+              {addMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Add {undepositedSelected.size || ""} to Batch
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={reconcileOpen} onOpenChange={setReconcileOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reconcile Batch #{batch.id}</DialogTitle>
+            <DialogDescription>
+              Enter the amount the bank statement shows for this deposit in each
+              currency. The batch is reconciled only if they match.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {batch.totals.map((total) => (
+              <div key={total.currency} className="space-y-2">
+                <Label htmlFor={`bank-amount-${total.currency}`}>
+                  {total.currency} credited by the bank
+                </Label>
+                <Input
+                  id={`bank-amount-${total.currency}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={bankAmounts[total.currency] ?? ""}
+                  onChange={(event) =>
+                    setBankAmounts((current) => ({
+                      ...current,
+                      [total.currency]: event.target.value,
+                    }))
+                  }
+                  placeholder={total.amount.toFixed(2)}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="bank-reference">Bank reference</Label>
+              <Input
+                id="bank-reference"
+                value={bankReference}
+                onChange={(event) => setBankReference(event.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              disabled={
+                reconcileMutation.isPending ||
+                batch.totals.some((total) => !bankAmounts[total.currency])
+              }
+              onClick={async () => {
+                const reconciled = await run(() =>
+                  reconcileMutation.mutateAsync({
+                    batchId,
+                    bankTotals: batch.totals.map((total) => ({
+                      currency: total.currency,
+                      amount: Number.parseFloat(bankAmounts[total.currency]),
+                    })),
+                    bankReference: bankReference || undefined,
+                  })
+                );
+                if (reconciled) setReconcileOpen(false);
+              }}
+            >
+              Reconcile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
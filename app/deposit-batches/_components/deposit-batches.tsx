@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useQueryState } from "nuqs";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Plus } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useCreateDepositBatchMutation,
+  useDepositBatchesQuery,
+  type DepositBatchStatus,
+} from "@/lib/query/deposit-batches/useDepositBatchQuery";
+import DepositBatchDetail, {
+  STATUS_STYLES,
+  formatTotals,
+} from "./deposit-batch-detail";
+
+export default function DepositBatches() {
+  const [batchId, setBatchId] = useQueryState("batch", {
+    parse: (value) => Number.parseInt(value) || null,
+    serialize: (value) => value.toString(),
+  });
+  const [status, setStatus] = useState<DepositBatchStatus | "all">("all");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [bankAccount, setBankAccount] = useState("");
+  const [depositDate, setDepositDate] = useState(
+    format(new Date(), "yyyy-MM-dd")
+  );
+
+  const { data, isLoading, error } = useDepositBatchesQuery(
+    status === "all" ? undefined : status
+  );
+  const createMutation = useCreateDepositBatchMutation();
+
+  const handleCreate = async () => {
+    try {
+      const response = await createMutation.mutateAsync({
+        bankAccount,
+        depositDate,
+      });
+      toast.success(response.message);
+      setCreateOpen(false);
+      setBankAccount("");
+      setBatchId(response.batch.id);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create batch"
+      );
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to load deposit batches. Please try again later.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Deposit Batches</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/pledges">All Pledges</Link>
+            </Button>
+            <Button size="sm" onClick={() => setCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Batch
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-4 mb-6">
+            <Select
+              value={status}
+              onValueChange={(value) =>
+                setStatus(value as DepositBatchStatus | "all")
+              }
+            >
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All batches</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="deposited">Deposited</SelectItem>
+                <SelectItem value="reconciled">Reconciled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Batch
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Deposit Date
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Bank Account
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Checks
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Total
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Status
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 6 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.batches.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No deposit batches yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.batches.map((batch) => (
+                    <TableRow
+                      key={batch.id}
+                      onClick={() => setBatchId(batch.id)}
+                      className={`cursor-pointer hover:bg-gray-50 ${
+                        batch.id === batchId ? "bg-gray-50" : ""
+                      }`}
+                    >
+                      <TableCell className="font-medium">#{batch.id}</TableCell>
+                      <TableCell>{batch.depositDate}</TableCell>
+                      <TableCell>{batch.bankAccount}</TableCell>
+                      <TableCell>{batch.paymentCount}</TableCell>
+                      <TableCell>{formatTotals(batch.totals)}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[batch.status]}>
+                          {batch.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {batchId && (
+        <DepositBatchDetail
+          batchId={batchId}
+          onDeleted={() => setBatchId(null)}
+        />
+      )}
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Deposit Batch</DialogTitle>
+            <DialogDescription>
+              Gather checks into a batch, print the slip and mark it deposited
+              once it is at the bank.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="deposit-bank-account">Bank account</Label>
+              <Input
+                id="deposit-bank-account"
+                value={bankAccount}
+                onChange={(event) => setBankAccount(event.target.value)}
+                placeholder="e.g. Operating account ••1234"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposit-date">Deposit date</Label>
+              <Input
+                id="deposit-date"
+                type="date"
+                value={depositDate}
+                onChange={(event) => setDepositDate(event.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleCreate}
+              disabled={
+                !bankAccount.trim() || !depositDate || createMutation.isPending
+              }
+            >
+              Create Batch
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
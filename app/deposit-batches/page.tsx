@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import DepositBatches from "./_components/deposit-batches";
+
+const DepositBatchesPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <DepositBatches />
+    </Suspense>
+  );
+};
+
+export default DepositBatchesPage;
@@ -0,0 +1,345 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useQueryState } from "nuqs";
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  useFxRevaluationQuery,
+  type Currency,
+} from "@/lib/query/pledge/useFxRevaluationQuery";
+
+const CURRENCIES: Currency[] = [
+  "ILS",
+  "EUR",
+  "JPY",
+  "GBP",
+  "AUD",
+  "CAD",
+  "ZAR",
+];
+
+const formatCurrency = (amount: number | null, currency = "USD") =>
+  amount === null
+    ? "—"
+    : new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      }).format(amount);
+
+// Gains in green, losses in red
+const FxAmount = ({ amount }: { amount: number | null }) => (
+  <span
+    className={
+      amount === null || amount === 0
+        ? "text-gray-600"
+        : amount > 0
+          ? "text-green-700"
+          : "text-red-600"
+    }
+  >
+    {formatCurrency(amount)}
+  </span>
+);
+
+export default function FxRevaluationReport() {
+  const [asOf, setAsOf] = useQueryState("asOf", {
+    defaultValue: format(new Date(), "yyyy-MM-dd"),
+  });
+  const [currency, setCurrency] = useQueryState<Currency | null>("currency", {
+    parse: (value) =>
+      CURRENCIES.includes(value as Currency) ? (value as Currency) : null,
+    serialize: (value) => value ?? "",
+    defaultValue: null,
+  });
+  const [includeClosed, setIncludeClosed] = useQueryState("includeClosed", {
+    parse: (value) => value === "true",
+    serialize: (value) => value.toString(),
+    defaultValue: false,
+  });
+
+  const { data, isLoading, error } = useFxRevaluationQuery({
+    asOf,
+    currency: currency ?? undefined,
+    includeClosed,
+  });
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to load the FX revaluation report. Please try again later.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>FX Revaluation</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-6">
+            <Input
+              type="date"
+              value={asOf}
+              onChange={(e) => e.target.value && setAsOf(e.target.value)}
+              className="w-full sm:w-44"
+            />
+            <Select
+              value={currency ?? "all"}
+              onValueChange={(value) =>
+                setCurrency(value === "all" ? null : (value as Currency))
+              }
+            >
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue placeholder="Currency" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All currencies</SelectItem>
+                {CURRENCIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="includeClosed"
+                checked={includeClosed}
+                onCheckedChange={(checked) =>
+                  setIncludeClosed(checked === true)
+                }
+              />
+              <Label htmlFor="includeClosed">Include fully paid pledges</Label>
+            </div>
+          </div>
+
+          {data && data.missingRates.length > 0 && (
+            <Alert className="mb-6">
+              <AlertDescription>
+                No exchange rate on or shortly before {data.asOf} for{" "}
+                {data.missingRates.join(", ")}. Their current values are left
+                blank until a rate is entered or imported.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="border rounded-lg overflow-hidden mb-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Currency
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Rate to USD
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Pledges
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Original (USD)
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Current Value (USD)
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Realized FX
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Unrealized FX
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 7 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.currencies.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No foreign-currency pledges to revalue
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.currencies.map((row) => (
+                    <TableRow key={row.currency} className="hover:bg-gray-50">
+                      <TableCell className="font-medium">
+                        {row.currency}
+                      </TableCell>
+                      <TableCell>
+                        {row.currentRate === null ? (
+                          "—"
+                        ) : (
+                          <>
+                            {row.currentRate.toFixed(6)}
+                            {row.rateDate !== data.asOf && (
+                              <span className="text-xs text-gray-500">
+                                {" "}
+                                ({row.rateDate})
+                              </span>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.pledgeCount}</TableCell>
+                      <TableCell>
+                        {formatCurrency(row.originalAmountUsd)}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(row.currentValueUsd)}
+                      </TableCell>
+                      <TableCell>
+                        <FxAmount amount={row.realizedFxUsd} />
+                      </TableCell>
+                      <TableCell>
+                        <FxAmount amount={row.unrealizedFxUsd} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Pledge Date
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Contact
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Pledge Amount
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Original (USD)
+                  </TableHead>
+                  <TableHead className="font-semibold text-red-400">
+                    Balance
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Current Value (USD)
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Realized FX
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Unrealized FX
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 8 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.pledges.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={8}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No pledges found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.pledges.map((pledge) => (
+                    <TableRow
+                      key={pledge.pledgeId}
+                      className="hover:bg-gray-50"
+                    >
+                      <TableCell className="font-medium whitespace-nowrap">
+                        {new Date(pledge.pledgeDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <Link
+                          href={`/contacts/${pledge.contactId}/payments?pledgeId=${pledge.pledgeId}`}
+                          className="hover:underline"
+                        >
+                          {pledge.contactName}
+                        </Link>
+                        {pledge.description && (
+                          <div className="text-xs text-gray-500">
+                            {pledge.description}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(pledge.originalAmount, pledge.currency)}
+                        <div className="text-xs text-gray-500">
+                          at {pledge.pledgeRate.toFixed(6)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(pledge.originalAmountUsd)}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(pledge.balance, pledge.currency)}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(pledge.currentValueUsd)}
+                      </TableCell>
+                      <TableCell>
+                        <FxAmount amount={pledge.realizedFxUsd} />
+                      </TableCell>
+                      <TableCell>
+                        <FxAmount amount={pledge.unrealizedFxUsd} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
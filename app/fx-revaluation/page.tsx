@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import FxRevaluationReport from "./_components/fx-revaluation-report";
+
+const FxRevaluation = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <FxRevaluationReport />
+    </Suspense>
+  );
+};
+
+export default FxRevaluation;
@@ -0,0 +1,305 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Pencil, Trash2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatAddress } from "@/lib/format";
+import {
+  useDeleteHouseholdMutation,
+  useHouseholdQuery,
+  type HouseholdGiving,
+} from "@/lib/query/households/useHouseholdQuery";
+import HouseholdFormDialog, { ROLE_LABELS } from "./household-form";
+
+interface HouseholdDetailProps {
+  householdId: number;
+  onDeleted: () => void;
+}
+
+export const formatUsd = (amount: string | number | null) =>
+  `$${Number(amount ?? 0).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatAmount = (amount: string | number, currency: string) =>
+  `${currency} ${Number(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+function GivingSummary({ giving }: { giving: HouseholdGiving }) {
+  const items = [
+    ["Pledges", giving.pledgeCount.toString()],
+    ["Pledged", formatUsd(giving.pledgedUsd)],
+    ["Paid", formatUsd(giving.paidUsd)],
+    ["Balance", formatUsd(giving.balanceUsd)],
+  ];
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      {items.map(([label, value]) => (
+        <div key={label} className="rounded-lg border p-3">
+          <p className="text-sm text-muted-foreground">{label}</p>
+          <p className="text-lg font-semibold">{value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function HouseholdDetail({
+  householdId,
+  onDeleted,
+}: HouseholdDetailProps) {
+  const [editOpen, setEditOpen] = useState(false);
+  const { data, isLoading } = useHouseholdQuery(householdId);
+  const deleteMutation = useDeleteHouseholdMutation();
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { household, members, students, pledges } = data;
+  const address = formatAddress(household);
+
+  const handleDelete = async () => {
+    try {
+      const response = await deleteMutation.mutateAsync(householdId);
+      toast.success(response.message);
+      onDeleted();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete household"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <CardTitle>{household.name}</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {address || "No mailing address"}
+            {household.headName && ` · head: ${household.headName}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={deleteMutation.isPending}
+            onClick={handleDelete}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {household.notes && <p className="text-sm">{household.notes}</p>}
+
+        <GivingSummary giving={household.giving} />
+
+        <div className="space-y-2">
+          <h4 className="font-semibold text-gray-900">Members</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="text-right">Pledged</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="text-center py-6 text-gray-500"
+                    >
+                      No members yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <Link
+                          href={`/contacts/${member.contactId}`}
+                          className="hover:underline"
+                        >
+                          {member.contactName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {ROLE_LABELS[member.role]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{member.email ?? "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(member.giving.pledgedUsd)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(member.giving.paidUsd)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(member.giving.balanceUsd)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold text-gray-900">Students</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Year</TableHead>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Track</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center py-6 text-gray-500"
+                    >
+                      No students in this household
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  students.map((student) => (
+                    <TableRow key={student.id}>
+                      <TableCell>
+                        <Link
+                          href={`/contacts/${student.contactId}/student-roles`}
+                          className="hover:underline"
+                        >
+                          {student.contactName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{student.year}</TableCell>
+                      <TableCell>{student.program}</TableCell>
+                      <TableCell>{student.track}</TableCell>
+                      <TableCell>
+                        {student.status}
+                        {!student.isActive && (
+                          <Badge className="ml-2 bg-gray-100 text-gray-800">
+                            inactive
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold text-gray-900">Pledges</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Donor</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Paid (USD)</TableHead>
+                  <TableHead className="text-right">Balance (USD)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pledges.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center py-6 text-gray-500"
+                    >
+                      No pledges from this household
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pledges.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell>{row.pledgeDate}</TableCell>
+                      <TableCell>
+                        <Link
+                          href={`/contacts/${row.contactId}/pledges`}
+                          className="hover:underline"
+                        >
+                          {row.contactName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{row.categoryName ?? "—"}</TableCell>
+                      <TableCell>{row.description ?? "—"}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatAmount(row.originalAmount, row.currency)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(row.totalPaidUsd)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(row.balanceUsd)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+
+      {editOpen && (
+        <HouseholdFormDialog
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          household={household}
+          members={members}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useCreateHouseholdMutation,
+  useUpdateHouseholdMutation,
+  type Household,
+  type HouseholdMember,
+  type HouseholdRole,
+} from "@/lib/query/households/useHouseholdQuery";
+import { useContactSearchQuery } from "@/lib/query/relationships/useRelationshipQuery";
+
+export const ROLE_LABELS: Record<HouseholdRole, string> = {
+  head: "Head",
+  spouse: "Spouse",
+  child: "Child",
+  other: "Other",
+};
+
+const ADDRESS_FIELDS = [
+  ["street", "Street"],
+  ["street2", "Street 2"],
+  ["city", "City"],
+  ["state", "State"],
+  ["postalCode", "Postal code"],
+  ["country", "Country"],
+] as const;
+
+type AddressField = (typeof ADDRESS_FIELDS)[number][0];
+
+interface MemberRow {
+  contactId: number;
+  contactName: string;
+  role: HouseholdRole;
+}
+
+interface HouseholdFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this household when given, creates a new one otherwise
+  household?: Household;
+  members?: HouseholdMember[];
+  onSaved?: (householdId: number) => void;
+}
+
+export default function HouseholdFormDialog({
+  open,
+  onOpenChange,
+  household,
+  members = [],
+  onSaved,
+}: HouseholdFormDialogProps) {
+  const [name, setName] = useState(household?.name ?? "");
+  const [address, setAddress] = useState<Record<AddressField, string>>(
+    () =>
+      Object.fromEntries(
+        ADDRESS_FIELDS.map(([field]) => [field, household?.[field] ?? ""])
+      ) as Record<AddressField, string>
+  );
+  const [notes, setNotes] = useState(household?.notes ?? "");
+  const [rows, setRows] = useState<MemberRow[]>(() =>
+    members.map(({ contactId, contactName, role }) => ({
+      contactId,
+      contactName,
+      role,
+    }))
+  );
+  const [contactSearch, setContactSearch] = useState("");
+
+  const { data: searchResults, isLoading: isSearching } = useContactSearchQuery(
+    contactSearch,
+    { enabled: contactSearch.length >= 2 }
+  );
+  const createMutation = useCreateHouseholdMutation();
+  const updateMutation = useUpdateHouseholdMutation();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const headCount = rows.filter((row) => row.role === "head").length;
+
+  const addMember = (contact: {
+    id: number;
+    firstName: string;
+    lastName: string;
+  }) => {
+    setRows((current) =>
+      current.some((row) => row.contactId === contact.id)
+        ? current
+        : [
+            ...current,
+            {
+              contactId: contact.id,
+              contactName: `${contact.firstName} ${contact.lastName}`,
+              role: current.length === 0 ? "head" : "other",
+            },
+          ]
+    );
+    setContactSearch("");
+  };
+
+  const handleSave = async () => {
+    const data = {
+      name,
+      ...address,
+      notes,
+      members: rows.map(({ contactId, role }) => ({ contactId, role })),
+    };
+    try {
+      if (household) {
+        const response = await updateMutation.mutateAsync({
+          householdId: household.id,
+          ...data,
+        });
+        toast.success(response.message);
+        onSaved?.(household.id);
+      } else {
+        const response = await createMutation.mutateAsync(data);
+        toast.success(response.message);
+        onSaved?.(response.household.id);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save household"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {household ? `Edit ${household.name}` : "New Household"}
+          </DialogTitle>
+          <DialogDescription>
+            The family shares this mailing address, and its pledges and giving
+            are totalled together.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="household-name">Name</Label>
+            <Input
+              id="household-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Cohen Family"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-semibold text-gray-900">Mailing Address</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {ADDRESS_FIELDS.map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`household-${field}`}>{label}</Label>
+                  <Input
+                    id={`household-${field}`}
+                    value={address[field]}
+                    onChange={(event) =>
+                      setAddress((current) => ({
+                        ...current,
+                        [field]: event.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-semibold text-gray-900">Members</h4>
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No members yet</p>
+            ) : (
+              <div className="space-y-2">
+                {rows.map((row) => (
+                  <div key={row.contactId} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm">{row.contactName}</span>
+                    <Select
+                      value={row.role}
+                      onValueChange={(value) =>
+                        setRows((current) =>
+                          current.map((entry) =>
+                            entry.contactId === row.contactId
+                              ? { ...entry, role: value as HouseholdRole }
+                              : entry
+                          )
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setRows((current) =>
+                          current.filter(
+                            (entry) => entry.contactId !== row.contactId
+                          )
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {rows.length > 0 && headCount !== 1 && (
+              <p className="text-sm text-red-600">
+                Choose exactly one head of household
+              </p>
+            )}
+            <Input
+              placeholder="Type name or email to add a member..."
+              value={contactSearch}
+              onChange={(event) => setContactSearch(event.target.value)}
+            />
+            {contactSearch.length >= 2 && (
+              <div className="max-h-32 overflow-y-auto border rounded-md">
+                {isSearching ? (
+                  <div className="p-2 text-sm text-muted-foreground">
+                    Searching...
+                  </div>
+                ) : searchResults?.contacts.length ? (
+                  searchResults.contacts.map((contact) => (
+                    <button
+                      key={contact.id}
+                      type="button"
+                      className="w-full text-left p-2 hover:bg-gray-50 text-sm"
+                      onClick={() => addMember(contact)}
+                    >
+                      <div className="font-medium">
+                        {contact.firstName} {contact.lastName}
+                      </div>
+                      {contact.email && (
+                        <div className="text-muted-foreground">
+                          {contact.email}
+                        </div>
+                      )}
+                    </button>
+                  ))
+                ) : (
+                  <div className="p-2 text-sm text-muted-foreground">
+                    No contacts found
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="household-notes">Notes</Label>
+            <Textarea
+              id="household-notes"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={
+              !name.trim() || (rows.length > 0 && headCount !== 1) || isSaving
+            }
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {household ? "Save Changes" : "Create Household"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
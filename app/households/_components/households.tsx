@@ -0,0 +1,286 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQueryState } from "nuqs";
+import { toast } from "sonner";
+import { Loader2, Plus, Search, Users } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { LinkButton } from "@/components/ui/next-link";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useBuildHouseholdsMutation,
+  useHouseholdsQuery,
+  type BuildHouseholdsResult,
+  type PlannedHousehold,
+} from "@/lib/query/households/useHouseholdQuery";
+import HouseholdDetail, { formatUsd } from "./household-detail";
+import HouseholdFormDialog, { ROLE_LABELS } from "./household-form";
+
+function PlannedList({
+  title,
+  households,
+}: {
+  title: string;
+  households: PlannedHousehold[];
+}) {
+  if (households.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-gray-900">{title}</h4>
+      <ul className="space-y-1 text-sm">
+        {households.map((planned, index) => (
+          <li key={planned.householdId ?? `new-${index}`}>
+            <span className="font-medium">{planned.name}:</span>{" "}
+            {planned.members
+              .map(
+                (member) =>
+                  `${member.contactName} (${ROLE_LABELS[member.role].toLowerCase()})`
+              )
+              .join(", ")}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function Households() {
+  const [householdId, setHouseholdId] = useQueryState("household", {
+    parse: (value) => Number.parseInt(value) || null,
+    serialize: (value) => value.toString(),
+  });
+  const [search, setSearch] = useQueryState("search");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [preview, setPreview] = useState<BuildHouseholdsResult | null>(null);
+
+  const { data, isLoading, error } = useHouseholdsQuery(search || undefined);
+  const buildMutation = useBuildHouseholdsMutation();
+
+  // Shows what a build would do first, then builds once confirmed
+  const handleBuild = async (dryRun: boolean) => {
+    try {
+      const response = await buildMutation.mutateAsync({ dryRun });
+      if (dryRun) {
+        setPreview(response);
+        return;
+      }
+      toast.success(
+        `${response.created.length} household${
+          response.created.length === 1 ? "" : "s"
+        } created, ${response.extended.length} extended`
+      );
+      setPreview(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to build households"
+      );
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to load households. Please try again later.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const nothingToBuild =
+    preview && preview.created.length === 0 && preview.extended.length === 0;
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Households</CardTitle>
+          <div className="flex gap-2">
+            <LinkButton variant="outline" size="sm" href="/contacts">
+              Contacts
+            </LinkButton>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={buildMutation.isPending}
+              onClick={() => handleBuild(true)}
+            >
+              <Users className="h-4 w-4 mr-2" />
+              Build from Relationships
+            </Button>
+            <Button size="sm" onClick={() => setCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Household
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="relative mb-6">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search households or members..."
+              value={search || ""}
+              onChange={(event) => setSearch(event.target.value || null)}
+              className="pl-10"
+            />
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Household
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Head
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Members
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Students
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900 text-right">
+                    Pledged
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900 text-right">
+                    Paid
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900 text-right">
+                    Balance
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 7 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.households.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No households found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.households.map((household) => (
+                    <TableRow
+                      key={household.id}
+                      onClick={() => setHouseholdId(household.id)}
+                      className={`cursor-pointer hover:bg-gray-50 ${
+                        household.id === householdId ? "bg-gray-50" : ""
+                      }`}
+                    >
+                      <TableCell className="font-medium">
+                        {household.name}
+                      </TableCell>
+                      <TableCell>{household.headName ?? "—"}</TableCell>
+                      <TableCell>{household.memberCount}</TableCell>
+                      <TableCell>{household.studentCount}</TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(household.giving.pledgedUsd)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(household.giving.paidUsd)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUsd(household.giving.balanceUsd)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {householdId && (
+        <HouseholdDetail
+          householdId={householdId}
+          onDeleted={() => setHouseholdId(null)}
+        />
+      )}
+
+      {createOpen && (
+        <HouseholdFormDialog
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          onSaved={(id) => setHouseholdId(id)}
+        />
+      )}
+
+      <Dialog
+        open={!!preview}
+        onOpenChange={(open) => !open && setPreview(null)}
+      >
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Build Households</DialogTitle>
+            <DialogDescription>
+              Spouses, and parents with the children who have no family of their
+              own, are grouped together. Contacts already in a household stay
+              where they are.
+            </DialogDescription>
+          </DialogHeader>
+          {nothingToBuild ? (
+            <p className="text-sm text-muted-foreground">
+              Every family in the relationships already has a household.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <PlannedList
+                title="New households"
+                households={preview?.created ?? []}
+              />
+              <PlannedList
+                title="Added to existing households"
+                households={preview?.extended ?? []}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              disabled={!!nothingToBuild || buildMutation.isPending}
+              onClick={() => handleBuild(false)}
+            >
+              {buildMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Build Households
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
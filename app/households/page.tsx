@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import Households from "./_components/households";
+
+const HouseholdsPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <Households />
+    </Suspense>
+  );
+};
+
+export default HouseholdsPage;
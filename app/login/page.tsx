@@ -0,0 +1,10 @@
+import LoginForm from "@/components/auth/login-form";
+import React, { Suspense } from "react";
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -1,5 +1,17 @@
+import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/session";
+import { getTokenVersion } from "@/lib/auth/token-version";
 
-export default function Home() {
+export default async function Home() {
+  const session = await verifySession(
+    (await cookies()).get(SESSION_COOKIE)?.value,
+    getTokenVersion
+  );
+
+  // Solicitors land on their own dashboard rather than the contact list
+  if (session?.role === "solicitor" && session.solicitorContactId) {
+    return redirect(`/contacts/${session.solicitorContactId}/solicitor`);
+  }
   return redirect("/contacts");
 }
@@ -0,0 +1,632 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Loader2, Upload } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ImportMappingError,
+  usePostPaymentImportMutation,
+  usePreviewPaymentImportMutation,
+  type ColumnMapping,
+  type DateFormat,
+  type ImportCandidate,
+  type ImportField,
+  type ImportLine,
+  type ImportSource,
+  type PostPaymentImportResponse,
+  type PreviewPaymentImportResponse,
+} from "@/lib/query/payment-imports/usePaymentImportQuery";
+import PledgePickerDialog, { type ImportTarget } from "./pledge-picker-dialog";
+
+const sources: { value: ImportSource; label: string }[] = [
+  { value: "stripe", label: "Stripe" },
+  { value: "paypal", label: "PayPal" },
+  { value: "bank", label: "Bank statement" },
+];
+
+const fields: { value: ImportField; label: string }[] = [
+  { value: "date", label: "Date" },
+  { value: "amount", label: "Amount" },
+  { value: "currency", label: "Currency" },
+  { value: "reference", label: "Reference" },
+  { value: "name", label: "Payer name" },
+  { value: "email", label: "Payer email" },
+  { value: "description", label: "Description" },
+  { value: "status", label: "Status" },
+];
+
+const dateFormats: { value: DateFormat; label: string }[] = [
+  { value: "ymd", label: "YYYY-MM-DD" },
+  { value: "mdy", label: "MM/DD/YYYY" },
+  { value: "dmy", label: "DD/MM/YYYY" },
+];
+
+const supportedCurrencies = [
+  "USD",
+  "ILS",
+  "EUR",
+  "JPY",
+  "GBP",
+  "AUD",
+  "CAD",
+  "ZAR",
+] as const;
+
+const NOT_IN_FILE = "__none";
+
+const STATUS_STYLES: Record<ImportLine["status"], string> = {
+  matched: "bg-green-100 text-green-800",
+  unmatched: "bg-yellow-100 text-yellow-800",
+  duplicate: "bg-gray-100 text-gray-800",
+  skipped: "bg-gray-100 text-gray-800",
+  invalid: "bg-red-100 text-red-800",
+};
+
+const CONFIDENCE_STYLES: Record<ImportCandidate["confidence"], string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-orange-100 text-orange-800",
+};
+
+interface LineDecision {
+  include: boolean;
+  target: ImportTarget | null;
+}
+
+const candidateTarget = (candidate: ImportCandidate): ImportTarget => ({
+  kind: "pledge",
+  pledgeId: candidate.pledgeId,
+  paymentPlanId: candidate.paymentPlanId,
+  label: candidateLabel(candidate),
+});
+
+function candidateLabel(candidate: ImportCandidate) {
+  const pledge = candidate.pledgeDescription || `Pledge #${candidate.pledgeId}`;
+  const installment = candidate.installmentNumber
+    ? `, installment #${candidate.installmentNumber}`
+    : "";
+  return `${candidate.contactName} · ${pledge}${installment}`;
+}
+
+const targetKey = (target: ImportTarget | null) =>
+  !target
+    ? ""
+    : target.kind === "credit"
+      ? `credit:${target.contactId}`
+      : `pledge:${target.pledgeId}:${target.paymentPlanId ?? "none"}`;
+
+// Suggested matches start confirmed only when the evidence is strong
+function initialDecisions(lines: ImportLine[]) {
+  const decisions: Record<number, LineDecision> = {};
+  for (const line of lines) {
+    decisions[line.lineNumber] = {
+      include: line.match?.confidence === "high",
+      target: line.match ? candidateTarget(line.match) : null,
+    };
+  }
+  return decisions;
+}
+
+export default function PaymentImportReview() {
+  const [source, setSource] = useState<ImportSource>("stripe");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping | undefined>();
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dateFormat, setDateFormat] = useState<DateFormat | undefined>();
+  const [defaultCurrency, setDefaultCurrency] = useState("USD");
+  const [preview, setPreview] = useState<PreviewPaymentImportResponse>();
+  const [decisions, setDecisions] = useState<Record<number, LineDecision>>({});
+  const [results, setResults] = useState<
+    Record<number, PostPaymentImportResponse["results"][number]>
+  >({});
+  const [pickerLine, setPickerLine] = useState<ImportLine | null>(null);
+
+  const previewMutation = usePreviewPaymentImportMutation();
+  const postMutation = usePostPaymentImportMutation();
+
+  const runPreview = async (
+    overrides: {
+      csv?: string;
+      source?: ImportSource;
+      mapping?: ColumnMapping;
+      dateFormat?: DateFormat;
+      defaultCurrency?: string;
+    } = {}
+  ) => {
+    const text = overrides.csv ?? csv;
+    if (!text) return;
+    try {
+      const data = await previewMutation.mutateAsync({
+        source: overrides.source ?? source,
+        csv: text,
+        mapping: "mapping" in overrides ? overrides.mapping : mapping,
+        dateFormat:
+          "dateFormat" in overrides ? overrides.dateFormat : dateFormat,
+        defaultCurrency: overrides.defaultCurrency ?? defaultCurrency,
+      });
+      setPreview(data);
+      setHeaders(data.headers);
+      setMapping(data.mapping);
+      setDateFormat(data.dateFormat);
+      setDecisions(initialDecisions(data.lines));
+      setResults({});
+    } catch (error) {
+      setPreview(undefined);
+      if (error instanceof ImportMappingError) {
+        setHeaders(error.headers);
+        setMapping(error.mapping);
+      }
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read the file"
+      );
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    // A new file is read with the source's usual columns first
+    setMapping(undefined);
+    setDateFormat(undefined);
+    await runPreview({ csv: text, mapping: undefined, dateFormat: undefined });
+  };
+
+  const updateDecision = (lineNumber: number, change: Partial<LineDecision>) =>
+    setDecisions((current) => ({
+      ...current,
+      [lineNumber]: { ...current[lineNumber], ...change },
+    }));
+
+  const selectTarget = (line: ImportLine, value: string) => {
+    if (value === "other") {
+      setPickerLine(line);
+      return;
+    }
+    if (value.startsWith("credit:") && line.contact) {
+      updateDecision(line.lineNumber, {
+        include: true,
+        target: {
+          kind: "credit",
+          contactId: line.contact.id,
+          label: `${line.contact.name} · credit on account`,
+        },
+      });
+      return;
+    }
+    const candidate = line.candidates.find(
+      (row) => targetKey(candidateTarget(row)) === value
+    );
+    if (candidate) {
+      updateDecision(line.lineNumber, {
+        include: true,
+        target: candidateTarget(candidate),
+      });
+    }
+  };
+
+  const lines = preview?.lines ?? [];
+  const confirmed = lines.filter(
+    (line) =>
+      decisions[line.lineNumber]?.include &&
+      decisions[line.lineNumber]?.target &&
+      results[line.lineNumber]?.status !== "posted" &&
+      results[line.lineNumber]?.status !== "credited"
+  );
+
+  const handlePost = async () => {
+    if (confirmed.length === 0) {
+      toast.error("Confirm at least one line to import");
+      return;
+    }
+    try {
+      const response = await postMutation.mutateAsync({
+        source,
+        lines: confirmed.map((line) => {
+          const target = decisions[line.lineNumber].target!;
+          return {
+            lineNumber: line.lineNumber,
+            paymentDate: line.paymentDate!,
+            amount: line.amount!,
+            currency: line.currency!,
+            reference: line.reference ?? undefined,
+            description: line.description ?? undefined,
+            ...(target.kind === "pledge"
+              ? {
+                  pledgeId: target.pledgeId,
+                  paymentPlanId: target.paymentPlanId,
+                }
+              : { contactId: target.contactId }),
+          };
+        }),
+      });
+      setResults((current) => ({
+        ...current,
+        ...Object.fromEntries(
+          response.results.map((result) => [result.lineNumber, result])
+        ),
+      }));
+      if (response.results.some((result) => result.status === "failed")) {
+        toast.warning(response.message);
+      } else {
+        toast.success(response.message);
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import payments"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Import Payments</CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/pledges">All Pledges</Link>
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select
+                value={source}
+                onValueChange={(value) => {
+                  setSource(value as ImportSource);
+                  setMapping(undefined);
+                  setDateFormat(undefined);
+                  runPreview({
+                    source: value as ImportSource,
+                    mapping: undefined,
+                    dateFormat: undefined,
+                  });
+                }}
+              >
+                <SelectTrigger className="w-full sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sources.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-import-file">CSV export</Label>
+              <Input
+                id="payment-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                className="w-full sm:w-72"
+              />
+            </div>
+            {previewMutation.isPending && (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            )}
+            {fileName && !previewMutation.isPending && (
+              <span className="text-sm text-muted-foreground">{fileName}</span>
+            )}
+          </div>
+
+          {headers.length > 0 && (
+            <div className="rounded-lg border p-4 space-y-4">
+              <p className="text-sm font-medium">Column mapping</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {fields.map((field) => (
+                  <div key={field.value} className="space-y-1">
+                    <Label className="text-xs">{field.label}</Label>
+                    <Select
+                      value={mapping?.[field.value] || NOT_IN_FILE}
+                      onValueChange={(value) =>
+                        setMapping((current) => ({
+                          ...current,
+                          [field.value]: value === NOT_IN_FILE ? "" : value,
+                        }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>
+                        {headers
+                          .filter((header) => header !== "")
+                          .map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-xs">Date format</Label>
+                  <Select
+                    value={dateFormat ?? "ymd"}
+                    onValueChange={(value) =>
+                      setDateFormat(value as DateFormat)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dateFormats.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Currency when not in file</Label>
+                  <Select
+                    value={defaultCurrency}
+                    onValueChange={setDefaultCurrency}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {supportedCurrencies.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runPreview()}
+                disabled={previewMutation.isPending}
+              >
+                Re-read file
+              </Button>
+            </div>
+          )}
+
+          {preview && (
+            <Alert>
+              <AlertDescription>
+                {preview.summary.total} lines: {preview.summary.matched}{" "}
+                matched, {preview.summary.unmatched} unmatched,{" "}
+                {preview.summary.duplicate} already recorded,{" "}
+                {preview.summary.skipped} skipped, {preview.summary.invalid}{" "}
+                unreadable.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {lines.length > 0 && (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Line</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Payer</TableHead>
+                    <TableHead>Post To</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const decision = decisions[line.lineNumber];
+                    const result = results[line.lineNumber];
+                    const done =
+                      result?.status === "posted" ||
+                      result?.status === "credited";
+                    const postable =
+                      line.status === "matched" || line.status === "unmatched";
+                    const key = targetKey(decision?.target ?? null);
+                    const isCandidate = line.candidates.some(
+                      (row) => targetKey(candidateTarget(row)) === key
+                    );
+                    const isContactCredit =
+                      decision?.target?.kind === "credit" &&
+                      decision.target.contactId === line.contact?.id;
+
+                    return (
+                      <TableRow key={line.lineNumber}>
+                        <TableCell>
+                          <Checkbox
+                            checked={!!decision?.include && !done}
+                            disabled={!postable || !decision?.target || done}
+                            onCheckedChange={(checked) =>
+                              updateDecision(line.lineNumber, {
+                                include: checked === true,
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>{line.lineNumber}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {line.paymentDate ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {line.amount !== null
+                            ? `${line.amount.toFixed(2)} ${line.currency ?? ""}`
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <div>{line.name ?? "—"}</div>
+                          <div className="text-xs text-gray-500">
+                            {[line.email, line.reference]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        </TableCell>
+                        <TableCell className="min-w-64">
+                          {postable && !done ? (
+                            <Select
+                              value={key}
+                              onValueChange={(value) =>
+                                selectTarget(line, value)
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose a pledge" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {line.candidates.map((candidate) => {
+                                  const target = candidateTarget(candidate);
+                                  return (
+                                    <SelectItem
+                                      key={targetKey(target)}
+                                      value={targetKey(target)}
+                                    >
+                                      {target.label}
+                                    </SelectItem>
+                                  );
+                                })}
+                                {line.contact && (
+                                  <SelectItem
+                                    value={`credit:${line.contact.id}`}
+                                  >
+                                    {line.contact.name} · credit on account
+                                  </SelectItem>
+                                )}
+                                {decision?.target &&
+                                  !isCandidate &&
+                                  !isContactCredit && (
+                                    <SelectItem value={key}>
+                                      {decision.target.label}
+                                    </SelectItem>
+                                  )}
+                                <SelectItem value="other">
+                                  Another contact or pledge…
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-sm text-gray-500">—</span>
+                          )}
+                          {line.match && decision?.target && isCandidate && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              {line.candidates
+                                .find(
+                                  (row) =>
+                                    targetKey(candidateTarget(row)) === key
+                                )
+                                ?.reasons.join("; ")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {result ? (
+                            result.status === "failed" ? (
+                              <span className="text-sm text-red-600">
+                                {result.error}
+                              </span>
+                            ) : (
+                              <Badge className="bg-green-100 text-green-800">
+                                {result.status === "posted"
+                                  ? `Payment #${result.paymentId}`
+                                  : `Credit #${result.creditId}`}
+                              </Badge>
+                            )
+                          ) : (
+                            <div className="space-y-1">
+                              <Badge className={STATUS_STYLES[line.status]}>
+                                {line.status}
+                              </Badge>
+                              {line.match && (
+                                <Badge
+                                  className={`ml-1 ${CONFIDENCE_STYLES[line.match.confidence]}`}
+                                >
+                                  {line.match.confidence}
+                                </Badge>
+                              )}
+                              {line.message && (
+                                <div className="text-xs text-gray-500">
+                                  {line.message}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {lines.length > 0 && (
+            <div className="flex items-center justify-end gap-4">
+              <span className="text-sm text-muted-foreground">
+                {confirmed.length} line{confirmed.length === 1 ? "" : "s"}{" "}
+                confirmed
+              </span>
+              <Button
+                onClick={handlePost}
+                disabled={postMutation.isPending || confirmed.length === 0}
+              >
+                {postMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Post Confirmed Lines
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {pickerLine && (
+        <PledgePickerDialog
+          open={!!pickerLine}
+          onOpenChange={(open) => {
+            if (!open) setPickerLine(null);
+          }}
+          currency={pickerLine.currency}
+          initialSearch={pickerLine.email ?? pickerLine.name ?? ""}
+          onSelect={(target) =>
+            updateDecision(pickerLine.lineNumber, { include: true, target })
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useGetContacts } from "@/lib/query/useContacts";
+import { usePledgesQuery } from "@/lib/query/usePledgeData";
+
+export type ImportTarget =
+  | {
+      kind: "pledge";
+      pledgeId: number;
+      // Undefined lets the server pick the pledge's only active plan
+      paymentPlanId?: number | null;
+      label: string;
+    }
+  | { kind: "credit"; contactId: number; label: string };
+
+interface PledgePickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency: string | null;
+  initialSearch: string;
+  onSelect: (target: ImportTarget) => void;
+}
+
+// Finds a contact by name or email and picks one of their pledges, or holds
+// the line as credit on their account
+export default function PledgePickerDialog({
+  open,
+  onOpenChange,
+  currency,
+  initialSearch,
+  onSelect,
+}: PledgePickerDialogProps) {
+  const [search, setSearch] = useState(initialSearch);
+  const [contactId, setContactId] = useState("");
+  const [pledgeId, setPledgeId] = useState("");
+
+  const { data: contactsData } = useGetContacts({
+    page: 1,
+    limit: 20,
+    search: search.trim() || undefined,
+    sortBy: "lastName",
+    sortOrder: "asc",
+  });
+  const { data: pledgesData } = usePledgesQuery({
+    contactId: contactId ? Number(contactId) : undefined,
+    limit: 100,
+  });
+
+  const contacts = contactsData?.contacts ?? [];
+  const contact = contacts.find((row) => row.id.toString() === contactId);
+  const pledges = (pledgesData?.pledges ?? []).filter(
+    (pledge) => !currency || pledge.currency === currency
+  );
+
+  const handleOpenChange = (value: boolean) => {
+    onOpenChange(value);
+    if (value) {
+      setSearch(initialSearch);
+      setContactId("");
+      setPledgeId("");
+    }
+  };
+
+  const contactName = contact ? `${contact.firstName} ${contact.lastName}` : "";
+
+  const choosePledge = () => {
+    const pledge = pledges.find((row) => row.id.toString() === pledgeId);
+    if (!pledge) return;
+    onSelect({
+      kind: "pledge",
+      pledgeId: pledge.id,
+      label: `${contactName} · ${pledge.description || `Pledge #${pledge.id}`}`,
+    });
+    onOpenChange(false);
+  };
+
+  const chooseCredit = () => {
+    if (!contact) return;
+    onSelect({
+      kind: "credit",
+      contactId: contact.id,
+      label: `${contactName} · credit on account`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Choose Where This Line Goes</DialogTitle>
+          <DialogDescription>
+            Pick one of the contact&apos;s {currency ?? ""} pledges, or hold the
+            money as credit until a pledge exists.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-contact-search">Contact</Label>
+          <Input
+            id="import-contact-search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search by name or email"
+          />
+          <Select
+            value={contactId}
+            onValueChange={(value) => {
+              setContactId(value);
+              setPledgeId("");
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a contact" />
+            </SelectTrigger>
+            <SelectContent>
+              {contacts.map((row) => (
+                <SelectItem key={row.id} value={row.id.toString()}>
+                  {row.firstName} {row.lastName}
+                  {row.email ? ` (${row.email})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Pledge</Label>
+          <Select
+            value={pledgeId}
+            onValueChange={setPledgeId}
+            disabled={!contact}
+          >
+            <SelectTrigger>
+              <SelectValue
+                placeholder={
+                  contact && pledges.length === 0
+                    ? `No ${currency ?? ""} pledges`
+                    : "Select a pledge"
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {pledges.map((pledge) => (
+                <SelectItem key={pledge.id} value={pledge.id.toString()}>
+                  {pledge.description || `Pledge #${pledge.id}`} (
+                  {pledge.balance} {pledge.currency} due)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!contact}
+            onClick={chooseCredit}
+          >
+            Hold as Credit
+          </Button>
+          <Button type="button" disabled={!pledgeId} onClick={choosePledge}>
+            Use Pledge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import PaymentImportReview from "./_components/payment-import-review";
+
+const PaymentImports = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <PaymentImportReview />
+    </Suspense>
+  );
+};
+
+export default PaymentImports;
@@ -131,8 +131,22 @@ export default function AllPledgesTable() {
     <div className="space-y-6 py-4">
       {/* Filters */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>All Pledges</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/tax-statements">Tax Statements</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/fx-revaluation">FX Revaluation</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/payment-imports">Import Payments</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/deposit-batches">Deposits</Link>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col sm:flex-row gap-4 mb-6">
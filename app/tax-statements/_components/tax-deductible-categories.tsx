@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useState } from "react";
+import { isAxiosError } from "axios";
+import { toast } from "sonner";
+import { Loader2, Plus } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  useCategoriesQuery,
+  useUpdateCategoryMutation,
+  type Category,
+} from "@/lib/query/categories/useCategoryQuery";
+import { useCreateCategory } from "@/lib/mutation/useCreateCategory";
+
+// Which pledge categories count as donations: their payments go on the tax
+// statements and they take the solicitors' donation bonus rules
+export default function TaxDeductibleCategories() {
+  const [name, setName] = useState("");
+  const [isTaxDeductible, setIsTaxDeductible] = useState(true);
+
+  const { data, isLoading } = useCategoriesQuery();
+  const updateMutation = useUpdateCategoryMutation();
+  const createMutation = useCreateCategory();
+
+  const handleToggle = async (row: Category, checked: boolean) => {
+    try {
+      await updateMutation.mutateAsync({
+        categoryId: row.id,
+        isTaxDeductible: checked,
+      });
+      toast.success(
+        `${row.name} is ${checked ? "now" : "no longer"} tax-deductible`
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update category"
+      );
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const response = await createMutation.mutateAsync({
+        name: name.trim(),
+        isActive: true,
+        isTaxDeductible,
+      });
+      toast.success(response.message);
+      setName("");
+    } catch (error) {
+      toast.error(
+        isAxiosError(error)
+          ? (error.response?.data?.message ?? error.message)
+          : "Failed to create category"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tax-Deductible Categories</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="font-semibold text-gray-900">
+                  Category
+                </TableHead>
+                <TableHead className="font-semibold text-gray-900">
+                  Description
+                </TableHead>
+                <TableHead className="font-semibold text-gray-900">
+                  Tax-deductible
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 3 }).map((_, cell) => (
+                      <TableCell key={cell}>
+                        <Skeleton className="h-4 w-20" />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : data?.categories.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={3}
+                    className="text-center py-8 text-gray-500"
+                  >
+                    No categories yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data?.categories.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-medium">
+                      {row.name}
+                      {!row.isActive && (
+                        <Badge className="ml-2 bg-gray-100 text-gray-800">
+                          inactive
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{row.description ?? "—"}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={row.isTaxDeductible}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(checked) =>
+                          handleToggle(row, checked)
+                        }
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <Input
+            placeholder="New category name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="w-full sm:w-64"
+          />
+          <div className="flex items-center gap-2">
+            <Switch
+              id="new-category-tax-deductible"
+              checked={isTaxDeductible}
+              onCheckedChange={setIsTaxDeductible}
+            />
+            <Label htmlFor="new-category-tax-deductible">Tax-deductible</Label>
+          </div>
+          <Button
+            size="sm"
+            disabled={!name.trim() || createMutation.isPending}
+            onClick={handleCreate}
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add Category
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useQueryState } from "nuqs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Download } from "lucide-react";
+import {
+  taxStatementsDownloadUrl,
+  useTaxStatementsQuery,
+} from "@/lib/query/tax-statements/useTaxStatementsQuery";
+import TaxDeductibleCategories from "./tax-deductible-categories";
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+export default function TaxStatementsReport() {
+  // Statements are sent in January for the year just ended
+  const [year, setYear] = useQueryState("year", {
+    parse: (value) => Number.parseInt(value) || null,
+    serialize: (value) => value.toString(),
+    defaultValue: new Date().getFullYear() - 1,
+  });
+
+  const { data, isLoading, error } = useTaxStatementsQuery({ year });
+  const totalUsd =
+    data?.statements.reduce((sum, statement) => sum + statement.totalUsd, 0) ??
+    0;
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to load tax statements. Please try again later.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Annual Tax Statements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-6">
+            <Input
+              type="number"
+              min={2000}
+              max={2100}
+              value={year}
+              onChange={(e) => {
+                const value = Number.parseInt(e.target.value);
+                if (value >= 2000 && value <= 2100) setYear(value);
+              }}
+              className="w-full sm:w-32"
+            />
+            <div className="flex gap-2 sm:ml-auto">
+              <Button variant="outline" size="sm" asChild>
+                <a href={taxStatementsDownloadUrl({ year }, "pdf")}>
+                  <Download className="h-4 w-4 mr-2" />
+                  All statements (PDF)
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={taxStatementsDownloadUrl({ year }, "csv")}>
+                  <Download className="h-4 w-4 mr-2" />
+                  All statements (CSV)
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    Donor
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Categories
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Payments
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Total (USD)
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Statement
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 5 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.statements.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No tax-deductible payments in {year}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.statements.map((statement) => (
+                    <TableRow
+                      key={statement.contact.id}
+                      className="hover:bg-gray-50"
+                    >
+                      <TableCell className="font-medium">
+                        <Link
+                          href={`/contacts/${statement.contact.id}/payments`}
+                          className="hover:underline"
+                        >
+                          {statement.contact.name}
+                        </Link>
+                        {statement.contact.email && (
+                          <div className="text-xs text-gray-500">
+                            {statement.contact.email}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {statement.categories
+                          .map((group) => group.categoryName)
+                          .join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        {statement.categories.reduce(
+                          (count, group) => count + group.payments.length,
+                          0
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(statement.totalUsd)}
+                      </TableCell>
+                      <TableCell className="space-x-3 whitespace-nowrap">
+                        <a
+                          href={taxStatementsDownloadUrl(
+                            { year, contactId: statement.contact.id },
+                            "pdf"
+                          )}
+                          className="text-blue-600 hover:underline"
+                        >
+                          PDF
+                        </a>
+                        <a
+                          href={taxStatementsDownloadUrl(
+                            { year, contactId: statement.contact.id },
+                            "csv"
+                          )}
+                          className="text-blue-600 hover:underline"
+                        >
+                          CSV
+                        </a>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {data && data.statements.length > 0 && (
+            <p className="mt-4 text-sm text-gray-600">
+              {data.statements.length} donor
+              {data.statements.length === 1 ? "" : "s"},{" "}
+              {formatCurrency(totalUsd)} in tax-deductible payments.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <TaxDeductibleCategories />
+    </div>
+  );
+}
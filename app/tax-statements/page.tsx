@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import TaxStatementsReport from "./_components/tax-statements-report";
+
+const TaxStatements = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <TaxStatementsReport />
+    </Suspense>
+  );
+};
+
+export default TaxStatements;
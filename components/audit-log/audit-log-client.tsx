@@ -0,0 +1,261 @@
+"use client";
+
+import React from "react";
+import { useQueryState } from "nuqs";
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  useContactAuditLogQuery,
+  type AuditTableName,
+} from "@/lib/query/audit-log/useAuditLogQuery";
+
+interface AuditLogTableProps {
+  contactId: number;
+}
+
+const TABLE_LABELS: Record<AuditTableName, string> = {
+  contact: "Contact",
+  pledge: "Pledge",
+  payment: "Payment",
+  payment_plan: "Payment Plan",
+  solicitor: "Solicitor",
+  bonus_rule: "Bonus Rule",
+  bonus_calculation: "Bonus",
+  contact_credit: "Credit",
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+  merge: "bg-purple-100 text-purple-800",
+  unmerge: "bg-yellow-100 text-yellow-800",
+};
+
+// camelCase field names read better split into words
+const formatFieldName = (fieldName: string | null) =>
+  fieldName
+    ? fieldName
+        .replace(/([A-Z])/g, " $1")
+        .replace(/^./, (char) => char.toUpperCase())
+    : "—";
+
+export default function AuditLogTable({ contactId }: AuditLogTableProps) {
+  const [page, setPage] = useQueryState("page", {
+    parse: (value) => parseInt(value) || 1,
+    serialize: (value) => value.toString(),
+    defaultValue: 1,
+  });
+  const [limit] = useQueryState("limit", {
+    parse: (value) => parseInt(value) || 25,
+    serialize: (value) => value.toString(),
+    defaultValue: 25,
+  });
+  const [tableName, setTableName] = useQueryState<AuditTableName | null>(
+    "tableName",
+    {
+      parse: (value) =>
+        value in TABLE_LABELS ? (value as AuditTableName) : null,
+      serialize: (value) => value ?? "",
+      defaultValue: null,
+    }
+  );
+
+  const currentPage = page ?? 1;
+  const currentLimit = limit ?? 25;
+
+  const { data, isLoading, error } = useContactAuditLogQuery({
+    contactId,
+    page: currentPage,
+    limit: currentLimit,
+    tableName: tableName ?? undefined,
+  });
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to load history. Please try again later.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 mb-6">
+            <Select
+              value={tableName ?? "all"}
+              onValueChange={(value) => {
+                setPage(1);
+                setTableName(
+                  value === "all" ? null : (value as AuditTableName)
+                );
+              }}
+            >
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Record type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All records</SelectItem>
+                {Object.entries(TABLE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold text-gray-900">
+                    When
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Record
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Action
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Field
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Old Value
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    New Value
+                  </TableHead>
+                  <TableHead className="font-semibold text-gray-900">
+                    Changed By
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 7 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : data?.auditLog.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center py-8 text-gray-500"
+                    >
+                      No changes recorded yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.auditLog.map((entry) => (
+                    <TableRow key={entry.id} className="hover:bg-gray-50">
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.changedAt), "MMM d, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {TABLE_LABELS[entry.tableName] ?? entry.tableName} #
+                        {entry.recordId}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs capitalize ${
+                            ACTION_STYLES[entry.action] ??
+                            "bg-gray-100 text-gray-800"
+                          }`}
+                        >
+                          {entry.action}
+                        </span>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {formatFieldName(entry.fieldName)}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate text-gray-600">
+                        {entry.oldValue ?? "—"}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {entry.newValue ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-gray-600">
+                        <div>{entry.changedByName ?? "System"}</div>
+                        {entry.ipAddress && (
+                          <div className="text-xs text-gray-400">
+                            {entry.ipAddress}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {data && data.auditLog.length > 0 && (
+            <div className="flex items-center justify-between mt-6">
+              <div className="text-sm text-gray-600">
+                Showing {(currentPage - 1) * currentLimit + 1} to{" "}
+                {Math.min(
+                  currentPage * currentLimit,
+                  data.pagination.totalCount
+                )}{" "}
+                of {data.pagination.totalCount} changes
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={!data.pagination.hasPreviousPage}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {data.pagination.page} of {data.pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={!data.pagination.hasNextPage}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  useCurrentUserQuery,
+  useLogoutMutation,
+} from "@/lib/query/auth/useAuth";
+
+export function UserMenu() {
+  const router = useRouter();
+  const { data: currentUser } = useCurrentUserQuery();
+  const logoutMutation = useLogoutMutation();
+
+  if (!currentUser) return null;
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => {
+        router.replace("/login");
+        router.refresh();
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="text-muted-foreground">
+        {currentUser.name || currentUser.email}
+      </span>
+      <Badge variant="secondary" className="capitalize">
+        {currentUser.role}
+      </Badge>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleLogout}
+        disabled={logoutMutation.isPending}
+      >
+        <LogOut className="h-4 w-4" />
+        <span className="hidden sm:inline">Sign out</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,492 @@
+"use client";
+
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ArrowRightLeft, Loader2, Plus, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useApplyCreditMutation,
+  useContactCreditsQuery,
+  useRecordUnappliedPaymentMutation,
+  type CreditBalance,
+  type CreditType,
+} from "@/lib/query/credits/useCreditsQuery";
+import { usePledgesQuery } from "@/lib/query/usePledgeData";
+
+const supportedCurrencies = [
+  "USD",
+  "ILS",
+  "EUR",
+  "JPY",
+  "GBP",
+  "AUD",
+  "CAD",
+  "ZAR",
+] as const;
+
+const paymentMethods = [
+  { value: "cash", label: "Cash" },
+  { value: "check", label: "Check" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "wire_transfer", label: "Wire Transfer" },
+  { value: "credit_card", label: "Credit Card" },
+  { value: "paypal", label: "PayPal" },
+  { value: "other", label: "Other" },
+];
+
+const TYPE_LABELS: Record<CreditType, string> = {
+  unapplied: "Unapplied payment",
+  overpayment: "Overpayment",
+  applied: "Applied",
+};
+
+const formatAmount = (amount: string | number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    typeof amount === "string" ? parseFloat(amount) : amount
+  );
+
+interface ContactCreditsProps {
+  contactId: number;
+}
+
+// Money held on the contact's account: unapplied receipts and overpayments,
+// and where it has since been applied
+export default function ContactCredits({ contactId }: ContactCreditsProps) {
+  const { data, isLoading } = useContactCreditsQuery(contactId);
+  const balances = data?.balances ?? [];
+  const credits = data?.credits ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Credit on Account
+        </CardTitle>
+        <div className="flex gap-2">
+          <RecordUnappliedPaymentDialog contactId={contactId} />
+          <ApplyCreditDialog contactId={contactId} balances={balances} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading credit…</p>
+        ) : balances.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No credit is held for this contact.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-4">
+            {balances.map((row) => (
+              <div key={row.currency} className="rounded-lg bg-muted/30 p-3">
+                <p className="text-2xl font-bold text-blue-600">
+                  {formatAmount(row.balance, row.currency)}
+                </p>
+                {row.currency !== "USD" && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatAmount(row.balanceUsd, "USD")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {credits.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Pledge</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {credits.map((credit) => {
+                // An overpayment lapses once its payment is refunded or voided
+                const lapsed =
+                  credit.paymentId !== null &&
+                  credit.paymentStatus !== "completed";
+                return (
+                  <TableRow
+                    key={credit.id}
+                    className={lapsed ? "opacity-50" : undefined}
+                  >
+                    <TableCell>
+                      {format(parseISO(credit.creditDate), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {TYPE_LABELS[credit.creditType]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {credit.pledgeId
+                        ? credit.pledgeDescription ||
+                          `Pledge #${credit.pledgeId}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatAmount(credit.amount, credit.currency)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {lapsed ? "Payment no longer completed" : credit.notes}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecordUnappliedPaymentDialog({ contactId }: ContactCreditsProps) {
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [creditDate, setCreditDate] = useState(
+    format(new Date(), "yyyy-MM-dd")
+  );
+  const [paymentMethod, setPaymentMethod] = useState("check");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const recordMutation = useRecordUnappliedPaymentMutation();
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setAmount("");
+      setCreditDate(format(new Date(), "yyyy-MM-dd"));
+      setReferenceNumber("");
+      setNotes("");
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsedAmount = Number.parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast.error("Enter an amount greater than zero");
+      return;
+    }
+
+    try {
+      const result = await recordMutation.mutateAsync({
+        contactId,
+        amount: parsedAmount,
+        currency,
+        creditDate,
+        paymentMethod,
+        referenceNumber: referenceNumber.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(result.message);
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to record unapplied payment"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          Unapplied Payment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Record Unapplied Payment</DialogTitle>
+            <DialogDescription>
+              Holds money received before there is a pledge for it. It can be
+              applied to a pledge later.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="unapplied-amount">Amount</Label>
+              <Input
+                id="unapplied-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {supportedCurrencies.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="unapplied-date">Date Received</Label>
+              <Input
+                id="unapplied-date"
+                type="date"
+                value={creditDate}
+                onChange={(event) => setCreditDate(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="unapplied-reference">Reference Number</Label>
+            <Input
+              id="unapplied-reference"
+              value={referenceNumber}
+              onChange={(event) => setReferenceNumber(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="unapplied-notes">Notes</Label>
+            <Textarea
+              id="unapplied-notes"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={recordMutation.isPending}>
+              {recordMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Record
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ApplyCreditDialog({
+  contactId,
+  balances,
+}: ContactCreditsProps & { balances: CreditBalance[] }) {
+  const [open, setOpen] = useState(false);
+  const [pledgeId, setPledgeId] = useState("");
+  const [amount, setAmount] = useState("");
+  const applyMutation = useApplyCreditMutation();
+  const { data: pledgesData } = usePledgesQuery({ contactId, limit: 100 });
+
+  // Credit goes to pledges in a currency it is held in that still owe money
+  const pledges = (pledgesData?.pledges ?? []).filter(
+    (pledge) =>
+      parseFloat(pledge.balance) > 0 &&
+      balances.some(
+        (row) => row.currency === pledge.currency && parseFloat(row.balance) > 0
+      )
+  );
+  const selected = pledges.find((pledge) => pledge.id.toString() === pledgeId);
+  const available = balances.find((row) => row.currency === selected?.currency);
+
+  const selectPledge = (value: string) => {
+    setPledgeId(value);
+    const pledge = pledges.find((row) => row.id.toString() === value);
+    const credit = balances.find((row) => row.currency === pledge?.currency);
+    if (pledge && credit) {
+      setAmount(
+        Math.min(
+          parseFloat(pledge.balance),
+          parseFloat(credit.balance)
+        ).toFixed(2)
+      );
+    }
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setPledgeId("");
+      setAmount("");
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsedAmount = Number.parseFloat(amount);
+    if (!selected) {
+      toast.error("Choose a pledge to apply the credit to");
+      return;
+    }
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast.error("Enter an amount greater than zero");
+      return;
+    }
+
+    try {
+      const result = await applyMutation.mutateAsync({
+        contactId,
+        pledgeId: selected.id,
+        amount: parsedAmount,
+      });
+      toast.success(result.message);
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to apply credit"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={balances.length === 0}>
+          <ArrowRightLeft className="h-4 w-4 mr-2" />
+          Apply Credit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Apply Credit to a Pledge</DialogTitle>
+            <DialogDescription>
+              Moves credit held in the pledge&apos;s currency onto it, up to its
+              outstanding balance.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Pledge</Label>
+            <Select value={pledgeId} onValueChange={selectPledge}>
+              <SelectTrigger>
+                <SelectValue
+                  placeholder={
+                    pledges.length === 0
+                      ? "No pledge can take this credit"
+                      : "Select a pledge"
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {pledges.map((pledge) => (
+                  <SelectItem key={pledge.id} value={pledge.id.toString()}>
+                    {pledge.description || `Pledge #${pledge.id}`} (
+                    {formatAmount(pledge.balance, pledge.currency)} due)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="apply-credit-amount">
+              Amount{selected ? ` (${selected.currency})` : ""}
+            </Label>
+            <Input
+              id="apply-credit-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+            />
+            {available && (
+              <p className="text-xs text-muted-foreground">
+                {formatAmount(available.balance, available.currency)} of credit
+                available
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={applyMutation.isPending}>
+              {applyMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Apply
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import { AlertCircle } from "lucide-react";
 import React from "react";
 import { useContactCategories } from "@/lib/query/useContactCategories";
 import ContactOverviewTab from "./Contact-Overview-Tab";
+import ContactCredits from "./Contact-Credits";
 import PledgesTable from "../pledges/Pledges-Client";
 import useContactId from "@/hooks/use-contact-id";
 
@@ -83,6 +84,7 @@ export default function ContactDetailsClient() {
         financialSummary={financialSummary}
         categories={categories || []}
       />
+      <ContactCredits contactId={contact.id} />
       <PledgesTable />
     </React.Fragment>
   );
@@ -2,25 +2,49 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
+import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { User, MapPin, Grid2x2 } from "lucide-react";
-import { Contact, ContactRole, StudentRole } from "@/lib/db/schema";
 import ContactCategoriesCard from "./Contact-Category";
+import ContactFormDialog from "../forms/contact-form";
 import { Category } from "@/lib/query/useContactCategories";
+import type { ContactWithDetails } from "@/lib/query/useContactDetails";
+import { formatAddress, formatPhone } from "@/lib/format";
 
-interface ContactWithRoles extends Contact {
-  contactRoles: ContactRole[];
-  studentRoles: StudentRole[];
+function DetailEntries({
+  entries,
+}: {
+  entries: { id: number; label: string; type: string; isPrimary: boolean }[];
+}) {
+  if (entries.length === 0) return <>N/A</>;
+  return (
+    <ul className="space-y-1">
+      {entries.map((entry) => (
+        <li key={entry.id} className="overflow-hidden text-ellipsis">
+          {entry.label}
+          <span className="ml-2 text-xs text-muted-foreground capitalize">
+            {entry.type}
+          </span>
+          {entry.isPrimary && entries.length > 1 && (
+            <Badge variant="secondary" className="ml-2">
+              Primary
+            </Badge>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
 }
 
 interface FinancialSummary {
   totalPledgedUsd: number;
   totalPaidUsd: number;
   currentBalanceUsd: number;
+  creditBalanceUsd: number;
 }
 
 interface ContactOverviewTabProps {
-  contact: ContactWithRoles;
+  contact: ContactWithDetails;
   financialSummary: FinancialSummary;
   categories: Category[];
 }
@@ -42,11 +66,12 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Contact Information Card */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle className="flex items-center gap-2">
             <User className="h-5 w-5" />
             Contact Information
           </CardTitle>
+          <ContactFormDialog contact={contact} />
         </CardHeader>
         <CardContent>
           <dl className="space-y-4 divide-y">
@@ -59,13 +84,25 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
             </div>
             <div className="grid grid-cols-2 gap-1 py-2">
               <dt className="text-muted-foreground font-medium">Email</dt>
-              <dd className="text-right overflow-hidden text-ellipsis">
-                {contact.email ?? "N/A"}
+              <dd className="text-right">
+                <DetailEntries
+                  entries={contact.emails.map((entry) => ({
+                    ...entry,
+                    label: entry.email,
+                  }))}
+                />
               </dd>
             </div>
             <div className="grid grid-cols-2 gap-1 py-2">
               <dt className="text-muted-foreground font-medium">Phone</dt>
-              <dd className="text-right">{contact.phone ?? "N/A"}</dd>
+              <dd className="text-right">
+                <DetailEntries
+                  entries={contact.phones.map((entry) => ({
+                    ...entry,
+                    label: formatPhone(entry),
+                  }))}
+                />
+              </dd>
             </div>
             <div className="grid grid-cols-2 gap-1 py-2">
               <dt className="text-muted-foreground font-medium">Gender</dt>
@@ -78,7 +115,14 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
                 <MapPin className="h-4 w-4 mr-1" />
                 Address
               </dt>
-              <dd className="text-right">{contact.address ?? "N/A"}</dd>
+              <dd className="text-right">
+                <DetailEntries
+                  entries={contact.addresses.map((entry) => ({
+                    ...entry,
+                    label: formatAddress(entry),
+                  }))}
+                />
+              </dd>
             </div>
           </dl>
         </CardContent>
@@ -125,6 +169,16 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
                 ${financialSummary.currentBalanceUsd.toLocaleString("en-US")}
               </dd>
             </div>
+            {financialSummary.creditBalanceUsd !== 0 && (
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">
+                  Credit on Account
+                </dt>
+                <dd className="text-right font-medium text-blue-600">
+                  ${financialSummary.creditBalanceUsd.toLocaleString("en-US")}
+                </dd>
+              </div>
+            )}
           </dl>
         </CardContent>
       </Card>
@@ -1,18 +1,22 @@
 import { DollarSign, AlertCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Badge } from "../ui/badge";
+import ContactCredits from "./Contact-Credits";
 
 interface FinancialSummary {
   totalPledgedUsd: number;
   totalPaidUsd: number;
   currentBalanceUsd: number;
+  creditBalanceUsd: number;
 }
 
 interface FinancialSummaryTabProps {
+  contactId: number;
   financialSummary: FinancialSummary;
 }
 
 const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
+  contactId,
   financialSummary,
 }) => {
   const paymentPercentage =
@@ -26,7 +30,7 @@ const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
   return (
     <div className="space-y-6">
       {/* Financial Overview Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="p-6 text-center">
             <p className="text-sm text-muted-foreground mb-1">Total Pledged</p>
@@ -53,6 +57,16 @@ const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
             </p>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="p-6 text-center">
+            <p className="text-sm text-muted-foreground mb-1">
+              Credit on Account
+            </p>
+            <p className="text-3xl font-bold text-blue-600">
+              ${financialSummary.creditBalanceUsd.toFixed(2)}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Detailed Payment Progress */}
@@ -124,6 +138,9 @@ const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
           </div>
         </CardContent>
       </Card>
+
+      {/* Unapplied and overpaid amounts held for later pledges */}
+      <ContactCredits contactId={contactId} />
     </div>
   );
 };
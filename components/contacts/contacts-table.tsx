@@ -1,82 +1,196 @@
 "use client";
 
 import React, { useMemo } from "react";
+import type { ColumnDef } from "@tanstack/react-table";
 import { useQueryState } from "nuqs";
-import { z } from "zod";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import {
-  Select,
-  SelectContent,
-  SelectGroup,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Search } from "lucide-react";
+import { DataTable } from "@/components/data-table/data-table";
+import { DataTableColumnHeader } from "@/components/data-table/data-table-column-header";
+import { DataTableToolbar } from "@/components/data-table/data-table-toolbar";
+import { useDataTable, useDataTableRequest } from "@/hooks/use-data-table";
+import { formatDate } from "@/lib/format";
 import { LinkButton } from "../ui/next-link";
-import { useGetContacts } from "@/lib/query/useContacts";
+import { useGetContacts, type ContactResponse } from "@/lib/query/useContacts";
 import ContactFormDialog from "../forms/contact-form";
 import ContactsSummaryCards from "./contact-summary";
-import { useRouter } from "next/navigation";
 import ExportDataDialog from "../export";
 
-const QueryParamsSchema = z.object({
-  page: z.number().min(1).default(1),
-  limit: z.number().min(1).max(100).default(10),
-  search: z.string().optional(),
-  sortBy: z
-    .enum(["updatedAt", "firstName", "lastName", "totalPledgedUsd"])
-    .default("updatedAt"),
-  sortOrder: z.enum(["asc", "desc"]).default("desc"),
-});
+// The columns /api/contacts can sort by; the others turn sorting off
+const SORTABLE_COLUMNS = [
+  "updatedAt",
+  "firstName",
+  "lastName",
+  "totalPledgedUsd",
+] as const;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const columns: ColumnDef<ContactResponse>[] = [
+  {
+    id: "lastName",
+    accessorKey: "lastName",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Full Name" />
+    ),
+    cell: ({ row }) => (
+      <span className="font-medium">
+        {row.original.lastName}, {row.original.firstName}
+      </span>
+    ),
+    meta: { label: "Last name", placeholder: "Last name...", variant: "text" },
+    enableColumnFilter: true,
+    enableHiding: false,
+  },
+  {
+    id: "firstName",
+    accessorKey: "firstName",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="First Name" />
+    ),
+    meta: { label: "First name" },
+  },
+  {
+    id: "email",
+    accessorKey: "email",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Email" />
+    ),
+    cell: ({ row }) => row.original.email || "N/A",
+    meta: { label: "Email", placeholder: "Email...", variant: "text" },
+    enableColumnFilter: true,
+    enableSorting: false,
+  },
+  {
+    id: "phone",
+    accessorKey: "phone",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Phone" />
+    ),
+    cell: ({ row }) => row.original.phone || "N/A",
+    meta: { label: "Phone" },
+    enableSorting: false,
+  },
+  {
+    id: "gender",
+    accessorKey: "gender",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Gender" />
+    ),
+    cell: ({ row }) => (
+      <span className="capitalize">{row.original.gender ?? "N/A"}</span>
+    ),
+    meta: {
+      label: "Gender",
+      variant: "multiSelect",
+      options: [
+        { label: "Male", value: "male" },
+        { label: "Female", value: "female" },
+      ],
+    },
+    enableColumnFilter: true,
+    enableSorting: false,
+  },
+  {
+    id: "totalPledgedUsd",
+    accessorKey: "totalPledgedUsd",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Total Pledged (USD)" />
+    ),
+    cell: ({ row }) => formatCurrency(row.original.totalPledgedUsd),
+    meta: { label: "Total pledged" },
+  },
+  {
+    id: "lastPaymentDate",
+    accessorKey: "lastPaymentDate",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Last Payment" />
+    ),
+    cell: ({ row }) =>
+      row.original.lastPaymentDate
+        ? formatDate(row.original.lastPaymentDate)
+        : "N/A",
+    meta: { label: "Last payment", variant: "date" },
+    enableColumnFilter: true,
+    enableSorting: false,
+  },
+  {
+    id: "createdAt",
+    accessorKey: "createdAt",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Created" />
+    ),
+    cell: ({ row }) => formatDate(row.original.createdAt),
+    meta: { label: "Created", variant: "dateRange" },
+    enableColumnFilter: true,
+    enableSorting: false,
+  },
+  {
+    id: "updatedAt",
+    accessorKey: "updatedAt",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Updated" />
+    ),
+    cell: ({ row }) => formatDate(row.original.updatedAt),
+    meta: { label: "Updated" },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => (
+      <LinkButton
+        variant="secondary"
+        href={`/contacts/${row.original.id}`}
+        className="p-2 text-primary underline"
+      >
+        View
+      </LinkButton>
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  },
+];
+
+const initialState = {
+  sorting: [{ id: "updatedAt" as const, desc: true }],
+};
 
 export default function ContactsTable() {
-  const [page, setPage] = useQueryState("page", {
-    parse: (value) => parseInt(value) || 1,
-    serialize: (value) => value.toString(),
-  });
-  const [limit] = useQueryState("limit", {
-    parse: (value) => parseInt(value) || 10,
-    serialize: (value) => value.toString(),
-  });
   const [search, setSearch] = useQueryState("search");
-  const [sortBy, setSortBy] = useQueryState("sortBy", {
-    parse: (value) =>
-      ["updatedAt", "firstName", "lastName", "totalPledgedUsd"].includes(value)
-        ? value
-        : "updatedAt",
-    serialize: (value) => value,
-  });
-  const [sortOrder, setSortOrder] = useQueryState("sortOrder", {
-    parse: (value) => (value === "asc" || value === "desc" ? value : "desc"),
-    serialize: (value) => value,
-  });
-
-  const router = useRouter();
 
-  const currentPage = page ?? 1;
-  const currentLimit = limit ?? 10;
+  const { page, perPage, sorting, filters, joinOperator } = useDataTableRequest(
+    { columns, initialState }
+  );
+  const [sort] = sorting;
 
-  const queryParams = QueryParamsSchema.parse({
-    page: currentPage,
-    limit: currentLimit,
+  const { data, isLoading, error } = useGetContacts({
+    page,
+    limit: Math.min(perPage, 100),
     search: search || undefined,
-    sortBy: sortBy || "updatedAt",
-    sortOrder: sortOrder || "desc",
+    sortBy:
+      SORTABLE_COLUMNS.find((column) => column === sort?.id) ?? "updatedAt",
+    sortOrder: sort && !sort.desc ? "asc" : "desc",
+    filters,
+    joinOperator,
   });
 
-  const { data, isLoading, error } = useGetContacts(queryParams);
+  const { table } = useDataTable({
+    data: data?.contacts ?? [],
+    columns,
+    pageCount: data?.pagination.totalPages ?? -1,
+    initialState: {
+      ...initialState,
+      columnVisibility: { firstName: false, createdAt: false },
+    },
+    getRowId: (row) => row.id.toString(),
+  });
 
   const summaryData = useMemo(() => {
     if (!data?.contacts) return undefined;
@@ -107,15 +221,6 @@ export default function ContactsTable() {
     };
   }, [data]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   if (error) {
     return (
       <Alert className="mx-4 my-6">
@@ -151,167 +256,25 @@ export default function ContactsTable() {
           />
         </div>
 
-        <Select
-          value={sortBy as string | undefined}
-          onValueChange={(value) => setSortBy(value === "" ? null : value)}
-        >
-          <SelectTrigger className="w-full sm:w-36">
-            <SelectValue placeholder="Sort By" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectGroup>
-              <SelectItem value="updatedAt">Updated At</SelectItem>
-              <SelectItem value="firstName">First Name</SelectItem>
-              <SelectItem value="lastName">Last Name</SelectItem>
-              <SelectItem value="totalPledgedUsd">Total Pledged</SelectItem>
-            </SelectGroup>
-          </SelectContent>
-        </Select>
-
-        <Select
-          value={sortOrder as string | undefined}
-          onValueChange={(value) => setSortOrder(value as "asc" | "desc")}
-          defaultValue="asc"
-        >
-          <SelectTrigger className="w-full sm:w-36">
-            <SelectValue placeholder="Sort Order" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectGroup>
-              <SelectItem value="asc">Ascending</SelectItem>
-              <SelectItem value="desc">Descending</SelectItem>
-            </SelectGroup>
-          </SelectContent>
-        </Select>
-
         <ContactFormDialog />
+        <LinkButton variant="outline" href="/contacts/duplicates">
+          Find Duplicates
+        </LinkButton>
+        <LinkButton variant="outline" href="/households">
+          Households
+        </LinkButton>
         <ExportDataDialog
           triggerText="Export All Data"
           triggerVariant="secondary"
         />
       </div>
 
-      {/* Table */}
-      <div className="border rounded-lg overflow-hidden">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead className="font-semibold text-gray-900">
-                Full Name
-              </TableHead>
-              <TableHead className="font-semibold text-gray-900">
-                Email
-              </TableHead>
-              <TableHead className="font-semibold text-gray-900">
-                Phone
-              </TableHead>
-              <TableHead className="font-semibold text-gray-900">
-                Total Pledged (USD)
-              </TableHead>
-              <TableHead className="font-semibold text-gray-900">
-                Action
-              </TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {isLoading ? (
-              Array.from({ length: currentLimit }).map((_, index) => (
-                <TableRow key={index}>
-                  <TableCell>
-                    <Skeleton className="h-4 w-20" />
-                  </TableCell>
-                  <TableCell>
-                    <Skeleton className="h-4 w-20" />
-                  </TableCell>
-                  <TableCell>
-                    <Skeleton className="h-4 w-32" />
-                  </TableCell>
-                  <TableCell>
-                    <Skeleton className="h-4 w-24" />
-                  </TableCell>
-                  <TableCell>
-                    <Skeleton className="h-4 w-24" />
-                  </TableCell>
-                  <TableCell>
-                    <Skeleton className="h-4 w-16" />
-                  </TableCell>
-                </TableRow>
-              ))
-            ) : data?.contacts.length === 0 ? (
-              <TableRow>
-                <TableCell
-                  colSpan={6}
-                  className="text-center py-8 text-gray-500"
-                >
-                  No contacts found
-                </TableCell>
-              </TableRow>
-            ) : (
-              data?.contacts.map((contact) => (
-                <TableRow
-                  key={`${contact.id}-${contact.createdAt}`}
-                  className="hover:bg-gray-50"
-                  onClick={() => {
-                    router.push(`/contacts/${contact.id}`);
-                  }}
-                >
-                  <TableCell className="font-medium">
-                    {contact.lastName}
-                    {","} {contact.firstName}
-                  </TableCell>
-                  <TableCell>{contact.email || "N/A"}</TableCell>
-                  <TableCell>{contact.phone || "N/A"}</TableCell>
-                  <TableCell>
-                    {formatCurrency(contact.totalPledgedUsd)}
-                  </TableCell>
-                  <TableCell>
-                    <LinkButton
-                      variant="secondary"
-                      href={`/contacts/${contact.id}`}
-                      className="p-2 text-primary underline"
-                    >
-                      View
-                    </LinkButton>
-                  </TableCell>
-                </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
-      </div>
-
-      {data && data.contacts.length > 0 && (
-        <div className="flex items-center justify-between mt-6">
-          <div className="text-sm text-gray-600">
-            Showing {(currentPage - 1) * currentLimit + 1} to{" "}
-            {Math.min(currentPage * currentLimit, data.pagination.totalCount)}{" "}
-            of {data.pagination.totalCount} contacts
-          </div>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage(currentPage - 1)}
-              disabled={!data.pagination.hasPreviousPage}
-            >
-              Previous
-            </Button>
-            <div className="flex items-center gap-1">
-              <span className="text-sm text-gray-600">
-                Page {currentPage} of {data.pagination.totalPages}
-              </span>
-            </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage(currentPage + 1)}
-              disabled={!data.pagination.hasNextPage}
-            >
-              Next
-            </Button>
-          </div>
-        </div>
-      )}
+      <DataTable table={table}>
+        <DataTableToolbar table={table} viewKey="contacts" />
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading contacts...</p>
+        )}
+      </DataTable>
     </div>
   );
 }
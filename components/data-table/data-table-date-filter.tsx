@@ -13,6 +13,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Separator } from "@/components/ui/separator";
+import { dataTableConfig } from "@/config/data-table";
 import { formatDate } from "@/lib/format";
 
 type DateSelection = Date[] | DateRange;
@@ -81,6 +82,15 @@ export function DataTableDateFilter<TData>({
     return date ? [date] : [];
   }, [columnFilterValue, multiple]);
 
+  // Single dates can instead be an offset from today, such as "-1 weeks"
+  const relativePreset = React.useMemo(() => {
+    if (multiple) return undefined;
+    const [value] = parseColumnFilterValue(columnFilterValue);
+    return dataTableConfig.relativeDatePresets.find(
+      (preset) => preset.value === value
+    );
+  }, [columnFilterValue, multiple]);
+
   const onSelect = React.useCallback(
     (date: Date | DateRange | undefined) => {
       if (!date) {
@@ -113,8 +123,8 @@ export function DataTableDateFilter<TData>({
       return selectedDates.from || selectedDates.to;
     }
     if (!Array.isArray(selectedDates)) return false;
-    return selectedDates.length > 0;
-  }, [multiple, selectedDates]);
+    return selectedDates.length > 0 || !!relativePreset;
+  }, [multiple, selectedDates, relativePreset]);
 
   const formatDateRange = React.useCallback((range: DateRange) => {
     if (!range.from && !range.to) return "";
@@ -151,10 +161,12 @@ export function DataTableDateFilter<TData>({
 
     if (getIsDateRange(selectedDates)) return null;
 
-    const hasSelectedDate = selectedDates.length > 0;
-    const dateText = hasSelectedDate
-      ? formatDate(selectedDates[0])
-      : "Select date";
+    const hasSelectedDate = selectedDates.length > 0 || !!relativePreset;
+    const dateText = relativePreset
+      ? relativePreset.label
+      : hasSelectedDate
+        ? formatDate(selectedDates[0])
+        : "Select date";
 
     return (
       <span className="flex items-center gap-2">
@@ -170,7 +182,7 @@ export function DataTableDateFilter<TData>({
         )}
       </span>
     );
-  }, [selectedDates, multiple, formatDateRange, title]);
+  }, [selectedDates, relativePreset, multiple, formatDateRange, title]);
 
   return (
     <Popover>
@@ -205,14 +217,33 @@ export function DataTableDateFilter<TData>({
             onSelect={onSelect}
           />
         ) : (
-          <Calendar
-            initialFocus
-            mode="single"
-            selected={
-              !getIsDateRange(selectedDates) ? selectedDates[0] : undefined
-            }
-            onSelect={onSelect}
-          />
+          <div className="flex">
+            <div className="flex flex-col gap-1 border-r p-2">
+              {dataTableConfig.relativeDatePresets.map((preset) => (
+                <Button
+                  key={preset.value}
+                  variant={
+                    relativePreset?.value === preset.value
+                      ? "secondary"
+                      : "ghost"
+                  }
+                  size="sm"
+                  className="justify-start"
+                  onClick={() => column.setFilterValue(preset.value)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+            <Calendar
+              initialFocus
+              mode="single"
+              selected={
+                !getIsDateRange(selectedDates) ? selectedDates[0] : undefined
+              }
+              onSelect={onSelect}
+            />
+          </div>
         )}
       </PopoverContent>
     </Popover>
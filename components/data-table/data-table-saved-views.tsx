@@ -0,0 +1,263 @@
+"use client";
+
+import type { ColumnFiltersState, Table } from "@tanstack/react-table";
+import {
+  Bookmark,
+  ChevronsUpDown,
+  Lock,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Users,
+} from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useCreateSavedViewMutation,
+  useDeleteSavedViewMutation,
+  useSavedViewsQuery,
+  useUpdateSavedViewMutation,
+  type SavedView,
+  type SavedViewState,
+} from "@/lib/query/saved-views/useSavedViewQuery";
+
+interface DataTableSavedViewsProps<TData> {
+  table: Table<TData>;
+  viewKey: string;
+}
+
+export function DataTableSavedViews<TData>({
+  table,
+  viewKey,
+}: DataTableSavedViewsProps<TData>) {
+  const [saveOpen, setSaveOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [isShared, setIsShared] = React.useState(false);
+
+  const { data } = useSavedViewsQuery(viewKey);
+  const createMutation = useCreateSavedViewMutation();
+  const updateMutation = useUpdateSavedViewMutation();
+  const deleteMutation = useDeleteSavedViewMutation();
+
+  const views = data?.views ?? [];
+  const myViews = views.filter((view) => view.isOwner);
+  const sharedViews = views.filter((view) => !view.isOwner);
+
+  const getCurrentState = (): SavedViewState => {
+    const state = table.getState();
+    return {
+      filters: state.columnFilters,
+      sorting: state.sorting,
+      columnVisibility: state.columnVisibility,
+      pageSize: state.pagination.pageSize,
+    };
+  };
+
+  // The table handlers write through to the URL state, so a view applies the
+  // same way as picking each filter and sort by hand
+  const applyView = (view: SavedView) => {
+    table.setColumnFilters(view.filters as ColumnFiltersState);
+    table.setSorting(view.sorting);
+    table.setColumnVisibility(view.columnVisibility);
+    table.setPageSize(view.pageSize);
+    table.setPageIndex(0);
+  };
+
+  const run = async (action: () => Promise<{ message: string }>) => {
+    try {
+      const response = await action();
+      toast.success(response.message);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Action failed");
+      return false;
+    }
+  };
+
+  const onSave = async () => {
+    const saved = await run(() =>
+      createMutation.mutateAsync({
+        tableKey: viewKey,
+        name: name.trim(),
+        isShared,
+        ...getCurrentState(),
+      })
+    );
+    if (saved) setSaveOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            aria-label="Saved views"
+            variant="outline"
+            size="sm"
+            className="h-8"
+          >
+            <Bookmark />
+            Views
+            <ChevronsUpDown className="ml-auto opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>My views</DropdownMenuLabel>
+          <DropdownMenuGroup>
+            {myViews.length === 0 && (
+              <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+            )}
+            {myViews.map((view) => (
+              <DropdownMenuSub key={view.id}>
+                <DropdownMenuSubTrigger>
+                  {view.isShared ? (
+                    <Users className="size-4 text-muted-foreground" />
+                  ) : (
+                    <Lock className="size-4 text-muted-foreground" />
+                  )}
+                  <span className="truncate">{view.name}</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem onSelect={() => applyView(view)}>
+                    <Bookmark />
+                    Apply
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() =>
+                      run(() =>
+                        updateMutation.mutateAsync({
+                          viewId: view.id,
+                          ...getCurrentState(),
+                        })
+                      )
+                    }
+                  >
+                    <RefreshCw />
+                    Update to current
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() =>
+                      run(() =>
+                        updateMutation.mutateAsync({
+                          viewId: view.id,
+                          isShared: !view.isShared,
+                        })
+                      )
+                    }
+                  >
+                    {view.isShared ? <Lock /> : <Users />}
+                    {view.isShared ? "Make private" : "Share with team"}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    variant="destructive"
+                    onSelect={() =>
+                      run(() => deleteMutation.mutateAsync(view.id))
+                    }
+                  >
+                    <Trash2 />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ))}
+          </DropdownMenuGroup>
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared</DropdownMenuLabel>
+              <DropdownMenuGroup>
+                {sharedViews.map((view) => (
+                  <DropdownMenuItem
+                    key={view.id}
+                    onSelect={() => applyView(view)}
+                  >
+                    <Users className="size-4 text-muted-foreground" />
+                    <span className="truncate">{view.name}</span>
+                    <span className="ml-auto truncate text-muted-foreground text-xs">
+                      {view.ownerName}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuGroup>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => {
+              setName("");
+              setIsShared(false);
+              setSaveOpen(true);
+            }}
+          >
+            <Plus />
+            Save current view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sorting, visible columns and page size.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                maxLength={100}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="saved-view-shared"
+                checked={isShared}
+                onCheckedChange={(checked) => setIsShared(checked === true)}
+              />
+              <Label htmlFor="saved-view-shared">Share with teammates</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              disabled={!name.trim() || createMutation.isPending}
+              onClick={onSave}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -6,19 +6,22 @@ import * as React from "react";
 
 import { DataTableDateFilter } from "@/components/data-table/data-table-date-filter";
 import { DataTableFacetedFilter } from "@/components/data-table/data-table-faceted-filter";
+import { DataTableSavedViews } from "@/components/data-table/data-table-saved-views";
 import { DataTableSliderFilter } from "@/components/data-table/data-table-slider-filter";
 import { DataTableViewOptions } from "@/components/data-table/data-table-view-options";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
-import ContactFormDialog from "../forms/contact-form";
 
 interface DataTableToolbarProps<TData> extends React.ComponentProps<"div"> {
   table: Table<TData>;
+  // Which table saved views belong to; leave unset to hide the views menu
+  viewKey?: string;
 }
 
 export function DataTableToolbar<TData>({
   table,
+  viewKey,
   children,
   className,
   ...props
@@ -63,8 +66,8 @@ export function DataTableToolbar<TData>({
       </div>
       <div className="flex items-center gap-2">
         {children}
+        {viewKey && <DataTableSavedViews table={table} viewKey={viewKey} />}
         <DataTableViewOptions table={table} />
-        <ContactFormDialog />
       </div>
     </div>
   );
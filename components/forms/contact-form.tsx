@@ -2,11 +2,16 @@
 "use client";
 
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import {
+  useFieldArray,
+  useForm,
+  type FieldArrayPath,
+  type UseFormReturn,
+} from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -29,34 +34,234 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { contactFormSchema } from "@/lib/form-schemas/contact";
+import {
+  contactAddressSchema,
+  contactEmailSchema,
+  contactFormSchema,
+  contactPhoneSchema,
+} from "@/lib/form-schemas/contact";
 import { useCreateContact } from "@/lib/mutation/useCreateContact";
-import { useState } from "react";
-import { PlusCircleIcon } from "lucide-react";
+import { useUpdateContact } from "@/lib/mutation/useUpdateContact";
+import type { ContactWithDetails } from "@/lib/query/useContactDetails";
+import { useState, type ReactNode } from "react";
+import { Pencil, PlusCircleIcon, Plus, Trash2 } from "lucide-react";
 
 export type ContactFormValues = z.infer<typeof contactFormSchema>;
 
-export default function ContactFormDialog() {
-  const [open, setOpen] = useState(false);
-  const form = useForm<ContactFormValues>({
-    resolver: zodResolver(contactFormSchema),
-    defaultValues: {
+type DetailList = Extract<
+  FieldArrayPath<ContactFormValues>,
+  "emails" | "phones" | "addresses"
+>;
+
+const EMAIL_TYPES = contactEmailSchema.shape.type.options;
+const PHONE_TYPES = contactPhoneSchema.shape.type.options;
+const ADDRESS_TYPES = contactAddressSchema.shape.type.options;
+
+const emptyEmail = (): ContactFormValues["emails"][number] => ({
+  email: "",
+  type: "personal",
+  isPrimary: false,
+});
+
+const emptyPhone = (): ContactFormValues["phones"][number] => ({
+  countryCode: "",
+  number: "",
+  extension: "",
+  type: "mobile",
+  isPrimary: false,
+});
+
+const emptyAddress = (): ContactFormValues["addresses"][number] => ({
+  type: "mailing",
+  street: "",
+  street2: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  country: "",
+  isPrimary: false,
+});
+
+function toFormValues(contact?: ContactWithDetails): ContactFormValues {
+  if (!contact) {
+    return {
       firstName: "",
       lastName: "",
-      email: "",
-      phone: "",
       title: undefined,
       gender: undefined,
-      address: "",
-    },
+      emails: [{ ...emptyEmail(), isPrimary: true }],
+      phones: [],
+      addresses: [],
+    };
+  }
+  return {
+    firstName: contact.firstName,
+    lastName: contact.lastName,
+    title: (contact.title ?? undefined) as ContactFormValues["title"],
+    gender: contact.gender ?? undefined,
+    emails: contact.emails.map((entry) => ({
+      email: entry.email,
+      type: entry.type,
+      isPrimary: entry.isPrimary,
+    })),
+    phones: contact.phones.map((entry) => ({
+      countryCode: entry.countryCode ?? "",
+      number: entry.number,
+      extension: entry.extension ?? "",
+      type: entry.type,
+      isPrimary: entry.isPrimary,
+    })),
+    addresses: contact.addresses.map((entry) => ({
+      type: entry.type,
+      street: entry.street,
+      street2: entry.street2 ?? "",
+      city: entry.city ?? "",
+      state: entry.state ?? "",
+      postalCode: entry.postalCode ?? "",
+      country: entry.country ?? "",
+      isPrimary: entry.isPrimary,
+    })),
+  };
+}
+
+function TypeSelect({
+  form,
+  name,
+  options,
+}: {
+  form: UseFormReturn<ContactFormValues>;
+  name: `${DetailList}.${number}.type`;
+  options: readonly string[];
+}) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <Select onValueChange={field.onChange} value={field.value as string}>
+            <FormControl>
+              <SelectTrigger className="w-28 capitalize">
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Works like a radio button across the list: checking one unchecks the rest
+function PrimaryCheckbox({
+  form,
+  list,
+  index,
+}: {
+  form: UseFormReturn<ContactFormValues>;
+  list: DetailList;
+  index: number;
+}) {
+  const isPrimary = form.watch(`${list}.${index}.isPrimary`);
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap h-9">
+      <Checkbox
+        checked={!!isPrimary}
+        onCheckedChange={(checked) => {
+          if (!checked) return;
+          form.getValues(list).forEach((_, other) =>
+            form.setValue(`${list}.${other}.isPrimary`, other === index, {
+              shouldDirty: true,
+            })
+          );
+        }}
+      />
+      Primary
+    </label>
+  );
+}
+
+function DetailSection({
+  title,
+  onAdd,
+  error,
+  children,
+}: {
+  title: string;
+  onAdd: () => void;
+  error?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <FormLabel className="text-lg">{title}</FormLabel>
+        <Button type="button" variant="outline" size="sm" onClick={onAdd}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {children}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+interface ContactFormDialogProps {
+  // Edits this contact instead of creating a new one
+  contact?: ContactWithDetails;
+}
+
+export default function ContactFormDialog({ contact }: ContactFormDialogProps) {
+  const [open, setOpen] = useState(false);
+  const form = useForm<ContactFormValues>({
+    resolver: zodResolver(contactFormSchema),
+    defaultValues: toFormValues(contact),
   });
 
-  const { mutate: createContact, isPending } = useCreateContact(
-    form.setError as any
+  const emails = useFieldArray({ control: form.control, name: "emails" });
+  const phones = useFieldArray({ control: form.control, name: "phones" });
+  const addresses = useFieldArray({
+    control: form.control,
+    name: "addresses",
+  });
+
+  // The server reports a taken email against "email", which is the primary
+  // entry of the list here
+  const setFieldError = (field: string, message: string) => {
+    const primary = Math.max(
+      0,
+      form.getValues("emails").findIndex((entry) => entry.isPrimary)
+    );
+    form.setError(
+      (field === "email" ? `emails.${primary}.email` : field) as any,
+      { message }
+    );
+  };
+
+  const { mutate: createContact, isPending: isCreating } =
+    useCreateContact(setFieldError);
+  const { mutate: updateContact, isPending: isUpdating } = useUpdateContact(
+    contact?.id ?? 0,
+    setFieldError
   );
+  const isPending = isCreating || isUpdating;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) form.reset(toFormValues(contact));
+    setOpen(next);
+  };
 
   const onSubmit = (values: ContactFormValues) => {
-    createContact(values, {
+    const save = contact ? updateContact : createContact;
+    save(values, {
       onSuccess: () => {
         form.reset();
         setOpen(false);
@@ -65,16 +270,25 @@ export default function ContactFormDialog() {
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
-        <Button size="sm" className="border-dashed text-white">
-          <PlusCircleIcon />
-          New Contact
-        </Button>
+        {contact ? (
+          <Button size="sm" variant="outline">
+            <Pencil />
+            Edit
+          </Button>
+        ) : (
+          <Button size="sm" className="border-dashed text-white">
+            <PlusCircleIcon />
+            New Contact
+          </Button>
+        )}
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-2xl">Creation of a Contact</DialogTitle>
+          <DialogTitle className="text-2xl">
+            {contact ? "Edit Contact" : "Creation of a Contact"}
+          </DialogTitle>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
@@ -116,42 +330,6 @@ export default function ContactFormDialog() {
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="email"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-lg">Email</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="you@example.com"
-                      className="h-12 text-base"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="phone"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-lg">Phone</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="+1234567890"
-                      className="h-12 text-base"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -159,10 +337,7 @@ export default function ContactFormDialog() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-lg">Title</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger className="h-12 text-base">
                           <SelectValue placeholder="Select a title" />
@@ -189,10 +364,7 @@ export default function ContactFormDialog() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-lg">Gender</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger className="h-12 text-base">
                           <SelectValue placeholder="Select gender" />
@@ -209,23 +381,181 @@ export default function ContactFormDialog() {
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="address"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-lg">Address</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="123 Main St, City, Country"
-                      className="h-32 text-base"
-                      {...field}
+            <DetailSection
+              title="Emails"
+              onAdd={() => emails.append(emptyEmail())}
+              error={form.formState.errors.emails?.root?.message}
+            >
+              {emails.fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <TypeSelect
+                    form={form}
+                    name={`emails.${index}.type`}
+                    options={EMAIL_TYPES}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`emails.${index}.email`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input placeholder="you@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <PrimaryCheckbox form={form} list="emails" index={index} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={emails.fields.length === 1}
+                    onClick={() => emails.remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </DetailSection>
+
+            <DetailSection
+              title="Phones"
+              onAdd={() => phones.append(emptyPhone())}
+            >
+              {phones.fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <TypeSelect
+                    form={form}
+                    name={`phones.${index}.type`}
+                    options={PHONE_TYPES}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`phones.${index}.countryCode`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input placeholder="+1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`phones.${index}.number`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input placeholder="555 123 4567" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`phones.${index}.extension`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input placeholder="Ext." {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <PrimaryCheckbox form={form} list="phones" index={index} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => phones.remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </DetailSection>
+
+            <DetailSection
+              title="Addresses"
+              onAdd={() => addresses.append(emptyAddress())}
+            >
+              {addresses.fields.map((item, index) => (
+                <div key={item.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-start gap-2">
+                    <TypeSelect
+                      form={form}
+                      name={`addresses.${index}.type`}
+                      options={ADDRESS_TYPES}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`addresses.${index}.street`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="123 Main St" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <PrimaryCheckbox
+                      form={form}
+                      list="addresses"
+                      index={index}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => addresses.remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.street2`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input placeholder="Apartment, suite" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {(
+                      [
+                        ["city", "City"],
+                        ["state", "State"],
+                        ["postalCode", "Postal code"],
+                        ["country", "Country"],
+                      ] as const
+                    ).map(([part, placeholder]) => (
+                      <FormField
+                        key={part}
+                        control={form.control}
+                        name={`addresses.${index}.${part}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder={placeholder} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </DetailSection>
 
             <div className="flex justify-end gap-4">
               <Button
@@ -145,11 +145,9 @@ const paymentSchema = z.object({
     .default("completed"),
   referenceNumber: z.string().optional(),
   checkNumber: z.string().optional(),
-  receiptNumber: z.string().optional(),
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional(),
-  receiptIssued: z.boolean().default(false),
   // Solicitor fields
   solicitorId: z.number().positive().optional(),
   bonusPercentage: z.number().min(0).max(100).optional(),
@@ -228,9 +226,7 @@ export default function PaymentFormDialog({
       paymentStatus: "completed" as const,
       referenceNumber: "",
       checkNumber: "",
-      receiptNumber: "",
       receiptType: undefined,
-      receiptIssued: false,
       solicitorId: undefined,
       bonusPercentage: undefined,
       bonusAmount: undefined,
@@ -305,9 +301,7 @@ export default function PaymentFormDialog({
       paymentStatus: "completed" as const,
       referenceNumber: "",
       checkNumber: "",
-      receiptNumber: "",
       receiptType: undefined,
-      receiptIssued: false,
       solicitorId: undefined,
       bonusPercentage: undefined,
       bonusAmount: undefined,
@@ -352,8 +346,6 @@ export default function PaymentFormDialog({
         ...data,
         amount: convertedAmount,
         currency: pledgeCurrency,
-        // Keep the original input for reference in amountUsd calculation
-        amountUsd: data.amountUsd, // This stays as calculated
       };
 
       console.log("Original amount:", data.amount, data.currency);
@@ -723,7 +715,7 @@ export default function PaymentFormDialog({
                 )}
               />
 
-              {watchedPaymentMethod === "check" ? (
+              {watchedPaymentMethod === "check" && (
                 <FormField
                   control={form.control}
                   name="checkNumber"
@@ -737,24 +729,10 @@ export default function PaymentFormDialog({
                     </FormItem>
                   )}
                 />
-              ) : (
-                <FormField
-                  control={form.control}
-                  name="receiptNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Receipt Number</FormLabel>
-                      <FormControl>
-                        <Input {...field} placeholder="Receipt number" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
               )}
             </div>
 
-            {/* Receipt Type and Receipt Issued Row */}
+            {/* Receipt Type Row */}
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -780,23 +758,6 @@ export default function PaymentFormDialog({
                   </FormItem>
                 )}
               />
-
-              <FormField
-                control={form.control}
-                name="receiptIssued"
-                render={({ field }) => (
-                  <FormItem className="flex items-center space-x-2 pt-6">
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <FormLabel className="!mt-0">Receipt Issued</FormLabel>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
             </div>
             <div className="border-t pt-4">
               <div className="flex items-center gap-2">
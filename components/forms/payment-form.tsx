@@ -3,7 +3,7 @@
 "use client";
 
 import React, { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -31,7 +31,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { usePledgesQuery } from "@/lib/query/usePledgeData";
 
 import { toast } from "sonner";
 import { useCreatePaymentMutation } from "@/lib/query/payments/usePaymentQuery";
@@ -82,11 +84,20 @@ const paymentSchema = z.object({
   ]),
   referenceNumber: z.string().optional(),
   checkNumber: z.string().optional(),
-  receiptNumber: z.string().optional(),
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional(),
   notes: z.string().optional(),
+  // Shares for the contact's other pledges, in the pledge currency; the rest
+  // of the payment stays on this pledge
+  allocations: z
+    .array(
+      z.object({
+        pledgeId: z.number().positive("Select a pledge"),
+        amount: z.number().positive("Amount must be positive"),
+      })
+    )
+    .optional(),
 });
 
 type PaymentFormData = z.infer<typeof paymentSchema>;
@@ -98,6 +109,8 @@ interface PaymentDialogProps {
   pledgeAmount: number;
   pledgeCurrency: string;
   pledgeDescription?: string;
+  // Enables splitting the payment across the contact's other pledges
+  contactId?: number;
   onPaymentCreated?: () => void;
 }
 
@@ -108,6 +121,7 @@ export default function PaymentDialog({
   pledgeAmount,
   pledgeCurrency,
   pledgeDescription,
+  contactId,
   onPaymentCreated,
 }: PaymentDialogProps) {
   const {
@@ -130,15 +144,60 @@ export default function PaymentDialog({
       paymentMethod: "cash" as const,
       referenceNumber: "",
       checkNumber: "",
-      receiptNumber: "",
       notes: "",
+      allocations: [],
     },
   });
 
+  const allocationRows = useFieldArray({
+    control: form.control,
+    name: "allocations",
+  });
+
+  // A split payment can only cover open pledges in the same currency
+  const { data: pledgesData } = usePledgesQuery({
+    contactId,
+    page: 1,
+    limit: 100,
+  });
+  const otherPledges = contactId
+    ? (pledgesData?.pledges ?? []).filter(
+        (other) =>
+          other.id !== pledgeId &&
+          other.currency === pledgeCurrency &&
+          parseFloat(other.balance) > 0
+      )
+    : [];
+
   const watchedCurrency = form.watch("currency");
   const watchedAmount = form.watch("amount");
   const watchedPaymentDate = form.watch("paymentDate");
   const watchedPaymentMethod = form.watch("paymentMethod");
+  const watchedAllocations = form.watch("allocations") ?? [];
+
+  // The payment amount in the pledge currency, as it will be posted
+  const toPledgeCurrency = (amount: number, currency: string) => {
+    if (currency === pledgeCurrency || !exchangeRatesData?.data?.rates) {
+      return amount;
+    }
+    const inputToUsdRate =
+      parseFloat(exchangeRatesData.data.rates[currency]) || 1;
+    const usdToPledgeRate =
+      parseFloat(exchangeRatesData.data.rates[pledgeCurrency]) || 1;
+    return (
+      Math.round(((amount * inputToUsdRate) / usdToPledgeRate) * 100) / 100
+    );
+  };
+  const splitTotal = watchedAllocations.reduce(
+    (total, allocation) => total + (allocation?.amount || 0),
+    0
+  );
+  const remainingForPledge =
+    Math.round(
+      (toPledgeCurrency(watchedAmount || 0, watchedCurrency ?? pledgeCurrency) -
+        splitTotal) *
+        100
+    ) / 100;
 
   // Update exchange rate when currency or date changes
   useEffect(() => {
@@ -194,13 +253,31 @@ export default function PaymentDialog({
         convertedAmount = Math.round(convertedAmount * 100) / 100; // Round to 2 decimal places
       }
 
+      // What is not split off to other pledges stays on this one
+      const others = data.allocations ?? [];
+      const ownShare =
+        Math.round(
+          (convertedAmount -
+            others.reduce(
+              (total, allocation) => total + allocation.amount,
+              0
+            )) *
+            100
+        ) / 100;
+      if (others.length > 0 && ownShare <= 0) {
+        toast.error("The split amounts leave nothing for this pledge");
+        return;
+      }
+
       // Create payload with converted amount and pledge currency
       const payload = {
         ...data,
         amount: convertedAmount,
         currency: targetPledgeCurrency,
-        // Keep the original input for reference in amountUsd calculation
-        amountUsd: data.amountUsd, // This stays as calculated
+        allocations:
+          others.length > 0
+            ? [{ pledgeId, amount: ownShare }, ...others]
+            : undefined,
       };
 
       console.log("Original amount:", data.amount, data.currency);
@@ -221,8 +298,8 @@ export default function PaymentDialog({
         paymentMethod: "cash" as const,
         referenceNumber: "",
         checkNumber: "",
-        receiptNumber: "",
         notes: "",
+        allocations: [],
       });
 
       onOpenChange(false);
@@ -251,8 +328,8 @@ export default function PaymentDialog({
         paymentMethod: "cash" as const,
         referenceNumber: "",
         checkNumber: "",
-        receiptNumber: "",
         notes: "",
+        allocations: [],
       });
     }
   };
@@ -405,6 +482,110 @@ export default function PaymentDialog({
               )}
             />
 
+            {/* Split across the contact's other pledges */}
+            {contactId && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">Split Across Pledges</p>
+                    <p className="text-xs text-muted-foreground">
+                      Send part of this payment to other {pledgeCurrency}{" "}
+                      pledges; the rest stays on this pledge.
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={otherPledges.length === 0}
+                    onClick={() =>
+                      allocationRows.append({ pledgeId: 0, amount: 0 })
+                    }
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Pledge
+                  </Button>
+                </div>
+
+                {allocationRows.fields.map((row, index) => (
+                  <div key={row.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`allocations.${index}.pledgeId`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <Select
+                            onValueChange={(value) =>
+                              field.onChange(parseInt(value, 10))
+                            }
+                            value={field.value ? field.value.toString() : ""}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select pledge" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {otherPledges.map((other) => (
+                                <SelectItem
+                                  key={other.id}
+                                  value={other.id.toString()}
+                                >
+                                  {other.description || `Pledge #${other.id}`} (
+                                  {parseFloat(other.balance).toLocaleString()}{" "}
+                                  {other.currency} due)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`allocations.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem className="w-32">
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...field}
+                              onChange={(e) => {
+                                const value = e.target.value;
+                                field.onChange(value ? parseFloat(value) : 0);
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => allocationRows.remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                {allocationRows.fields.length > 0 && (
+                  <p
+                    className={`text-sm ${
+                      remainingForPledge > 0 ? "text-gray-700" : "text-red-600"
+                    }`}
+                  >
+                    Remaining for this pledge:{" "}
+                    {remainingForPledge.toLocaleString()} {pledgeCurrency}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Payment Date */}
             <FormField
               control={form.control}
@@ -484,21 +665,6 @@ export default function PaymentDialog({
               />
             )}
 
-            {/* Receipt Number */}
-            <FormField
-              control={form.control}
-              name="receiptNumber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Receipt Number</FormLabel>
-                  <FormControl>
-                    <Input {...field} placeholder="Receipt number" />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             {/* Receipt Type */}
             <FormField
               control={form.control}
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
-import React, { useEffect, useState } from "react";
-import { useForm } from "react-hook-form";
+import React, { useEffect, useMemo, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import {
@@ -12,6 +12,7 @@ import {
   Play,
   Edit,
   Calculator,
+  Plus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -55,10 +56,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { validateCustomSchedule } from "@/lib/payment-schedule";
 import {
   useCreatePaymentPlanMutation,
   useUpdatePaymentPlanMutation,
   usePaymentPlanQuery,
+  usePaymentPlanInstallmentsQuery,
   usePledgeDetailsQuery,
   usePauseResumePaymentPlanMutation,
   useDeletePaymentPlanMutation,
@@ -106,37 +109,63 @@ const statusOptions = [
   { value: "overdue", label: "Overdue" },
 ] as const;
 
-const paymentPlanSchema = z.object({
-  pledgeId: z.number().positive(),
-  planName: z.string().optional(),
-  frequency: z.enum([
-    "weekly",
-    "monthly",
-    "quarterly",
-    "biannual",
-    "annual",
-    "one_time",
-    "custom",
-  ]),
-  totalPlannedAmount: z
-    .number()
-    .positive("Total planned amount must be positive"),
-  currency: z.enum(supportedCurrencies).default("USD"),
-  installmentAmount: z.number().positive("Installment amount must be positive"),
-  numberOfInstallments: z
-    .number()
-    .int()
-    .positive("Number of installments must be positive"),
-  startDate: z.string().min(1, "Start date is required"),
-  endDate: z.string().optional(),
-  nextPaymentDate: z.string().optional(),
-  autoRenew: z.boolean().default(false),
-  planStatus: z
-    .enum(["active", "completed", "cancelled", "paused", "overdue"])
-    .optional(),
-  notes: z.string().optional(),
-  internalNotes: z.string().optional(),
-});
+const paymentPlanSchema = z
+  .object({
+    pledgeId: z.number().positive(),
+    planName: z.string().optional(),
+    frequency: z.enum([
+      "weekly",
+      "monthly",
+      "quarterly",
+      "biannual",
+      "annual",
+      "one_time",
+      "custom",
+    ]),
+    totalPlannedAmount: z
+      .number()
+      .positive("Total planned amount must be positive"),
+    currency: z.enum(supportedCurrencies).default("USD"),
+    installmentAmount: z
+      .number()
+      .positive("Installment amount must be positive"),
+    numberOfInstallments: z
+      .number()
+      .int()
+      .positive("Number of installments must be positive"),
+    startDate: z.string().min(1, "Start date is required"),
+    endDate: z.string().optional(),
+    nextPaymentDate: z.string().optional(),
+    autoRenew: z.boolean().default(false),
+    renewWithNewPledge: z.boolean().default(false),
+    planStatus: z
+      .enum(["active", "completed", "cancelled", "paused", "overdue"])
+      .optional(),
+    notes: z.string().optional(),
+    internalNotes: z.string().optional(),
+    customSchedule: z
+      .array(
+        z.object({
+          dueDate: z.string().min(1, "Due date is required"),
+          amount: z.number().positive("Amount must be positive"),
+        })
+      )
+      .optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.frequency !== "custom") return;
+    const problem = validateCustomSchedule(
+      data.customSchedule ?? [],
+      data.totalPlannedAmount
+    );
+    if (problem) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["customSchedule"],
+        message: problem,
+      });
+    }
+  });
 
 type PaymentPlanFormData = z.infer<typeof paymentPlanSchema>;
 
@@ -253,6 +282,9 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
   // Queries for edit mode
   const { data: existingPlanData, isLoading: isLoadingPlan } =
     usePaymentPlanQuery(paymentPlanId || 0);
+  const { data: installmentsData } = usePaymentPlanInstallmentsQuery(
+    paymentPlanId || 0
+  );
 
   const contactId = useContactId();
   const { data: pledgesData, isLoading: isLoadingPledges } = usePledgesQuery({
@@ -274,6 +306,18 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
   // Extract plan data for edit mode
   const existingPlan = existingPlanData?.paymentPlan;
 
+  // A custom plan's stored installments seed its schedule rows
+  const existingSchedule = useMemo(
+    () =>
+      (installmentsData?.installments ?? [])
+        .filter((installment) => installment.status !== "cancelled")
+        .map((installment) => ({
+          dueDate: installment.dueDate,
+          amount: parseFloat(installment.amount),
+        })),
+    [installmentsData]
+  );
+
   // Set selectedPledgeId from existing plan in edit mode
   useEffect(() => {
     if (isEditMode && existingPlan && !selectedPledgeId) {
@@ -343,17 +387,27 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
       endDate: "",
       nextPaymentDate: "",
       autoRenew: false,
+      renewWithNewPledge: false,
       planStatus: "active" as const,
       notes: "",
       internalNotes: "",
+      customSchedule: [] as { dueDate: string; amount: number }[],
     },
   });
 
+  const customScheduleRows = useFieldArray({
+    control: form.control,
+    name: "customSchedule",
+  });
+
   const watchedFrequency = form.watch("frequency");
   const watchedStartDate = form.watch("startDate");
   const watchedNumberOfInstallments = form.watch("numberOfInstallments");
   const watchedTotalPlannedAmount = form.watch("totalPlannedAmount");
   const watchedInstallmentAmount = form.watch("installmentAmount");
+  const watchedCustomSchedule = form.watch("customSchedule");
+  const watchedAutoRenew = form.watch("autoRenew");
+  const isCustomFrequency = watchedFrequency === "custom";
 
   // Update form when existing plan data loads (edit mode)
   useEffect(() => {
@@ -374,12 +428,15 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         endDate: existingPlan.endDate?.split("T")[0] || "",
         nextPaymentDate: existingPlan.nextPaymentDate?.split("T")[0] || "",
         autoRenew: existingPlan.autoRenew || false,
+        renewWithNewPledge: existingPlan.renewWithNewPledge || false,
         planStatus: existingPlan.planStatus || "active",
         notes: existingPlan.notes || "",
         internalNotes: existingPlan.internalNotes || "",
+        customSchedule:
+          existingPlan.frequency === "custom" ? existingSchedule : [],
       });
     }
-  }, [existingPlan, isEditMode, form]);
+  }, [existingPlan, existingSchedule, isEditMode, form]);
 
   // Update form when selectedPledgeId changes (create mode)
   useEffect(() => {
@@ -407,7 +464,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
 
   // Calculate installment amount automatically when not in manual mode
   useEffect(() => {
-    if (!manualInstallment) {
+    if (!manualInstallment && watchedFrequency !== "custom") {
       const totalAmount = watchedTotalPlannedAmount;
       const installments = watchedNumberOfInstallments;
 
@@ -422,6 +479,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
   }, [
     watchedTotalPlannedAmount,
     watchedNumberOfInstallments,
+    watchedFrequency,
     form,
     manualInstallment,
   ]);
@@ -447,7 +505,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
 
   // Calculate dates
   useEffect(() => {
-    if (watchedStartDate && watchedFrequency) {
+    if (watchedStartDate && watchedFrequency && watchedFrequency !== "custom") {
       const nextPayment = calculateNextPaymentDate(
         watchedStartDate,
         watchedFrequency
@@ -465,6 +523,42 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
     }
   }, [watchedStartDate, watchedFrequency, watchedNumberOfInstallments, form]);
 
+  // Custom plans take their count, dates and first amount from the schedule
+  const customScheduleKey = JSON.stringify(watchedCustomSchedule ?? []);
+  useEffect(() => {
+    if (watchedFrequency !== "custom") return;
+    const rows = (
+      JSON.parse(customScheduleKey) as { dueDate: string; amount: number }[]
+    )
+      .filter((row) => row.dueDate)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    if (rows.length === 0) return;
+
+    form.setValue("numberOfInstallments", rows.length);
+    form.setValue("installmentAmount", rows[0].amount);
+    form.setValue("startDate", rows[0].dueDate);
+    form.setValue("endDate", rows[rows.length - 1].dueDate);
+    form.setValue("nextPaymentDate", rows[0].dueDate);
+  }, [customScheduleKey, watchedFrequency, form]);
+
+  const customScheduleTotal = (watchedCustomSchedule ?? []).reduce(
+    (sum, row) => sum + (row.amount || 0),
+    0
+  );
+
+  const handleFrequencyChange = (value: string) => {
+    form.setValue("frequency", value as PaymentPlanFormData["frequency"], {
+      shouldDirty: true,
+    });
+    // Start a custom schedule with a single installment for the whole amount
+    if (value === "custom" && customScheduleRows.fields.length === 0) {
+      customScheduleRows.append({
+        dueDate: form.getValues("startDate"),
+        amount: form.getValues("totalPlannedAmount"),
+      });
+    }
+  };
+
   const resetForm = () => {
     setManualInstallment(false);
     if (isEditMode && existingPlan) {
@@ -485,9 +579,12 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         endDate: existingPlan.endDate?.split("T")[0] || "",
         nextPaymentDate: existingPlan.nextPaymentDate?.split("T")[0] || "",
         autoRenew: existingPlan.autoRenew || false,
+        renewWithNewPledge: existingPlan.renewWithNewPledge || false,
         planStatus: existingPlan.planStatus || "active",
         notes: existingPlan.notes || "",
         internalNotes: existingPlan.internalNotes || "",
+        customSchedule:
+          existingPlan.frequency === "custom" ? existingSchedule : [],
       });
     } else {
       // Reset to create mode defaults
@@ -510,9 +607,11 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         endDate: "",
         nextPaymentDate: "",
         autoRenew: false,
+        renewWithNewPledge: false,
         planStatus: "active" as const,
         notes: "",
         internalNotes: "",
+        customSchedule: [],
       });
     }
   };
@@ -557,6 +656,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         }
         if (data.autoRenew !== existingPlan.autoRenew)
           updateData.autoRenew = data.autoRenew;
+        if (data.renewWithNewPledge !== existingPlan.renewWithNewPledge)
+          updateData.renewWithNewPledge = data.renewWithNewPledge;
         if (data.planStatus !== existingPlan.planStatus)
           updateData.planStatus = data.planStatus;
         if (data.notes !== (existingPlan.notes || ""))
@@ -564,6 +665,24 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         if (data.internalNotes !== (existingPlan.internalNotes || ""))
           updateData.internalNotes = data.internalNotes;
 
+        // The server derives a custom plan's count and dates from its
+        // schedule, which is resent when it or the plan total changes
+        if (data.frequency === "custom") {
+          delete updateData.installmentAmount;
+          delete updateData.numberOfInstallments;
+          delete updateData.startDate;
+          delete updateData.endDate;
+          delete updateData.nextPaymentDate;
+          if (
+            updateData.frequency !== undefined ||
+            updateData.totalPlannedAmount !== undefined ||
+            JSON.stringify(data.customSchedule ?? []) !==
+              JSON.stringify(existingSchedule)
+          ) {
+            updateData.customSchedule = data.customSchedule;
+          }
+        }
+
         await updatePaymentPlanMutation.mutateAsync({
           id: existingPlan.id,
           data: updateData,
@@ -571,7 +690,11 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         setIsEditing(false);
       } else {
         // Create new plan
-        await createPaymentPlanMutation.mutateAsync(data);
+        await createPaymentPlanMutation.mutateAsync({
+          ...data,
+          customSchedule:
+            data.frequency === "custom" ? data.customSchedule : undefined,
+        });
       }
 
       onSuccess?.();
@@ -905,7 +1028,10 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Payment Frequency *</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select
+                    onValueChange={handleFrequencyChange}
+                    value={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select frequency" />
@@ -951,113 +1077,222 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
               />
             )}
 
-            {/* Toggle for manual installment entry */}
-            <div className="flex items-center space-x-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-              <Button
-                type="button"
-                size="sm"
-                variant={manualInstallment ? "default" : "outline"}
-                onClick={toggleManualInstallment}
-                className="shrink-0"
-              >
-                <Calculator className="w-4 h-4 mr-2" />
-                {manualInstallment ? "Auto Calculate" : "Manual Entry"}
-              </Button>
-              <p className="text-sm text-blue-700">
-                {manualInstallment
-                  ? "Enter both installment amount and number of installments manually"
-                  : "Installment amount will be calculated automatically from total amount ÷ number of installments"}
-              </p>
-            </div>
+            {isCustomFrequency ? (
+              <div className="space-y-3 p-3 border rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <FormLabel>Installment Schedule *</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      Enter each due date and amount, e.g. around Yom Tov or
+                      semester dates
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      customScheduleRows.append({
+                        dueDate: "",
+                        amount: Math.max(
+                          Math.round(
+                            (watchedTotalPlannedAmount - customScheduleTotal) *
+                              100
+                          ) / 100,
+                          0
+                        ),
+                      })
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Installment
+                  </Button>
+                </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="numberOfInstallments"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Number of Installments *</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        min="1"
-                        {...field}
-                        onChange={(e) => {
-                          const value = e.target.value;
-                          field.onChange(value ? parseInt(value) : 1);
-                        }}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+                {customScheduleRows.fields.map((row, index) => (
+                  <div key={row.id} className="flex items-start gap-2">
+                    <span className="w-6 pt-2 text-sm text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <FormField
+                      control={form.control}
+                      name={`customSchedule.${index}.dueDate`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`customSchedule.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...field}
+                              onChange={(e) => {
+                                const value = e.target.value;
+                                field.onChange(value ? parseFloat(value) : 0);
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => customScheduleRows.remove(index)}
+                      disabled={customScheduleRows.fields.length === 1}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <div
+                  className={cn(
+                    "flex justify-between text-sm pt-2 border-t",
+                    Math.round(customScheduleTotal * 100) !==
+                      Math.round(watchedTotalPlannedAmount * 100)
+                      ? "text-amber-700"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  <span>Scheduled total:</span>
+                  <span className="font-medium">
+                    {form.watch("currency")}{" "}
+                    {customScheduleTotal.toLocaleString()} of{" "}
+                    {watchedTotalPlannedAmount?.toLocaleString()}
+                  </span>
+                </div>
+                {(form.formState.errors.customSchedule?.root?.message ||
+                  form.formState.errors.customSchedule?.message) && (
+                  <p className="text-sm font-medium text-destructive">
+                    {form.formState.errors.customSchedule?.root?.message ||
+                      form.formState.errors.customSchedule?.message}
+                  </p>
                 )}
-              />
+              </div>
+            ) : (
+              <>
+                {/* Toggle for manual installment entry */}
+                <div className="flex items-center space-x-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={manualInstallment ? "default" : "outline"}
+                    onClick={toggleManualInstallment}
+                    className="shrink-0"
+                  >
+                    <Calculator className="w-4 h-4 mr-2" />
+                    {manualInstallment ? "Auto Calculate" : "Manual Entry"}
+                  </Button>
+                  <p className="text-sm text-blue-700">
+                    {manualInstallment
+                      ? "Enter both installment amount and number of installments manually"
+                      : "Installment amount will be calculated automatically from total amount ÷ number of installments"}
+                  </p>
+                </div>
 
-              <FormField
-                control={form.control}
-                name="installmentAmount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Installment Amount *</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        {...field}
-                        onChange={(e) => {
-                          const value = e.target.value;
-                          field.onChange(value ? parseFloat(value) : 0);
-                        }}
-                        readOnly={!manualInstallment}
-                        className={!manualInstallment ? "bg-gray-50" : ""}
-                        value={field.value || 0}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                    {!manualInstallment && (
-                      <p className="text-xs text-muted-foreground">
-                        Calculated automatically
-                      </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="numberOfInstallments"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Number of Installments *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            {...field}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              field.onChange(value ? parseInt(value) : 1);
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
                     )}
-                  </FormItem>
-                )}
-              />
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="startDate"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Start Date *</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="installmentAmount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Installment Amount *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              field.onChange(value ? parseFloat(value) : 0);
+                            }}
+                            readOnly={!manualInstallment}
+                            className={!manualInstallment ? "bg-gray-50" : ""}
+                            value={field.value || 0}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                        {!manualInstallment && (
+                          <p className="text-xs text-muted-foreground">
+                            Calculated automatically
+                          </p>
+                        )}
+                      </FormItem>
+                    )}
+                  />
+                </div>
 
-              <FormField
-                control={form.control}
-                name="endDate"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>End Date (Estimated)</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="date"
-                        {...field}
-                        readOnly
-                        className="bg-gray-50"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Date *</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Date (Estimated)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            {...field}
+                            readOnly
+                            className="bg-gray-50"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            )}
 
             <FormField
               control={form.control}
@@ -1099,6 +1334,30 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
               )}
             />
 
+            {watchedAutoRenew && (
+              <FormField
+                control={form.control}
+                name="renewWithNewPledge"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 pl-7">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Renew on a new pledge</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Open a pledge for the next year rather than continuing
+                        this one
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="notes"
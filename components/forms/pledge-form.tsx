@@ -179,10 +179,8 @@ export default function PledgeDialog({
         description: data.description,
         originalAmount: data.originalAmount,
         currency: data.currency,
-        originalAmountUsd: data.originalAmountUsd,
-        exchangeRate: data.exchangeRate, // Now included in submission
+        exchangeRateDate: data.exchangeRateDate,
         notes: data.notes,
-        // exchangeRateDate is excluded - it's only used for fetching rates
       };
 
       console.log("Pledge data being sent to backend:", pledgeData);
@@ -633,6 +631,7 @@ export default function PledgeDialog({
           pledgeAmount={parseFloat(createdPledge.originalAmount)}
           pledgeCurrency={createdPledge.currency}
           pledgeDescription={createdPledge.description}
+          contactId={contactId}
           onPaymentCreated={() => {
             if (onPledgeCreatedAndPay) {
               onPledgeCreatedAndPay(createdPledge.id);
@@ -0,0 +1,120 @@
+"use client";
+
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  usePaymentPlanInstallmentsQuery,
+  type PaymentPlanInstallment,
+} from "@/lib/query/payment-plans/usePaymentPlanQuery";
+
+interface PaymentPlanInstallmentsProps {
+  paymentPlanId: number;
+  currency: string;
+}
+
+const formatAmount = (amount: string | null, currency: string) =>
+  amount === null
+    ? "—"
+    : new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      }).format(parseFloat(amount));
+
+const formatDate = (dateString: string | null) =>
+  dateString ? new Date(dateString).toLocaleDateString() : "—";
+
+const getStatusColor = (status: PaymentPlanInstallment["status"]) => {
+  switch (status) {
+    case "paid":
+      return "bg-green-100 text-green-800";
+    case "partially_paid":
+      return "bg-blue-100 text-blue-800";
+    case "overdue":
+      return "bg-yellow-100 text-yellow-800";
+    case "cancelled":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export default function PaymentPlanInstallments({
+  paymentPlanId,
+  currency,
+}: PaymentPlanInstallmentsProps) {
+  const { data, isLoading, error } =
+    usePaymentPlanInstallmentsQuery(paymentPlanId);
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load installments.</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Due Date</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Paid</TableHead>
+            <TableHead>Paid On</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, index) => (
+              <TableRow key={index}>
+                {Array.from({ length: 6 }).map((_, cell) => (
+                  <TableCell key={cell}>
+                    <Skeleton className="h-4 w-16" />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          ) : data?.installments.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center py-4 text-gray-500">
+                No installments scheduled
+              </TableCell>
+            </TableRow>
+          ) : (
+            data?.installments.map((installment) => (
+              <TableRow key={installment.id}>
+                <TableCell>{installment.installmentNumber}</TableCell>
+                <TableCell>{formatDate(installment.dueDate)}</TableCell>
+                <TableCell>
+                  {formatAmount(installment.amount, currency)}
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium capitalize ${getStatusColor(
+                      installment.status
+                    )}`}
+                  >
+                    {installment.status.replace("_", " ")}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  {formatAmount(installment.paidAmount, currency)}
+                </TableCell>
+                <TableCell>{formatDate(installment.paidDate)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
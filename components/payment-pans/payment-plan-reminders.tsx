@@ -0,0 +1,97 @@
+"use client";
+
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  usePaymentPlanRemindersQuery,
+  type PaymentReminder,
+} from "@/lib/query/payment-plans/usePaymentPlanQuery";
+
+interface PaymentPlanRemindersProps {
+  paymentPlanId: number;
+}
+
+const getStatusColor = (status: PaymentReminder["status"]) => {
+  switch (status) {
+    case "sent":
+      return "bg-green-100 text-green-800";
+    case "failed":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export default function PaymentPlanReminders({
+  paymentPlanId,
+}: PaymentPlanRemindersProps) {
+  const { data, isLoading, error } =
+    usePaymentPlanRemindersQuery(paymentPlanId);
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load reminders.</p>;
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-4 w-48" />;
+  }
+
+  if (!data || data.reminders.length === 0) {
+    return <p className="text-sm text-gray-500">No reminders sent yet</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Sent</TableHead>
+            <TableHead>Reminder</TableHead>
+            <TableHead>For Due Date</TableHead>
+            <TableHead>Recipient</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.reminders.map((reminder) => (
+            <TableRow key={reminder.id}>
+              <TableCell className="whitespace-nowrap">
+                {new Date(reminder.createdAt).toLocaleString()}
+              </TableCell>
+              <TableCell>
+                {reminder.templateName ?? reminder.subject ?? "—"}
+                <div className="text-xs text-gray-500 uppercase">
+                  {reminder.channel} via {reminder.transport}
+                </div>
+              </TableCell>
+              <TableCell>
+                {new Date(reminder.dueDate).toLocaleDateString()}
+              </TableCell>
+              <TableCell>{reminder.recipient ?? "—"}</TableCell>
+              <TableCell>
+                <span
+                  className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium capitalize ${getStatusColor(
+                    reminder.status
+                  )}`}
+                >
+                  {reminder.status}
+                </span>
+                {reminder.error && (
+                  <div className="text-xs text-gray-500">{reminder.error}</div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { usePaymentPlanStatusHistoryQuery } from "@/lib/query/payment-plans/usePaymentPlanQuery";
+
+interface PaymentPlanStatusHistoryProps {
+  paymentPlanId: number;
+}
+
+export default function PaymentPlanStatusHistory({
+  paymentPlanId,
+}: PaymentPlanStatusHistoryProps) {
+  const { data, isLoading, error } =
+    usePaymentPlanStatusHistoryQuery(paymentPlanId);
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600">Failed to load status history.</p>
+    );
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-4 w-48" />;
+  }
+
+  if (!data || data.statusChanges.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes yet</p>;
+  }
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {data.statusChanges.map((change) => (
+        <li key={change.id} className="flex flex-wrap gap-x-2">
+          <span className="text-gray-600">
+            {new Date(change.createdAt).toLocaleString()}
+          </span>
+          <span className="font-medium capitalize">
+            {change.fromStatus} → {change.toStatus}
+          </span>
+          <span className="text-gray-600">
+            {change.changedBy
+              ? `by ${change.changedByName || `user #${change.changedBy}`}`
+              : "automatically"}
+            {change.reason && ` — ${change.reason}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
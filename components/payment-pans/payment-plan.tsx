@@ -26,6 +26,9 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Search, ChevronDown, ChevronRight, Edit } from "lucide-react";
 import { usePaymentPlans } from "@/lib/query/usePaymentPlan";
 import PaymentPlanDialog from "../forms/payment-plan-dialog";
+import PaymentPlanInstallments from "./payment-plan-installments";
+import PaymentPlanStatusHistory from "./payment-plan-status-history";
+import PaymentPlanReminders from "./payment-plan-reminders";
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const PlanStatusEnum = z.enum([
@@ -704,6 +707,16 @@ export default function PaymentPlansTable({
                                         {plan.autoRenew ? "Yes" : "No"}
                                       </span>
                                     </div>
+                                    {plan.renewedFromPlanId && (
+                                      <div className="flex justify-between">
+                                        <span className="text-gray-600">
+                                          Renewed From:
+                                        </span>
+                                        <span className="font-medium">
+                                          Plan #{plan.renewedFromPlanId}
+                                        </span>
+                                      </div>
+                                    )}
                                     <div className="flex justify-between">
                                       <span className="text-gray-600">
                                         Reminders Sent:
@@ -766,6 +779,35 @@ export default function PaymentPlansTable({
                                 </div>
                               </div>
 
+                              {/* Installment Schedule */}
+                              <div className="space-y-3 mt-6">
+                                <h4 className="font-semibold text-gray-900">
+                                  Installment Schedule
+                                </h4>
+                                <PaymentPlanInstallments
+                                  paymentPlanId={plan.id}
+                                  currency={plan.currency}
+                                />
+                              </div>
+
+                              {/* Status History */}
+                              <div className="space-y-3 mt-6">
+                                <h4 className="font-semibold text-gray-900">
+                                  Status History
+                                </h4>
+                                <PaymentPlanStatusHistory
+                                  paymentPlanId={plan.id}
+                                />
+                              </div>
+
+                              {/* Reminder Log */}
+                              <div className="space-y-3 mt-6">
+                                <h4 className="font-semibold text-gray-900">
+                                  Reminders
+                                </h4>
+                                <PaymentPlanReminders paymentPlanId={plan.id} />
+                              </div>
+
                               {/* Quick Actions in Expanded Row */}
                               <div className="flex gap-2 mt-4 pt-4 border-t border-gray-200">
                                 <PaymentPlanDialog
@@ -1,13 +1,11 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-
 "use client";
 
 import React, { useState } from "react";
+import Link from "next/link";
 
+import type { ColumnDef } from "@tanstack/react-table";
 import { useQueryState } from "nuqs";
 
-import { z } from "zod";
-
 import {
   Table,
   TableBody,
@@ -17,14 +15,6 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -51,30 +41,26 @@ import {
   Edit,
   Trash2,
   Loader2,
+  FileText,
 } from "lucide-react";
 
 import {
   useDeletePaymentMutation,
+  useIssueReceiptMutation,
   usePaymentsQuery,
+  type PaymentAllocationSummary,
 } from "@/lib/query/payments/usePaymentQuery";
 
+import { DataTableToolbar } from "@/components/data-table/data-table-toolbar";
+import { useDataTable, useDataTableRequest } from "@/hooks/use-data-table";
 import { LinkButton } from "../ui/next-link";
 import FactsDialog from "../facts-iframe";
 import PaymentFormDialog from "../forms/payment-dialog";
+import TaxStatementDownload from "./tax-statement-download";
+import RefundPaymentDialog from "./refund-payment-dialog";
 import EditPaymentDialog from "@/app/contacts/[contactId]/payments/__components/edit-payment";
 import { toast } from "sonner";
 
-const PaymentStatusEnum = z.enum([
-  "pending",
-  "completed",
-  "failed",
-  "cancelled",
-  "refunded",
-  "processing",
-]);
-
-type PaymentStatusType = z.infer<typeof PaymentStatusEnum>;
-
 interface PaymentsTableProps {
   contactId?: number;
 }
@@ -93,6 +79,10 @@ interface Payment {
   notes: string | null;
   exchangeRate: string | null;
   paymentPlanId: number | null;
+  refundOfPaymentId: number | null;
+  allocations?: PaymentAllocationSummary[] | null;
+  depositBatchId: number | null;
+  depositBatchStatus: string | null;
   receiptNumber: string | null;
   receiptType: string | null;
   receiptIssued: boolean;
@@ -102,11 +92,87 @@ interface Payment {
   bonusRuleId: number | null;
 }
 
+const toOptions = (values: string[]) =>
+  values.map((value) => ({
+    label: value.replace("_", " ").replace(/^\w/, (c) => c.toUpperCase()),
+    value,
+  }));
+
+// The rows are drawn by hand below; these give the toolbar its filters and
+// the view options its columns
+const columns: ColumnDef<Payment>[] = [
+  {
+    id: "paymentDate",
+    accessorKey: "paymentDate",
+    meta: { label: "Scheduled", variant: "date" },
+    enableColumnFilter: true,
+  },
+  {
+    id: "receivedDate",
+    accessorKey: "receivedDate",
+    meta: { label: "Effective", variant: "dateRange" },
+    enableColumnFilter: true,
+  },
+  {
+    id: "amount",
+    accessorKey: "amount",
+    meta: { label: "Total" },
+    enableHiding: false,
+  },
+  {
+    id: "paymentStatus",
+    accessorKey: "paymentStatus",
+    meta: {
+      label: "Applied",
+      variant: "multiSelect",
+      options: toOptions([
+        "pending",
+        "completed",
+        "failed",
+        "cancelled",
+        "refunded",
+        "processing",
+      ]),
+    },
+    enableColumnFilter: true,
+  },
+  {
+    id: "paymentMethod",
+    accessorKey: "paymentMethod",
+    meta: {
+      label: "Method Detail",
+      variant: "multiSelect",
+      options: toOptions([
+        "credit_card",
+        "cash",
+        "check",
+        "bank_transfer",
+        "paypal",
+        "wire_transfer",
+        "other",
+      ]),
+    },
+    enableColumnFilter: true,
+  },
+  {
+    id: "referenceNumber",
+    accessorKey: "referenceNumber",
+    meta: { label: "Receipt Number" },
+  },
+  {
+    id: "notes",
+    accessorKey: "notes",
+    meta: { label: "Notes", placeholder: "Notes...", variant: "text" },
+    enableColumnFilter: true,
+  },
+];
+
 export default function PaymentsTable({ contactId }: PaymentsTableProps) {
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
   const [deletingPaymentId, setDeletingPaymentId] = useState<number | null>(
     null
   );
+  const [issuingReceiptId, setIssuingReceiptId] = useState<number | null>(null);
 
   const [pledgeId] = useQueryState("pledgeId", {
     parse: (value) => {
@@ -118,51 +184,38 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
       value !== null && value !== undefined ? value.toString() : "",
   });
 
-  const [page, setPage] = useQueryState("page", {
-    parse: (value) => Number.parseInt(value) || 1,
-    serialize: (value) => value.toString(),
-  });
-
-  const [limit] = useQueryState("limit", {
-    parse: (value) => Number.parseInt(value) || 10,
-    serialize: (value) => value.toString(),
-  });
-
   const [search, setSearch] = useQueryState("search");
 
-  const [paymentStatus, setPaymentStatus] =
-    useQueryState<PaymentStatusType | null>("paymentStatus", {
-      parse: (value) => {
-        if (
-          value === "pending" ||
-          value === "completed" ||
-          value === "failed" ||
-          value === "cancelled" ||
-          value === "refunded" ||
-          value === "processing"
-        ) {
-          return value as PaymentStatusType;
-        }
-        return null;
-      },
-      serialize: (value) => value ?? "",
-    });
-
-  const currentPage = page ?? 1;
-  const currentLimit = limit ?? 10;
+  const { page, perPage, filters, joinOperator } = useDataTableRequest({
+    columns,
+  });
 
   const queryParams = {
     ...(pledgeId ? { pledgeId } : contactId ? { contactId } : {}),
-    page: currentPage,
-    limit: currentLimit,
+    page,
+    limit: Math.min(perPage, 100),
     search: search || undefined,
-    paymentStatus: paymentStatus || undefined,
+    filters,
+    joinOperator,
   };
 
   const { data, isLoading, error } = usePaymentsQuery(queryParams);
 
+  const { table } = useDataTable({
+    data: data?.payments ?? [],
+    columns,
+    pageCount: data?.pagination.totalPages ?? -1,
+    getRowId: (row) => row.id.toString(),
+    // /api/payments keeps its own order, newest first
+    enableSorting: false,
+  });
+  const isVisible = (columnId: string) =>
+    table.getColumn(columnId)?.getIsVisible() ?? true;
+  const columnCount = table.getVisibleLeafColumns().length + 1;
+
   // Updated: Initialize delete mutation without pledgeId parameter
   const deletePaymentMutation = useDeletePaymentMutation();
+  const issueReceiptMutation = useIssueReceiptMutation();
 
   const toggleExpandedRow = (paymentId: number) => {
     setExpandedRows((prev) => {
@@ -197,6 +250,35 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
     }
   };
 
+  // Issues the receipt, or a duplicate once one exists, and downloads the PDF
+  const handleIssueReceipt = async (payment: Payment) => {
+    setIssuingReceiptId(payment.id);
+    try {
+      const { receiptNumber, copyNumber, pdf } =
+        await issueReceiptMutation.mutateAsync({ paymentId: payment.id });
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `receipt-${receiptNumber}${
+        copyNumber > 0 ? `-copy-${copyNumber}` : ""
+      }.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(
+        copyNumber > 0
+          ? `Duplicate of receipt ${receiptNumber} issued`
+          : `Receipt ${receiptNumber} issued`
+      );
+    } catch (error) {
+      console.error("Failed to issue receipt:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to issue receipt"
+      );
+    } finally {
+      setIssuingReceiptId(null);
+    }
+  };
+
   const formatCurrency = (amount: string, currency: string) => {
     const formatted = new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -260,8 +342,9 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
     <div className="space-y-6 p-4">
       {/* Filters */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Payments</CardTitle>
+          {contactId && <TaxStatementDownload contactId={contactId} />}
         </CardHeader>
         <CardContent>
           <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -276,36 +359,6 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
               />
             </div>
 
-            <Select
-              value={paymentStatus ?? "payment"}
-              onValueChange={(value) => {
-                if (
-                  value === "pending" ||
-                  value === "completed" ||
-                  value === "failed" ||
-                  value === "cancelled" ||
-                  value === "refunded" ||
-                  value === "processing"
-                ) {
-                  setPaymentStatus(value as PaymentStatusType);
-                } else {
-                  setPaymentStatus(null);
-                }
-              }}
-            >
-              <SelectTrigger className="w-full sm:w-36">
-                <SelectValue placeholder="Status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="failed">Failed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
-                <SelectItem value="refunded">Refunded</SelectItem>
-                <SelectItem value="processing">Processing</SelectItem>
-              </SelectContent>
-            </Select>
-
             <PaymentFormDialog
               pledgeId={pledgeId ?? undefined}
               contactId={contactId}
@@ -314,51 +367,71 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
             <FactsDialog />
           </div>
 
+          <DataTableToolbar
+            table={table}
+            viewKey="payments"
+            className="mb-4 p-0"
+          />
+
           {/* Table */}
           <div className="border rounded-lg overflow-hidden">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="font-semibold text-gray-900">
-                    Scheduled
-                  </TableHead>
-                  <TableHead className="font-semibold text-gray-900">
-                    Effective
-                  </TableHead>
+                  {isVisible("paymentDate") && (
+                    <TableHead className="font-semibold text-gray-900">
+                      Scheduled
+                    </TableHead>
+                  )}
+                  {isVisible("receivedDate") && (
+                    <TableHead className="font-semibold text-gray-900">
+                      Effective
+                    </TableHead>
+                  )}
                   <TableHead className="font-semibold text-gray-900">
                     Total
                   </TableHead>
-                  <TableHead className="font-semibold text-gray-900">
-                    Applied
-                  </TableHead>
-                  <TableHead className="font-semibold text-gray-900">
-                    Method Detail
-                  </TableHead>
-                  <TableHead className="font-semibold text-gray-900">
-                    Receipt Number
-                  </TableHead>
-                  <TableHead className="font-semibold text-gray-900">
-                    Notes
-                  </TableHead>
+                  {isVisible("paymentStatus") && (
+                    <TableHead className="font-semibold text-gray-900">
+                      Applied
+                    </TableHead>
+                  )}
+                  {isVisible("paymentMethod") && (
+                    <TableHead className="font-semibold text-gray-900">
+                      Method Detail
+                    </TableHead>
+                  )}
+                  {isVisible("referenceNumber") && (
+                    <TableHead className="font-semibold text-gray-900">
+                      Receipt Number
+                    </TableHead>
+                  )}
+                  {isVisible("notes") && (
+                    <TableHead className="font-semibold text-gray-900">
+                      Notes
+                    </TableHead>
+                  )}
                   <TableHead className="w-12">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   // Loading skeleton
-                  Array.from({ length: currentLimit }).map((_, index) => (
+                  Array.from({ length: perPage }).map((_, index) => (
                     <TableRow key={index}>
-                      {Array.from({ length: 7 }).map((_, cellIndex) => (
-                        <TableCell key={cellIndex}>
-                          <Skeleton className="h-4 w-20" />
-                        </TableCell>
-                      ))}
+                      {Array.from({ length: columnCount }).map(
+                        (_, cellIndex) => (
+                          <TableCell key={cellIndex}>
+                            <Skeleton className="h-4 w-20" />
+                          </TableCell>
+                        )
+                      )}
                     </TableRow>
                   ))
                 ) : data?.payments.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={7}
+                      colSpan={columnCount}
                       className="text-center py-8 text-gray-500"
                     >
                       No payments found
@@ -368,12 +441,16 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                   data?.payments.map((payment) => (
                     <React.Fragment key={payment.id}>
                       <TableRow className="hover:bg-gray-50">
-                        <TableCell className="font-medium">
-                          {formatDate(payment.paymentDate)}
-                        </TableCell>
-                        <TableCell className="font-medium">
-                          {formatDate(payment.receivedDate)}
-                        </TableCell>
+                        {isVisible("paymentDate") && (
+                          <TableCell className="font-medium">
+                            {formatDate(payment.paymentDate)}
+                          </TableCell>
+                        )}
+                        {isVisible("receivedDate") && (
+                          <TableCell className="font-medium">
+                            {formatDate(payment.receivedDate)}
+                          </TableCell>
+                        )}
                         <TableCell>
                           <div className="flex flex-col">
                             <span className="font-medium">
@@ -388,24 +465,32 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                             </span>
                           </div>
                         </TableCell>
-                        <TableCell>
-                          <span
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(
-                              payment.paymentStatus
-                            )}`}
-                          >
-                            {payment.paymentStatus}
-                          </span>
-                        </TableCell>
-                        <TableCell className="capitalize">
-                          {payment.paymentMethod?.replace("_", " ") || "-"}
-                        </TableCell>
-                        <TableCell>
-                          {payment.referenceNumber ||
-                            payment.checkNumber ||
-                            "-"}
-                        </TableCell>
-                        <TableCell>{payment.notes || "-"}</TableCell>
+                        {isVisible("paymentStatus") && (
+                          <TableCell>
+                            <span
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(
+                                payment.paymentStatus
+                              )}`}
+                            >
+                              {payment.paymentStatus}
+                            </span>
+                          </TableCell>
+                        )}
+                        {isVisible("paymentMethod") && (
+                          <TableCell className="capitalize">
+                            {payment.paymentMethod?.replace("_", " ") || "-"}
+                          </TableCell>
+                        )}
+                        {isVisible("referenceNumber") && (
+                          <TableCell>
+                            {payment.referenceNumber ||
+                              payment.checkNumber ||
+                              "-"}
+                          </TableCell>
+                        )}
+                        {isVisible("notes") && (
+                          <TableCell>{payment.notes || "-"}</TableCell>
+                        )}
                         <TableCell>
                           <Button
                             variant="ghost"
@@ -425,7 +510,10 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                       {/* Expanded Row Content */}
                       {expandedRows.has(payment.id) && (
                         <TableRow>
-                          <TableCell colSpan={7} className="bg-gray-50 p-6">
+                          <TableCell
+                            colSpan={columnCount}
+                            className="bg-gray-50 p-6"
+                          >
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                               {/* Payment Details */}
                               <div className="space-y-3">
@@ -477,6 +565,16 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                                       {payment.paymentPlanId || "N/A"}
                                     </span>
                                   </div>
+                                  {payment.refundOfPaymentId && (
+                                    <div className="flex justify-between">
+                                      <span className="text-gray-600">
+                                        Refund Of:
+                                      </span>
+                                      <span className="font-medium">
+                                        Payment #{payment.refundOfPaymentId}
+                                      </span>
+                                    </div>
+                                  )}
                                 </div>
                               </div>
 
@@ -524,6 +622,20 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                                       {payment.checkNumber || "N/A"}
                                     </span>
                                   </div>
+                                  {payment.depositBatchId && (
+                                    <div className="flex justify-between">
+                                      <span className="text-gray-600">
+                                        Deposit Batch:
+                                      </span>
+                                      <Link
+                                        href={`/deposit-batches?batch=${payment.depositBatchId}`}
+                                        className="font-medium hover:underline"
+                                      >
+                                        #{payment.depositBatchId} (
+                                        {payment.depositBatchStatus})
+                                      </Link>
+                                    </div>
+                                  )}
                                 </div>
                               </div>
 
@@ -579,6 +691,46 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                               </div>
                             </div>
 
+                            {/* Split payments */}
+                            {payment.allocations &&
+                              payment.allocations.length > 0 && (
+                                <div className="mt-6 pt-4 border-t">
+                                  <h4 className="font-semibold text-gray-900 mb-2">
+                                    Split Across Pledges
+                                  </h4>
+                                  <div className="space-y-2 text-sm">
+                                    {payment.allocations.map((allocation) => (
+                                      <div
+                                        key={`${allocation.pledgeId}-${allocation.paymentPlanId ?? ""}`}
+                                        className="flex justify-between"
+                                      >
+                                        <span className="text-gray-600">
+                                          {allocation.pledgeDescription ||
+                                            `Pledge #${allocation.pledgeId}`}
+                                          {allocation.paymentPlanId
+                                            ? ` (Plan #${allocation.paymentPlanId})`
+                                            : ""}
+                                        </span>
+                                        <span className="font-medium">
+                                          {
+                                            formatCurrency(
+                                              allocation.amount,
+                                              payment.currency
+                                            ).symbol
+                                          }
+                                          {
+                                            formatCurrency(
+                                              allocation.amount,
+                                              payment.currency
+                                            ).amount
+                                          }
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
                             {/* Notes */}
                             {payment.notes && (
                               <div className="mt-6 pt-4 border-t">
@@ -593,15 +745,42 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
 
                             {/* Action Buttons */}
                             <div className="mt-6 pt-4 flex justify-end gap-2 border-t">
-                              <EditPaymentDialog
-                                payment={payment}
-                                trigger={
-                                  <Button variant="outline" size="sm">
-                                    <Edit className="h-4 w-4 mr-2" />
-                                    Edit Payment
-                                  </Button>
-                                }
-                              />
+                              {payment.paymentStatus === "completed" &&
+                                !payment.refundOfPaymentId && (
+                                  <RefundPaymentDialog payment={payment} />
+                                )}
+
+                              {payment.paymentStatus === "completed" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={issuingReceiptId === payment.id}
+                                  onClick={() => handleIssueReceipt(payment)}
+                                >
+                                  {issuingReceiptId === payment.id ? (
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                  ) : (
+                                    <FileText className="h-4 w-4 mr-2" />
+                                  )}
+                                  {payment.receiptIssued
+                                    ? "Reissue Receipt"
+                                    : "Issue Receipt"}
+                                </Button>
+                              )}
+
+                              {/* Refund entries are negative and only change
+                                  through the refund action */}
+                              {!payment.refundOfPaymentId && (
+                                <EditPaymentDialog
+                                  payment={payment}
+                                  trigger={
+                                    <Button variant="outline" size="sm">
+                                      <Edit className="h-4 w-4 mr-2" />
+                                      Edit Payment
+                                    </Button>
+                                  }
+                                />
+                              )}
 
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
@@ -715,7 +894,7 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setPage(currentPage - 1)}
+                  onClick={() => table.previousPage()}
                   disabled={!data.pagination.hasPreviousPage}
                 >
                   Previous
@@ -728,7 +907,7 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setPage(currentPage + 1)}
+                  onClick={() => table.nextPage()}
                   disabled={!data.pagination.hasNextPage}
                 >
                   Next
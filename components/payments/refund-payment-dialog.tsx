@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { useRefundPaymentMutation } from "@/lib/query/payments/usePaymentQuery";
+
+interface RefundPaymentDialogProps {
+  payment: {
+    id: number;
+    amount: string;
+    currency: string;
+  };
+}
+
+// Full or partial refund of a completed payment. The amount starts at the
+// full payment; the server rejects more than is still refundable.
+export default function RefundPaymentDialog({
+  payment,
+}: RefundPaymentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(payment.amount);
+  const [refundDate, setRefundDate] = useState(
+    format(new Date(), "yyyy-MM-dd")
+  );
+  const [reason, setReason] = useState("");
+  const refundMutation = useRefundPaymentMutation();
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setAmount(payment.amount);
+      setRefundDate(format(new Date(), "yyyy-MM-dd"));
+      setReason("");
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsedAmount = Number.parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast.error("Enter a refund amount greater than zero");
+      return;
+    }
+
+    try {
+      const result = await refundMutation.mutateAsync({
+        paymentId: payment.id,
+        amount: parsedAmount,
+        refundDate,
+        reason: reason.trim() || undefined,
+      });
+      toast.success(result.message);
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to refund payment"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Undo2 className="h-4 w-4 mr-2" />
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Refund Payment #{payment.id}</DialogTitle>
+            <DialogDescription>
+              Records a negative entry against this payment and adjusts the
+              pledge, plan and solicitor bonus. A bonus already paid out is
+              clawed back.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor={`refund-amount-${payment.id}`}>
+              Amount ({payment.currency})
+            </Label>
+            <Input
+              id={`refund-amount-${payment.id}`}
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`refund-date-${payment.id}`}>Refund Date</Label>
+            <Input
+              id={`refund-date-${payment.id}`}
+              type="date"
+              value={refundDate}
+              onChange={(event) => setRefundDate(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`refund-reason-${payment.id}`}>Reason</Label>
+            <Textarea
+              id={`refund-reason-${payment.id}`}
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder={`Refund of payment #${payment.id}`}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={refundMutation.isPending}>
+              {refundMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Refund
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
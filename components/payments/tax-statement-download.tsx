@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { taxStatementsDownloadUrl } from "@/lib/query/tax-statements/useTaxStatementsQuery";
+
+interface TaxStatementDownloadProps {
+  contactId: number;
+}
+
+// The last few calendar years, most recent first
+const YEARS = Array.from(
+  { length: 5 },
+  (_, index) => new Date().getFullYear() - index
+);
+
+export default function TaxStatementDownload({
+  contactId,
+}: TaxStatementDownloadProps) {
+  const [year, setYear] = useState(new Date().getFullYear() - 1);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-600">Tax statement</span>
+      <Select
+        value={year.toString()}
+        onValueChange={(value) => setYear(Number.parseInt(value))}
+      >
+        <SelectTrigger className="w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {YEARS.map((value) => (
+            <SelectItem key={value} value={value.toString()}>
+              {value}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" asChild>
+        <a href={taxStatementsDownloadUrl({ year, contactId }, "pdf")}>
+          <Download className="h-4 w-4 mr-2" />
+          PDF
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" asChild>
+        <a href={taxStatementsDownloadUrl({ year, contactId }, "csv")}>
+          <Download className="h-4 w-4 mr-2" />
+          CSV
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -79,4 +79,13 @@ export const dataTableConfig = {
     "isRelativeToToday",
   ] as const,
   joinOperators: ["and", "or"] as const,
+  // Offsets from today that the date filters send as "isRelativeToToday",
+  // each covering the whole unit it lands on
+  relativeDatePresets: [
+    { label: "Today", value: "0 days" },
+    { label: "Yesterday", value: "-1 days" },
+    { label: "Previous 7 days", value: "-1 weeks" },
+    { label: "Previous month", value: "-1 months" },
+    { label: "Previous year", value: "-1 years" },
+  ],
 };
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."user_role" AS ENUM('admin', 'finance', 'registrar', 'solicitor');--> statement-breakpoint
+CREATE TABLE "user" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"password_hash" text NOT NULL,
+	"role" "user_role" NOT NULL,
+	"solicitor_id" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "audit_log" DROP CONSTRAINT "audit_log_changed_by_contact_id_fk";
+--> statement-breakpoint
+ALTER TABLE "user" ADD CONSTRAINT "user_solicitor_id_solicitor_id_fk" FOREIGN KEY ("solicitor_id") REFERENCES "public"."solicitor"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_role_idx" ON "user" USING btree ("role");--> statement-breakpoint
+CREATE INDEX "user_solicitor_id_idx" ON "user" USING btree ("solicitor_id");--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_changed_by_user_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
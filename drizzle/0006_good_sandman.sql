@@ -0,0 +1,13 @@
+CREATE TABLE "exchange_rate" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" date NOT NULL,
+	"currency" "currency" NOT NULL,
+	"rate_to_usd" numeric(18, 8) NOT NULL,
+	"source" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "pledge" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 8);--> statement-breakpoint
+CREATE UNIQUE INDEX "exchange_rate_date_currency_idx" ON "exchange_rate" USING btree ("date","currency");
\ No newline at end of file
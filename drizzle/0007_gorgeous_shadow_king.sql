@@ -0,0 +1,20 @@
+CREATE TYPE "public"."installment_status" AS ENUM('pending', 'paid', 'overdue', 'cancelled');--> statement-breakpoint
+CREATE TABLE "payment_plan_installment" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"installment_number" integer NOT NULL,
+	"due_date" date NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"status" "installment_status" DEFAULT 'pending' NOT NULL,
+	"payment_id" integer,
+	"paid_amount" numeric(10, 2),
+	"paid_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_plan_installment" ADD CONSTRAINT "payment_plan_installment_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_plan_installment" ADD CONSTRAINT "payment_plan_installment_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_plan_installment_plan_number_idx" ON "payment_plan_installment" USING btree ("payment_plan_id","installment_number");--> statement-breakpoint
+CREATE INDEX "payment_plan_installment_due_date_idx" ON "payment_plan_installment" USING btree ("due_date","status");--> statement-breakpoint
+CREATE INDEX "payment_plan_installment_payment_id_idx" ON "payment_plan_installment" USING btree ("payment_id");
\ No newline at end of file
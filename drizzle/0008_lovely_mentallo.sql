@@ -0,0 +1,13 @@
+CREATE TABLE "payment_plan_status_change" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"from_status" "plan_status" NOT NULL,
+	"to_status" "plan_status" NOT NULL,
+	"reason" text,
+	"changed_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_plan_status_change" ADD CONSTRAINT "payment_plan_status_change_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_plan_status_change" ADD CONSTRAINT "payment_plan_status_change_changed_by_user_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_plan_status_change_plan_id_idx" ON "payment_plan_status_change" USING btree ("payment_plan_id","created_at");
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TYPE "public"."reminder_channel" AS ENUM('email', 'sms');--> statement-breakpoint
+CREATE TYPE "public"."reminder_status" AS ENUM('sent', 'failed', 'skipped');--> statement-breakpoint
+CREATE TABLE "payment_reminder" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"installment_id" integer,
+	"template_id" integer,
+	"channel" "reminder_channel" NOT NULL,
+	"recipient" text,
+	"subject" text,
+	"body" text NOT NULL,
+	"due_date" date NOT NULL,
+	"status" "reminder_status" NOT NULL,
+	"transport" text NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reminder_template" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"days_from_due" integer NOT NULL,
+	"channel" "reminder_channel" DEFAULT 'email' NOT NULL,
+	"subject" text,
+	"body" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_reminder" ADD CONSTRAINT "payment_reminder_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_reminder" ADD CONSTRAINT "payment_reminder_installment_id_payment_plan_installment_id_fk" FOREIGN KEY ("installment_id") REFERENCES "public"."payment_plan_installment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_reminder" ADD CONSTRAINT "payment_reminder_template_id_reminder_template_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."reminder_template"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_reminder_plan_id_idx" ON "payment_reminder" USING btree ("payment_plan_id","created_at");--> statement-breakpoint
+CREATE INDEX "payment_reminder_installment_template_idx" ON "payment_reminder" USING btree ("installment_id","template_id");--> statement-breakpoint
+CREATE INDEX "reminder_template_active_idx" ON "reminder_template" USING btree ("is_active");
\ No newline at end of file
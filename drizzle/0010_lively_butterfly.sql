@@ -0,0 +1,4 @@
+ALTER TABLE "payment_plan" ADD COLUMN "renew_with_new_pledge" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD COLUMN "renewed_from_plan_id" integer;--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD CONSTRAINT "payment_plan_renewed_from_plan_id_payment_plan_id_fk" FOREIGN KEY ("renewed_from_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_plan_renewed_from_idx" ON "payment_plan" USING btree ("renewed_from_plan_id");
\ No newline at end of file
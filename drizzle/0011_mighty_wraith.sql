@@ -0,0 +1,21 @@
+CREATE TABLE "receipt" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" integer NOT NULL,
+	"receipt_number" text NOT NULL,
+	"receipt_type" "receipt_type" NOT NULL,
+	"copy_number" integer DEFAULT 0 NOT NULL,
+	"pdf" "bytea" NOT NULL,
+	"issued_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "receipt_sequence" (
+	"year" integer PRIMARY KEY NOT NULL,
+	"last_number" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_issued_by_user_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "receipt_payment_id_idx" ON "receipt" USING btree ("payment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "receipt_number_copy_idx" ON "receipt" USING btree ("receipt_number","copy_number");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "category" ADD COLUMN "is_tax_deductible" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "category" SET "is_tax_deductible" = true WHERE "name" ILIKE '%donation%';
@@ -0,0 +1,4 @@
+ALTER TABLE "bonus_calculation" ADD COLUMN "is_clawback" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "refund_of_payment_id" integer;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_refund_of_payment_id_payment_id_fk" FOREIGN KEY ("refund_of_payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_refund_of_idx" ON "payment" USING btree ("refund_of_payment_id");
\ No newline at end of file
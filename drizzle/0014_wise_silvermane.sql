@@ -0,0 +1,17 @@
+CREATE TABLE "payment_allocation" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" integer NOT NULL,
+	"pledge_id" integer NOT NULL,
+	"payment_plan_id" integer,
+	"amount" numeric(10, 2) NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_pledge_id_pledge_id_fk" FOREIGN KEY ("pledge_id") REFERENCES "public"."pledge"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_allocation_payment_id_idx" ON "payment_allocation" USING btree ("payment_id");--> statement-breakpoint
+CREATE INDEX "payment_allocation_pledge_id_idx" ON "payment_allocation" USING btree ("pledge_id");--> statement-breakpoint
+CREATE INDEX "payment_allocation_payment_plan_id_idx" ON "payment_allocation" USING btree ("payment_plan_id");
\ No newline at end of file
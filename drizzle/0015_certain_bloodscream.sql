@@ -0,0 +1,25 @@
+CREATE TYPE "public"."credit_type" AS ENUM('unapplied', 'overpayment', 'applied');--> statement-breakpoint
+CREATE TABLE "contact_credit" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"credit_type" "credit_type" NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"credit_date" date NOT NULL,
+	"pledge_id" integer,
+	"payment_id" integer,
+	"payment_method" "payment_method",
+	"reference_number" text,
+	"notes" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_credit" ADD CONSTRAINT "contact_credit_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_credit" ADD CONSTRAINT "contact_credit_pledge_id_pledge_id_fk" FOREIGN KEY ("pledge_id") REFERENCES "public"."pledge"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_credit" ADD CONSTRAINT "contact_credit_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_credit" ADD CONSTRAINT "contact_credit_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_credit_contact_id_idx" ON "contact_credit" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "contact_credit_pledge_id_idx" ON "contact_credit" USING btree ("pledge_id");--> statement-breakpoint
+CREATE INDEX "contact_credit_payment_id_idx" ON "contact_credit" USING btree ("payment_id");
\ No newline at end of file
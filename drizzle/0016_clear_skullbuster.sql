@@ -0,0 +1,25 @@
+CREATE TYPE "public"."deposit_batch_status" AS ENUM('open', 'deposited', 'reconciled');--> statement-breakpoint
+CREATE TABLE "deposit_batch" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"deposit_date" date NOT NULL,
+	"bank_account" text NOT NULL,
+	"status" "deposit_batch_status" DEFAULT 'open' NOT NULL,
+	"notes" text,
+	"deposited_at" timestamp,
+	"deposited_by" integer,
+	"bank_reference" text,
+	"reconciled_at" timestamp,
+	"reconciled_by" integer,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "deposit_batch_id" integer;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_deposited_by_user_id_fk" FOREIGN KEY ("deposited_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_reconciled_by_user_id_fk" FOREIGN KEY ("reconciled_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deposit_batch_status_idx" ON "deposit_batch" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "deposit_batch_deposit_date_idx" ON "deposit_batch" USING btree ("deposit_date");--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_deposit_batch_id_deposit_batch_id_fk" FOREIGN KEY ("deposit_batch_id") REFERENCES "public"."deposit_batch"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_deposit_batch_id_idx" ON "payment" USING btree ("deposit_batch_id");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "saved_view" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"table_key" text NOT NULL,
+	"name" text NOT NULL,
+	"filters" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"sorting" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"column_visibility" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"page_size" integer DEFAULT 10 NOT NULL,
+	"is_shared" boolean DEFAULT false NOT NULL,
+	"owner_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_view" ADD CONSTRAINT "saved_view_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "saved_view_table_key_idx" ON "saved_view" USING btree ("table_key");--> statement-breakpoint
+CREATE INDEX "saved_view_owner_id_idx" ON "saved_view" USING btree ("owner_id");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "contact_merge" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"survivor_id" integer NOT NULL,
+	"merged_contact_id" integer NOT NULL,
+	"merged_contact" jsonb NOT NULL,
+	"survivor_before" jsonb NOT NULL,
+	"moved_records" jsonb NOT NULL,
+	"removed_relationships" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"merged_by" integer,
+	"merged_at" timestamp DEFAULT now() NOT NULL,
+	"undone_at" timestamp,
+	"undone_by" integer
+);
+--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_survivor_id_contact_id_fk" FOREIGN KEY ("survivor_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_merged_by_user_id_fk" FOREIGN KEY ("merged_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_undone_by_user_id_fk" FOREIGN KEY ("undone_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_merge_survivor_id_idx" ON "contact_merge" USING btree ("survivor_id");--> statement-breakpoint
+CREATE INDEX "contact_merge_merged_contact_id_idx" ON "contact_merge" USING btree ("merged_contact_id");
\ No newline at end of file
@@ -0,0 +1,58 @@
+CREATE TYPE "public"."contact_address_type" AS ENUM('mailing', 'billing', 'home', 'work', 'other');--> statement-breakpoint
+CREATE TYPE "public"."contact_email_type" AS ENUM('personal', 'work', 'other');--> statement-breakpoint
+CREATE TYPE "public"."contact_phone_type" AS ENUM('mobile', 'home', 'work', 'fax', 'other');--> statement-breakpoint
+CREATE TABLE "contact_address" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"type" "contact_address_type" DEFAULT 'mailing' NOT NULL,
+	"street" text NOT NULL,
+	"street2" text,
+	"city" text,
+	"state" text,
+	"postal_code" text,
+	"country" text,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contact_email" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"email" text NOT NULL,
+	"type" "contact_email_type" DEFAULT 'personal' NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contact_phone" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"country_code" text,
+	"number" text NOT NULL,
+	"extension" text,
+	"type" "contact_phone_type" DEFAULT 'mobile' NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD COLUMN "removed_details" jsonb DEFAULT '{"emails":[],"phones":[],"addresses":[]}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "contact_address" ADD CONSTRAINT "contact_address_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_email" ADD CONSTRAINT "contact_email_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_phone" ADD CONSTRAINT "contact_phone_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_address_contact_id_idx" ON "contact_address" USING btree ("contact_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_address_primary_idx" ON "contact_address" USING btree ("contact_id") WHERE "contact_address"."is_primary";--> statement-breakpoint
+CREATE INDEX "contact_email_contact_id_idx" ON "contact_email" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "contact_email_email_idx" ON "contact_email" USING btree ("email");--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_email_primary_idx" ON "contact_email" USING btree ("contact_id") WHERE "contact_email"."is_primary";--> statement-breakpoint
+CREATE INDEX "contact_phone_contact_id_idx" ON "contact_phone" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "contact_phone_number_idx" ON "contact_phone" USING btree ("number");--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_phone_primary_idx" ON "contact_phone" USING btree ("contact_id") WHERE "contact_phone"."is_primary";--> statement-breakpoint
+INSERT INTO "contact_email" ("contact_id", "email", "type", "is_primary") SELECT "id", "email", 'personal', true FROM "contact" WHERE "email" IS NOT NULL AND "email" <> '';--> statement-breakpoint
+INSERT INTO "contact_phone" ("contact_id", "number", "type", "is_primary") SELECT "id", "phone", 'other', true FROM "contact" WHERE "phone" IS NOT NULL AND "phone" <> '';--> statement-breakpoint
+INSERT INTO "contact_address" ("contact_id", "street", "type", "is_primary") SELECT "id", "address", 'mailing', true FROM "contact" WHERE "address" IS NOT NULL AND "address" <> '';
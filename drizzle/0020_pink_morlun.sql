@@ -0,0 +1,28 @@
+CREATE TYPE "public"."household_member_role" AS ENUM('head', 'spouse', 'child', 'other');--> statement-breakpoint
+CREATE TABLE "household" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"street" text,
+	"street2" text,
+	"city" text,
+	"state" text,
+	"postal_code" text,
+	"country" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "household_member" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"contact_id" integer NOT NULL,
+	"role" "household_member_role" DEFAULT 'other' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "household_member" ADD CONSTRAINT "household_member_household_id_household_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."household"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_member" ADD CONSTRAINT "household_member_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "household_member_household_id_idx" ON "household_member" USING btree ("household_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "household_member_contact_id_idx" ON "household_member" USING btree ("contact_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "household_member_head_idx" ON "household_member" USING btree ("household_id") WHERE "household_member"."role" = 'head';
\ No newline at end of file
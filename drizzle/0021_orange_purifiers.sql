@@ -0,0 +1 @@
+ALTER TABLE "user" ADD COLUMN "token_version" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
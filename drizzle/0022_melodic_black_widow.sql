@@ -0,0 +1 @@
+ALTER TYPE "public"."installment_status" ADD VALUE 'partially_paid' BEFORE 'paid';
\ No newline at end of file
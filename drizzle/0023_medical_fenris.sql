@@ -0,0 +1,3 @@
+ALTER TABLE "receipt" DROP CONSTRAINT "receipt_payment_id_payment_id_fk";
+--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
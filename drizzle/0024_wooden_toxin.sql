@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "saved_view_owner_table_name_idx" ON "saved_view" USING btree ("owner_id","table_key",lower("name"));
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "contact_merge" DROP CONSTRAINT "contact_merge_survivor_id_contact_id_fk";
@@ -24,18 +24,32 @@ import {
   parseAsArrayOf,
   parseAsInteger,
   parseAsString,
+  parseAsStringEnum,
   useQueryState,
   useQueryStates,
 } from "nuqs";
+import { format } from "date-fns";
 import * as React from "react";
 
+import { dataTableConfig } from "@/config/data-table";
 import { useDebouncedCallback } from "@/hooks/use-debounced-callback";
-import { getSortingStateParser } from "@/lib/parsers";
-import type { ExtendedColumnSort } from "@/types/data-table";
+import { getIsRelativeDate } from "@/lib/data-table";
+import {
+  type FilterItemSchema,
+  getFiltersStateParser,
+  getSortingStateParser,
+} from "@/lib/parsers";
+import type {
+  ExtendedColumnSort,
+  FilterVariant,
+  JoinOperator,
+} from "@/types/data-table";
 
 const PAGE_KEY = "page";
 const PER_PAGE_KEY = "perPage";
 const SORT_KEY = "sort";
+const FILTERS_KEY = "filters";
+const JOIN_OPERATOR_KEY = "joinOperator";
 const ARRAY_SEPARATOR = ",";
 const DEBOUNCE_MS = 300;
 const THROTTLE_MS = 50;
@@ -64,6 +78,138 @@ interface UseDataTableProps<TData>
   startTransition?: React.TransitionStartFunction;
 }
 
+// Toolbar filters hold raw values; the server takes them in the same shape as
+// the advanced filter list, with dates as calendar days and presets as offsets
+// from today
+function getColumnFilterItem(
+  id: string,
+  variant: FilterVariant,
+  value: unknown,
+): FilterItemSchema {
+  const values = (Array.isArray(value) ? value : [value]).map((item) =>
+    item === undefined || item === null ? "" : String(item),
+  );
+  const item = { id, variant, filterId: id };
+
+  switch (variant) {
+    case "text":
+      return { ...item, operator: "iLike", value: values.join(" ") };
+    case "range":
+      return { ...item, operator: "isBetween", value: values };
+    case "date":
+    case "dateRange": {
+      if (values.length === 1 && getIsRelativeDate(values[0])) {
+        return { ...item, operator: "isRelativeToToday", value: values[0] };
+      }
+      const days = values.map((day) =>
+        /^\d+$/.test(day) ? format(new Date(Number(day)), "yyyy-MM-dd") : day,
+      );
+      return days.length > 1
+        ? { ...item, operator: "isBetween", value: days }
+        : { ...item, operator: "eq", value: days[0] ?? "" };
+    }
+    case "multiSelect":
+      return { ...item, operator: "inArray", value: values };
+    default:
+      return { ...item, operator: "eq", value: values[0] ?? "" };
+  }
+}
+
+// A toolbar filter as it comes back from the URL: lists stay lists, and other
+// values split on punctuation, as date ranges and multi-word text are stored
+function parseFilterValue(value: string | string[]): string[] {
+  if (Array.isArray(value)) return value;
+  if (!getIsRelativeDate(value) && /[^a-zA-Z0-9]/.test(value)) {
+    return value.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  }
+  return [value];
+}
+
+type UseDataTableRequestProps<TData> = Pick<
+  UseDataTableProps<TData>,
+  "columns" | "initialState" | "enableAdvancedFilter"
+>;
+
+// The page, sorting and filters a list route should be asked for, read from
+// the URL state useDataTable keeps so the rows can be fetched before the
+// table is built
+export function useDataTableRequest<TData>({
+  columns,
+  initialState,
+  enableAdvancedFilter = false,
+}: UseDataTableRequestProps<TData>) {
+  const [page] = useQueryState(PAGE_KEY, parseAsInteger.withDefault(1));
+  const [perPage] = useQueryState(
+    PER_PAGE_KEY,
+    parseAsInteger.withDefault(initialState?.pagination?.pageSize ?? 10),
+  );
+
+  const columnIds = React.useMemo(() => {
+    return new Set(
+      columns.map((column) => column.id).filter(Boolean) as string[],
+    );
+  }, [columns]);
+
+  const [sorting] = useQueryState(
+    SORT_KEY,
+    getSortingStateParser<TData>(columnIds).withDefault(
+      initialState?.sorting ?? [],
+    ),
+  );
+
+  const filterableColumns = React.useMemo(() => {
+    if (enableAdvancedFilter) return [];
+
+    return columns.filter((column) => column.enableColumnFilter);
+  }, [columns, enableAdvancedFilter]);
+
+  const filterParsers = React.useMemo(() => {
+    return filterableColumns.reduce<
+      Record<string, Parser<string> | Parser<string[]>>
+    >((acc, column) => {
+      acc[column.id ?? ""] = column.meta?.options
+        ? parseAsArrayOf(parseAsString, ARRAY_SEPARATOR)
+        : parseAsString;
+      return acc;
+    }, {});
+  }, [filterableColumns]);
+
+  const [filterValues] = useQueryStates(filterParsers);
+
+  const [advancedFilters] = useQueryState(
+    FILTERS_KEY,
+    getFiltersStateParser<TData>(columnIds).withDefault([]),
+  );
+  const [joinOperator] = useQueryState(
+    JOIN_OPERATOR_KEY,
+    parseAsStringEnum<JoinOperator>([
+      ...dataTableConfig.joinOperators,
+    ]).withDefault("and"),
+  );
+
+  const filters = React.useMemo<FilterItemSchema[]>(() => {
+    if (enableAdvancedFilter) return advancedFilters;
+
+    return filterableColumns.flatMap((column) => {
+      const id = column.id ?? "";
+      const value = filterValues[id];
+      if (value === null || value === undefined) return [];
+
+      const variant =
+        column.meta?.variant ?? (column.meta?.options ? "multiSelect" : "text");
+      return [getColumnFilterItem(id, variant, parseFilterValue(value))];
+    });
+  }, [advancedFilters, filterValues, filterableColumns, enableAdvancedFilter]);
+
+  return {
+    page,
+    perPage,
+    sorting,
+    filters,
+    joinOperator: enableAdvancedFilter ? joinOperator : "and",
+  };
+}
+
 export function useDataTable<TData>(props: UseDataTableProps<TData>) {
   const {
     columns,
@@ -206,15 +352,9 @@ export function useDataTable<TData>(props: UseDataTableProps<TData>) {
     return Object.entries(filterValues).reduce<ColumnFiltersState>(
       (filters, [key, value]) => {
         if (value !== null) {
-          const processedValue = Array.isArray(value)
-            ? value
-            : typeof value === "string" && /[^a-zA-Z0-9]/.test(value)
-              ? value.split(/[^a-zA-Z0-9]+/).filter(Boolean)
-              : [value];
-
           filters.push({
             id: key,
-            value: processedValue,
+            value: parseFilterValue(value),
           });
         }
         return filters;
@@ -258,6 +398,13 @@ export function useDataTable<TData>(props: UseDataTableProps<TData>) {
     [debouncedSetFilterValues, filterableColumns, enableAdvancedFilter],
   );
 
+  // Follows the URL rather than the inputs, so requests wait out the debounce
+  const { filters, joinOperator } = useDataTableRequest({
+    columns,
+    initialState,
+    enableAdvancedFilter,
+  });
+
   const table = useReactTable({
     ...tableProps,
     columns,
@@ -292,5 +439,12 @@ export function useDataTable<TData>(props: UseDataTableProps<TData>) {
     manualFiltering: true,
   });
 
-  return { table, shallow, debounceMs, throttleMs };
+  return {
+    table,
+    filters,
+    joinOperator,
+    shallow,
+    debounceMs,
+    throttleMs,
+  };
 }
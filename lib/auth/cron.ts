@@ -0,0 +1,21 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { HttpError } from "@/lib/error-handler";
+
+/**
+ * Scheduled jobs are called with `Authorization: Bearer <CRON_SECRET>`, which
+ * is what Vercel Cron sends. Throws a 401 for anything else.
+ */
+export function authenticateCron(request: Request): void {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    throw new Error("CRON_SECRET is not set in the environment variables");
+  }
+
+  const authorization = request.headers.get("authorization") ?? "";
+  const expected = createHash("sha256").update(`Bearer ${secret}`).digest();
+  const received = createHash("sha256").update(authorization).digest();
+
+  if (!timingSafeEqual(expected, received)) {
+    throw new HttpError(401, "Invalid cron credentials");
+  }
+}
@@ -0,0 +1,106 @@
+export const USER_ROLES = [
+  "admin",
+  "finance",
+  "registrar",
+  "solicitor",
+] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+interface AccessRule {
+  prefix: string;
+  read: UserRole[];
+  write: UserRole[];
+}
+
+const STAFF: UserRole[] = ["admin", "finance", "registrar"];
+const FINANCE: UserRole[] = ["admin", "finance"];
+const FINANCE_AND_SOLICITORS: UserRole[] = ["admin", "finance", "solicitor"];
+const REGISTRAR: UserRole[] = ["admin", "registrar"];
+const EVERYONE: UserRole[] = [...USER_ROLES];
+
+// Matched on whole path segments, so "/api/solicitor" does not cover
+// "/api/solicitor-payments"; a "*" segment matches any one segment. The
+// first matching rule wins, so more specific ones come first. Anything not
+// listed is admin only.
+const API_ACCESS_RULES: AccessRule[] = [
+  { prefix: "/api/users", read: ["admin"], write: ["admin"] },
+  { prefix: "/api/api-keys", read: ["admin"], write: ["admin"] },
+  { prefix: "/api/webhooks", read: ["admin"], write: ["admin"] },
+  { prefix: "/api/reconciliation", read: FINANCE, write: FINANCE },
+  { prefix: "/api/fx-revaluation", read: FINANCE, write: FINANCE },
+  { prefix: "/api/tax-statements", read: FINANCE, write: FINANCE },
+  { prefix: "/api/dashboard", read: FINANCE, write: FINANCE },
+  { prefix: "/api/payments", read: FINANCE_AND_SOLICITORS, write: FINANCE },
+  { prefix: "/api/payment-imports", read: FINANCE, write: FINANCE },
+  { prefix: "/api/deposit-batches", read: FINANCE, write: FINANCE },
+  {
+    prefix: "/api/solicitor-payments",
+    read: FINANCE_AND_SOLICITORS,
+    write: FINANCE,
+  },
+  {
+    prefix: "/api/bonus-calculations",
+    read: FINANCE_AND_SOLICITORS,
+    write: FINANCE,
+  },
+  { prefix: "/api/bonus-rules", read: FINANCE_AND_SOLICITORS, write: FINANCE },
+  { prefix: "/api/solicitor", read: FINANCE_AND_SOLICITORS, write: FINANCE },
+  { prefix: "/api/pledges", read: STAFF, write: FINANCE },
+  { prefix: "/api/credits", read: STAFF, write: FINANCE },
+  { prefix: "/api/all-pledges", read: STAFF, write: FINANCE },
+  { prefix: "/api/payment-plans", read: STAFF, write: FINANCE },
+  { prefix: "/api/single-plan", read: STAFF, write: FINANCE },
+  // Solicitor records and commission rates, edited from the contact page
+  { prefix: "/api/contacts/*/solicitor", read: STAFF, write: FINANCE },
+  { prefix: "/api/contacts", read: STAFF, write: STAFF },
+  { prefix: "/api/all-contacts", read: STAFF, write: STAFF },
+  { prefix: "/api/contact-merges", read: STAFF, write: STAFF },
+  { prefix: "/api/households", read: STAFF, write: STAFF },
+  { prefix: "/api/categories", read: STAFF, write: FINANCE },
+  { prefix: "/api/exchange-rates", read: STAFF, write: FINANCE },
+  { prefix: "/api/reminder-templates", read: STAFF, write: FINANCE },
+  { prefix: "/api/contact-roles", read: STAFF, write: REGISTRAR },
+  { prefix: "/api/student-roles", read: STAFF, write: REGISTRAR },
+  { prefix: "/api/relationships", read: STAFF, write: REGISTRAR },
+  // Views are scoped to their owner inside the route
+  { prefix: "/api/saved-views", read: EVERYONE, write: EVERYONE },
+];
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function matchesPrefix(pathname: string, prefix: string) {
+  const segments = pathname.split("/");
+  const prefixSegments = prefix.split("/");
+  return (
+    segments.length >= prefixSegments.length &&
+    prefixSegments.every(
+      (segment, index) => segment === "*" || segment === segments[index]
+    )
+  );
+}
+
+/**
+ * Whether a role may call an API route. Solicitors additionally get read
+ * access to their own contact record so their solicitor page can load.
+ */
+export function canAccessApi(
+  session: { role: UserRole; solicitorContactId: number | null },
+  pathname: string,
+  method: string
+): boolean {
+  const isRead = READ_METHODS.has(method.toUpperCase());
+
+  if (session.role === "solicitor" && isRead && session.solicitorContactId) {
+    const ownContact = `/api/contacts/${session.solicitorContactId}`;
+    if (pathname === ownContact || pathname === `${ownContact}/solicitor`) {
+      return true;
+    }
+  }
+
+  const rule = API_ACCESS_RULES.find((candidate) =>
+    matchesPrefix(pathname, candidate.prefix)
+  );
+  if (!rule) return session.role === "admin";
+  return (isRead ? rule.read : rule.write).includes(session.role);
+}
@@ -0,0 +1,144 @@
+import type { UserRole } from "./roles";
+
+export const SESSION_COOKIE = "levhatora_session";
+export const SESSION_MAX_AGE = 60 * 60 * 12; // seconds
+
+// Set by the middleware once the session cookie has been verified. Any value
+// a client sends for these is stripped before the request reaches a route.
+export const USER_ID_HEADER = "x-user-id";
+export const USER_ROLE_HEADER = "x-user-role";
+export const SOLICITOR_ID_HEADER = "x-solicitor-id";
+
+export interface SessionPayload {
+  userId: number;
+  role: UserRole;
+  solicitorId: number | null;
+  solicitorContactId: number | null;
+  tokenVersion: number;
+  expiresAt: number;
+}
+
+// The user's current token version, or null when the user is gone or
+// deactivated
+export type TokenVersionLookup = (userId: number) => Promise<number | null>;
+
+export interface RequestUser {
+  id: number;
+  role: UserRole;
+  solicitorId: number | null;
+}
+
+const encoder = new TextEncoder();
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not set in the environment variables");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Session tokens are an HMAC-signed payload rather than a database lookup, so
+ * the middleware can verify them on every request. Uses Web Crypto only,
+ * which keeps this module usable from the edge runtime.
+ */
+export async function signSession(
+  payload: Omit<SessionPayload, "expiresAt">
+): Promise<string> {
+  const body = toBase64Url(
+    encoder.encode(
+      JSON.stringify({
+        ...payload,
+        expiresAt: Date.now() + SESSION_MAX_AGE * 1000,
+      })
+    )
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await signingKey(),
+    encoder.encode(body)
+  );
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The payload of a valid, unexpired token. With `currentTokenVersion` the
+ * token is also checked against the user row, so sessions end as soon as the
+ * user is deactivated or their access changes.
+ */
+export async function verifySession(
+  token: string | undefined,
+  currentTokenVersion?: TokenVersionLookup
+): Promise<SessionPayload | null> {
+  if (!token) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body))
+    ) as SessionPayload;
+    if (payload.expiresAt <= Date.now()) return null;
+    if (
+      currentTokenVersion &&
+      (await currentTokenVersion(payload.userId)) !== payload.tokenVersion
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/** The signed-in user for a request that has passed through the middleware. */
+export function getRequestUser(request: Request): RequestUser | null {
+  const id = Number(request.headers.get(USER_ID_HEADER));
+  const role = request.headers.get(USER_ROLE_HEADER) as UserRole | null;
+  if (!id || !role) return null;
+
+  const solicitorId = Number(request.headers.get(SOLICITOR_ID_HEADER));
+  return { id, role, solicitorId: solicitorId || null };
+}
+
+/**
+ * The solicitor whose records a request is limited to, or null when the user
+ * may see every solicitor's payments and bonuses.
+ */
+export function restrictedSolicitorId(request: Request): number | null {
+  const currentUser = getRequestUser(request);
+  return currentUser?.role === "solicitor" ? currentUser.solicitorId : null;
+}
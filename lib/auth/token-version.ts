@@ -0,0 +1,17 @@
+import { and, eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/neon-http";
+import { neon } from "@neondatabase/serverless";
+import { user } from "@/lib/db/schema";
+
+// The middleware runs on the edge runtime, where the WebSocket pool in
+// lib/db is not available, so this lookup goes over Neon's HTTP driver
+const httpDb = drizzle(neon(process.env.DATABASE_URL!));
+
+export async function getTokenVersion(userId: number): Promise<number | null> {
+  const [row] = await httpDb
+    .select({ tokenVersion: user.tokenVersion })
+    .from(user)
+    .where(and(eq(user.id, userId), eq(user.isActive, true)))
+    .limit(1);
+  return row?.tokenVersion ?? null;
+}
@@ -2,7 +2,9 @@ import type {
   ExtendedColumnFilter,
   FilterOperator,
   FilterVariant,
+  JoinOperator,
 } from "@/types/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
 import type { Column } from "@tanstack/react-table";
 
 import { dataTableConfig } from "@/config/data-table";
@@ -56,6 +58,13 @@ export function getFilterOperators(filterVariant: FilterVariant) {
   return operatorMap[filterVariant] ?? dataTableConfig.textOperators;
 }
 
+// "N days|weeks|months|years" offsets, as the date filter presets produce
+export function getIsRelativeDate(value: unknown): boolean {
+  return (
+    typeof value === "string" && /^-?\d+ (days|weeks|months|years)$/.test(value)
+  );
+}
+
 export function getDefaultFilterOperator(filterVariant: FilterVariant) {
   const operators = getFilterOperators(filterVariant);
 
@@ -76,3 +85,15 @@ export function getValidFilters<TData>(
           filter.value !== undefined),
   );
 }
+
+// Query parameters the list routes read filters from, left out entirely when
+// no filter has a value so unfiltered requests keep their plain URLs
+export function getFilterSearchParams(
+  filters: FilterItemSchema[] = [],
+  joinOperator: JoinOperator = "and",
+): Record<string, string> {
+  const validFilters = getValidFilters<Record<string, unknown>>(filters);
+  if (validFilters.length === 0) return {};
+
+  return { filters: JSON.stringify(validFilters), joinOperator };
+}
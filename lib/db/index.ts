@@ -1,13 +1,21 @@
-import { drizzle } from "drizzle-orm/neon-http";
-import { neon } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import ws from "ws";
 import * as schema from "./schema";
 
 if (!process.env.DATABASE_URL || "") {
   throw new Error("DATABASE_URL is not set in the environment variables");
 }
 
-const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql, {
+// The WebSocket driver is needed for interactive transactions, which the
+// neon-http driver cannot run.
+neonConfig.webSocketConstructor = ws;
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle(pool, {
   schema,
   logger: process.env.NODE_ENV === "development" ? true : false,
 });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type Database = typeof db | Transaction;
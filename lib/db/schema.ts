@@ -10,8 +10,11 @@ import {
   numeric,
   uniqueIndex,
   pgEnum,
+  jsonb,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 export const titleEnum = pgEnum("title", [
   "mr",
@@ -192,6 +195,76 @@ export const bonusPaymentTypeEnum = pgEnum("bonus_payment_type", [
   "both",
 ]);
 
+export const userRoleEnum = pgEnum("user_role", [
+  "admin",
+  "finance",
+  "registrar",
+  "solicitor",
+]);
+
+export const installmentStatusEnum = pgEnum("installment_status", [
+  "pending",
+  "partially_paid",
+  "paid",
+  "overdue",
+  "cancelled",
+]);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending",
+  "delivered",
+  "failed",
+]);
+
+export const reminderChannelEnum = pgEnum("reminder_channel", ["email", "sms"]);
+
+export const reminderStatusEnum = pgEnum("reminder_status", [
+  "sent",
+  "failed",
+  "skipped",
+]);
+
+export const creditTypeEnum = pgEnum("credit_type", [
+  "unapplied",
+  "overpayment",
+  "applied",
+]);
+
+export const depositBatchStatusEnum = pgEnum("deposit_batch_status", [
+  "open",
+  "deposited",
+  "reconciled",
+]);
+
+export const contactEmailTypeEnum = pgEnum("contact_email_type", [
+  "personal",
+  "work",
+  "other",
+]);
+
+export const contactPhoneTypeEnum = pgEnum("contact_phone_type", [
+  "mobile",
+  "home",
+  "work",
+  "fax",
+  "other",
+]);
+
+export const contactAddressTypeEnum = pgEnum("contact_address_type", [
+  "mailing",
+  "billing",
+  "home",
+  "work",
+  "other",
+]);
+
+export const householdMemberRoleEnum = pgEnum("household_member_role", [
+  "head",
+  "spouse",
+  "child",
+  "other",
+]);
+
 export const contact = pgTable("contact", {
   id: serial("id").primaryKey(),
   firstName: text("first_name").notNull(),
@@ -208,6 +281,94 @@ export const contact = pgTable("contact", {
 export type Contact = typeof contact.$inferSelect;
 export type NewContact = typeof contact.$inferInsert;
 
+// A contact's emails, phones and addresses, in the order they were entered.
+// The primary one of each is also copied onto the contact row, which is what
+// lists, receipts and reminders read.
+export const contactEmail = pgTable(
+  "contact_email",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    email: text("email").notNull(),
+    type: contactEmailTypeEnum("type").notNull().default("personal"),
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_email_contact_id_idx").on(table.contactId),
+    emailIdx: index("contact_email_email_idx").on(table.email),
+    primaryIdx: uniqueIndex("contact_email_primary_idx")
+      .on(table.contactId)
+      .where(sql`${table.isPrimary}`),
+  })
+);
+
+export type ContactEmail = typeof contactEmail.$inferSelect;
+export type NewContactEmail = typeof contactEmail.$inferInsert;
+
+export const contactPhone = pgTable(
+  "contact_phone",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    // Digits only, without the leading +
+    countryCode: text("country_code"),
+    number: text("number").notNull(),
+    extension: text("extension"),
+    type: contactPhoneTypeEnum("type").notNull().default("mobile"),
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_phone_contact_id_idx").on(table.contactId),
+    numberIdx: index("contact_phone_number_idx").on(table.number),
+    primaryIdx: uniqueIndex("contact_phone_primary_idx")
+      .on(table.contactId)
+      .where(sql`${table.isPrimary}`),
+  })
+);
+
+export type ContactPhone = typeof contactPhone.$inferSelect;
+export type NewContactPhone = typeof contactPhone.$inferInsert;
+
+export const contactAddress = pgTable(
+  "contact_address",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    type: contactAddressTypeEnum("type").notNull().default("mailing"),
+    street: text("street").notNull(),
+    street2: text("street2"),
+    city: text("city"),
+    state: text("state"),
+    postalCode: text("postal_code"),
+    country: text("country"),
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_address_contact_id_idx").on(table.contactId),
+    primaryIdx: uniqueIndex("contact_address_primary_idx")
+      .on(table.contactId)
+      .where(sql`${table.isPrimary}`),
+  })
+);
+
+export type ContactAddress = typeof contactAddress.$inferSelect;
+export type NewContactAddress = typeof contactAddress.$inferInsert;
+
 export const studentRoles = pgTable(
   "student_roles",
   {
@@ -292,11 +453,64 @@ export const relationships = pgTable(
 export type Relationship = typeof relationships.$inferSelect;
 export type NewRelationship = typeof relationships.$inferInsert;
 
+// A family grouped for mailings and giving. Built from spouse and parent
+// relationships but kept separately, so it can be edited without changing
+// how people are related.
+export const household = pgTable("household", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // The mailing address the family shares
+  street: text("street"),
+  street2: text("street2"),
+  city: text("city"),
+  state: text("state"),
+  postalCode: text("postal_code"),
+  country: text("country"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Household = typeof household.$inferSelect;
+export type NewHousehold = typeof household.$inferInsert;
+
+export const householdMember = pgTable(
+  "household_member",
+  {
+    id: serial("id").primaryKey(),
+    householdId: integer("household_id")
+      .references(() => household.id, { onDelete: "cascade" })
+      .notNull(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    role: householdMemberRoleEnum("role").notNull().default("other"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    householdIdIdx: index("household_member_household_id_idx").on(
+      table.householdId
+    ),
+    // A contact belongs to one household at most
+    contactIdIdx: uniqueIndex("household_member_contact_id_idx").on(
+      table.contactId
+    ),
+    headIdx: uniqueIndex("household_member_head_idx")
+      .on(table.householdId)
+      .where(sql`${table.role} = 'head'`),
+  })
+);
+
+export type HouseholdMember = typeof householdMember.$inferSelect;
+export type NewHouseholdMember = typeof householdMember.$inferInsert;
+
 export const category = pgTable("category", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   description: text("description"),
   isActive: boolean("is_active").default(true).notNull(),
+  // Payments on pledges in these categories appear on donor tax statements
+  isTaxDeductible: boolean("is_tax_deductible").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -304,6 +518,30 @@ export const category = pgTable("category", {
 export type Category = typeof category.$inferSelect;
 export type NewCategory = typeof category.$inferInsert;
 
+// Daily rates used to convert amounts to USD on the server. One row per
+// currency and date; `rateToUsd` is the USD value of one unit of currency.
+export const exchangeRate = pgTable(
+  "exchange_rate",
+  {
+    id: serial("id").primaryKey(),
+    date: date("date").notNull(),
+    currency: currencyEnum("currency").notNull(),
+    rateToUsd: numeric("rate_to_usd", { precision: 18, scale: 8 }).notNull(),
+    source: text("source").notNull(), // manual, csv or the provider name
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    dateCurrencyIdx: uniqueIndex("exchange_rate_date_currency_idx").on(
+      table.date,
+      table.currency
+    ),
+  })
+);
+
+export type ExchangeRate = typeof exchangeRate.$inferSelect;
+export type NewExchangeRate = typeof exchangeRate.$inferInsert;
+
 export const pledge = pgTable("pledge", {
   id: serial("id").primaryKey(),
   contactId: integer("contact_id")
@@ -330,7 +568,7 @@ export const pledge = pgTable("pledge", {
   totalPaidUsd: numeric("total_paid_usd", { precision: 10, scale: 2 }).default(
     "0"
   ),
-  exchangeRate: numeric("exchange_rate", { precision: 10, scale: 2 }),
+  exchangeRate: numeric("exchange_rate", { precision: 18, scale: 8 }),
   balanceUsd: numeric("balance_usd", { precision: 10, scale: 2 }),
   isActive: boolean("is_active").default(true).notNull(),
   notes: text("notes"),
@@ -379,6 +617,15 @@ export const paymentPlan = pgTable(
 
     planStatus: planStatusEnum("plan_status").notNull().default("active"),
     autoRenew: boolean("auto_renew").default(false).notNull(),
+    // On renewal, start the next plan on a new pledge rather than this one
+    renewWithNewPledge: boolean("renew_with_new_pledge")
+      .default(false)
+      .notNull(),
+    // The plan this one was automatically renewed from
+    renewedFromPlanId: integer("renewed_from_plan_id").references(
+      (): AnyPgColumn => paymentPlan.id,
+      { onDelete: "set null" }
+    ),
     remindersSent: integer("reminders_sent").default(0).notNull(),
     lastReminderDate: date("last_reminder_date"),
 
@@ -394,12 +641,149 @@ export const paymentPlan = pgTable(
     nextPaymentIdx: index("payment_plan_next_payment_idx").on(
       table.nextPaymentDate
     ),
+    renewedFromIdx: uniqueIndex("payment_plan_renewed_from_idx").on(
+      table.renewedFromPlanId
+    ),
   })
 );
 
 export type PaymentPlan = typeof paymentPlan.$inferSelect;
 export type NewPaymentPlan = typeof paymentPlan.$inferInsert;
 
+// One row per scheduled installment of a payment plan. Rows are generated
+// from the plan's schedule and its completed payments are allocated to them
+// in due order.
+export const paymentPlanInstallment = pgTable(
+  "payment_plan_installment",
+  {
+    id: serial("id").primaryKey(),
+    paymentPlanId: integer("payment_plan_id")
+      .references(() => paymentPlan.id, { onDelete: "cascade" })
+      .notNull(),
+    installmentNumber: integer("installment_number").notNull(),
+    dueDate: date("due_date").notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    status: installmentStatusEnum("status").default("pending").notNull(),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    paidAmount: numeric("paid_amount", { precision: 10, scale: 2 }),
+    paidDate: date("paid_date"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    planNumberIdx: uniqueIndex("payment_plan_installment_plan_number_idx").on(
+      table.paymentPlanId,
+      table.installmentNumber
+    ),
+    dueDateIdx: index("payment_plan_installment_due_date_idx").on(
+      table.dueDate,
+      table.status
+    ),
+    paymentIdIdx: index("payment_plan_installment_payment_id_idx").on(
+      table.paymentId
+    ),
+  })
+);
+
+export type PaymentPlanInstallment = typeof paymentPlanInstallment.$inferSelect;
+export type NewPaymentPlanInstallment =
+  typeof paymentPlanInstallment.$inferInsert;
+
+// History of a payment plan's status. Rows written by the scheduled status job
+// have no user.
+export const paymentPlanStatusChange = pgTable(
+  "payment_plan_status_change",
+  {
+    id: serial("id").primaryKey(),
+    paymentPlanId: integer("payment_plan_id")
+      .references(() => paymentPlan.id, { onDelete: "cascade" })
+      .notNull(),
+    fromStatus: planStatusEnum("from_status").notNull(),
+    toStatus: planStatusEnum("to_status").notNull(),
+    reason: text("reason"),
+    changedBy: integer("changed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    planIdIdx: index("payment_plan_status_change_plan_id_idx").on(
+      table.paymentPlanId,
+      table.createdAt
+    ),
+  })
+);
+
+export type PaymentPlanStatusChange =
+  typeof paymentPlanStatusChange.$inferSelect;
+export type NewPaymentPlanStatusChange =
+  typeof paymentPlanStatusChange.$inferInsert;
+
+// Reminder wording and timing. `daysFromDue` is negative before the due date,
+// zero on it and positive once the installment is overdue.
+export const reminderTemplate = pgTable(
+  "reminder_template",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    daysFromDue: integer("days_from_due").notNull(),
+    channel: reminderChannelEnum("channel").default("email").notNull(),
+    subject: text("subject"),
+    body: text("body").notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    activeIdx: index("reminder_template_active_idx").on(table.isActive),
+  })
+);
+
+export type ReminderTemplate = typeof reminderTemplate.$inferSelect;
+export type NewReminderTemplate = typeof reminderTemplate.$inferInsert;
+
+// Every reminder a plan was sent, or that could not be sent, with the exact
+// wording and recipient used at the time
+export const paymentReminder = pgTable(
+  "payment_reminder",
+  {
+    id: serial("id").primaryKey(),
+    paymentPlanId: integer("payment_plan_id")
+      .references(() => paymentPlan.id, { onDelete: "cascade" })
+      .notNull(),
+    installmentId: integer("installment_id").references(
+      () => paymentPlanInstallment.id,
+      { onDelete: "set null" }
+    ),
+    templateId: integer("template_id").references(() => reminderTemplate.id, {
+      onDelete: "set null",
+    }),
+    channel: reminderChannelEnum("channel").notNull(),
+    recipient: text("recipient"),
+    subject: text("subject"),
+    body: text("body").notNull(),
+    dueDate: date("due_date").notNull(),
+    status: reminderStatusEnum("status").notNull(),
+    transport: text("transport").notNull(),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    planIdIdx: index("payment_reminder_plan_id_idx").on(
+      table.paymentPlanId,
+      table.createdAt
+    ),
+    installmentTemplateIdx: index(
+      "payment_reminder_installment_template_idx"
+    ).on(table.installmentId, table.templateId),
+  })
+);
+
+export type PaymentReminder = typeof paymentReminder.$inferSelect;
+export type NewPaymentReminder = typeof paymentReminder.$inferInsert;
+
 // *** NEW TABLES FOR SOLICITOR SYSTEM ***
 
 // Solicitor table - links to existing contact
@@ -430,6 +814,106 @@ export const solicitor = pgTable(
 export type Solicitor = typeof solicitor.$inferSelect;
 export type NewSolicitor = typeof solicitor.$inferInsert;
 
+// Staff logins. Solicitor users are tied to their solicitor record and only
+// see that solicitor's payments and bonuses.
+export const user = pgTable(
+  "user",
+  {
+    id: serial("id").primaryKey(),
+    email: text("email").notNull().unique(),
+    name: text("name"),
+    passwordHash: text("password_hash").notNull(),
+    role: userRoleEnum("role").notNull(),
+    solicitorId: integer("solicitor_id").references(() => solicitor.id, {
+      onDelete: "set null",
+    }),
+    isActive: boolean("is_active").default(true).notNull(),
+    // Part of every session token; bumping it signs the user out everywhere
+    tokenVersion: integer("token_version").default(0).notNull(),
+    lastLoginAt: timestamp("last_login_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    roleIdx: index("user_role_idx").on(table.role),
+    solicitorIdIdx: index("user_solicitor_id_idx").on(table.solicitorId),
+  })
+);
+
+export type User = typeof user.$inferSelect;
+export type NewUser = typeof user.$inferInsert;
+
+// Keys for machine clients such as Zapier. Only a SHA-256 hash is stored; the
+// plain key is shown once, when it is created.
+export const apiKey = pgTable("api_key", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // Lets admins tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  createdBy: integer("created_by").references(() => user.id, {
+    onDelete: "set null",
+  }),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ApiKey = typeof apiKey.$inferSelect;
+export type NewApiKey = typeof apiKey.$inferInsert;
+
+// Outbound webhooks: endpoints subscribe to domain events and every event
+// becomes one delivery row per subscribed endpoint
+export const webhookEndpoint = pgTable("webhook_endpoint", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // Signs each delivery body
+  events: text("events").array().notNull(), // Event types to send
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => user.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type WebhookEndpoint = typeof webhookEndpoint.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoint.$inferInsert;
+
+export const webhookDelivery = pgTable(
+  "webhook_delivery",
+  {
+    id: serial("id").primaryKey(),
+    endpointId: integer("endpoint_id")
+      .references(() => webhookEndpoint.id, { onDelete: "cascade" })
+      .notNull(),
+    eventId: text("event_id").notNull(), // Shared by all deliveries of one event
+    eventType: text("event_type").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: webhookDeliveryStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"),
+    error: text("error"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    endpointIdIdx: index("webhook_delivery_endpoint_id_idx").on(
+      table.endpointId
+    ),
+    dueIdx: index("webhook_delivery_due_idx").on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  })
+);
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDelivery.$inferInsert;
+
 // Bonus rules for flexible commission structures
 export const bonusRule = pgTable(
   "bonus_rule",
@@ -494,6 +978,9 @@ export const bonusCalculation = pgTable(
     calculatedAt: timestamp("calculated_at").defaultNow().notNull(),
     isPaid: boolean("is_paid").default(false).notNull(),
     paidAt: timestamp("paid_at"),
+    // A negative calculation on a refund, taking back a bonus already paid
+    // out for the refunded payment
+    isClawback: boolean("is_clawback").default(false).notNull(),
     notes: text("notes"),
   },
   (table) => ({
@@ -521,11 +1008,17 @@ export const payment = pgTable(
     paymentPlanId: integer("payment_plan_id").references(() => paymentPlan.id, {
       onDelete: "set null",
     }),
+    // Set on refunds, which are negative entries against the payment they
+    // reverse
+    refundOfPaymentId: integer("refund_of_payment_id").references(
+      (): AnyPgColumn => payment.id,
+      { onDelete: "cascade" }
+    ),
 
     amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
     currency: currencyEnum("currency").notNull(),
     amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
-    exchangeRate: numeric("exchange_rate", { precision: 10, scale: 4 }),
+    exchangeRate: numeric("exchange_rate", { precision: 18, scale: 8 }),
 
     paymentDate: date("payment_date").notNull(),
     receivedDate: date("received_date"),
@@ -553,6 +1046,12 @@ export const payment = pgTable(
 
     notes: text("notes"),
 
+    // The bank deposit a check went in with
+    depositBatchId: integer("deposit_batch_id").references(
+      () => depositBatch.id,
+      { onDelete: "set null" }
+    ),
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -567,31 +1066,339 @@ export const payment = pgTable(
     referenceIdx: index("payment_reference_idx").on(table.referenceNumber),
     // *** NEW INDEX ***
     solicitorIdIdx: index("payment_solicitor_id_idx").on(table.solicitorId),
+    refundOfIdx: index("payment_refund_of_idx").on(table.refundOfPaymentId),
+    depositBatchIdx: index("payment_deposit_batch_id_idx").on(
+      table.depositBatchId
+    ),
   })
 );
 
 export type Payment = typeof payment.$inferSelect;
 export type NewPayment = typeof payment.$inferInsert;
 
-export const auditLog = pgTable("audit_log", {
-  id: serial("id").primaryKey(),
-  tableName: text("table_name").notNull(),
-  recordId: integer("record_id").notNull(),
-  action: text("action").notNull(),
-  fieldName: text("field_name"),
-  oldValue: text("old_value"),
-  newValue: text("new_value"),
-  changedBy: integer("changed_by").references(() => contact.id, {
-    onDelete: "set null",
-  }),
-  changedAt: timestamp("changed_at").defaultNow().notNull(),
-  ipAddress: text("ip_address"),
-  userAgent: text("user_agent"),
+// Shares of a payment that covers several pledges, such as one check for
+// tuition and a dinner donation. Amounts are in the payment's currency and add
+// up to the payment. Payments without allocations apply in full to their own
+// pledge and plan.
+export const paymentAllocation = pgTable(
+  "payment_allocation",
+  {
+    id: serial("id").primaryKey(),
+    paymentId: integer("payment_id")
+      .references(() => payment.id, { onDelete: "cascade" })
+      .notNull(),
+    pledgeId: integer("pledge_id")
+      .references(() => pledge.id, { onDelete: "cascade" })
+      .notNull(),
+    paymentPlanId: integer("payment_plan_id").references(() => paymentPlan.id, {
+      onDelete: "set null",
+    }),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    paymentIdIdx: index("payment_allocation_payment_id_idx").on(
+      table.paymentId
+    ),
+    pledgeIdIdx: index("payment_allocation_pledge_id_idx").on(table.pledgeId),
+    paymentPlanIdIdx: index("payment_allocation_payment_plan_id_idx").on(
+      table.paymentPlanId
+    ),
+  })
+);
+
+export type PaymentAllocation = typeof paymentAllocation.$inferSelect;
+export type NewPaymentAllocation = typeof paymentAllocation.$inferInsert;
+
+// Money held on a contact's account. Unapplied receipts and the overpaid part
+// of a payment add credit, and applying it to a pledge takes it off again with
+// a negative entry, so the balance is the sum of the amounts per currency.
+// Entries with a pledge also move money on the pledge: an overpayment takes
+// the excess off the pledge it was paid to, and an application adds to the
+// pledge it covers.
+export const contactCredit = pgTable(
+  "contact_credit",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    creditType: creditTypeEnum("credit_type").notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: currencyEnum("currency").notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    creditDate: date("credit_date").notNull(),
+    pledgeId: integer("pledge_id").references(() => pledge.id, {
+      onDelete: "cascade",
+    }),
+    // The overpaying payment; the credit lapses if it is no longer completed
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "cascade",
+    }),
+    paymentMethod: paymentMethodEnum("payment_method"),
+    referenceNumber: text("reference_number"),
+    notes: text("notes"),
+    createdBy: integer("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_credit_contact_id_idx").on(table.contactId),
+    pledgeIdIdx: index("contact_credit_pledge_id_idx").on(table.pledgeId),
+    paymentIdIdx: index("contact_credit_payment_id_idx").on(table.paymentId),
+  })
+);
+
+export type ContactCredit = typeof contactCredit.$inferSelect;
+export type NewContactCredit = typeof contactCredit.$inferInsert;
+
+// Checks taken to the bank together. Payments are gathered while the batch is
+// open; once it is deposited the batch and the slip details of its payments
+// are locked, and matching it against the bank statement reconciles it.
+export const depositBatch = pgTable(
+  "deposit_batch",
+  {
+    id: serial("id").primaryKey(),
+    depositDate: date("deposit_date").notNull(),
+    bankAccount: text("bank_account").notNull(),
+    status: depositBatchStatusEnum("status").notNull().default("open"),
+    notes: text("notes"),
+    depositedAt: timestamp("deposited_at"),
+    depositedBy: integer("deposited_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    // The bank's reference for the deposit, taken from the statement
+    bankReference: text("bank_reference"),
+    reconciledAt: timestamp("reconciled_at"),
+    reconciledBy: integer("reconciled_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdBy: integer("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    statusIdx: index("deposit_batch_status_idx").on(table.status),
+    depositDateIdx: index("deposit_batch_deposit_date_idx").on(
+      table.depositDate
+    ),
+  })
+);
+
+export type DepositBatch = typeof depositBatch.$inferSelect;
+export type NewDepositBatch = typeof depositBatch.$inferInsert;
+
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Last receipt number handed out in each year. Numbers are taken inside the
+// transaction that issues the receipt, so a rollback never leaves a gap.
+export const receiptSequence = pgTable("receipt_sequence", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export type ReceiptSequence = typeof receiptSequence.$inferSelect;
+
+// Every receipt document issued for a payment. Copy 0 is the original;
+// reissues keep its number and are marked as duplicates.
+export const receipt = pgTable(
+  "receipt",
+  {
+    id: serial("id").primaryKey(),
+    // Restricted so deleting a payment can never take an issued number out
+    // of the sequence
+    paymentId: integer("payment_id")
+      .references(() => payment.id, { onDelete: "restrict" })
+      .notNull(),
+    receiptNumber: text("receipt_number").notNull(),
+    receiptType: receiptTypeEnum("receipt_type").notNull(),
+    copyNumber: integer("copy_number").notNull().default(0),
+    pdf: bytea("pdf").notNull(),
+    issuedBy: integer("issued_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    paymentIdIdx: index("receipt_payment_id_idx").on(table.paymentId),
+    numberCopyIdx: uniqueIndex("receipt_number_copy_idx").on(
+      table.receiptNumber,
+      table.copyNumber
+    ),
+  })
+);
+
+export type Receipt = typeof receipt.$inferSelect;
+export type NewReceipt = typeof receipt.$inferInsert;
+
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: serial("id").primaryKey(),
+    tableName: text("table_name").notNull(),
+    recordId: integer("record_id").notNull(),
+    // Contact the changed record belongs to, so a contact's history survives
+    // the deletion of its pledges and payments
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    action: text("action").notNull(),
+    fieldName: text("field_name"),
+    oldValue: text("old_value"),
+    newValue: text("new_value"),
+    changedBy: integer("changed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+  },
+  (table) => ({
+    recordIdx: index("audit_log_record_idx").on(
+      table.tableName,
+      table.recordId
+    ),
+    contactIdIdx: index("audit_log_contact_id_idx").on(table.contactId),
+    changedAtIdx: index("audit_log_changed_at_idx").on(table.changedAt),
+  })
+);
+
 export type AuditLog = typeof auditLog.$inferSelect;
 export type NewAuditLog = typeof auditLog.$inferInsert;
 
+// Named data table setups. The filters, sort and visible columns are stored as
+// the table holds them, under the key of the table they belong to. Private
+// views are listed only for their owner; shared ones for everyone.
+export const savedView = pgTable(
+  "saved_view",
+  {
+    id: serial("id").primaryKey(),
+    tableKey: text("table_key").notNull(),
+    name: text("name").notNull(),
+    filters: jsonb("filters")
+      .$type<{ id: string; value?: unknown }[]>()
+      .notNull()
+      .default([]),
+    sorting: jsonb("sorting")
+      .$type<{ id: string; desc: boolean }[]>()
+      .notNull()
+      .default([]),
+    columnVisibility: jsonb("column_visibility")
+      .$type<Record<string, boolean>>()
+      .notNull()
+      .default({}),
+    pageSize: integer("page_size").notNull().default(10),
+    isShared: boolean("is_shared").default(false).notNull(),
+    ownerId: integer("owner_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    tableKeyIdx: index("saved_view_table_key_idx").on(table.tableKey),
+    ownerIdIdx: index("saved_view_owner_id_idx").on(table.ownerId),
+    // One view per name for each owner and table, whatever its case
+    ownerTableNameIdx: uniqueIndex("saved_view_owner_table_name_idx").on(
+      table.ownerId,
+      table.tableKey,
+      sql`lower(${table.name})`
+    ),
+  })
+);
+
+export type SavedView = typeof savedView.$inferSelect;
+export type NewSavedView = typeof savedView.$inferInsert;
+
+// Rows kept in jsonb come back with their timestamps as ISO strings
+export type JsonRow<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] };
+
+// Ids of the records a merge moved from the merged contact to the survivor
+export type ContactMergeMoves = Record<
+  | "pledges"
+  | "studentRoles"
+  | "contactRoles"
+  | "relationshipsAsSource"
+  | "relationshipsAsTarget"
+  | "solicitors"
+  | "credits"
+  | "auditLogs",
+  number[]
+> &
+  // Missing on merges made before contacts had several of each
+  Partial<
+    Record<"emails" | "phones" | "addresses" | "householdMembers", number[]>
+  >;
+
+// Merged contact emails, phones and addresses the survivor already had, which
+// were dropped rather than moved, and its household membership when the
+// survivor was in a household of its own
+export type RemovedContactDetails = {
+  emails: JsonRow<ContactEmail>[];
+  phones: JsonRow<ContactPhone>[];
+  addresses: JsonRow<ContactAddress>[];
+  // Missing on merges made before households
+  householdMembers?: JsonRow<HouseholdMember>[];
+};
+
+// One contact merged into another. The merged contact is deleted once its
+// records are moved to the survivor; the deleted row, what was moved and the
+// survivor values it replaced are kept so the merge can be undone for a while.
+export const contactMerge = pgTable(
+  "contact_merge",
+  {
+    id: serial("id").primaryKey(),
+    // No reference: the survivor can itself be merged away, and this merge
+    // must still be undoable once that later merge is undone
+    survivorId: integer("survivor_id").notNull(),
+    // No reference: the contact is gone until the merge is undone
+    mergedContactId: integer("merged_contact_id").notNull(),
+    mergedContact: jsonb("merged_contact").$type<JsonRow<Contact>>().notNull(),
+    // Survivor fields the merge overwrote, with their old values
+    survivorBefore: jsonb("survivor_before")
+      .$type<Partial<JsonRow<Contact>>>()
+      .notNull(),
+    movedRecords: jsonb("moved_records").$type<ContactMergeMoves>().notNull(),
+    // Relationships between the two contacts, or ones the survivor already
+    // had, which would have become self-references or duplicates
+    removedRelationships: jsonb("removed_relationships")
+      .$type<JsonRow<Relationship>[]>()
+      .notNull()
+      .default([]),
+    removedDetails: jsonb("removed_details")
+      .$type<RemovedContactDetails>()
+      .notNull()
+      .default({ emails: [], phones: [], addresses: [] }),
+    mergedBy: integer("merged_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    mergedAt: timestamp("merged_at").defaultNow().notNull(),
+    undoneAt: timestamp("undone_at"),
+    undoneBy: integer("undone_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+  },
+  (table) => ({
+    survivorIdIdx: index("contact_merge_survivor_id_idx").on(table.survivorId),
+    mergedContactIdIdx: index("contact_merge_merged_contact_id_idx").on(
+      table.mergedContactId
+    ),
+  })
+);
+
+export type ContactMerge = typeof contactMerge.$inferSelect;
+export type NewContactMerge = typeof contactMerge.$inferInsert;
+
 // *** UPDATED RELATIONS (with new solicitor relations) ***
 
 export const contactRelations = relations(contact, ({ many }) => ({
@@ -607,6 +1414,32 @@ export const contactRelations = relations(contact, ({ many }) => ({
   auditLogs: many(auditLog),
   // *** NEW RELATION ***
   solicitor: many(solicitor),
+  credits: many(contactCredit),
+  emails: many(contactEmail),
+  phones: many(contactPhone),
+  addresses: many(contactAddress),
+  householdMemberships: many(householdMember),
+}));
+
+export const contactEmailRelations = relations(contactEmail, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactEmail.contactId],
+    references: [contact.id],
+  }),
+}));
+
+export const contactPhoneRelations = relations(contactPhone, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactPhone.contactId],
+    references: [contact.id],
+  }),
+}));
+
+export const contactAddressRelations = relations(contactAddress, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactAddress.contactId],
+    references: [contact.id],
+  }),
 }));
 
 export const contactRolesRelations = relations(contactRoles, ({ one }) => ({
@@ -636,6 +1469,24 @@ export const relationshipsRelations = relations(relationships, ({ one }) => ({
   }),
 }));
 
+export const householdRelations = relations(household, ({ many }) => ({
+  members: many(householdMember),
+}));
+
+export const householdMemberRelations = relations(
+  householdMember,
+  ({ one }) => ({
+    household: one(household, {
+      fields: [householdMember.householdId],
+      references: [household.id],
+    }),
+    contact: one(contact, {
+      fields: [householdMember.contactId],
+      references: [contact.id],
+    }),
+  })
+);
+
 export const categoryRelations = relations(category, ({ many }) => ({
   pledges: many(pledge),
 }));
@@ -651,6 +1502,7 @@ export const pledgeRelations = relations(pledge, ({ one, many }) => ({
   }),
   paymentPlans: many(paymentPlan),
   payments: many(payment),
+  paymentAllocations: many(paymentAllocation),
 }));
 
 export const paymentPlanRelations = relations(paymentPlan, ({ one, many }) => ({
@@ -658,11 +1510,67 @@ export const paymentPlanRelations = relations(paymentPlan, ({ one, many }) => ({
     fields: [paymentPlan.pledgeId],
     references: [pledge.id],
   }),
+  renewedFrom: one(paymentPlan, {
+    fields: [paymentPlan.renewedFromPlanId],
+    references: [paymentPlan.id],
+    relationName: "renewal",
+  }),
+  renewals: many(paymentPlan, { relationName: "renewal" }),
   payments: many(payment),
+  paymentAllocations: many(paymentAllocation),
+  installments: many(paymentPlanInstallment),
+  statusChanges: many(paymentPlanStatusChange),
+  reminders: many(paymentReminder),
 }));
 
+export const paymentPlanInstallmentRelations = relations(
+  paymentPlanInstallment,
+  ({ one }) => ({
+    paymentPlan: one(paymentPlan, {
+      fields: [paymentPlanInstallment.paymentPlanId],
+      references: [paymentPlan.id],
+    }),
+    payment: one(payment, {
+      fields: [paymentPlanInstallment.paymentId],
+      references: [payment.id],
+    }),
+  })
+);
+
+export const paymentPlanStatusChangeRelations = relations(
+  paymentPlanStatusChange,
+  ({ one }) => ({
+    paymentPlan: one(paymentPlan, {
+      fields: [paymentPlanStatusChange.paymentPlanId],
+      references: [paymentPlan.id],
+    }),
+    changedByUser: one(user, {
+      fields: [paymentPlanStatusChange.changedBy],
+      references: [user.id],
+    }),
+  })
+);
+
+export const paymentReminderRelations = relations(
+  paymentReminder,
+  ({ one }) => ({
+    paymentPlan: one(paymentPlan, {
+      fields: [paymentReminder.paymentPlanId],
+      references: [paymentPlan.id],
+    }),
+    installment: one(paymentPlanInstallment, {
+      fields: [paymentReminder.installmentId],
+      references: [paymentPlanInstallment.id],
+    }),
+    template: one(reminderTemplate, {
+      fields: [paymentReminder.templateId],
+      references: [reminderTemplate.id],
+    }),
+  })
+);
+
 // *** UPDATED PAYMENT RELATIONS (with solicitor) ***
-export const paymentRelations = relations(payment, ({ one }) => ({
+export const paymentRelations = relations(payment, ({ one, many }) => ({
   pledge: one(pledge, {
     fields: [payment.pledgeId],
     references: [pledge.id],
@@ -684,6 +1592,70 @@ export const paymentRelations = relations(payment, ({ one }) => ({
     fields: [payment.id],
     references: [bonusCalculation.paymentId],
   }),
+  receipts: many(receipt),
+  refundOf: one(payment, {
+    fields: [payment.refundOfPaymentId],
+    references: [payment.id],
+    relationName: "refund",
+  }),
+  refunds: many(payment, { relationName: "refund" }),
+  allocations: many(paymentAllocation),
+  depositBatch: one(depositBatch, {
+    fields: [payment.depositBatchId],
+    references: [depositBatch.id],
+  }),
+}));
+
+export const depositBatchRelations = relations(depositBatch, ({ many }) => ({
+  payments: many(payment),
+}));
+
+export const paymentAllocationRelations = relations(
+  paymentAllocation,
+  ({ one }) => ({
+    payment: one(payment, {
+      fields: [paymentAllocation.paymentId],
+      references: [payment.id],
+    }),
+    pledge: one(pledge, {
+      fields: [paymentAllocation.pledgeId],
+      references: [pledge.id],
+    }),
+    paymentPlan: one(paymentPlan, {
+      fields: [paymentAllocation.paymentPlanId],
+      references: [paymentPlan.id],
+    }),
+  })
+);
+
+export const contactCreditRelations = relations(contactCredit, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactCredit.contactId],
+    references: [contact.id],
+  }),
+  pledge: one(pledge, {
+    fields: [contactCredit.pledgeId],
+    references: [pledge.id],
+  }),
+  payment: one(payment, {
+    fields: [contactCredit.paymentId],
+    references: [payment.id],
+  }),
+  createdByUser: one(user, {
+    fields: [contactCredit.createdBy],
+    references: [user.id],
+  }),
+}));
+
+export const receiptRelations = relations(receipt, ({ one }) => ({
+  payment: one(payment, {
+    fields: [receipt.paymentId],
+    references: [payment.id],
+  }),
+  issuedByUser: one(user, {
+    fields: [receipt.issuedBy],
+    references: [user.id],
+  }),
 }));
 
 // *** NEW SOLICITOR RELATIONS ***
@@ -695,6 +1667,7 @@ export const solicitorRelations = relations(solicitor, ({ one, many }) => ({
   bonusRules: many(bonusRule),
   bonusCalculations: many(bonusCalculation),
   payments: many(payment),
+  users: many(user),
 }));
 
 export const bonusRuleRelations = relations(bonusRule, ({ one, many }) => ({
@@ -725,8 +1698,56 @@ export const bonusCalculationRelations = relations(
 );
 
 export const auditLogRelations = relations(auditLog, ({ one }) => ({
-  changedByContact: one(contact, {
+  contact: one(contact, {
+    fields: [auditLog.contactId],
+    references: [contact.id],
+  }),
+  changedByUser: one(user, {
     fields: [auditLog.changedBy],
+    references: [user.id],
+  }),
+}));
+
+export const userRelations = relations(user, ({ one, many }) => ({
+  solicitor: one(solicitor, {
+    fields: [user.solicitorId],
+    references: [solicitor.id],
+  }),
+  auditLogs: many(auditLog),
+  savedViews: many(savedView),
+}));
+
+export const savedViewRelations = relations(savedView, ({ one }) => ({
+  owner: one(user, {
+    fields: [savedView.ownerId],
+    references: [user.id],
+  }),
+}));
+
+export const contactMergeRelations = relations(contactMerge, ({ one }) => ({
+  survivor: one(contact, {
+    fields: [contactMerge.survivorId],
     references: [contact.id],
   }),
+  mergedByUser: one(user, {
+    fields: [contactMerge.mergedBy],
+    references: [user.id],
+  }),
 }));
+
+export const webhookEndpointRelations = relations(
+  webhookEndpoint,
+  ({ many }) => ({
+    deliveries: many(webhookDelivery),
+  })
+);
+
+export const webhookDeliveryRelations = relations(
+  webhookDelivery,
+  ({ one }) => ({
+    endpoint: one(webhookEndpoint, {
+      fields: [webhookDelivery.endpointId],
+      references: [webhookEndpoint.id],
+    }),
+  })
+);
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { DrizzleQueryError } from "drizzle-orm/errors";
 import { ZodError } from "zod";
 
 export interface ApiError {
@@ -13,9 +14,72 @@ export interface ApiError {
   code?: string;
 }
 
+// Thrown by server-side services to short-circuit a request with a status
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// What a unique violation means to the user, by the name of the constraint or
+// unique index it broke
+const UNIQUE_CONFLICTS: Record<string, ApiError> = {
+  contact_email_unique: {
+    message: "A contact with this email already exists",
+    type: "DUPLICATE_EMAIL",
+    field: "email",
+  },
+  user_email_unique: {
+    message: "A user with this email already exists",
+    type: "DUPLICATE_EMAIL",
+    field: "email",
+  },
+  category_name_unique: {
+    message: "A category with this name already exists",
+    type: "DUPLICATE_ENTRY",
+    field: "name",
+  },
+  solicitor_contact_id_unique: {
+    message: "This contact is already a solicitor",
+    type: "DUPLICATE_ENTRY",
+    field: "contactId",
+  },
+  solicitor_solicitor_code_unique: {
+    message: "A solicitor with this code already exists",
+    type: "DUPLICATE_ENTRY",
+    field: "solicitorCode",
+  },
+  relationships_unique: {
+    message: "This relationship already exists",
+    type: "DUPLICATE_ENTRY",
+  },
+  saved_view_owner_table_name_idx: {
+    message: "A saved view with this name already exists",
+    type: "DUPLICATE_ENTRY",
+    field: "name",
+  },
+};
+
 export class ErrorHandler {
-  static async handle(error: unknown): Promise<NextResponse> {
-    console.error("API Error:", error);
+  static async handle(thrown: unknown): Promise<NextResponse> {
+    // Drizzle wraps driver errors in a DrizzleQueryError, whose message is the
+    // failed SQL; the Postgres code and constraint are on its cause
+    const error =
+      thrown instanceof DrizzleQueryError && thrown.cause
+        ? thrown.cause
+        : thrown;
+    console.error("API Error:", thrown);
+
+    if (error instanceof HttpError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
 
     // Validation errors (Zod)
     if (error instanceof ZodError) {
@@ -37,13 +101,10 @@ export class ErrorHandler {
     if (error instanceof Error) {
       // Unique constraint violation
       if (this.isUniqueConstraintError(error)) {
-        return NextResponse.json(
-          {
-            message: "A contact with this email already exists",
-            type: "DUPLICATE_EMAIL",
-            field: "email",
-          } as ApiError,
-          { status: 409 }
+        return this.uniqueConflict(
+          "constraint" in error && typeof error.constraint === "string"
+            ? error.constraint
+            : this.extractConstraintFromError(error.message)
         );
       }
 
@@ -102,14 +163,7 @@ export class ErrorHandler {
       switch (dbError.code) {
         case "23505": // PostgreSQL unique violation
         case "SQLITE_CONSTRAINT_UNIQUE": // SQLite unique violation
-          return NextResponse.json(
-            {
-              message: "A contact with this email already exists",
-              type: "DUPLICATE_EMAIL",
-              field: "email",
-            } as ApiError,
-            { status: 409 }
-          );
+          return this.uniqueConflict(dbError.constraint);
         case "23502": // PostgreSQL not null violation
         case "SQLITE_CONSTRAINT_NOTNULL": // SQLite not null violation
           return NextResponse.json(
@@ -154,6 +208,17 @@ export class ErrorHandler {
     );
   }
 
+  private static uniqueConflict(constraint?: string): NextResponse {
+    return NextResponse.json(
+      (constraint && UNIQUE_CONFLICTS[constraint]) ||
+        ({
+          message: "A record with these details already exists",
+          type: "DUPLICATE_ENTRY",
+        } as ApiError),
+      { status: 409 }
+    );
+  }
+
   private static isUniqueConstraintError(error: Error): boolean {
     return (
       error.message.includes("unique constraint") ||
@@ -178,6 +243,12 @@ export class ErrorHandler {
     );
   }
 
+  private static extractConstraintFromError(
+    message: string
+  ): string | undefined {
+    return message.match(/constraint "([^"]+)"/)?.[1];
+  }
+
   private static extractFieldFromError(message: string): string {
     const match = message.match(/column "([^"]+)"/);
     return match ? match[1] : "unknown";
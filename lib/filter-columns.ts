@@ -0,0 +1,222 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  isValid,
+  parseISO,
+} from "date-fns";
+import {
+  and,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  notIlike,
+  notInArray,
+  or,
+  sql,
+  type AnyColumn,
+  type SQL,
+} from "drizzle-orm";
+import { dataTableConfig } from "@/config/data-table";
+import { getValidFilters } from "@/lib/data-table";
+import { HttpError } from "@/lib/error-handler";
+import { getFiltersStateParser, type FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
+
+export const FILTERS_KEY = "filters";
+export const JOIN_OPERATOR_KEY = "joinOperator";
+
+// Filter ids a route accepts, each mapped to the column or expression it
+// compares. These end up in a WHERE clause, so aggregates shown in a list are
+// written as correlated subqueries rather than the grouped SELECT fields.
+export type FilterableColumns = Record<string, AnyColumn | SQL>;
+
+export interface FilterParams {
+  filters: FilterItemSchema[];
+  joinOperator: JoinOperator;
+}
+
+/**
+ * Reads the `filters` and `joinOperator` query parameters the data table
+ * sends. Filters on columns the route does not list are rejected rather than
+ * silently ignored.
+ */
+export function parseFilterParams(
+  searchParams: URLSearchParams,
+  columns: FilterableColumns
+): FilterParams {
+  const joinOperator = (searchParams.get(JOIN_OPERATOR_KEY) ||
+    "and") as JoinOperator;
+  if (!dataTableConfig.joinOperators.includes(joinOperator)) {
+    throw new HttpError(400, "joinOperator must be 'and' or 'or'");
+  }
+
+  const raw = searchParams.get(FILTERS_KEY);
+  if (!raw) return { filters: [], joinOperator };
+
+  const filters = getFiltersStateParser(Object.keys(columns)).parse(raw);
+  if (!filters) {
+    throw new HttpError(
+      400,
+      `Invalid filters; filterable columns are ${Object.keys(columns).join(", ")}`
+    );
+  }
+  return { filters, joinOperator };
+}
+
+// Date filters arrive as YYYY-MM-DD, or as the epoch milliseconds the date
+// picker holds
+function toDay(value: string): string | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : parseISO(value);
+  return isValid(date) ? format(date, "yyyy-MM-dd") : null;
+}
+
+function toNumber(value: string): number | null {
+  const number = Number(value);
+  return value.trim() !== "" && Number.isFinite(number) ? number : null;
+}
+
+// "2 weeks" from today or "-1 months" back, covering the whole unit it lands
+// on
+function relativeRange(value: string): [string, string] | null {
+  const [amount, unit] = value.trim().split(/\s+/);
+  const count = Number.parseInt(amount, 10);
+  const units = {
+    days: addDays,
+    weeks: addWeeks,
+    months: addMonths,
+    years: addYears,
+  };
+  const add = units[unit as keyof typeof units];
+  if (Number.isNaN(count) || !add) return null;
+
+  const start = add(new Date(), count);
+  const end = addDays(add(start, 1), -1);
+  return [format(start, "yyyy-MM-dd"), format(end, "yyyy-MM-dd")];
+}
+
+// Typed text is matched literally, so LIKE's own wildcards and escape are
+// escaped before it is wrapped in %...%
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function filterCondition(
+  column: AnyColumn | SQL,
+  filter: FilterItemSchema
+): SQL | undefined {
+  const { operator, variant, value } = filter;
+  const values = Array.isArray(value) ? value : [value];
+  const single = Array.isArray(value) ? value[0] : value;
+  const isDate = variant === "date" || variant === "dateRange";
+  const isNumber = variant === "number" || variant === "range";
+
+  if (operator === "isEmpty") {
+    return variant === "text"
+      ? or(isNull(column), eq(sql`${column}::text`, ""))
+      : isNull(column);
+  }
+  if (operator === "isNotEmpty") {
+    return variant === "text"
+      ? and(isNotNull(column), ne(sql`${column}::text`, ""))
+      : isNotNull(column);
+  }
+
+  // Dates compare by calendar day, whether the column is a date or a timestamp
+  const target = isDate ? sql`${column}::date` : sql`${column}`;
+  const convert = (raw: string | undefined) => {
+    if (raw === undefined) return null;
+    if (isDate) return toDay(raw);
+    if (isNumber) return toNumber(raw);
+    if (variant === "boolean") return raw === "true";
+    return raw;
+  };
+
+  switch (operator) {
+    case "iLike":
+      return ilike(sql`${column}::text`, `%${escapeLike(single ?? "")}%`);
+    case "notILike":
+      return or(
+        isNull(column),
+        notIlike(sql`${column}::text`, `%${escapeLike(single ?? "")}%`)
+      );
+    case "inArray":
+    case "notInArray": {
+      if (values.length === 0) return undefined;
+      const list = sql`${column}::text`;
+      return operator === "inArray"
+        ? inArray(list, values)
+        : or(isNull(column), notInArray(list, values));
+    }
+    case "isBetween": {
+      const [from, to] = values.map(convert);
+      if (from === null && to === null) return undefined;
+      return and(
+        from !== null ? gte(target, from) : undefined,
+        to !== null ? lte(target, to) : undefined
+      );
+    }
+    case "isRelativeToToday": {
+      const range = relativeRange(single ?? "");
+      if (!range) return undefined;
+      return and(gte(target, range[0]), lte(target, range[1]));
+    }
+  }
+
+  const operand = convert(single);
+  if (operand === null) return undefined;
+  switch (operator) {
+    case "eq":
+      return variant === "select" || variant === "multiSelect"
+        ? eq(sql`${column}::text`, operand)
+        : eq(target, operand);
+    case "ne":
+      return or(
+        isNull(column),
+        variant === "select" || variant === "multiSelect"
+          ? ne(sql`${column}::text`, operand)
+          : ne(target, operand)
+      );
+    case "lt":
+      return lt(target, operand);
+    case "lte":
+      return lte(target, operand);
+    case "gt":
+      return gt(target, operand);
+    case "gte":
+      return gte(target, operand);
+  }
+}
+
+/**
+ * Turns data table filters into one WHERE condition, joined with AND or OR.
+ * Filters without a usable value are skipped, as the table itself does, so an
+ * empty or half-filled filter list returns undefined.
+ */
+export function filterColumns({
+  columns,
+  filters,
+  joinOperator,
+}: {
+  columns: FilterableColumns;
+  filters: FilterItemSchema[];
+  joinOperator: JoinOperator;
+}): SQL | undefined {
+  const conditions = getValidFilters<Record<string, unknown>>(filters)
+    .map((filter) =>
+      columns[filter.id] ? filterCondition(columns[filter.id], filter) : null
+    )
+    .filter((condition): condition is SQL => !!condition);
+
+  if (conditions.length === 0) return undefined;
+  return joinOperator === "or" ? or(...conditions) : and(...conditions);
+}
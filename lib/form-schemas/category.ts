@@ -4,4 +4,5 @@ export const categorySchema = z.object({
   name: z.string().min(1, "Category name is required"),
   description: z.string().optional(),
   isActive: z.boolean().default(true),
+  isTaxDeductible: z.boolean().default(false),
 });
@@ -1,5 +1,45 @@
 import { z } from "zod";
 
+export const contactEmailSchema = z.object({
+  email: z.string().email({ message: "Invalid email address" }),
+  type: z.enum(["personal", "work", "other"]),
+  isPrimary: z.boolean().optional(),
+});
+
+export const contactPhoneSchema = z.object({
+  countryCode: z
+    .string()
+    .regex(/^\+?\d{0,4}$/, { message: "Country code must be 1 to 4 digits" })
+    .optional(),
+  number: z
+    .string()
+    .min(5, { message: "Phone number must be at least 5 characters" })
+    .max(20, { message: "Phone number must be at most 20 characters" })
+    .regex(/^[\d\s()+.-]+$/, {
+      message: "Phone number can only contain digits, spaces and ( ) + - .",
+    }),
+  extension: z
+    .string()
+    .max(10, { message: "Extension must be at most 10 characters" })
+    .optional(),
+  type: z.enum(["mobile", "home", "work", "fax", "other"]),
+  isPrimary: z.boolean().optional(),
+});
+
+export const contactAddressSchema = z.object({
+  type: z.enum(["mailing", "billing", "home", "work", "other"]),
+  street: z
+    .string()
+    .min(3, { message: "Street must be at least 3 characters" })
+    .max(255, { message: "Street must be at most 255 characters" }),
+  street2: z.string().max(255).optional(),
+  city: z.string().max(100).optional(),
+  state: z.string().max(100).optional(),
+  postalCode: z.string().max(20).optional(),
+  country: z.string().max(100).optional(),
+  isPrimary: z.boolean().optional(),
+});
+
 export const contactFormSchema = z.object({
   firstName: z
     .string()
@@ -9,17 +49,11 @@ export const contactFormSchema = z.object({
     .string()
     .min(2, { message: "Last name must be at least 2 characters" })
     .max(32, { message: "Last name must be at most 32 characters" }),
-  email: z.string().email({ message: "Invalid email address" }),
-  phone: z
-    .string()
-    .min(7, { message: "Phone number must be at least 7 characters" })
-    .max(15, { message: "Phone number must be at most 15 characters" })
-    .optional(),
   title: z.enum(["mr", "mrs", "ms", "dr", "prof", "eng", "other"]).optional(),
   gender: z.enum(["male", "female"]).optional(),
-  address: z
-    .string()
-    .min(5, { message: "Address must be at least 5 characters" })
-    .max(255, { message: "Address must be at most 255 characters" })
-    .optional(),
+  emails: z
+    .array(contactEmailSchema)
+    .min(1, { message: "Add at least one email" }),
+  phones: z.array(contactPhoneSchema),
+  addresses: z.array(contactAddressSchema),
 });
@@ -1,3 +1,5 @@
+import type { ContactAddress, ContactPhone } from "@/lib/db/schema";
+
 export function formatDate(
   date: Date | string | number | undefined,
   opts: Intl.DateTimeFormatOptions = {}
@@ -16,3 +18,39 @@ export function formatDate(
     return "";
   }
 }
+
+export function formatPhone(
+  phone: Pick<ContactPhone, "countryCode" | "number" | "extension">
+): string {
+  return [
+    phone.countryCode ? `+${phone.countryCode}` : null,
+    phone.number,
+    phone.extension ? `ext. ${phone.extension}` : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Takes a contact address or a household's shared mailing address
+export function formatAddress(
+  address: Record<
+    keyof Pick<
+      ContactAddress,
+      "street" | "street2" | "city" | "state" | "postalCode" | "country"
+    >,
+    string | null
+  >
+): string {
+  const statePostal = [address.state, address.postalCode]
+    .filter(Boolean)
+    .join(" ");
+  return [
+    address.street,
+    address.street2,
+    address.city,
+    statePostal,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -12,6 +12,7 @@ interface CategoryResponse {
     name: string;
     description?: string;
     isActive: boolean;
+    isTaxDeductible: boolean;
     createdAt: string;
     updatedAt: string;
   };
@@ -0,0 +1,166 @@
+import { addMonths, addWeeks, addYears, format, parseISO } from "date-fns";
+import type { PaymentPlan } from "@/lib/db/schema";
+
+export type PlanFrequency = PaymentPlan["frequency"];
+
+/**
+ * Moves an ISO date (yyyy-MM-dd) forward by `steps` periods of the given
+ * frequency. One-time and custom plans have no fixed period, so the date is
+ * returned unchanged.
+ */
+export function addFrequency(
+  date: string,
+  frequency: PlanFrequency,
+  steps = 1
+): string {
+  const start = parseISO(date);
+
+  switch (frequency) {
+    case "weekly":
+      return format(addWeeks(start, steps), "yyyy-MM-dd");
+    case "monthly":
+      return format(addMonths(start, steps), "yyyy-MM-dd");
+    case "quarterly":
+      return format(addMonths(start, steps * 3), "yyyy-MM-dd");
+    case "biannual":
+      return format(addMonths(start, steps * 6), "yyyy-MM-dd");
+    case "annual":
+      return format(addYears(start, steps), "yyyy-MM-dd");
+    default:
+      return date;
+  }
+}
+
+/**
+ * Due date of the installment following `installmentsPaid` paid ones, or null
+ * once the plan has no installments left.
+ */
+export function nextDueDate(
+  plan: Pick<PaymentPlan, "startDate" | "frequency" | "numberOfInstallments">,
+  installmentsPaid: number
+): string | null {
+  if (installmentsPaid >= plan.numberOfInstallments) return null;
+  return addFrequency(plan.startDate, plan.frequency, installmentsPaid);
+}
+
+export interface ScheduledInstallment {
+  installmentNumber: number;
+  dueDate: string;
+  amount: string;
+}
+
+/**
+ * Lays out a plan's installments from its start date and frequency. Amounts
+ * are worked in cents and the last installment takes up any rounding, so the
+ * schedule adds up to the planned total; installments never run past the
+ * total, even for a plan saved before its amounts were checked. Custom plans
+ * have no fixed period and get no generated schedule.
+ */
+export function buildSchedule(
+  plan: Pick<
+    PaymentPlan,
+    | "startDate"
+    | "frequency"
+    | "numberOfInstallments"
+    | "installmentAmount"
+    | "totalPlannedAmount"
+  >
+): ScheduledInstallment[] {
+  const totalCents = Math.round(parseFloat(plan.totalPlannedAmount) * 100);
+
+  if (plan.frequency === "custom") return [];
+  if (plan.frequency === "one_time") {
+    return [
+      {
+        installmentNumber: 1,
+        dueDate: plan.startDate,
+        amount: (totalCents / 100).toFixed(2),
+      },
+    ];
+  }
+
+  const count = Math.max(plan.numberOfInstallments, 1);
+  const installmentCents = Math.round(parseFloat(plan.installmentAmount) * 100);
+  let remainingCents = totalCents;
+
+  return Array.from({ length: count }, (_, index) => {
+    const isLast = index === count - 1;
+    const cents = isLast
+      ? Math.max(remainingCents, 0)
+      : Math.min(installmentCents, Math.max(remainingCents, 0));
+    remainingCents -= cents;
+    return {
+      installmentNumber: index + 1,
+      dueDate: addFrequency(plan.startDate, plan.frequency, index),
+      amount: (cents / 100).toFixed(2),
+    };
+  });
+}
+
+/**
+ * Explains why a plan's installment amount and count do not make up its total,
+ * or returns null when they do. All but the last installment are the
+ * installment amount, so those must leave something for the last one, which
+ * may be smaller or at most a cent per installment larger to take up the
+ * rounding of an evenly split total. Amounts are compared in cents.
+ */
+export function validateInstallmentPlan(
+  totalPlannedAmount: number,
+  installmentAmount: number,
+  numberOfInstallments: number
+): string | null {
+  const totalCents = Math.round(totalPlannedAmount * 100);
+  const installmentCents = Math.round(installmentAmount * 100);
+  const lastCents = totalCents - installmentCents * (numberOfInstallments - 1);
+  if (lastCents <= 0 || lastCents - installmentCents > numberOfInstallments) {
+    return `${numberOfInstallments} installments of ${(installmentCents / 100).toFixed(2)} do not add up to the plan total of ${(totalCents / 100).toFixed(2)}`;
+  }
+  return null;
+}
+
+export interface CustomInstallmentInput {
+  dueDate: string;
+  amount: number;
+}
+
+/**
+ * Numbers an explicitly entered schedule in due date order. Used for custom
+ * plans, whose dates and amounts are set by hand rather than by a frequency.
+ */
+export function buildCustomSchedule(
+  entries: CustomInstallmentInput[]
+): ScheduledInstallment[] {
+  return [...entries]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .map((entry, index) => ({
+      installmentNumber: index + 1,
+      dueDate: entry.dueDate,
+      amount: entry.amount.toFixed(2),
+    }));
+}
+
+/**
+ * Explains why an explicit schedule cannot be used for a plan of the given
+ * total, or returns null when it can. Amounts are compared in cents.
+ */
+export function validateCustomSchedule(
+  entries: CustomInstallmentInput[],
+  totalPlannedAmount: number
+): string | null {
+  if (entries.length === 0) {
+    return "A custom plan needs at least one installment";
+  }
+  if (entries.some((entry) => !/^\d{4}-\d{2}-\d{2}$/.test(entry.dueDate))) {
+    return "Installment due dates must be formatted as yyyy-MM-dd";
+  }
+
+  const scheduledCents = entries.reduce(
+    (sum, entry) => sum + Math.round(entry.amount * 100),
+    0
+  );
+  const totalCents = Math.round(totalPlannedAmount * 100);
+  if (scheduledCents !== totalCents) {
+    return `Installments add up to ${(scheduledCents / 100).toFixed(2)}, but the plan total is ${(totalCents / 100).toFixed(2)}`;
+  }
+  return null;
+}
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type AuditTableName =
+  | "contact"
+  | "pledge"
+  | "payment"
+  | "payment_plan"
+  | "solicitor"
+  | "bonus_rule"
+  | "bonus_calculation"
+  | "contact_credit";
+
+export interface AuditLogQueryParams {
+  contactId: number;
+  page?: number;
+  limit?: number;
+  tableName?: AuditTableName;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  tableName: AuditTableName;
+  recordId: number;
+  action: "create" | "update" | "delete";
+  fieldName: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  changedBy: number | null;
+  changedByName: string | null;
+  changedAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditLogResponse {
+  auditLog: AuditLogEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+export const auditLogKeys = {
+  all: ["audit-log"] as const,
+  contact: (params: AuditLogQueryParams) =>
+    [...auditLogKeys.all, "contact", params] as const,
+};
+
+const fetchContactAuditLog = async ({
+  contactId,
+  ...params
+}: AuditLogQueryParams): Promise<AuditLogResponse> => {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      searchParams.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch(
+    `/api/contacts/${contactId}/audit-log?${searchParams.toString()}`
+  );
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to fetch history: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+export const useContactAuditLogQuery = (params: AuditLogQueryParams) => {
+  return useQuery({
+    queryKey: auditLogKeys.contact(params),
+    queryFn: () => fetchContactAuditLog(params),
+    enabled: params.contactId > 0,
+    staleTime: 1000 * 60,
+  });
+};
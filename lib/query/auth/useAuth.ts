@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export interface CurrentUser {
+  id: number;
+  email: string;
+  name: string | null;
+  role: "admin" | "finance" | "registrar" | "solicitor";
+  solicitorId: number | null;
+}
+
+export interface LoginData {
+  email: string;
+  password: string;
+}
+
+export const authKeys = {
+  me: ["auth", "me"] as const,
+};
+
+export const useCurrentUserQuery = () => {
+  return useQuery({
+    queryKey: authKeys.me,
+    queryFn: async (): Promise<CurrentUser | null> => {
+      const response = await fetch("/api/auth/me");
+      if (response.status === 401) return null;
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch current user");
+      }
+      const data = await response.json();
+      return data.user;
+    },
+    staleTime: 1000 * 60 * 5,
+    retry: false,
+  });
+};
+
+export const useLoginMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: LoginData): Promise<CurrentUser> => {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to sign in");
+      }
+      const result = await response.json();
+      return result.user;
+    },
+    onSuccess: (user) => {
+      queryClient.clear();
+      queryClient.setQueryData(authKeys.me, user);
+    },
+  });
+};
+
+export const useLogoutMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/logout", { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to sign out");
+      }
+    },
+    onSuccess: () => {
+      queryClient.clear();
+    },
+  });
+};
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export interface Category {
+  id: number;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  isTaxDeductible: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateCategoryData {
+  categoryId: number;
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  isTaxDeductible?: boolean;
+}
+
+// Shares its root with useCreateCategory, which invalidates ["categories"]
+export const categoryKeys = {
+  all: ["categories"] as const,
+  list: () => [...categoryKeys.all, "list"] as const,
+};
+
+export const useCategoriesQuery = () => {
+  return useQuery({
+    queryKey: categoryKeys.list(),
+    queryFn: async (): Promise<{ categories: Category[] }> => {
+      const response = await fetch(
+        "/api/categories?limit=100&sortBy=name&sortOrder=asc"
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.error ||
+            `Failed to fetch categories: ${response.statusText}`
+        );
+      }
+      return response.json();
+    },
+  });
+};
+
+export const useUpdateCategoryMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      categoryId,
+      ...data
+    }: UpdateCategoryData): Promise<{
+      message: string;
+      category: Category;
+    }> => {
+      const response = await fetch(`/api/categories/${categoryId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details?.[0]?.message ||
+            errorData.message ||
+            errorData.error ||
+            `Failed to update category: ${response.statusText}`
+        );
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+    },
+  });
+};
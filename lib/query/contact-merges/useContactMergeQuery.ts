@@ -0,0 +1,170 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type MergeableField =
+  "firstName" | "lastName" | "email" | "phone" | "title" | "gender" | "address";
+
+export type FieldSource = "survivor" | "merged";
+
+export interface MergeContact {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  title: string | null;
+  gender: "male" | "female" | null;
+  address: string | null;
+}
+
+export interface DuplicatePair {
+  contact: Omit<MergeContact, "title" | "gender">;
+  duplicate: Omit<MergeContact, "title" | "gender">;
+  score: number;
+  reasons: string[];
+}
+
+export interface MergePreview {
+  survivor: MergeContact;
+  merged: MergeContact;
+  fields: Record<MergeableField, FieldSource>;
+  counts: {
+    pledges: number;
+    studentRoles: number;
+    contactRoles: number;
+    relationships: number;
+    solicitors: number;
+    credits: number;
+  };
+  blocker: string | null;
+}
+
+export interface ContactMerge {
+  id: number;
+  survivorId: number;
+  mergedContactId: number;
+  survivorName: string;
+  mergedName: string;
+  mergedByName: string | null;
+  mergedAt: string;
+  undoneAt: string | null;
+  canUndo: boolean;
+}
+
+export interface MergeContactsData {
+  survivorId: number;
+  mergedContactId: number;
+  fields: Partial<Record<MergeableField, FieldSource>>;
+}
+
+export const contactMergeKeys = {
+  all: ["contact-merges"] as const,
+  duplicates: (minScore: number) =>
+    [...contactMergeKeys.all, "duplicates", minScore] as const,
+  preview: (survivorId: number, mergedContactId: number) =>
+    [...contactMergeKeys.all, "preview", survivorId, mergedContactId] as const,
+  list: () => [...contactMergeKeys.all, "list"] as const,
+};
+
+const getJson = async <T>(url: string, action: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+const postJson = async <T>(
+  url: string,
+  data: object | undefined,
+  action: string
+): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.details?.[0]?.message ||
+        errorData.error ||
+        `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+export const useDuplicateContactsQuery = (minScore: number) => {
+  return useQuery({
+    queryKey: contactMergeKeys.duplicates(minScore),
+    queryFn: () =>
+      getJson<{ duplicates: DuplicatePair[] }>(
+        `/api/contacts/duplicates?minScore=${minScore}`,
+        "find duplicates"
+      ),
+  });
+};
+
+export const useMergePreviewQuery = (
+  survivorId: number | null,
+  mergedContactId: number | null
+) => {
+  return useQuery({
+    queryKey: contactMergeKeys.preview(survivorId ?? 0, mergedContactId ?? 0),
+    queryFn: () =>
+      getJson<MergePreview>(
+        `/api/contact-merges/preview?survivorId=${survivorId}&mergedContactId=${mergedContactId}`,
+        "preview merge"
+      ),
+    enabled: !!survivorId && !!mergedContactId,
+  });
+};
+
+export const useContactMergesQuery = () => {
+  return useQuery({
+    queryKey: contactMergeKeys.list(),
+    queryFn: () =>
+      getJson<{ merges: ContactMerge[] }>(
+        "/api/contact-merges",
+        "fetch merges"
+      ),
+  });
+};
+
+// A merge moves pledges, payments and roles between contacts, so every
+// cached list may be out of date
+const useContactMergeMutation = <T>(
+  mutationFn: (data: T) => Promise<{ message: string }>
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+};
+
+export const useMergeContactsMutation = () =>
+  useContactMergeMutation((data: MergeContactsData) =>
+    postJson<{ message: string; merge: ContactMerge }>(
+      "/api/contact-merges",
+      data,
+      "merge contacts"
+    )
+  );
+
+export const useUndoMergeMutation = () =>
+  useContactMergeMutation((mergeId: number) =>
+    postJson<{ message: string }>(
+      `/api/contact-merges/${mergeId}/undo`,
+      undefined,
+      "undo merge"
+    )
+  );
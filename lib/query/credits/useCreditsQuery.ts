@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type CreditType = "unapplied" | "overpayment" | "applied";
+
+export interface CreditBalance {
+  currency: string;
+  balance: string;
+  balanceUsd: string;
+}
+
+export interface ContactCreditEntry {
+  id: number;
+  creditType: CreditType;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  creditDate: string;
+  pledgeId: number | null;
+  pledgeDescription: string | null;
+  paymentId: number | null;
+  paymentStatus: string | null;
+  paymentMethod: string | null;
+  referenceNumber: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface ContactCreditsResponse {
+  balances: CreditBalance[];
+  credits: ContactCreditEntry[];
+}
+
+export interface RecordUnappliedPaymentData {
+  contactId: number;
+  amount: number;
+  currency: string;
+  creditDate?: string;
+  paymentMethod?: string;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+export interface ApplyCreditData {
+  contactId: number;
+  pledgeId: number;
+  amount?: number;
+  notes?: string;
+}
+
+export const creditKeys = {
+  all: ["credits"] as const,
+  contact: (contactId: number) => [...creditKeys.all, contactId] as const,
+};
+
+const fetchContactCredits = async (
+  contactId: number
+): Promise<ContactCreditsResponse> => {
+  const response = await fetch(`/api/credits?contactId=${contactId}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to fetch credits: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+const postCredit = async (url: string, data: object, action: string) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json() as Promise<{ message: string }>;
+};
+
+export const useContactCreditsQuery = (contactId: number) => {
+  return useQuery({
+    queryKey: creditKeys.contact(contactId),
+    queryFn: () => fetchContactCredits(contactId),
+    enabled: !!contactId,
+  });
+};
+
+// Both change pledge totals and the contact summary, so everything is
+// refetched
+export const useRecordUnappliedPaymentMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: RecordUnappliedPaymentData) =>
+      postCredit("/api/credits", data, "record unapplied payment"),
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+};
+
+export const useApplyCreditMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ApplyCreditData) =>
+      postCredit("/api/credits/apply", data, "apply credit"),
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+};
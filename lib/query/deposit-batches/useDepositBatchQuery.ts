@@ -0,0 +1,212 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type DepositBatchStatus = "open" | "deposited" | "reconciled";
+
+export interface DepositBatchTotal {
+  currency: string;
+  count: number;
+  amount: number;
+  amountUsd: number;
+}
+
+export interface DepositBatch {
+  id: number;
+  depositDate: string;
+  bankAccount: string;
+  status: DepositBatchStatus;
+  notes: string | null;
+  depositedAt: string | null;
+  bankReference: string | null;
+  reconciledAt: string | null;
+  createdAt: string;
+  paymentCount: number;
+  totals: DepositBatchTotal[];
+}
+
+export interface DepositBatchPayment {
+  id: number;
+  pledgeId: number;
+  pledgeDescription: string | null;
+  contactId: number;
+  contactName: string;
+  paymentDate: string;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  paymentStatus: string;
+  checkNumber: string | null;
+  referenceNumber: string | null;
+}
+
+export interface DepositBatchDetail {
+  batch: DepositBatch;
+  payments: DepositBatchPayment[];
+}
+
+export interface CreateDepositBatchData {
+  depositDate?: string;
+  bankAccount: string;
+  notes?: string;
+  paymentIds?: number[];
+}
+
+export interface ReconcileDepositBatchData {
+  batchId: number;
+  bankTotals: { currency: string; amount: number }[];
+  bankReference?: string;
+}
+
+export const depositBatchKeys = {
+  all: ["deposit-batches"] as const,
+  list: (status?: DepositBatchStatus) =>
+    [...depositBatchKeys.all, "list", status ?? "all"] as const,
+  detail: (batchId: number) =>
+    [...depositBatchKeys.all, "detail", batchId] as const,
+  undeposited: () => [...depositBatchKeys.all, "undeposited"] as const,
+};
+
+const getJson = async <T>(url: string, action: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+const sendJson = async <T = { message: string }>(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  data: object | undefined,
+  action: string
+) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.details?.[0]?.message ||
+        errorData.error ||
+        `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json() as Promise<T>;
+};
+
+export const useDepositBatchesQuery = (status?: DepositBatchStatus) => {
+  return useQuery({
+    queryKey: depositBatchKeys.list(status),
+    queryFn: () =>
+      getJson<{ batches: DepositBatch[] }>(
+        `/api/deposit-batches${status ? `?status=${status}` : ""}`,
+        "fetch deposit batches"
+      ),
+  });
+};
+
+export const useDepositBatchQuery = (batchId: number | null) => {
+  return useQuery({
+    queryKey: depositBatchKeys.detail(batchId ?? 0),
+    queryFn: () =>
+      getJson<DepositBatchDetail>(
+        `/api/deposit-batches/${batchId}`,
+        "fetch deposit batch"
+      ),
+    enabled: !!batchId,
+  });
+};
+
+export const useUndepositedChecksQuery = () => {
+  return useQuery({
+    queryKey: depositBatchKeys.undeposited(),
+    queryFn: () =>
+      getJson<{ payments: DepositBatchPayment[] }>(
+        "/api/deposit-batches/undeposited",
+        "fetch undeposited checks"
+      ),
+  });
+};
+
+// Batch changes also show on the payments, so everything is refetched
+const useBatchMutation = <T, R extends { message: string }>(
+  mutationFn: (data: T) => Promise<R>
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+};
+
+export const useCreateDepositBatchMutation = () =>
+  useBatchMutation((data: CreateDepositBatchData) =>
+    sendJson<{ message: string; batch: DepositBatch }>(
+      "/api/deposit-batches",
+      "POST",
+      data,
+      "create deposit batch"
+    )
+  );
+
+export const useDeleteDepositBatchMutation = () =>
+  useBatchMutation((batchId: number) =>
+    sendJson(
+      `/api/deposit-batches/${batchId}`,
+      "DELETE",
+      undefined,
+      "delete deposit batch"
+    )
+  );
+
+export const useAddBatchPaymentsMutation = () =>
+  useBatchMutation(
+    ({ batchId, paymentIds }: { batchId: number; paymentIds: number[] }) =>
+      sendJson(
+        `/api/deposit-batches/${batchId}/payments`,
+        "POST",
+        { paymentIds },
+        "add payments"
+      )
+  );
+
+export const useRemoveBatchPaymentsMutation = () =>
+  useBatchMutation(
+    ({ batchId, paymentIds }: { batchId: number; paymentIds: number[] }) =>
+      sendJson(
+        `/api/deposit-batches/${batchId}/payments`,
+        "DELETE",
+        { paymentIds },
+        "remove payments"
+      )
+  );
+
+export const useDepositBatchMutation = () =>
+  useBatchMutation(
+    ({ batchId, depositDate }: { batchId: number; depositDate?: string }) =>
+      sendJson(
+        `/api/deposit-batches/${batchId}/deposit`,
+        "POST",
+        { depositDate },
+        "mark batch deposited"
+      )
+  );
+
+export const useReconcileDepositBatchMutation = () =>
+  useBatchMutation(({ batchId, ...data }: ReconcileDepositBatchData) =>
+    sendJson(
+      `/api/deposit-batches/${batchId}/reconcile`,
+      "POST",
+      data,
+      "reconcile batch"
+    )
+  );
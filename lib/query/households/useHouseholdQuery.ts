@@ -0,0 +1,218 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type HouseholdRole = "head" | "spouse" | "child" | "other";
+
+export interface HouseholdGiving {
+  pledgeCount: number;
+  pledgedUsd: number;
+  paidUsd: number;
+  balanceUsd: number;
+}
+
+export interface Household {
+  id: number;
+  name: string;
+  street: string | null;
+  street2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  headContactId: number | null;
+  headName: string | null;
+  memberCount: number;
+  studentCount: number;
+  giving: HouseholdGiving;
+}
+
+export interface HouseholdMember {
+  id: number;
+  contactId: number;
+  contactName: string;
+  email: string | null;
+  role: HouseholdRole;
+  giving: HouseholdGiving;
+}
+
+export interface HouseholdStudent {
+  id: number;
+  contactId: number;
+  contactName: string;
+  year: string;
+  program: string;
+  track: string;
+  status: string;
+  isActive: boolean;
+}
+
+export interface HouseholdPledge {
+  id: number;
+  contactId: number;
+  contactName: string;
+  pledgeDate: string;
+  description: string | null;
+  categoryName: string | null;
+  currency: string;
+  originalAmount: string;
+  originalAmountUsd: string | null;
+  totalPaidUsd: string | null;
+  balanceUsd: string | null;
+  isActive: boolean;
+}
+
+export interface HouseholdDetail {
+  household: Household;
+  members: HouseholdMember[];
+  students: HouseholdStudent[];
+  pledges: HouseholdPledge[];
+}
+
+export interface HouseholdFormData {
+  name: string;
+  street?: string | null;
+  street2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+  notes?: string | null;
+  members?: { contactId: number; role: HouseholdRole }[];
+}
+
+export interface PlannedHousehold {
+  householdId: number | null;
+  name: string;
+  members: { contactId: number; contactName: string; role: HouseholdRole }[];
+}
+
+export interface BuildHouseholdsResult {
+  message: string;
+  created: PlannedHousehold[];
+  extended: PlannedHousehold[];
+}
+
+export const householdKeys = {
+  all: ["households"] as const,
+  list: (search?: string) =>
+    [...householdKeys.all, "list", search ?? ""] as const,
+  detail: (householdId: number) =>
+    [...householdKeys.all, "detail", householdId] as const,
+};
+
+const getJson = async <T>(url: string, action: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+const sendJson = async <T = { message: string }>(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  data: object | undefined,
+  action: string
+) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.details?.[0]?.message ||
+        errorData.error ||
+        `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json() as Promise<T>;
+};
+
+export const useHouseholdsQuery = (search?: string) => {
+  return useQuery({
+    queryKey: householdKeys.list(search),
+    queryFn: () =>
+      getJson<{ households: Household[] }>(
+        `/api/households${search ? `?search=${encodeURIComponent(search)}` : ""}`,
+        "fetch households"
+      ),
+  });
+};
+
+export const useHouseholdQuery = (householdId: number | null) => {
+  return useQuery({
+    queryKey: householdKeys.detail(householdId ?? 0),
+    queryFn: () =>
+      getJson<HouseholdDetail>(
+        `/api/households/${householdId}`,
+        "fetch household"
+      ),
+    enabled: !!householdId,
+  });
+};
+
+const useHouseholdMutation = <T, R extends { message: string }>(
+  mutationFn: (data: T) => Promise<R>
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: householdKeys.all });
+    },
+  });
+};
+
+export const useCreateHouseholdMutation = () =>
+  useHouseholdMutation((data: HouseholdFormData) =>
+    sendJson<{ message: string; household: Household }>(
+      "/api/households",
+      "POST",
+      data,
+      "create household"
+    )
+  );
+
+export const useUpdateHouseholdMutation = () =>
+  useHouseholdMutation(
+    ({
+      householdId,
+      ...data
+    }: Partial<HouseholdFormData> & { householdId: number }) =>
+      sendJson(
+        `/api/households/${householdId}`,
+        "PATCH",
+        data,
+        "update household"
+      )
+  );
+
+export const useDeleteHouseholdMutation = () =>
+  useHouseholdMutation((householdId: number) =>
+    sendJson(
+      `/api/households/${householdId}`,
+      "DELETE",
+      undefined,
+      "delete household"
+    )
+  );
+
+export const useBuildHouseholdsMutation = () =>
+  useHouseholdMutation((data: { dryRun?: boolean }) =>
+    sendJson<BuildHouseholdsResult>(
+      "/api/households/build",
+      "POST",
+      data,
+      "build households"
+    )
+  );
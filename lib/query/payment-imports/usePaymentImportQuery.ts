@@ -0,0 +1,174 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+export type ImportSource = "stripe" | "paypal" | "bank";
+
+export type ImportField =
+  | "date"
+  | "amount"
+  | "currency"
+  | "reference"
+  | "name"
+  | "email"
+  | "description"
+  | "status";
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type DateFormat = "ymd" | "mdy" | "dmy";
+
+export interface ImportCandidate {
+  contactId: number;
+  contactName: string;
+  pledgeId: number;
+  pledgeDescription: string | null;
+  pledgeBalance: string;
+  paymentPlanId: number | null;
+  installmentNumber: number | null;
+  installmentDueDate: string | null;
+  score: number;
+  confidence: "high" | "medium" | "low";
+  reasons: string[];
+}
+
+export interface ImportLine {
+  lineNumber: number;
+  paymentDate: string | null;
+  amount: number | null;
+  currency: string | null;
+  reference: string | null;
+  name: string | null;
+  email: string | null;
+  description: string | null;
+  status: "matched" | "unmatched" | "duplicate" | "skipped" | "invalid";
+  message: string | null;
+  contact: { id: number; name: string } | null;
+  match: ImportCandidate | null;
+  candidates: ImportCandidate[];
+}
+
+export interface PreviewPaymentImportData {
+  source: ImportSource;
+  csv: string;
+  mapping?: ColumnMapping;
+  dateFormat?: DateFormat;
+  defaultCurrency?: string;
+}
+
+export interface PreviewPaymentImportResponse {
+  headers: string[];
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  lines: ImportLine[];
+  summary: {
+    total: number;
+    matched: number;
+    unmatched: number;
+    duplicate: number;
+    skipped: number;
+    invalid: number;
+  };
+}
+
+export interface ConfirmedImportLine {
+  lineNumber: number;
+  paymentDate: string;
+  amount: number;
+  currency: string;
+  reference?: string;
+  description?: string;
+  pledgeId?: number;
+  paymentPlanId?: number | null;
+  contactId?: number;
+}
+
+export interface PostPaymentImportResponse {
+  message: string;
+  results: {
+    lineNumber: number;
+    status: "posted" | "credited" | "failed";
+    paymentId?: number;
+    creditId?: number;
+    error?: string;
+  }[];
+}
+
+// Carries the file's headers when the server could not find the date or
+// amount column, so the mapping can be chosen by hand
+export class ImportMappingError extends Error {
+  constructor(
+    message: string,
+    public headers: string[],
+    public mapping: ColumnMapping
+  ) {
+    super(message);
+  }
+}
+
+const previewPaymentImport = async (
+  data: PreviewPaymentImportData
+): Promise<PreviewPaymentImportResponse> => {
+  const response = await fetch("/api/payment-imports/preview", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    if (errorData.headers) {
+      throw new ImportMappingError(
+        errorData.error,
+        errorData.headers,
+        errorData.mapping ?? {}
+      );
+    }
+    throw new Error(
+      errorData.details?.[0]?.message ||
+        errorData.error ||
+        `Failed to read import: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+const postPaymentImport = async (data: {
+  source: ImportSource;
+  lines: ConfirmedImportLine[];
+}): Promise<PostPaymentImportResponse> => {
+  const response = await fetch("/api/payment-imports", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to import payments: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+export const usePreviewPaymentImportMutation = () => {
+  return useMutation({
+    mutationFn: previewPaymentImport,
+  });
+};
+
+export const usePostPaymentImportMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: postPaymentImport,
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+    onError: (error) => {
+      console.error("Error importing payments:", error);
+    },
+  });
+};
@@ -1,5 +1,13 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
+
+export interface CustomInstallment {
+  dueDate: string;
+  amount: number;
+}
 
 export interface PaymentPlanFormData {
   pledgeId: number;
@@ -20,8 +28,11 @@ export interface PaymentPlanFormData {
   endDate?: string;
   nextPaymentDate?: string;
   autoRenew: boolean;
+  renewWithNewPledge?: boolean;
   notes?: string;
   internalNotes?: string;
+  // Required for custom plans, whose installments are entered by hand
+  customSchedule?: CustomInstallment[];
 }
 
 export interface PaymentPlanUpdateData
@@ -46,6 +57,8 @@ export interface PaymentPlan {
   remainingAmount: number;
   planStatus: "active" | "completed" | "cancelled" | "paused" | "overdue";
   autoRenew: boolean;
+  renewWithNewPledge: boolean;
+  renewedFromPlanId?: number | null;
   isActive: boolean;
   notes?: string;
   internalNotes?: string;
@@ -56,6 +69,46 @@ export interface PaymentPlan {
   contactId?: number;
 }
 
+export interface PaymentPlanInstallment {
+  id: number;
+  paymentPlanId: number;
+  installmentNumber: number;
+  dueDate: string;
+  amount: string;
+  status: "pending" | "partially_paid" | "paid" | "overdue" | "cancelled";
+  paymentId: number | null;
+  paidAmount: string | null;
+  paidDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentPlanStatusChange {
+  id: number;
+  fromStatus: PaymentPlan["planStatus"];
+  toStatus: PaymentPlan["planStatus"];
+  reason: string | null;
+  changedBy: number | null;
+  changedByName: string | null;
+  createdAt: string;
+}
+
+export interface PaymentReminder {
+  id: number;
+  installmentId: number | null;
+  templateId: number | null;
+  templateName: string | null;
+  channel: "email" | "sms";
+  recipient: string | null;
+  subject: string | null;
+  body: string;
+  dueDate: string;
+  status: "sent" | "failed" | "skipped";
+  transport: string;
+  error: string | null;
+  createdAt: string;
+}
+
 export interface PledgeDetails {
   pledge: {
     id: number;
@@ -145,8 +198,12 @@ export const usePaymentPlansQuery = (params?: {
   limit?: number;
   planStatus?: string;
   frequency?: string;
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
 }) => {
-  const searchParams = new URLSearchParams();
+  const searchParams = new URLSearchParams(
+    getFilterSearchParams(params?.filters, params?.joinOperator)
+  );
 
   if (params?.pledgeId)
     searchParams.append("pledgeId", params.pledgeId.toString());
@@ -197,6 +254,64 @@ export const usePaymentPlanQuery = (planId: number) => {
   });
 };
 
+export const usePaymentPlanInstallmentsQuery = (planId: number) => {
+  return useQuery({
+    queryKey: ["payment-plan", planId, "installments"],
+    queryFn: async (): Promise<{ installments: PaymentPlanInstallment[] }> => {
+      const response = await fetch(`/api/payment-plans/${planId}/installments`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch installments");
+      }
+
+      return response.json();
+    },
+    enabled: !!planId && planId > 0,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const usePaymentPlanStatusHistoryQuery = (planId: number) => {
+  return useQuery({
+    queryKey: ["payment-plan", planId, "status-history"],
+    queryFn: async (): Promise<{
+      statusChanges: PaymentPlanStatusChange[];
+    }> => {
+      const response = await fetch(
+        `/api/payment-plans/${planId}/status-history`
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch status history");
+      }
+
+      return response.json();
+    },
+    enabled: !!planId && planId > 0,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const usePaymentPlanRemindersQuery = (planId: number) => {
+  return useQuery({
+    queryKey: ["payment-plan", planId, "reminders"],
+    queryFn: async (): Promise<{ reminders: PaymentReminder[] }> => {
+      const response = await fetch(`/api/payment-plans/${planId}/reminders`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch reminders");
+      }
+
+      return response.json();
+    },
+    enabled: !!planId && planId > 0,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
 export const usePledgeDetailsQuery = (pledgeId: number) => {
   return useQuery({
     queryKey: ["pledge-details", pledgeId],
@@ -1,4 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 export interface PaymentQueryParams {
   pledgeId?: number;
@@ -25,6 +28,8 @@ export interface PaymentQueryParams {
   startDate?: string;
   endDate?: string;
   hasSolicitor?: boolean;
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
 }
 
 export interface Payment {
@@ -49,6 +54,13 @@ export interface Payment {
   bonusRuleId: number | null;
   notes: string | null;
   paymentPlanId: number | null;
+  // Set on refunds, which are negative entries against the refunded payment
+  refundOfPaymentId: number | null;
+  // Only on split payments
+  allocations: PaymentAllocationSummary[] | null;
+  // Checks that have gone into a bank deposit
+  depositBatchId: number | null;
+  depositBatchStatus: "open" | "deposited" | "reconciled" | null;
   createdAt: string;
   updatedAt: string;
   // Joined data
@@ -58,6 +70,14 @@ export interface Payment {
   solicitorName: string | null;
 }
 
+export interface PaymentAllocationSummary {
+  pledgeId: number;
+  paymentPlanId: number | null;
+  amount: string;
+  amountUsd: string | null;
+  pledgeDescription: string | null;
+}
+
 export interface PaymentsResponse {
   payments: Payment[];
   pagination: {
@@ -85,8 +105,6 @@ export interface CreatePaymentData {
   pledgeId: number;
   amount: number;
   currency: "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR";
-  amountUsd: number;
-  exchangeRate: number;
   paymentDate: string;
   receivedDate?: string;
   paymentMethod:
@@ -106,15 +124,22 @@ export interface CreatePaymentData {
     | "processing";
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
   receiptType?: "invoice" | "confirmation" | "receipt" | "other";
-  receiptIssued?: boolean;
   solicitorId?: number;
   bonusPercentage?: number;
   bonusAmount?: number;
   bonusRuleId?: number;
   notes?: string;
   paymentPlanId?: number;
+  // Splits the payment across pledges; must add up to the amount
+  allocations?: PaymentAllocationData[];
+}
+
+export interface PaymentAllocationData {
+  pledgeId: number;
+  paymentPlanId?: number;
+  amount: number;
+  notes?: string;
 }
 
 export interface CreatePaymentResponse {
@@ -147,9 +172,7 @@ export interface UpdatePaymentData {
     | "processing";
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
   receiptType?: "invoice" | "confirmation" | "receipt" | "other";
-  receiptIssued?: boolean;
   solicitorId?: number;
   bonusPercentage?: number;
   bonusAmount?: number;
@@ -181,8 +204,11 @@ export interface DeletePaymentResponse {
 const fetchPayments = async (
   params: PaymentQueryParams
 ): Promise<PaymentsResponse> => {
-  const searchParams = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
+  const { filters, joinOperator, ...rest } = params;
+  const searchParams = new URLSearchParams(
+    getFilterSearchParams(filters, joinOperator)
+  );
+  Object.entries(rest).forEach(([key, value]) => {
     if (value !== undefined && value !== null && value !== "") {
       searchParams.append(key, value.toString());
     }
@@ -257,6 +283,79 @@ const deletePayment = async (
   return response.json();
 };
 
+export interface IssueReceiptData {
+  paymentId: number;
+  receiptType?: "invoice" | "confirmation" | "receipt" | "other";
+}
+
+export interface IssueReceiptResponse {
+  receiptNumber: string;
+  copyNumber: number;
+  pdf: Blob;
+}
+
+const issueReceipt = async ({
+  paymentId,
+  ...data
+}: IssueReceiptData): Promise<IssueReceiptResponse> => {
+  const response = await fetch(`/api/payments/${paymentId}/receipt`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to issue receipt: ${response.statusText}`
+    );
+  }
+  return {
+    receiptNumber: response.headers.get("X-Receipt-Number") ?? "",
+    copyNumber: Number(response.headers.get("X-Receipt-Copy") ?? 0),
+    pdf: await response.blob(),
+  };
+};
+
+export interface RefundPaymentData {
+  paymentId: number;
+  // Leave out to refund everything not yet refunded
+  amount?: number;
+  refundDate?: string;
+  paymentMethod?: string;
+  referenceNumber?: string;
+  reason?: string;
+}
+
+export interface RefundPaymentResponse {
+  message: string;
+  refund: Payment;
+  payment: Payment;
+}
+
+const refundPayment = async ({
+  paymentId,
+  ...data
+}: RefundPaymentData): Promise<RefundPaymentResponse> => {
+  const response = await fetch(`/api/payments/${paymentId}/refund`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error || `Failed to refund payment: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
 export const paymentKeys = {
   all: ["payments"] as const,
   lists: () => [...paymentKeys.all, "list"] as const,
@@ -326,6 +425,33 @@ export const useDeletePaymentMutation = () => {
   });
 };
 
+export const useIssueReceiptMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: issueReceipt,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+    },
+    onError: (error) => {
+      console.error("Error issuing receipt:", error);
+    },
+  });
+};
+
+// Refunds move pledge, plan and bonus totals too, so everything is refetched
+export const useRefundPaymentMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: refundPayment,
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+    onError: (error) => {
+      console.error("Error refunding payment:", error);
+    },
+  });
+};
+
 export const useSolicitorPaymentsQuery = (
   solicitorId: number,
   additionalParams?: Omit<PaymentQueryParams, "solicitorId">,
@@ -1,4 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 interface AllPledgesQueryParams {
   categoryId?: number | null;
@@ -8,6 +11,8 @@ interface AllPledgesQueryParams {
   endDate?: string;
   status?: "fullyPaid" | "partiallyPaid" | "unpaid";
   search?: string;
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
 }
 
 interface Pledge {
@@ -67,6 +72,11 @@ const fetchAllPledges = async (
   if (params.search) {
     searchParams.append("search", params.search);
   }
+  for (const [key, value] of Object.entries(
+    getFilterSearchParams(params.filters, params.joinOperator)
+  )) {
+    searchParams.append(key, value);
+  }
 
   const response = await fetch(`/api/all-pledges?${searchParams.toString()}`);
 
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type Currency =
+  "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR";
+
+export interface FxRevaluationQueryParams {
+  asOf?: string;
+  currency?: Currency;
+  contactId?: number;
+  includeClosed?: boolean;
+}
+
+export interface PledgeRevaluation {
+  pledgeId: number;
+  contactId: number;
+  contactName: string;
+  pledgeDate: string;
+  description: string | null;
+  currency: Currency;
+  originalAmount: number;
+  originalAmountUsd: number;
+  pledgeRate: number;
+  totalPaid: number;
+  totalPaidUsd: number;
+  balance: number;
+  balanceUsdAtPledgeRate: number;
+  balanceUsdAtCurrentRate: number | null;
+  currentValueUsd: number | null;
+  realizedFxUsd: number;
+  unrealizedFxUsd: number | null;
+}
+
+export interface CurrencyRevaluation {
+  currency: Currency;
+  currentRate: number | null;
+  rateDate: string | null;
+  pledgeCount: number;
+  originalAmount: number;
+  originalAmountUsd: number;
+  balance: number;
+  balanceUsdAtPledgeRate: number;
+  balanceUsdAtCurrentRate: number | null;
+  currentValueUsd: number | null;
+  realizedFxUsd: number;
+  unrealizedFxUsd: number | null;
+}
+
+export interface FxRevaluationResponse {
+  asOf: string;
+  pledges: PledgeRevaluation[];
+  currencies: CurrencyRevaluation[];
+  missingRates: Currency[];
+}
+
+export const fxRevaluationKeys = {
+  all: ["fx-revaluation"] as const,
+  report: (params: FxRevaluationQueryParams) =>
+    [...fxRevaluationKeys.all, params] as const,
+};
+
+const fetchFxRevaluation = async (
+  params: FxRevaluationQueryParams
+): Promise<FxRevaluationResponse> => {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      searchParams.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch(
+    `/api/fx-revaluation?${searchParams.toString()}`
+  );
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error ||
+        `Failed to fetch FX revaluation: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+export const useFxRevaluationQuery = (params: FxRevaluationQueryParams) => {
+  return useQuery({
+    queryKey: fxRevaluationKeys.report(params),
+    queryFn: () => fetchFxRevaluation(params),
+    staleTime: 5 * 60 * 1000,
+  });
+};
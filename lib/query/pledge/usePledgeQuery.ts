@@ -1,4 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 // Payment Types
 export interface CreatePaymentData {
@@ -18,8 +21,6 @@ export interface CreatePaymentData {
     | "processing";
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
-  receiptIssued?: boolean;
   notes?: string;
   paymentPlanId?: number;
 }
@@ -57,6 +58,8 @@ export interface PledgeQueryParams {
   status?: "fullyPaid" | "partiallyPaid" | "unpaid";
   startDate?: string;
   endDate?: string;
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
 }
 
 export interface Pledge {
@@ -109,8 +112,8 @@ export interface CreatePledgeData {
   description: string;
   originalAmount: number;
   currency: string;
-  originalAmountUsd: number;
-  exchangeRate: number;
+  // The server converts to USD at its rate for this date, or the pledge date
+  exchangeRateDate?: string;
   notes?: string;
 }
 
@@ -147,9 +150,12 @@ const createPayment = async (
 const fetchPledges = async (
   params: PledgeQueryParams
 ): Promise<PledgesResponse> => {
-  const searchParams = new URLSearchParams();
+  const { filters, joinOperator, ...rest } = params;
+  const searchParams = new URLSearchParams(
+    getFilterSearchParams(filters, joinOperator)
+  );
 
-  Object.entries(params).forEach(([key, value]) => {
+  Object.entries(rest).forEach(([key, value]) => {
     if (value !== undefined && value !== null && value !== "") {
       searchParams.append(key, value.toString());
     }
@@ -1,5 +1,8 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 export interface RelationshipFormData {
   contactId: number;
@@ -167,6 +170,8 @@ export const useRelationshipsQuery = (params?: {
   isActive?: boolean;
   sortBy?: string;
   sortOrder?: "asc" | "desc";
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
 }) => {
   const searchParams = new URLSearchParams();
 
@@ -183,6 +188,11 @@ export const useRelationshipsQuery = (params?: {
     searchParams.append("isActive", params.isActive.toString());
   if (params?.sortBy) searchParams.append("sortBy", params.sortBy);
   if (params?.sortOrder) searchParams.append("sortOrder", params.sortOrder);
+  for (const [key, value] of Object.entries(
+    getFilterSearchParams(params?.filters, params?.joinOperator)
+  )) {
+    searchParams.append(key, value);
+  }
 
   return useQuery({
     queryKey: ["relationships", params],
@@ -0,0 +1,117 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export interface SavedViewState {
+  filters: { id: string; value: unknown }[];
+  sorting: { id: string; desc: boolean }[];
+  columnVisibility: Record<string, boolean>;
+  pageSize: number;
+}
+
+export interface SavedView extends SavedViewState {
+  id: number;
+  tableKey: string;
+  name: string;
+  isShared: boolean;
+  ownerId: number;
+  ownerName: string;
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedViewData extends SavedViewState {
+  tableKey: string;
+  name: string;
+  isShared: boolean;
+}
+
+export type UpdateSavedViewData = { viewId: number } & Partial<
+  SavedViewState & { name: string; isShared: boolean }
+>;
+
+export const savedViewKeys = {
+  all: ["saved-views"] as const,
+  list: (tableKey: string) => [...savedViewKeys.all, tableKey] as const,
+};
+
+const sendJson = async <T = { message: string }>(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  data: object | undefined,
+  action: string
+) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.details?.[0]?.message ||
+        errorData.error ||
+        `Failed to ${action}: ${response.statusText}`
+    );
+  }
+  return response.json() as Promise<T>;
+};
+
+export const useSavedViewsQuery = (tableKey: string) => {
+  return useQuery({
+    queryKey: savedViewKeys.list(tableKey),
+    queryFn: async (): Promise<{ views: SavedView[] }> => {
+      const response = await fetch(
+        `/api/saved-views?table=${encodeURIComponent(tableKey)}`
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.error ||
+            `Failed to fetch saved views: ${response.statusText}`
+        );
+      }
+      return response.json();
+    },
+    staleTime: 60 * 1000,
+  });
+};
+
+const useSavedViewMutation = <T, R extends { message: string }>(
+  mutationFn: (data: T) => Promise<R>
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.all });
+    },
+  });
+};
+
+export const useCreateSavedViewMutation = () =>
+  useSavedViewMutation((data: CreateSavedViewData) =>
+    sendJson<{ message: string; view: SavedView }>(
+      "/api/saved-views",
+      "POST",
+      data,
+      "save view"
+    )
+  );
+
+export const useUpdateSavedViewMutation = () =>
+  useSavedViewMutation(({ viewId, ...data }: UpdateSavedViewData) =>
+    sendJson<{ message: string; view: SavedView }>(
+      `/api/saved-views/${viewId}`,
+      "PATCH",
+      data,
+      "update view"
+    )
+  );
+
+export const useDeleteSavedViewMutation = () =>
+  useSavedViewMutation((viewId: number) =>
+    sendJson(`/api/saved-views/${viewId}`, "DELETE", undefined, "delete view")
+  );
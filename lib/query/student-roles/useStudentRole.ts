@@ -1,5 +1,8 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 // Types based on your database schema - updated to match enums
 export interface StudentRoleFormData {
@@ -122,6 +125,8 @@ export const useStudentRolesQuery = (params?: {
   isActive?: boolean;
   sortBy?: string;
   sortOrder?: "asc" | "desc";
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
 }) => {
   const searchParams = new URLSearchParams();
 
@@ -141,6 +146,11 @@ export const useStudentRolesQuery = (params?: {
     searchParams.append("isActive", params.isActive.toString());
   if (params?.sortBy) searchParams.append("sortBy", params.sortBy);
   if (params?.sortOrder) searchParams.append("sortOrder", params.sortOrder);
+  for (const [key, value] of Object.entries(
+    getFilterSearchParams(params?.filters, params?.joinOperator)
+  )) {
+    searchParams.append(key, value);
+  }
 
   return useQuery({
     queryKey: ["studentRoles", params],
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface TaxStatementsQueryParams {
+  year: number;
+  contactId?: number;
+}
+
+export interface TaxStatementPayment {
+  // Null for a credit applied to the pledge
+  paymentId: number | null;
+  creditId: number | null;
+  paymentDate: string;
+  paymentMethod: string;
+  receiptNumber: string | null;
+  amount: number;
+  currency: string;
+  amountUsd: number;
+}
+
+export interface TaxStatementCategory {
+  categoryId: number;
+  categoryName: string;
+  totalUsd: number;
+  payments: TaxStatementPayment[];
+}
+
+export interface TaxStatement {
+  year: number;
+  contact: {
+    id: number;
+    name: string;
+    address: string | null;
+    email: string | null;
+  };
+  categories: TaxStatementCategory[];
+  totalUsd: number;
+}
+
+export interface TaxStatementsResponse {
+  year: number;
+  statements: TaxStatement[];
+}
+
+export const taxStatementKeys = {
+  all: ["tax-statements"] as const,
+  list: (params: TaxStatementsQueryParams) =>
+    [...taxStatementKeys.all, params] as const,
+};
+
+// Link for downloading the same statements as a PDF or CSV file
+export const taxStatementsDownloadUrl = (
+  params: TaxStatementsQueryParams,
+  format: "pdf" | "csv"
+) => {
+  const searchParams = new URLSearchParams({
+    year: params.year.toString(),
+    format,
+  });
+  if (params.contactId) {
+    searchParams.set("contactId", params.contactId.toString());
+  }
+  return `/api/tax-statements?${searchParams.toString()}`;
+};
+
+const fetchTaxStatements = async (
+  params: TaxStatementsQueryParams
+): Promise<TaxStatementsResponse> => {
+  const searchParams = new URLSearchParams({ year: params.year.toString() });
+  if (params.contactId) {
+    searchParams.set("contactId", params.contactId.toString());
+  }
+
+  const response = await fetch(
+    `/api/tax-statements?${searchParams.toString()}`
+  );
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      errorData.error ||
+        `Failed to fetch tax statements: ${response.statusText}`
+    );
+  }
+  return response.json();
+};
+
+export const useTaxStatementsQuery = (
+  params: TaxStatementsQueryParams,
+  options?: { enabled?: boolean }
+) => {
+  return useQuery({
+    queryKey: taxStatementKeys.list(params),
+    queryFn: () => fetchTaxStatements(params),
+    enabled: options?.enabled ?? true,
+    staleTime: 5 * 60 * 1000,
+  });
+};
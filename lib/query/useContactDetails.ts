@@ -1,15 +1,30 @@
 import { useQuery } from "@tanstack/react-query";
-import { Contact, ContactRole, StudentRole } from "@/lib/db/schema";
+import {
+  Contact,
+  ContactAddress,
+  ContactEmail,
+  ContactPhone,
+  ContactRole,
+  StudentRole,
+} from "@/lib/db/schema";
+import type { CreditBalance } from "./credits/useCreditsQuery";
+
+export interface ContactWithDetails extends Contact {
+  contactRoles: ContactRole[];
+  studentRoles: StudentRole[];
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  addresses: ContactAddress[];
+}
 
 interface ContactResponse {
-  contact: Contact & {
-    contactRoles: ContactRole[];
-    studentRoles: StudentRole[];
-  };
+  contact: ContactWithDetails;
   financialSummary: {
     totalPledgedUsd: number;
     totalPaidUsd: number;
     currentBalanceUsd: number;
+    creditBalanceUsd: number;
+    creditBalances: CreditBalance[];
   };
   pagination: {
     page: number;
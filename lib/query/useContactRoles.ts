@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import axios, { AxiosError } from "axios";
 import { z } from "zod";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 import { NewContactRole } from "../db/schema";
 
 interface ContactRole {
@@ -53,7 +56,10 @@ const querySchema = z.object({
   contactId: z.number().positive().optional(),
 });
 
-type QueryParams = z.infer<typeof querySchema>;
+type QueryParams = z.infer<typeof querySchema> & {
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
+};
 
 const API_BASE_URL = "/api/contact-roles";
 
@@ -69,7 +75,10 @@ const fetchContactRoles = async (
 ): Promise<ContactRolesResponse> => {
   const validatedParams = querySchema.parse(params);
   const response = await api.get<ContactRolesResponse>("", {
-    params: validatedParams,
+    params: {
+      ...validatedParams,
+      ...getFilterSearchParams(params.filters, params.joinOperator),
+    },
   });
   return response.data;
 };
@@ -96,6 +105,8 @@ export const useContactRoles = (params: QueryParams) => {
       params.roleName,
       params.isActive,
       params.contactId,
+      params.filters,
+      params.joinOperator,
     ],
     queryFn: () => fetchContactRoles(params),
     staleTime: 60 * 1000,
@@ -1,5 +1,8 @@
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 const querySchema = z.object({
   page: z.number().min(1).default(1),
@@ -11,9 +14,12 @@ const querySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
-export type ContactQueryParams = z.infer<typeof querySchema>;
+export type ContactQueryParams = z.infer<typeof querySchema> & {
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
+};
 
-interface ContactResponse {
+export interface ContactResponse {
   id: number;
   firstName: string;
   lastName: string;
@@ -56,6 +62,8 @@ export const useGetContacts = (params: ContactQueryParams) => {
       validatedParams.search || "all",
       validatedParams.sortBy,
       validatedParams.sortOrder,
+      params.filters,
+      params.joinOperator,
     ],
     queryFn: async () => {
       const queryParams = new URLSearchParams({
@@ -64,6 +72,7 @@ export const useGetContacts = (params: ContactQueryParams) => {
         sortBy: validatedParams.sortBy,
         sortOrder: validatedParams.sortOrder,
         ...(validatedParams.search && { search: validatedParams.search }),
+        ...getFilterSearchParams(params.filters, params.joinOperator),
       });
 
       const response = await fetch(`/api/contacts?${queryParams.toString()}`, {
@@ -80,6 +89,8 @@ export const useGetContacts = (params: ContactQueryParams) => {
       const data = await response.json();
       return data;
     },
+    // Keeps the rows on screen while a new filter or page loads
+    placeholderData: keepPreviousData,
     staleTime: 60 * 1000,
     retry: 2,
   });
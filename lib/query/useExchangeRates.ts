@@ -4,46 +4,21 @@ import axios from "axios";
 interface ExchangeRateData {
   data: {
     currency: string;
+    date: string;
+    // USD value of one unit of each currency
     rates: Record<string, string>;
+    // Date each rate was published for, which may precede `date`
+    rateDates: Record<string, string>;
   };
 }
 
+// Rates come from the server's exchange rate table so previews match what
+// the server applies when the record is saved
 const fetchExchangeRates = async (date?: string): Promise<ExchangeRateData> => {
-  // Use exchangerate.host for both current and historical rates
-  const ACCESS_KEY =
-    process.env.NEXT_PUBLIC_EXCHANGERATE_API_KEY || "YOUR_ACCESS_KEY";
-
-  // If no date provided, use current date
-  const targetDate = date || new Date().toISOString().split("T")[0];
-
-  const response = await axios.get(
-    `https://api.exchangerate.host/historical?access_key=${ACCESS_KEY}&date=${targetDate}&currencies=USD,ILS,EUR,JPY,GBP,AUD,CAD,ZAR&format=1`
-  );
-
-  // Transform the exchangerate.host response to match the expected format
-  const transformedRates: Record<string, string> = {};
-
-  if (response.data.quotes) {
-    // Convert from USDILS format to ILS format and handle the rate conversion
-    Object.entries(response.data.quotes).forEach(([key, value]) => {
-      if (key.startsWith("USD")) {
-        const currency = key.replace("USD", "");
-        // The API gives us USD to other currency rates, but we need other currency to USD rates
-        // So we need to invert the rate (1 / rate) for our calculations
-        transformedRates[currency] = (1 / Number(value)).toString();
-      }
-    });
-
-    // Add USD as 1.0 (since we're converting to USD)
-    transformedRates["USD"] = "1.0";
-  }
-
-  return {
-    data: {
-      currency: "USD",
-      rates: transformedRates,
-    },
-  };
+  const response = await axios.get<ExchangeRateData>("/api/exchange-rates", {
+    params: date ? { date } : undefined,
+  });
+  return response.data;
 };
 
 export const useExchangeRates = (date?: string) => {
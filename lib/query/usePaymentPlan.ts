@@ -36,6 +36,8 @@ const PaymentPlanSchema = z.object({
   remainingAmount: z.string(),
   planStatus: PlanStatusEnum,
   autoRenew: z.boolean(),
+  renewWithNewPledge: z.boolean().optional(),
+  renewedFromPlanId: z.number().nullable().optional(),
   remindersSent: z.number(),
   lastReminderDate: z.string().nullable(),
   isActive: z.boolean(),
@@ -63,5 +63,7 @@ export const usePledgesQuery = (params: QueryParams) => {
   return useQuery<ApiResponse, Error>({
     queryKey: ["pledges", params],
     queryFn: () => fetchPledges(params),
+    // Pledges are listed per contact, so there is nothing to fetch without one
+    enabled: !!params.contactId,
   });
 };
@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import axios, { AxiosError } from "axios";
 import { z } from "zod";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 
 interface Relationship {
   id: number;
@@ -134,7 +137,10 @@ const updateRelationshipSchema = z.object({
   notes: z.string().optional(),
 });
 
-type QueryParams = z.infer<typeof querySchema>;
+type QueryParams = z.infer<typeof querySchema> & {
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
+};
 type UpdateRelationship = z.infer<typeof updateRelationshipSchema>;
 type NewRelationship = {
   contactId: number;
@@ -161,7 +167,10 @@ const fetchRelationships = async (
 ): Promise<RelationshipsResponse> => {
   const validatedParams = querySchema.parse(params);
   const response = await api.get<RelationshipsResponse>("", {
-    params: validatedParams,
+    params: {
+      ...validatedParams,
+      ...getFilterSearchParams(params.filters, params.joinOperator),
+    },
   });
   return response.data;
 };
@@ -213,6 +222,8 @@ export const useRelationships = (params: QueryParams) => {
       params.isActive,
       params.contactId,
       params.relatedContactId,
+      params.filters,
+      params.joinOperator,
     ],
     queryFn: () => fetchRelationships(params),
     staleTime: 60 * 1000,
@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import axios, { AxiosError } from "axios";
 import { z } from "zod";
+import { getFilterSearchParams } from "@/lib/data-table";
+import type { FilterItemSchema } from "@/lib/parsers";
+import type { JoinOperator } from "@/types/data-table";
 import { NewStudentRole } from "../db/schema";
 
 interface StudentRole {
@@ -86,7 +89,10 @@ const querySchema = z.object({
   contactId: z.number().positive().optional(),
 });
 
-type QueryParams = z.infer<typeof querySchema>;
+type QueryParams = z.infer<typeof querySchema> & {
+  filters?: FilterItemSchema[];
+  joinOperator?: JoinOperator;
+};
 
 const API_BASE_URL = "/api/student-roles";
 
@@ -102,7 +108,10 @@ const fetchStudentRoles = async (
 ): Promise<StudentRolesResponse> => {
   const validatedParams = querySchema.parse(params);
   const response = await api.get<StudentRolesResponse>("", {
-    params: validatedParams,
+    params: {
+      ...validatedParams,
+      ...getFilterSearchParams(params.filters, params.joinOperator),
+    },
   });
   return response.data;
 };
@@ -139,6 +148,8 @@ export const useStudentRoles = (params: QueryParams) => {
       params.year,
       params.isActive,
       params.contactId,
+      params.filters,
+      params.joinOperator,
     ],
     queryFn: () => fetchStudentRoles(params),
     staleTime: 60 * 1000,
@@ -0,0 +1,75 @@
+import { createHash, randomBytes } from "crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { apiKey, type ApiKey } from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+
+const KEY_PREFIX = "lvh_";
+
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+export const publicApiKeyColumns = {
+  id: apiKey.id,
+  name: apiKey.name,
+  keyPrefix: apiKey.keyPrefix,
+  createdBy: apiKey.createdBy,
+  lastUsedAt: apiKey.lastUsedAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt,
+};
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** Creates a key and returns the plain value, which is not stored anywhere. */
+export async function createApiKey(
+  name: string,
+  createdBy: number | null
+): Promise<{ apiKey: PublicApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  const [created] = await db
+    .insert(apiKey)
+    .values({
+      name,
+      keyPrefix: key.slice(0, KEY_PREFIX.length + 6),
+      keyHash: hashKey(key),
+      createdBy,
+    })
+    .returning(publicApiKeyColumns);
+
+  return { apiKey: created, key };
+}
+
+/**
+ * Resolves the API key sent as `X-API-Key` or `Authorization: Bearer`, and
+ * throws a 401 when it is missing, unknown or revoked.
+ */
+export async function authenticateApiKey(request: Request): Promise<ApiKey> {
+  const authorization = request.headers.get("authorization");
+  const key =
+    request.headers.get("x-api-key") ||
+    (authorization?.startsWith("Bearer ") ? authorization.slice(7) : null);
+
+  if (!key) {
+    throw new HttpError(401, "API key required");
+  }
+
+  const [found] = await db
+    .select()
+    .from(apiKey)
+    .where(and(eq(apiKey.keyHash, hashKey(key)), isNull(apiKey.revokedAt)))
+    .limit(1);
+
+  if (!found) {
+    throw new HttpError(401, "Invalid API key");
+  }
+
+  await db
+    .update(apiKey)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKey.id, found.id));
+
+  return found;
+}
@@ -0,0 +1,152 @@
+import { eq } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { getRequestUser } from "@/lib/auth/session";
+import { auditLog, pledge, solicitor, type NewAuditLog } from "@/lib/db/schema";
+
+export type AuditedTable =
+  | "contact"
+  | "pledge"
+  | "payment"
+  | "payment_plan"
+  | "solicitor"
+  | "bonus_rule"
+  | "bonus_calculation"
+  | "contact_credit"
+  | "deposit_batch"
+  | "household";
+
+export type AuditAction = "create" | "update" | "delete" | "merge" | "unmerge";
+
+export interface AuditContext {
+  changedBy: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+type AuditRecord = { id: number } & Record<string, unknown>;
+
+// Bookkeeping columns that change on every write and say nothing on their own
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+export function auditContext(request: Request): AuditContext {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return {
+    changedBy: getRequestUser(request)?.id ?? null,
+    ipAddress:
+      forwardedFor?.split(",")[0].trim() ||
+      request.headers.get("x-real-ip") ||
+      null,
+    userAgent: request.headers.get("user-agent"),
+  };
+}
+
+// Changes made by a scheduled job rather than a signed-in user
+export function systemAuditContext(source: string): AuditContext {
+  return { changedBy: null, ipAddress: null, userAgent: source };
+}
+
+function serialize(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Field-level differences between two versions of a row. A missing `before`
+ * lists every populated field of a created row, a missing `after` every
+ * populated field of a deleted one.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Array<{
+  fieldName: string;
+  oldValue: string | null;
+  newValue: string | null;
+}> {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .map((fieldName) => ({
+      fieldName,
+      oldValue: serialize(before?.[fieldName]),
+      newValue: serialize(after?.[fieldName]),
+    }))
+    .filter((change) => change.oldValue !== change.newValue);
+}
+
+async function resolveContactId(
+  database: Database,
+  tableName: AuditedTable,
+  record: AuditRecord
+): Promise<number | null> {
+  switch (tableName) {
+    case "contact":
+      return record.id;
+    case "pledge":
+    case "solicitor":
+    case "contact_credit":
+      return (record.contactId as number) ?? null;
+    case "payment":
+    case "payment_plan": {
+      const [row] = await database
+        .select({ contactId: pledge.contactId })
+        .from(pledge)
+        .where(eq(pledge.id, record.pledgeId as number));
+      return row?.contactId ?? null;
+    }
+    case "deposit_batch":
+    case "household":
+      return null;
+    case "bonus_rule":
+    case "bonus_calculation": {
+      const [row] = await database
+        .select({ contactId: solicitor.contactId })
+        .from(solicitor)
+        .where(eq(solicitor.id, record.solicitorId as number));
+      return row?.contactId ?? null;
+    }
+  }
+}
+
+/**
+ * Writes one audit_log row per changed field. Pass the row as it was before
+ * the change and as it is after; either side is null for creates and deletes.
+ * Call it with the same transaction as the change so both commit together,
+ * and before a delete so the owning contact can still be looked up. The
+ * action follows from which side is missing unless one is given.
+ */
+export async function recordAudit(
+  database: Database,
+  context: AuditContext,
+  tableName: AuditedTable,
+  before: AuditRecord | null,
+  after: AuditRecord | null,
+  action: AuditAction = !before ? "create" : !after ? "delete" : "update"
+): Promise<void> {
+  const record = after ?? before;
+  if (!record) return;
+
+  const changes = diffRecords(before, after);
+  if (changes.length === 0) return;
+
+  const contactId = await resolveContactId(database, tableName, record);
+
+  const rows: NewAuditLog[] = changes.map((change) => ({
+    tableName,
+    recordId: record.id,
+    contactId,
+    action,
+    ...change,
+    changedBy: context.changedBy,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  }));
+
+  await database.insert(auditLog).values(rows);
+}
@@ -0,0 +1,63 @@
+import { and, desc, eq, lte, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { bonusRule, type BonusRule } from "@/lib/db/schema";
+
+interface BonusLookup {
+  solicitorId: number;
+  paymentDate: string;
+  amountUsd: number;
+  // Payments on tax-deductible categories are donations, the rest tuition
+  isDonation: boolean;
+}
+
+export interface ResolvedBonus {
+  rule: BonusRule | null;
+  bonusRuleId: number | null;
+  bonusPercentage: string;
+  bonusAmount: string;
+}
+
+/**
+ * Picks the highest priority active rule for the solicitor that covers the
+ * payment date, category type and amount, and computes the bonus from it.
+ */
+export async function resolveBonus(
+  database: Database,
+  { solicitorId, paymentDate, amountUsd, isDonation }: BonusLookup
+): Promise<ResolvedBonus> {
+  const [rule] = await database
+    .select()
+    .from(bonusRule)
+    .where(
+      and(
+        eq(bonusRule.solicitorId, solicitorId),
+        eq(bonusRule.isActive, true),
+        lte(bonusRule.effectiveFrom, paymentDate),
+        sql`(${bonusRule.effectiveTo} IS NULL OR ${bonusRule.effectiveTo} >= ${paymentDate})`,
+        sql`(${bonusRule.paymentType} = 'both' OR
+               (${bonusRule.paymentType} = 'donation' AND ${isDonation}) OR
+               (${bonusRule.paymentType} = 'tuition' AND NOT ${isDonation}))`,
+        sql`(${bonusRule.minAmount} IS NULL OR ${bonusRule.minAmount} <= ${amountUsd})`,
+        sql`(${bonusRule.maxAmount} IS NULL OR ${bonusRule.maxAmount} >= ${amountUsd})`
+      )
+    )
+    .orderBy(desc(bonusRule.priority))
+    .limit(1);
+
+  if (!rule) {
+    return {
+      rule: null,
+      bonusRuleId: null,
+      bonusPercentage: "0",
+      bonusAmount: "0",
+    };
+  }
+
+  const bonusPercentage = rule.bonusPercentage || "0";
+  return {
+    rule,
+    bonusRuleId: rule.id,
+    bonusPercentage,
+    bonusAmount: ((amountUsd * parseFloat(bonusPercentage)) / 100).toFixed(2),
+  };
+}
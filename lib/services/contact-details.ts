@@ -0,0 +1,279 @@
+import { asc, eq } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  contactAddress,
+  contactEmail,
+  contactPhone,
+  type Contact,
+  type ContactAddress,
+  type ContactEmail,
+  type ContactPhone,
+} from "@/lib/db/schema";
+import { formatAddress, formatPhone } from "@/lib/format";
+
+export type ContactEmailInput = Pick<ContactEmail, "email" | "type"> & {
+  isPrimary?: boolean;
+};
+
+export type ContactPhoneInput = Pick<ContactPhone, "number" | "type"> &
+  Partial<Pick<ContactPhone, "countryCode" | "extension">> & {
+    isPrimary?: boolean;
+  };
+
+export type ContactAddressInput = Pick<ContactAddress, "street" | "type"> &
+  Partial<
+    Pick<
+      ContactAddress,
+      "street2" | "city" | "state" | "postalCode" | "country"
+    >
+  > & {
+    isPrimary?: boolean;
+  };
+
+export interface ContactDetailsInput {
+  emails?: ContactEmailInput[];
+  phones?: ContactPhoneInput[];
+  addresses?: ContactAddressInput[];
+}
+
+export interface ContactDetails {
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  addresses: ContactAddress[];
+}
+
+const blankToNull = (value?: string | null) => value?.trim() || null;
+
+// Trims the entries and stores blank optional fields as nulls, as the form
+// sends empty strings for them
+export function normalizeContactDetails(
+  input: ContactDetailsInput
+): ContactDetailsInput {
+  return {
+    emails: input.emails?.map((entry) => ({
+      ...entry,
+      email: entry.email.trim(),
+    })),
+    phones: input.phones?.map((entry) => ({
+      ...entry,
+      countryCode: entry.countryCode?.replace(/\D/g, "") || null,
+      number: entry.number.trim(),
+      extension: blankToNull(entry.extension),
+    })),
+    addresses: input.addresses?.map((entry) => ({
+      ...entry,
+      street: entry.street.trim(),
+      street2: blankToNull(entry.street2),
+      city: blankToNull(entry.city),
+      state: blankToNull(entry.state),
+      postalCode: blankToNull(entry.postalCode),
+      country: blankToNull(entry.country),
+    })),
+  };
+}
+
+// The first entry marked primary wins; with none marked, the first entry is
+// the primary one. Order follows the list.
+export function withPrimary<T extends { isPrimary?: boolean }>(
+  entries: T[]
+): (T & { isPrimary: boolean; sortOrder: number })[] {
+  const primary = Math.max(
+    0,
+    entries.findIndex((entry) => entry.isPrimary)
+  );
+  return entries.map((entry, index) => ({
+    ...entry,
+    isPrimary: index === primary,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * The single email, phone and address columns of the contact row, filled from
+ * the primary entries. A list left out of the input leaves its column alone.
+ */
+export function primaryContactFields(
+  input: ContactDetailsInput
+): Partial<Pick<Contact, "email" | "phone" | "address">> {
+  const fields: Partial<Pick<Contact, "email" | "phone" | "address">> = {};
+  if (input.emails) {
+    const primary = withPrimary(input.emails).find((entry) => entry.isPrimary);
+    fields.email = primary?.email ?? null;
+  }
+  if (input.phones) {
+    const primary = withPrimary(input.phones).find((entry) => entry.isPrimary);
+    fields.phone = primary
+      ? formatPhone({ extension: null, countryCode: null, ...primary })
+      : null;
+  }
+  if (input.addresses) {
+    const primary = withPrimary(input.addresses).find(
+      (entry) => entry.isPrimary
+    );
+    fields.address = primary
+      ? formatAddress({
+          street2: null,
+          city: null,
+          state: null,
+          postalCode: null,
+          country: null,
+          ...primary,
+        })
+      : null;
+  }
+  return fields;
+}
+
+// What makes two entries the same, ignoring case, spacing and punctuation
+export const detailKey = {
+  email: (entry: Pick<ContactEmail, "email">) =>
+    entry.email.trim().toLowerCase(),
+  phone: (entry: Pick<ContactPhone, "countryCode" | "number" | "extension">) =>
+    formatPhone(entry).replace(/\D/g, ""),
+  address: (
+    entry: Pick<
+      ContactAddress,
+      "street" | "street2" | "city" | "state" | "postalCode" | "country"
+    >
+  ) =>
+    formatAddress(entry)
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, ""),
+};
+
+/**
+ * Marks as primary the email, phone and address matching what the contact
+ * row holds, or the first of each when none matches. Used after the contact
+ * row is rewritten by something other than saveContactDetails, like a merge.
+ */
+export async function syncPrimaryDetails(
+  database: Database,
+  row: Pick<Contact, "id" | "email" | "phone" | "address">
+): Promise<void> {
+  const details = await getContactDetails(database, row.id);
+  const pick = <T extends { id: number }>(
+    entries: T[],
+    matches: (entry: T) => boolean
+  ) => (entries.find(matches) ?? entries[0])?.id;
+
+  const email = pick(
+    details.emails,
+    (entry) =>
+      !!row.email &&
+      detailKey.email(entry) === detailKey.email({ email: row.email })
+  );
+  const phone = pick(
+    details.phones,
+    (entry) => !!row.phone && formatPhone(entry) === row.phone
+  );
+  const address = pick(
+    details.addresses,
+    (entry) => !!row.address && formatAddress(entry) === row.address
+  );
+
+  // Cleared first, as only one primary of each is allowed per contact
+  await database
+    .update(contactEmail)
+    .set({ isPrimary: false })
+    .where(eq(contactEmail.contactId, row.id));
+  if (email) {
+    await database
+      .update(contactEmail)
+      .set({ isPrimary: true })
+      .where(eq(contactEmail.id, email));
+  }
+  await database
+    .update(contactPhone)
+    .set({ isPrimary: false })
+    .where(eq(contactPhone.contactId, row.id));
+  if (phone) {
+    await database
+      .update(contactPhone)
+      .set({ isPrimary: true })
+      .where(eq(contactPhone.id, phone));
+  }
+  await database
+    .update(contactAddress)
+    .set({ isPrimary: false })
+    .where(eq(contactAddress.contactId, row.id));
+  if (address) {
+    await database
+      .update(contactAddress)
+      .set({ isPrimary: true })
+      .where(eq(contactAddress.id, address));
+  }
+}
+
+/**
+ * Replaces a contact's emails, phones and addresses with the lists given, in
+ * that order. Lists left out of the input are kept as they are.
+ */
+export async function saveContactDetails(
+  database: Database,
+  contactId: number,
+  input: ContactDetailsInput
+): Promise<void> {
+  if (input.emails) {
+    await database
+      .delete(contactEmail)
+      .where(eq(contactEmail.contactId, contactId));
+    if (input.emails.length > 0) {
+      await database
+        .insert(contactEmail)
+        .values(
+          withPrimary(input.emails).map((entry) => ({ ...entry, contactId }))
+        );
+    }
+  }
+
+  if (input.phones) {
+    await database
+      .delete(contactPhone)
+      .where(eq(contactPhone.contactId, contactId));
+    if (input.phones.length > 0) {
+      await database
+        .insert(contactPhone)
+        .values(
+          withPrimary(input.phones).map((entry) => ({ ...entry, contactId }))
+        );
+    }
+  }
+
+  if (input.addresses) {
+    await database
+      .delete(contactAddress)
+      .where(eq(contactAddress.contactId, contactId));
+    if (input.addresses.length > 0) {
+      await database.insert(contactAddress).values(
+        withPrimary(input.addresses).map((entry) => ({
+          ...entry,
+          contactId,
+        }))
+      );
+    }
+  }
+}
+
+export async function getContactDetails(
+  database: Database,
+  contactId: number
+): Promise<ContactDetails> {
+  const [emails, phones, addresses] = await Promise.all([
+    database
+      .select()
+      .from(contactEmail)
+      .where(eq(contactEmail.contactId, contactId))
+      .orderBy(asc(contactEmail.sortOrder), asc(contactEmail.id)),
+    database
+      .select()
+      .from(contactPhone)
+      .where(eq(contactPhone.contactId, contactId))
+      .orderBy(asc(contactPhone.sortOrder), asc(contactPhone.id)),
+    database
+      .select()
+      .from(contactAddress)
+      .where(eq(contactAddress.contactId, contactId))
+      .orderBy(asc(contactAddress.sortOrder), asc(contactAddress.id)),
+  ]);
+  return { emails, phones, addresses };
+}
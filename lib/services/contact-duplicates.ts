@@ -0,0 +1,402 @@
+import { db } from "@/lib/db";
+import {
+  contact,
+  contactAddress,
+  contactEmail,
+  contactPhone,
+  type Contact,
+} from "@/lib/db/schema";
+import { formatAddress } from "@/lib/format";
+
+type DuplicateCandidate = Pick<
+  Contact,
+  "id" | "firstName" | "lastName" | "email" | "phone" | "address"
+>;
+
+// Every email, phone and address on record for a contact, normalized: the
+// ones on the contact itself and those in the contact detail tables
+interface ContactDetails {
+  emails: string[];
+  phones: string[];
+  addresses: string[][];
+}
+
+export interface DuplicatePair {
+  contact: DuplicateCandidate;
+  duplicate: DuplicateCandidate;
+  score: number;
+  reasons: string[];
+}
+
+// scripts/generate-sql.ts fills in first.last@example.com when an import row
+// has no email, so these say nothing about who the person is
+const PLACEHOLDER_EMAIL = /@example\.(com|org|net)$/i;
+
+// Blocks bigger than this are common surnames or shared office numbers, and
+// comparing every pair in them would only add noise
+const MAX_BLOCK_SIZE = 50;
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  boulevard: "blvd",
+  drive: "dr",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  apartment: "apt",
+  suite: "ste",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+const normalizeName = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+
+export function isPlaceholderEmail(email: string | null): boolean {
+  return !!email && PLACEHOLDER_EMAIL.test(email.trim());
+}
+
+function normalizeEmail(email: string | null): string | null {
+  if (!email || isPlaceholderEmail(email)) return null;
+  return email.trim().toLowerCase();
+}
+
+// The last ten digits, so a country code or trunk prefix does not matter
+function normalizePhone(phone: string | null): string | null {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function addressTokens(address: string | null): string[] {
+  return (address ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => ADDRESS_ABBREVIATIONS[token] ?? token);
+}
+
+function soundex(value: string): string {
+  if (!value) return "";
+  const codes: Record<string, string> = {
+    b: "1",
+    f: "1",
+    p: "1",
+    v: "1",
+    c: "2",
+    g: "2",
+    j: "2",
+    k: "2",
+    q: "2",
+    s: "2",
+    x: "2",
+    z: "2",
+    d: "3",
+    t: "3",
+    l: "4",
+    m: "5",
+    n: "5",
+    r: "6",
+  };
+  let result = value[0].toUpperCase();
+  let previous = codes[value[0]] ?? "";
+  for (const letter of value.slice(1)) {
+    const code = codes[letter] ?? "";
+    if (code && code !== previous) result += code;
+    if (letter !== "h" && letter !== "w") previous = code;
+    if (result.length === 4) break;
+  }
+  return result.padEnd(4, "0");
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length, i + window + 1);
+    for (let j = start; j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// A lone initial counts as close to the full first name it starts
+function firstNameSimilarity(a: string, b: string): number {
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return 0.9;
+  return jaroWinkler(a, b);
+}
+
+// Imports sometimes put the surname in the first name column, so the swapped
+// order is tried as well
+function nameSimilarity(a: DuplicateCandidate, b: DuplicateCandidate): number {
+  const [aFirst, aLast] = [
+    normalizeName(a.firstName),
+    normalizeName(a.lastName),
+  ];
+  const [bFirst, bLast] = [
+    normalizeName(b.firstName),
+    normalizeName(b.lastName),
+  ];
+  const straight =
+    0.4 * firstNameSimilarity(aFirst, bFirst) + 0.6 * jaroWinkler(aLast, bLast);
+  const swapped =
+    0.4 * firstNameSimilarity(aFirst, bLast) + 0.6 * jaroWinkler(aLast, bFirst);
+  return Math.max(straight, swapped);
+}
+
+function addressSimilarity(a: string[], b: string[]): number {
+  const aTokens = new Set(a);
+  const bTokens = new Set(b);
+  if (aTokens.size === 0 || bTokens.size === 0) return 0;
+  const shared = [...aTokens].filter((token) => bTokens.has(token)).length;
+  return shared / new Set([...aTokens, ...bTokens]).size;
+}
+
+function contactDetails(
+  candidate: DuplicateCandidate,
+  extra: { emails: string[]; phones: string[]; addresses: string[] } = {
+    emails: [],
+    phones: [],
+    addresses: [],
+  }
+): ContactDetails {
+  const unique = <T>(values: (T | null)[]) =>
+    [...new Set(values)].filter((value): value is T => value !== null);
+  return {
+    emails: unique([candidate.email, ...extra.emails].map(normalizeEmail)),
+    phones: unique([candidate.phone, ...extra.phones].map(normalizePhone)),
+    addresses: [candidate.address, ...extra.addresses]
+      .map(addressTokens)
+      .filter((tokens) => tokens.length > 0),
+  };
+}
+
+function blockingKeys(
+  candidate: DuplicateCandidate,
+  details: ContactDetails
+): string[] {
+  const first = normalizeName(candidate.firstName);
+  const last = normalizeName(candidate.lastName);
+  const keys = new Set<string>();
+
+  for (const email of details.emails) keys.add(`email:${email}`);
+  for (const phone of details.phones) keys.add(`phone:${phone}`);
+  if (first && last) {
+    keys.add(`name:${soundex(last)}${first[0]}`);
+    keys.add(`name:${soundex(first)}${last[0]}`);
+  }
+  for (const tokens of details.addresses) {
+    keys.add(`address:${tokens.slice(0, 3).join(" ")}`);
+  }
+  return [...keys];
+}
+
+/**
+ * How likely two contacts are the same person, from 0 to 1, with the
+ * evidence behind it. The name carries most of the weight; a real email,
+ * phone or address the two have in common adds to it, and real emails with
+ * none in common count against it. Secondary details from the contact detail
+ * tables count as much as the contact's own.
+ */
+export function scoreDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  aDetails: ContactDetails = contactDetails(a),
+  bDetails: ContactDetails = contactDetails(b)
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+
+  const name = nameSimilarity(a, b);
+  let score = 0.6 * name;
+  if (name >= 0.97) reasons.push("Same name");
+  else if (name >= 0.85) reasons.push("Similar name");
+
+  if (aDetails.emails.length > 0 && bDetails.emails.length > 0) {
+    if (aDetails.emails.some((email) => bDetails.emails.includes(email))) {
+      score += 0.3;
+      reasons.push("Same email");
+    } else {
+      score -= 0.15;
+    }
+  } else if (isPlaceholderEmail(a.email) || isPlaceholderEmail(b.email)) {
+    reasons.push("Placeholder email");
+  }
+
+  // Family members share a phone and an address, so those only back up a
+  // name that is already close
+  if (name < 0.8) {
+    return { score: Math.round(Math.max(0, score) * 100) / 100, reasons };
+  }
+
+  if (aDetails.phones.some((phone) => bDetails.phones.includes(phone))) {
+    score += 0.25;
+    reasons.push("Same phone");
+  }
+
+  const address = Math.max(
+    0,
+    ...aDetails.addresses.flatMap((aAddress) =>
+      bDetails.addresses.map((bAddress) =>
+        addressSimilarity(aAddress, bAddress)
+      )
+    )
+  );
+  if (address >= 0.6) {
+    score += 0.15 * address;
+    reasons.push(address === 1 ? "Same address" : "Similar address");
+  }
+
+  return {
+    score: Math.round(Math.max(0, Math.min(1, score)) * 100) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Pairs of contacts that look like the same person, best matches first.
+ * Only contacts sharing an email, phone, address start or a sound-alike name
+ * are compared, which keeps the search well short of every pair. Emails,
+ * phones and addresses from the contact detail tables are included.
+ */
+export async function findDuplicateContacts({
+  minScore = 0.6,
+  limit = 100,
+  contactId,
+}: {
+  minScore?: number;
+  limit?: number;
+  // Only pairs involving this contact
+  contactId?: number;
+} = {}): Promise<DuplicatePair[]> {
+  const candidates = await db
+    .select({
+      id: contact.id,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: contact.email,
+      phone: contact.phone,
+      address: contact.address,
+    })
+    .from(contact);
+  const [emailRows, phoneRows, addressRows] = await Promise.all([
+    db
+      .select({ contactId: contactEmail.contactId, email: contactEmail.email })
+      .from(contactEmail),
+    db
+      .select({
+        contactId: contactPhone.contactId,
+        countryCode: contactPhone.countryCode,
+        number: contactPhone.number,
+      })
+      .from(contactPhone),
+    db.select().from(contactAddress),
+  ]);
+
+  const extras = new Map<
+    number,
+    { emails: string[]; phones: string[]; addresses: string[] }
+  >();
+  const extraFor = (contactId: number) => {
+    let extra = extras.get(contactId);
+    if (!extra) {
+      extra = { emails: [], phones: [], addresses: [] };
+      extras.set(contactId, extra);
+    }
+    return extra;
+  };
+  for (const row of emailRows) extraFor(row.contactId).emails.push(row.email);
+  for (const row of phoneRows) {
+    extraFor(row.contactId).phones.push(
+      `${row.countryCode ?? ""}${row.number}`
+    );
+  }
+  for (const row of addressRows) {
+    extraFor(row.contactId).addresses.push(formatAddress(row));
+  }
+
+  const details = new Map(
+    candidates.map((candidate) => [
+      candidate.id,
+      contactDetails(candidate, extras.get(candidate.id)),
+    ])
+  );
+
+  const blocks = new Map<string, DuplicateCandidate[]>();
+  for (const candidate of candidates) {
+    for (const key of blockingKeys(candidate, details.get(candidate.id)!)) {
+      const block = blocks.get(key) ?? [];
+      block.push(candidate);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        // The older contact is listed first, as the usual survivor
+        const [a, b] =
+          block[i].id < block[j].id
+            ? [block[i], block[j]]
+            : [block[j], block[i]];
+        if (contactId && a.id !== contactId && b.id !== contactId) continue;
+
+        const pairKey = `${a.id}:${b.id}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const { score, reasons } = scoreDuplicate(
+          a,
+          b,
+          details.get(a.id),
+          details.get(b.id)
+        );
+        if (score >= minScore) {
+          pairs.push({ contact: a, duplicate: b, score, reasons });
+        }
+      }
+    }
+  }
+
+  return pairs
+    .sort((a, b) => b.score - a.score || a.contact.id - b.contact.id)
+    .slice(0, limit);
+}
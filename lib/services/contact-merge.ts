@@ -0,0 +1,951 @@
+import { and, desc, eq, inArray, ne, or, sql } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { db, type Database, type Transaction } from "@/lib/db";
+import {
+  auditLog,
+  contact,
+  contactAddress,
+  contactCredit,
+  contactEmail,
+  contactMerge,
+  contactPhone,
+  contactRoles,
+  household,
+  householdMember,
+  pledge,
+  relationships,
+  solicitor,
+  studentRoles,
+  user,
+  type Contact,
+  type ContactMerge,
+  type ContactMergeMoves,
+  type JsonRow,
+  type Relationship,
+  type RemovedContactDetails,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+import {
+  detailKey,
+  getContactDetails,
+  syncPrimaryDetails,
+} from "./contact-details";
+import { isPlaceholderEmail } from "./contact-duplicates";
+
+// How long after a merge it can still be undone
+export const MERGE_UNDO_DAYS = 30;
+
+export const MERGEABLE_FIELDS = [
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "title",
+  "gender",
+  "address",
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+export type FieldSource = "survivor" | "merged";
+export type FieldSources = Record<MergeableField, FieldSource>;
+
+export interface MergeContactsInput {
+  survivorId: number;
+  mergedContactId: number;
+  // Where each field comes from; fields left out follow defaultFieldSources
+  fields?: Partial<FieldSources>;
+}
+
+export interface MergePreview {
+  survivor: Contact;
+  merged: Contact;
+  fields: FieldSources;
+  // Records that would move from the merged contact to the survivor
+  counts: {
+    pledges: number;
+    studentRoles: number;
+    contactRoles: number;
+    relationships: number;
+    solicitors: number;
+    credits: number;
+  };
+  blocker: string | null;
+}
+
+export interface ContactMergeSummary extends ContactMerge {
+  survivorName: string;
+  mergedName: string;
+  mergedByName: string | null;
+  canUndo: boolean;
+}
+
+const toJsonRow = <T extends object>(row: T) =>
+  JSON.parse(JSON.stringify(row)) as JsonRow<T>;
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+/**
+ * The survivor keeps its own values, except where it has none and the merged
+ * contact does, or where its email is an import placeholder and the merged
+ * contact has a real one.
+ */
+export function defaultFieldSources(
+  survivor: Contact,
+  merged: Contact
+): FieldSources {
+  return Object.fromEntries(
+    MERGEABLE_FIELDS.map((field) => {
+      const takeMerged =
+        field === "email"
+          ? !isEmpty(merged.email) &&
+            !isPlaceholderEmail(merged.email) &&
+            (isEmpty(survivor.email) || isPlaceholderEmail(survivor.email))
+          : isEmpty(survivor[field]) && !isEmpty(merged[field]);
+      return [field, takeMerged ? "merged" : "survivor"];
+    })
+  ) as FieldSources;
+}
+
+export function canUndoMerge(merge: ContactMerge, now = new Date()): boolean {
+  return !merge.undoneAt && addDays(merge.mergedAt, MERGE_UNDO_DAYS) > now;
+}
+
+// Both solicitor records would need their payments, bonus rules and logins
+// combined, which is a decision for whoever runs the solicitor system. A
+// merged contact heading a household is dropped from it when the survivor
+// has a household too, which would leave that household without a head.
+async function findMergeBlocker(
+  database: Database,
+  survivorId: number,
+  mergedContactId: number
+): Promise<string | null> {
+  const solicitors = await database
+    .select({ id: solicitor.id })
+    .from(solicitor)
+    .where(inArray(solicitor.contactId, [survivorId, mergedContactId]));
+  if (solicitors.length > 1) {
+    return "Both contacts are solicitors; merge their solicitor records first";
+  }
+
+  const memberships = await database
+    .select({
+      contactId: householdMember.contactId,
+      role: householdMember.role,
+    })
+    .from(householdMember)
+    .where(inArray(householdMember.contactId, [survivorId, mergedContactId]));
+  const mergedMembership = memberships.find(
+    (row) => row.contactId === mergedContactId
+  );
+  if (memberships.length > 1 && mergedMembership?.role === "head") {
+    return "The merged contact heads a household and the survivor belongs to one too; choose another head or remove one of them from their household first";
+  }
+  return null;
+}
+
+async function loadPair(
+  database: Database,
+  survivorId: number,
+  mergedContactId: number,
+  lock = false
+): Promise<[Contact, Contact]> {
+  if (survivorId === mergedContactId) {
+    throw new HttpError(400, "A contact cannot be merged into itself");
+  }
+
+  const query = database
+    .select()
+    .from(contact)
+    .where(inArray(contact.id, [survivorId, mergedContactId]));
+  const rows = lock ? await query.for("update") : await query;
+
+  const survivor = rows.find((row) => row.id === survivorId);
+  const merged = rows.find((row) => row.id === mergedContactId);
+  if (!survivor || !merged) throw new HttpError(404, "Contact not found");
+  return [survivor, merged];
+}
+
+export async function previewMerge(
+  survivorId: number,
+  mergedContactId: number
+): Promise<MergePreview> {
+  const [survivor, merged] = await loadPair(db, survivorId, mergedContactId);
+
+  const [
+    pledges,
+    studentRoleCount,
+    contactRoleCount,
+    relationshipCount,
+    solicitors,
+    credits,
+    blocker,
+  ] = await Promise.all([
+    db.$count(pledge, eq(pledge.contactId, mergedContactId)),
+    db.$count(studentRoles, eq(studentRoles.contactId, mergedContactId)),
+    db.$count(contactRoles, eq(contactRoles.contactId, mergedContactId)),
+    db.$count(
+      relationships,
+      or(
+        eq(relationships.contactId, mergedContactId),
+        eq(relationships.relatedContactId, mergedContactId)
+      )
+    ),
+    db.$count(solicitor, eq(solicitor.contactId, mergedContactId)),
+    db.$count(contactCredit, eq(contactCredit.contactId, mergedContactId)),
+    findMergeBlocker(db, survivorId, mergedContactId),
+  ]);
+
+  return {
+    survivor,
+    merged,
+    fields: defaultFieldSources(survivor, merged),
+    counts: {
+      pledges,
+      studentRoles: studentRoleCount,
+      contactRoles: contactRoleCount,
+      relationships: relationshipCount,
+      solicitors,
+      credits,
+    },
+    blocker,
+  };
+}
+
+// Points the merged contact's relationships at the survivor. Ones between
+// the two contacts, and ones the survivor already has, are removed instead.
+async function moveRelationships(
+  tx: Transaction,
+  survivorId: number,
+  mergedContactId: number
+) {
+  const rows = await tx
+    .select()
+    .from(relationships)
+    .where(
+      or(
+        eq(relationships.contactId, mergedContactId),
+        eq(relationships.relatedContactId, mergedContactId)
+      )
+    );
+  const existing = await tx
+    .select()
+    .from(relationships)
+    .where(
+      and(
+        or(
+          eq(relationships.contactId, survivorId),
+          eq(relationships.relatedContactId, survivorId)
+        ),
+        ne(relationships.contactId, mergedContactId),
+        ne(relationships.relatedContactId, mergedContactId)
+      )
+    );
+
+  const keyOf = (
+    row: Pick<
+      Relationship,
+      "contactId" | "relatedContactId" | "relationshipType"
+    >
+  ) => `${row.contactId}:${row.relatedContactId}:${row.relationshipType}`;
+  const taken = new Set(existing.map(keyOf));
+
+  const asSource: number[] = [];
+  const asTarget: number[] = [];
+  const removed: Relationship[] = [];
+  for (const row of rows) {
+    const moved = {
+      contactId: row.contactId === mergedContactId ? survivorId : row.contactId,
+      relatedContactId:
+        row.relatedContactId === mergedContactId
+          ? survivorId
+          : row.relatedContactId,
+      relationshipType: row.relationshipType,
+    };
+    if (moved.contactId === moved.relatedContactId || taken.has(keyOf(moved))) {
+      removed.push(row);
+      continue;
+    }
+    taken.add(keyOf(moved));
+    if (row.contactId === mergedContactId) asSource.push(row.id);
+    if (row.relatedContactId === mergedContactId) asTarget.push(row.id);
+  }
+
+  if (removed.length > 0) {
+    await tx.delete(relationships).where(
+      inArray(
+        relationships.id,
+        removed.map((row) => row.id)
+      )
+    );
+  }
+  if (asSource.length > 0) {
+    await tx
+      .update(relationships)
+      .set({ contactId: survivorId, updatedAt: new Date() })
+      .where(inArray(relationships.id, asSource));
+  }
+  if (asTarget.length > 0) {
+    await tx
+      .update(relationships)
+      .set({ relatedContactId: survivorId, updatedAt: new Date() })
+      .where(inArray(relationships.id, asTarget));
+  }
+
+  return { asSource, asTarget, removed };
+}
+
+// Splits the merged contact's entries into ones to move and ones the survivor
+// already has, and finds where the moved ones go in the survivor's order
+function splitDetails<T extends { id: number; sortOrder: number }>(
+  own: T[],
+  incoming: T[],
+  key: (row: T) => string
+) {
+  const taken = new Set(own.map(key));
+  const moved: number[] = [];
+  const removed: T[] = [];
+  for (const row of incoming) {
+    if (taken.has(key(row))) {
+      removed.push(row);
+      continue;
+    }
+    taken.add(key(row));
+    moved.push(row.id);
+  }
+  const offset = Math.max(-1, ...own.map((row) => row.sortOrder)) + 1;
+  return { moved, removed, offset };
+}
+
+// Moves the merged contact's emails, phones and addresses after the
+// survivor's own, none of them primary. Ones the survivor already has stay
+// behind and are deleted with the merged contact.
+async function moveContactDetails(
+  tx: Transaction,
+  survivorId: number,
+  mergedContactId: number
+) {
+  const [own, incoming] = await Promise.all([
+    getContactDetails(tx, survivorId),
+    getContactDetails(tx, mergedContactId),
+  ]);
+  const emails = splitDetails(own.emails, incoming.emails, detailKey.email);
+  const phones = splitDetails(own.phones, incoming.phones, detailKey.phone);
+  const addresses = splitDetails(
+    own.addresses,
+    incoming.addresses,
+    detailKey.address
+  );
+
+  if (emails.moved.length > 0) {
+    await tx
+      .update(contactEmail)
+      .set({
+        contactId: survivorId,
+        isPrimary: false,
+        sortOrder: sql`${contactEmail.sortOrder} + ${emails.offset}`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(contactEmail.id, emails.moved));
+  }
+  if (phones.moved.length > 0) {
+    await tx
+      .update(contactPhone)
+      .set({
+        contactId: survivorId,
+        isPrimary: false,
+        sortOrder: sql`${contactPhone.sortOrder} + ${phones.offset}`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(contactPhone.id, phones.moved));
+  }
+  if (addresses.moved.length > 0) {
+    await tx
+      .update(contactAddress)
+      .set({
+        contactId: survivorId,
+        isPrimary: false,
+        sortOrder: sql`${contactAddress.sortOrder} + ${addresses.offset}`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(contactAddress.id, addresses.moved));
+  }
+
+  return {
+    moved: {
+      emails: emails.moved,
+      phones: phones.moved,
+      addresses: addresses.moved,
+    },
+    removed: {
+      emails: emails.removed.map(toJsonRow),
+      phones: phones.removed.map(toJsonRow),
+      addresses: addresses.removed.map(toJsonRow),
+    } satisfies RemovedContactDetails,
+  };
+}
+
+/**
+ * Merges one contact into another. The survivor takes the chosen field
+ * values and every pledge (with its payments and plans), role, relationship,
+ * solicitor record, credit, audit entry, email, phone, address and household
+ * membership of the merged contact, and the merged contact is deleted.
+ * Everything needed to undo it is kept on the contact_merge row.
+ */
+export async function mergeContacts(
+  input: MergeContactsInput,
+  context: AuditContext
+): Promise<ContactMerge> {
+  return db.transaction(async (tx) => {
+    const [survivor, merged] = await loadPair(
+      tx,
+      input.survivorId,
+      input.mergedContactId,
+      true
+    );
+
+    const blocker = await findMergeBlocker(tx, survivor.id, merged.id);
+    if (blocker) throw new HttpError(409, blocker);
+
+    const sources = {
+      ...defaultFieldSources(survivor, merged),
+      ...input.fields,
+    };
+    const changes: Partial<Contact> = {};
+    for (const field of MERGEABLE_FIELDS) {
+      if (sources[field] === "merged" && merged[field] !== survivor[field]) {
+        Object.assign(changes, { [field]: merged[field] });
+      }
+    }
+    const survivorBefore = Object.fromEntries(
+      Object.keys(changes).map((field) => [
+        field,
+        survivor[field as MergeableField],
+      ])
+    ) as Partial<JsonRow<Contact>>;
+
+    const movedPledges = await tx
+      .update(pledge)
+      .set({ contactId: survivor.id, updatedAt: new Date() })
+      .where(eq(pledge.contactId, merged.id))
+      .returning();
+    for (const row of movedPledges) {
+      await recordAudit(
+        tx,
+        context,
+        "pledge",
+        { ...row, contactId: merged.id },
+        row,
+        "merge"
+      );
+    }
+
+    const movedSolicitors = await tx
+      .update(solicitor)
+      .set({ contactId: survivor.id, updatedAt: new Date() })
+      .where(eq(solicitor.contactId, merged.id))
+      .returning();
+    for (const row of movedSolicitors) {
+      await recordAudit(
+        tx,
+        context,
+        "solicitor",
+        { ...row, contactId: merged.id },
+        row,
+        "merge"
+      );
+    }
+
+    const movedCredits = await tx
+      .update(contactCredit)
+      .set({ contactId: survivor.id })
+      .where(eq(contactCredit.contactId, merged.id))
+      .returning();
+    for (const row of movedCredits) {
+      await recordAudit(
+        tx,
+        context,
+        "contact_credit",
+        { ...row, contactId: merged.id },
+        row,
+        "merge"
+      );
+    }
+
+    const movedStudentRoles = await tx
+      .update(studentRoles)
+      .set({ contactId: survivor.id, updatedAt: new Date() })
+      .where(eq(studentRoles.contactId, merged.id))
+      .returning({ id: studentRoles.id });
+    const movedContactRoles = await tx
+      .update(contactRoles)
+      .set({ contactId: survivor.id, updatedAt: new Date() })
+      .where(eq(contactRoles.contactId, merged.id))
+      .returning({ id: contactRoles.id });
+    const movedRelationships = await moveRelationships(
+      tx,
+      survivor.id,
+      merged.id
+    );
+    const movedDetails = await moveContactDetails(tx, survivor.id, merged.id);
+    // The survivor joins the merged contact's household unless it has one of
+    // its own; otherwise that membership goes with the merged contact and is
+    // kept for undoing the merge
+    const [survivorHousehold] = await tx
+      .select({ id: householdMember.id })
+      .from(householdMember)
+      .where(eq(householdMember.contactId, survivor.id));
+    const movedHouseholdMembers = survivorHousehold
+      ? []
+      : await tx
+          .update(householdMember)
+          .set({ contactId: survivor.id })
+          .where(eq(householdMember.contactId, merged.id))
+          .returning({ id: householdMember.id });
+    const removedHouseholdMembers = survivorHousehold
+      ? await tx
+          .select()
+          .from(householdMember)
+          .where(eq(householdMember.contactId, merged.id))
+      : [];
+
+    // The merged contact's history, including its removal here, follows it
+    // to the survivor
+    await recordAudit(tx, context, "contact", merged, null, "merge");
+    const movedAuditLogs = await tx
+      .update(auditLog)
+      .set({ contactId: survivor.id })
+      .where(eq(auditLog.contactId, merged.id))
+      .returning({ id: auditLog.id });
+
+    // Deleted before the survivor takes its values, as the email is unique
+    await tx.delete(contact).where(eq(contact.id, merged.id));
+
+    let survivorAfter = survivor;
+    if (Object.keys(changes).length > 0) {
+      const [updated] = await tx
+        .update(contact)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(contact.id, survivor.id))
+        .returning();
+      await recordAudit(tx, context, "contact", survivor, updated, "merge");
+      survivorAfter = updated;
+    }
+    await syncPrimaryDetails(tx, survivorAfter);
+
+    const movedRecords: ContactMergeMoves = {
+      pledges: movedPledges.map((row) => row.id),
+      studentRoles: movedStudentRoles.map((row) => row.id),
+      contactRoles: movedContactRoles.map((row) => row.id),
+      relationshipsAsSource: movedRelationships.asSource,
+      relationshipsAsTarget: movedRelationships.asTarget,
+      solicitors: movedSolicitors.map((row) => row.id),
+      credits: movedCredits.map((row) => row.id),
+      auditLogs: movedAuditLogs.map((row) => row.id),
+      ...movedDetails.moved,
+      householdMembers: movedHouseholdMembers.map((row) => row.id),
+    };
+
+    const [record] = await tx
+      .insert(contactMerge)
+      .values({
+        survivorId: survivor.id,
+        mergedContactId: merged.id,
+        mergedContact: toJsonRow(merged),
+        survivorBefore,
+        movedRecords,
+        removedRelationships: movedRelationships.removed.map(toJsonRow),
+        removedDetails: {
+          ...movedDetails.removed,
+          householdMembers: removedHouseholdMembers.map(toJsonRow),
+        },
+        mergedBy: context.changedBy,
+      })
+      .returning();
+    return record;
+  });
+}
+
+/**
+ * Restores the merged contact with its original id, gives the survivor back
+ * the values it had, and moves back the records the merge moved. Records
+ * added to the survivor since stay where they are.
+ */
+export async function undoMerge(
+  mergeId: number,
+  context: AuditContext
+): Promise<ContactMerge> {
+  return db.transaction(async (tx) => {
+    const [merge] = await tx
+      .select()
+      .from(contactMerge)
+      .where(eq(contactMerge.id, mergeId))
+      .for("update");
+    if (!merge) throw new HttpError(404, "Merge not found");
+    if (merge.undoneAt) {
+      throw new HttpError(409, "This merge has already been undone");
+    }
+    if (!canUndoMerge(merge)) {
+      throw new HttpError(
+        409,
+        `Merges can only be undone within ${MERGE_UNDO_DAYS} days`
+      );
+    }
+
+    const snapshot = merge.mergedContact;
+    const survivorId = merge.survivorId;
+    const mergedContactId = merge.mergedContactId;
+
+    const [survivor] = await tx
+      .select()
+      .from(contact)
+      .where(eq(contact.id, survivorId))
+      .for("update");
+    if (!survivor) {
+      throw new HttpError(
+        409,
+        `Contact #${survivorId} has since been merged or deleted; undo that first`
+      );
+    }
+
+    let restoredSurvivor = survivor;
+    if (Object.keys(merge.survivorBefore).length > 0) {
+      const [restored] = await tx
+        .update(contact)
+        .set({
+          ...merge.survivorBefore,
+          updatedAt: new Date(),
+        } as Partial<Contact>)
+        .where(eq(contact.id, survivorId))
+        .returning();
+      await recordAudit(tx, context, "contact", survivor, restored, "unmerge");
+      restoredSurvivor = restored;
+    }
+
+    if (snapshot.email) {
+      const [taken] = await tx
+        .select({ id: contact.id })
+        .from(contact)
+        .where(sql`lower(${contact.email}) = lower(${snapshot.email})`);
+      if (taken) {
+        throw new HttpError(
+          409,
+          `Contact #${taken.id} now uses ${snapshot.email}; change it before undoing the merge`
+        );
+      }
+    }
+
+    const [recreated] = await tx
+      .insert(contact)
+      .values({
+        ...snapshot,
+        createdAt: new Date(snapshot.createdAt),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    const moves = merge.movedRecords;
+    if (moves.auditLogs.length > 0) {
+      await tx
+        .update(auditLog)
+        .set({ contactId: mergedContactId })
+        .where(inArray(auditLog.id, moves.auditLogs));
+    }
+    await recordAudit(tx, context, "contact", null, recreated, "unmerge");
+
+    if (moves.pledges.length > 0) {
+      const rows = await tx
+        .update(pledge)
+        .set({ contactId: mergedContactId, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(pledge.id, moves.pledges),
+            eq(pledge.contactId, survivorId)
+          )
+        )
+        .returning();
+      for (const row of rows) {
+        await recordAudit(
+          tx,
+          context,
+          "pledge",
+          { ...row, contactId: survivorId },
+          row,
+          "unmerge"
+        );
+      }
+    }
+
+    if (moves.solicitors.length > 0) {
+      const rows = await tx
+        .update(solicitor)
+        .set({ contactId: mergedContactId, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(solicitor.id, moves.solicitors),
+            eq(solicitor.contactId, survivorId)
+          )
+        )
+        .returning();
+      for (const row of rows) {
+        await recordAudit(
+          tx,
+          context,
+          "solicitor",
+          { ...row, contactId: survivorId },
+          row,
+          "unmerge"
+        );
+      }
+    }
+
+    if (moves.credits.length > 0) {
+      const rows = await tx
+        .update(contactCredit)
+        .set({ contactId: mergedContactId })
+        .where(
+          and(
+            inArray(contactCredit.id, moves.credits),
+            eq(contactCredit.contactId, survivorId)
+          )
+        )
+        .returning();
+      for (const row of rows) {
+        await recordAudit(
+          tx,
+          context,
+          "contact_credit",
+          { ...row, contactId: survivorId },
+          row,
+          "unmerge"
+        );
+      }
+    }
+
+    if (moves.studentRoles.length > 0) {
+      await tx
+        .update(studentRoles)
+        .set({ contactId: mergedContactId, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(studentRoles.id, moves.studentRoles),
+            eq(studentRoles.contactId, survivorId)
+          )
+        );
+    }
+    if (moves.contactRoles.length > 0) {
+      await tx
+        .update(contactRoles)
+        .set({ contactId: mergedContactId, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(contactRoles.id, moves.contactRoles),
+            eq(contactRoles.contactId, survivorId)
+          )
+        );
+    }
+    if (moves.relationshipsAsSource.length > 0) {
+      await tx
+        .update(relationships)
+        .set({ contactId: mergedContactId, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(relationships.id, moves.relationshipsAsSource),
+            eq(relationships.contactId, survivorId)
+          )
+        );
+    }
+    if (moves.relationshipsAsTarget.length > 0) {
+      await tx
+        .update(relationships)
+        .set({ relatedContactId: mergedContactId, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(relationships.id, moves.relationshipsAsTarget),
+            eq(relationships.relatedContactId, survivorId)
+          )
+        );
+    }
+    if (merge.removedRelationships.length > 0) {
+      await tx
+        .insert(relationships)
+        .values(
+          merge.removedRelationships.map((row) => ({
+            ...row,
+            createdAt: new Date(row.createdAt),
+            updatedAt: new Date(row.updatedAt),
+          }))
+        )
+        .onConflictDoNothing();
+    }
+
+    const movedEmails = moves.emails ?? [];
+    if (movedEmails.length > 0) {
+      await tx
+        .update(contactEmail)
+        .set({ contactId: mergedContactId, isPrimary: false })
+        .where(
+          and(
+            inArray(contactEmail.id, movedEmails),
+            eq(contactEmail.contactId, survivorId)
+          )
+        );
+    }
+    const movedPhones = moves.phones ?? [];
+    if (movedPhones.length > 0) {
+      await tx
+        .update(contactPhone)
+        .set({ contactId: mergedContactId, isPrimary: false })
+        .where(
+          and(
+            inArray(contactPhone.id, movedPhones),
+            eq(contactPhone.contactId, survivorId)
+          )
+        );
+    }
+    const movedAddresses = moves.addresses ?? [];
+    if (movedAddresses.length > 0) {
+      await tx
+        .update(contactAddress)
+        .set({ contactId: mergedContactId, isPrimary: false })
+        .where(
+          and(
+            inArray(contactAddress.id, movedAddresses),
+            eq(contactAddress.contactId, survivorId)
+          )
+        );
+    }
+    const movedHouseholdMembers = moves.householdMembers ?? [];
+    if (movedHouseholdMembers.length > 0) {
+      await tx
+        .update(householdMember)
+        .set({ contactId: mergedContactId })
+        .where(
+          and(
+            inArray(householdMember.id, movedHouseholdMembers),
+            eq(householdMember.contactId, survivorId)
+          )
+        );
+    }
+    // Primaries are settled by syncPrimaryDetails below
+    const removed = merge.removedDetails;
+    if (removed.emails.length > 0) {
+      await tx
+        .insert(contactEmail)
+        .values(
+          removed.emails.map((row) => ({
+            ...row,
+            isPrimary: false,
+            createdAt: new Date(row.createdAt),
+            updatedAt: new Date(row.updatedAt),
+          }))
+        )
+        .onConflictDoNothing();
+    }
+    if (removed.phones.length > 0) {
+      await tx
+        .insert(contactPhone)
+        .values(
+          removed.phones.map((row) => ({
+            ...row,
+            isPrimary: false,
+            createdAt: new Date(row.createdAt),
+            updatedAt: new Date(row.updatedAt),
+          }))
+        )
+        .onConflictDoNothing();
+    }
+    if (removed.addresses.length > 0) {
+      await tx
+        .insert(contactAddress)
+        .values(
+          removed.addresses.map((row) => ({
+            ...row,
+            isPrimary: false,
+            createdAt: new Date(row.createdAt),
+            updatedAt: new Date(row.updatedAt),
+          }))
+        )
+        .onConflictDoNothing();
+    }
+    // Households deleted since the merge are not brought back
+    const removedMembers = removed.householdMembers ?? [];
+    if (removedMembers.length > 0) {
+      const households = await tx
+        .select({ id: household.id })
+        .from(household)
+        .where(
+          inArray(
+            household.id,
+            removedMembers.map((row) => row.householdId)
+          )
+        );
+      const remaining = new Set(households.map((row) => row.id));
+      const rows = removedMembers.filter((row) =>
+        remaining.has(row.householdId)
+      );
+      if (rows.length > 0) {
+        await tx
+          .insert(householdMember)
+          .values(
+            rows.map((row) => ({
+              ...row,
+              createdAt: new Date(row.createdAt),
+            }))
+          )
+          .onConflictDoNothing();
+      }
+    }
+    await syncPrimaryDetails(tx, recreated);
+    await syncPrimaryDetails(tx, restoredSurvivor);
+
+    const [updated] = await tx
+      .update(contactMerge)
+      .set({ undoneAt: new Date(), undoneBy: context.changedBy })
+      .where(eq(contactMerge.id, mergeId))
+      .returning();
+    return updated;
+  });
+}
+
+export async function listContactMerges({
+  contactId,
+  limit = 50,
+}: {
+  // Merges into this contact, or of it
+  contactId?: number;
+  limit?: number;
+} = {}): Promise<ContactMergeSummary[]> {
+  const rows = await db
+    .select({
+      merge: contactMerge,
+      survivorName: sql<
+        string | null
+      >`${contact.firstName} || ' ' || ${contact.lastName}`,
+      mergedByName: sql<string | null>`COALESCE(${user.name}, ${user.email})`,
+    })
+    .from(contactMerge)
+    // The survivor may have been merged into another contact since
+    .leftJoin(contact, eq(contactMerge.survivorId, contact.id))
+    .leftJoin(user, eq(contactMerge.mergedBy, user.id))
+    .where(
+      contactId
+        ? or(
+            eq(contactMerge.survivorId, contactId),
+            eq(contactMerge.mergedContactId, contactId)
+          )
+        : undefined
+    )
+    .orderBy(desc(contactMerge.mergedAt), desc(contactMerge.id))
+    .limit(limit);
+
+  const now = new Date();
+  return rows.map(({ merge, survivorName, mergedByName }) => ({
+    ...merge,
+    survivorName: survivorName ?? `Contact #${merge.survivorId}`,
+    mergedName: `${merge.mergedContact.firstName} ${merge.mergedContact.lastName}`,
+    mergedByName,
+    canUndo: survivorName !== null && canUndoMerge(merge, now),
+  }));
+}
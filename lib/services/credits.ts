@@ -0,0 +1,357 @@
+import { and, desc, eq, isNull, or, sql } from "drizzle-orm";
+import { db, type Database, type Transaction } from "@/lib/db";
+import {
+  contact,
+  contactCredit,
+  payment,
+  pledge,
+  type ContactCredit,
+  type Payment,
+  type PaymentAllocation,
+  type Pledge,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+import { convertToUsd } from "./exchange-rates";
+import { syncPledgeTotals } from "./ledger";
+
+export interface CreditBalance {
+  currency: ContactCredit["currency"];
+  balance: string;
+  balanceUsd: string;
+}
+
+export interface RecordUnappliedPaymentInput {
+  contactId: number;
+  amount: number;
+  currency: ContactCredit["currency"];
+  creditDate: string;
+  paymentMethod?: NonNullable<ContactCredit["paymentMethod"]>;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+export interface ApplyCreditInput {
+  pledgeId: number;
+  // Defaults to as much as the credit and the pledge balance allow
+  amount?: number;
+  creditDate: string;
+  notes?: string;
+}
+
+export interface ApplyCreditResult {
+  credit: ContactCredit;
+  pledge: Pledge;
+  balances: CreditBalance[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// An overpayment only holds credit while its payment is completed
+const creditStands = or(
+  isNull(contactCredit.paymentId),
+  eq(payment.paymentStatus, "completed")
+);
+
+/**
+ * What a contact has on account, per currency. Currencies that net to zero
+ * are left out.
+ */
+export async function getCreditBalances(
+  database: Database,
+  contactId: number
+): Promise<CreditBalance[]> {
+  const rows = await database
+    .select({
+      currency: contactCredit.currency,
+      balance: sql<string>`SUM(${contactCredit.amount})`,
+      balanceUsd: sql<string>`COALESCE(SUM(${contactCredit.amountUsd}), 0)`,
+    })
+    .from(contactCredit)
+    .leftJoin(payment, eq(contactCredit.paymentId, payment.id))
+    .where(and(eq(contactCredit.contactId, contactId), creditStands))
+    .groupBy(contactCredit.currency)
+    .orderBy(contactCredit.currency);
+
+  return rows
+    .filter((row) => Math.abs(parseFloat(row.balance)) >= 0.005)
+    .map((row) => ({
+      currency: row.currency,
+      balance: parseFloat(row.balance).toFixed(2),
+      balanceUsd: parseFloat(row.balanceUsd).toFixed(2),
+    }));
+}
+
+/**
+ * A contact's credit entries, newest first, with the pledge each one moved
+ * money on and off.
+ */
+export async function getContactCredits(database: Database, contactId: number) {
+  return database
+    .select({
+      id: contactCredit.id,
+      creditType: contactCredit.creditType,
+      amount: contactCredit.amount,
+      currency: contactCredit.currency,
+      amountUsd: contactCredit.amountUsd,
+      creditDate: contactCredit.creditDate,
+      pledgeId: contactCredit.pledgeId,
+      pledgeDescription: pledge.description,
+      paymentId: contactCredit.paymentId,
+      paymentStatus: payment.paymentStatus,
+      paymentMethod: contactCredit.paymentMethod,
+      referenceNumber: contactCredit.referenceNumber,
+      notes: contactCredit.notes,
+      createdAt: contactCredit.createdAt,
+    })
+    .from(contactCredit)
+    .leftJoin(pledge, eq(contactCredit.pledgeId, pledge.id))
+    .leftJoin(payment, eq(contactCredit.paymentId, payment.id))
+    .where(eq(contactCredit.contactId, contactId))
+    .orderBy(desc(contactCredit.creditDate), desc(contactCredit.id));
+}
+
+/**
+ * Takes anything a completed payment paid beyond its pledges' original
+ * amounts onto the contact's account, up to the payment's own share of each
+ * pledge, and re-derives those pledges' totals. The USD side follows the
+ * payment's rate. Call it with the pledges as synced after the payment.
+ */
+export async function captureOverpayment(
+  tx: Transaction,
+  context: AuditContext,
+  paymentRow: Payment,
+  allocations: PaymentAllocation[],
+  pledges: Pledge[]
+): Promise<{ credits: ContactCredit[]; pledges: Pledge[] }> {
+  const credits: ContactCredit[] = [];
+  const updated: Pledge[] = [];
+
+  for (const row of pledges) {
+    const excess = round(
+      parseFloat(row.totalPaid ?? "0") - parseFloat(row.originalAmount)
+    );
+    const share =
+      allocations.length > 0
+        ? allocations
+            .filter((allocation) => allocation.pledgeId === row.id)
+            .reduce(
+              (total, allocation) => total + parseFloat(allocation.amount),
+              0
+            )
+        : row.id === paymentRow.pledgeId
+          ? parseFloat(paymentRow.amount)
+          : 0;
+    const amount = round(Math.min(excess, share));
+    if (amount <= 0) {
+      updated.push(row);
+      continue;
+    }
+
+    const amountUsd =
+      paymentRow.amountUsd === null
+        ? null
+        : round(
+            (parseFloat(paymentRow.amountUsd) * amount) /
+              parseFloat(paymentRow.amount)
+          );
+    const [credit] = await tx
+      .insert(contactCredit)
+      .values({
+        contactId: row.contactId,
+        creditType: "overpayment",
+        amount: amount.toFixed(2),
+        currency: paymentRow.currency,
+        amountUsd: amountUsd === null ? null : amountUsd.toFixed(2),
+        creditDate: paymentRow.paymentDate,
+        pledgeId: row.id,
+        paymentId: paymentRow.id,
+        notes: `Overpayment of pledge #${row.id} by payment #${paymentRow.id}`,
+        createdBy: context.changedBy,
+      })
+      .returning();
+    await recordAudit(tx, context, "contact_credit", null, credit);
+    credits.push(credit);
+    updated.push((await syncPledgeTotals(tx, row.id)) ?? row);
+  }
+
+  return { credits, pledges: updated };
+}
+
+/**
+ * Contacts holding overpayment credit from a payment. Read them before the
+ * payment is deleted, as its credit goes with it.
+ */
+export async function loadCreditContactIds(
+  database: Database,
+  paymentId: number
+): Promise<number[]> {
+  const rows = await database
+    .selectDistinct({ contactId: contactCredit.contactId })
+    .from(contactCredit)
+    .where(eq(contactCredit.paymentId, paymentId));
+  return rows.map((row) => row.contactId);
+}
+
+/**
+ * Fails when a change would leave a contact owing credit, which happens if an
+ * overpayment whose credit was already applied is refunded, deleted or taken
+ * out of completed.
+ */
+export async function assertCreditCovered(
+  database: Database,
+  contactIds: number[]
+): Promise<void> {
+  for (const contactId of contactIds) {
+    const balances = await getCreditBalances(database, contactId);
+    const overdrawn = balances.find((row) => parseFloat(row.balance) < 0);
+    if (overdrawn) {
+      throw new HttpError(
+        409,
+        `Credit from this payment has already been applied; ${(-parseFloat(overdrawn.balance)).toFixed(2)} ${overdrawn.currency} would be missing from the contact's account`
+      );
+    }
+  }
+}
+
+/**
+ * Records money received before there is a pledge to put it on. It is
+ * converted to USD at the rate for the day it came in.
+ */
+export async function recordUnappliedPayment(
+  input: RecordUnappliedPaymentInput,
+  context: AuditContext
+): Promise<ContactCredit> {
+  // Resolved before the transaction, as it may call out to the rate provider
+  const { amountUsd } = await convertToUsd(
+    db,
+    input.amount,
+    input.currency,
+    input.creditDate
+  );
+
+  return db.transaction(async (tx) => {
+    const [contactData] = await tx
+      .select({ id: contact.id })
+      .from(contact)
+      .where(eq(contact.id, input.contactId))
+      .limit(1);
+    if (!contactData) {
+      throw new HttpError(404, "Contact not found");
+    }
+
+    const [credit] = await tx
+      .insert(contactCredit)
+      .values({
+        contactId: input.contactId,
+        creditType: "unapplied",
+        amount: input.amount.toFixed(2),
+        currency: input.currency,
+        amountUsd: amountUsd.toFixed(2),
+        creditDate: input.creditDate,
+        paymentMethod: input.paymentMethod ?? null,
+        referenceNumber: input.referenceNumber || null,
+        notes: input.notes || null,
+        createdBy: context.changedBy,
+      })
+      .returning();
+    await recordAudit(tx, context, "contact_credit", null, credit);
+
+    return credit;
+  });
+}
+
+/**
+ * Moves credit onto one of the contact's pledges in the pledge's currency,
+ * never more than its outstanding balance. The USD side is taken from the
+ * credit at its average rate, so the USD balance empties along with it.
+ */
+export async function applyCredit(
+  contactId: number,
+  input: ApplyCreditInput,
+  context: AuditContext
+): Promise<ApplyCreditResult> {
+  return db.transaction(async (tx) => {
+    // Locking the contact keeps two applications from spending the same credit
+    const [contactData] = await tx
+      .select({ id: contact.id })
+      .from(contact)
+      .where(eq(contact.id, contactId))
+      .for("update")
+      .limit(1);
+    if (!contactData) {
+      throw new HttpError(404, "Contact not found");
+    }
+
+    const [pledgeData] = await tx
+      .select()
+      .from(pledge)
+      .where(eq(pledge.id, input.pledgeId))
+      .for("update")
+      .limit(1);
+    if (!pledgeData || pledgeData.contactId !== contactId) {
+      throw new HttpError(404, "Pledge not found for this contact");
+    }
+
+    const available = (await getCreditBalances(tx, contactId)).find(
+      (row) => row.currency === pledgeData.currency
+    );
+    const availableAmount = available ? parseFloat(available.balance) : 0;
+    if (availableAmount <= 0) {
+      throw new HttpError(
+        422,
+        `No ${pledgeData.currency} credit is available for this contact`
+      );
+    }
+    const pledgeBalance = parseFloat(pledgeData.balance);
+    if (pledgeBalance <= 0) {
+      throw new HttpError(422, "Pledge has no outstanding balance");
+    }
+
+    const amount = round(
+      input.amount ?? Math.min(availableAmount, pledgeBalance)
+    );
+    if (amount > availableAmount) {
+      throw new HttpError(
+        422,
+        `Only ${availableAmount.toFixed(2)} ${pledgeData.currency} of credit is available`
+      );
+    }
+    if (amount > pledgeBalance) {
+      throw new HttpError(
+        422,
+        `Credit applied cannot exceed the pledge balance of ${pledgeBalance.toFixed(2)} ${pledgeData.currency}`
+      );
+    }
+
+    const availableUsd = parseFloat(available!.balanceUsd);
+    const amountUsd =
+      amount === availableAmount
+        ? availableUsd
+        : round((availableUsd * amount) / availableAmount);
+
+    const [credit] = await tx
+      .insert(contactCredit)
+      .values({
+        contactId,
+        creditType: "applied",
+        amount: (-amount).toFixed(2),
+        currency: pledgeData.currency,
+        amountUsd: (-amountUsd).toFixed(2),
+        creditDate: input.creditDate,
+        pledgeId: pledgeData.id,
+        notes: input.notes || `Applied to pledge #${pledgeData.id}`,
+        createdBy: context.changedBy,
+      })
+      .returning();
+    await recordAudit(tx, context, "contact_credit", null, credit);
+
+    const updatedPledge = (await syncPledgeTotals(tx, pledgeData.id))!;
+
+    return {
+      credit,
+      pledge: updatedPledge,
+      balances: await getCreditBalances(tx, contactId),
+    };
+  });
+}
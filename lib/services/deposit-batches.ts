@@ -0,0 +1,715 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { format, parseISO } from "date-fns";
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+import { db, type Database } from "@/lib/db";
+import {
+  contact,
+  depositBatch,
+  payment,
+  pledge,
+  type DepositBatch,
+  type Payment,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+import { formatMoney, getReceiptOrganization, printable } from "./receipts";
+
+export type DepositBatchStatus = DepositBatch["status"];
+
+export interface DepositBatchTotal {
+  currency: Payment["currency"];
+  count: number;
+  amount: number;
+  amountUsd: number;
+}
+
+export interface DepositBatchSummary extends DepositBatch {
+  paymentCount: number;
+  totals: DepositBatchTotal[];
+}
+
+export interface DepositBatchPayment {
+  id: number;
+  pledgeId: number;
+  pledgeDescription: string | null;
+  contactId: number;
+  contactName: string;
+  paymentDate: string;
+  amount: string;
+  currency: Payment["currency"];
+  amountUsd: string | null;
+  paymentStatus: Payment["paymentStatus"];
+  checkNumber: string | null;
+  referenceNumber: string | null;
+}
+
+export interface DepositBatchDetail {
+  batch: DepositBatchSummary;
+  payments: DepositBatchPayment[];
+}
+
+export interface DepositBatchInput {
+  depositDate: string;
+  bankAccount: string;
+  notes?: string;
+}
+
+export interface BankTotal {
+  currency: Payment["currency"];
+  amount: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const paymentColumns = {
+  id: payment.id,
+  pledgeId: payment.pledgeId,
+  pledgeDescription: pledge.description,
+  contactId: contact.id,
+  contactName: sql<string>`${contact.firstName} || ' ' || ${contact.lastName}`,
+  paymentDate: payment.paymentDate,
+  amount: payment.amount,
+  currency: payment.currency,
+  amountUsd: payment.amountUsd,
+  paymentStatus: payment.paymentStatus,
+  checkNumber: payment.checkNumber,
+  referenceNumber: payment.referenceNumber,
+};
+
+// Totals per currency for each batch. Every payment in the batch counts,
+// whatever its status, as the deposit itself does not change when a check
+// later bounces; that is recorded as a refund.
+async function loadBatchTotals(
+  database: Database,
+  batchIds: number[]
+): Promise<Map<number, DepositBatchTotal[]>> {
+  const totals = new Map<number, DepositBatchTotal[]>();
+  if (batchIds.length === 0) return totals;
+
+  const rows = await database
+    .select({
+      batchId: payment.depositBatchId,
+      currency: payment.currency,
+      count: sql<number>`count(*)::int`,
+      amount: sql<string>`sum(${payment.amount})`,
+      amountUsd: sql<string>`COALESCE(sum(${payment.amountUsd}), 0)`,
+    })
+    .from(payment)
+    .where(inArray(payment.depositBatchId, batchIds))
+    .groupBy(payment.depositBatchId, payment.currency)
+    .orderBy(asc(payment.currency));
+
+  for (const row of rows) {
+    const list = totals.get(row.batchId!) ?? [];
+    list.push({
+      currency: row.currency,
+      count: row.count,
+      amount: round(parseFloat(row.amount)),
+      amountUsd: round(parseFloat(row.amountUsd)),
+    });
+    totals.set(row.batchId!, list);
+  }
+  return totals;
+}
+
+function summarize(
+  batch: DepositBatch,
+  totals: DepositBatchTotal[] = []
+): DepositBatchSummary {
+  return {
+    ...batch,
+    paymentCount: totals.reduce((sum, total) => sum + total.count, 0),
+    totals,
+  };
+}
+
+export async function listDepositBatches(
+  database: Database,
+  { status }: { status?: DepositBatchStatus } = {}
+): Promise<DepositBatchSummary[]> {
+  const conditions: SQL[] = [];
+  if (status) conditions.push(eq(depositBatch.status, status));
+
+  const batches = await database
+    .select()
+    .from(depositBatch)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(depositBatch.depositDate), desc(depositBatch.id));
+
+  const totals = await loadBatchTotals(
+    database,
+    batches.map((batch) => batch.id)
+  );
+  return batches.map((batch) => summarize(batch, totals.get(batch.id)));
+}
+
+export async function getDepositBatch(
+  database: Database,
+  batchId: number
+): Promise<DepositBatchDetail | null> {
+  const [batch] = await database
+    .select()
+    .from(depositBatch)
+    .where(eq(depositBatch.id, batchId));
+  if (!batch) return null;
+
+  const payments = await database
+    .select(paymentColumns)
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(payment.depositBatchId, batchId))
+    .orderBy(asc(payment.currency), asc(payment.paymentDate), asc(payment.id));
+
+  const totals = await loadBatchTotals(database, [batchId]);
+  return { batch: summarize(batch, totals.get(batchId)), payments };
+}
+
+// Completed checks that have not gone into a batch yet
+export async function listUndepositedChecks(
+  database: Database
+): Promise<DepositBatchPayment[]> {
+  return database
+    .select(paymentColumns)
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(
+      and(
+        eq(payment.paymentMethod, "check"),
+        eq(payment.paymentStatus, "completed"),
+        isNull(payment.depositBatchId),
+        isNull(payment.refundOfPaymentId)
+      )
+    )
+    .orderBy(asc(payment.paymentDate), asc(payment.id));
+}
+
+async function lockBatch(
+  database: Database,
+  batchId: number
+): Promise<DepositBatch> {
+  const [batch] = await database
+    .select()
+    .from(depositBatch)
+    .where(eq(depositBatch.id, batchId))
+    .for("update");
+  if (!batch) throw new HttpError(404, "Deposit batch not found");
+  return batch;
+}
+
+function assertOpen(batch: DepositBatch) {
+  if (batch.status !== "open") {
+    throw new HttpError(
+      409,
+      `Deposit batch #${batch.id} has been deposited and can no longer be changed`
+    );
+  }
+}
+
+export async function createDepositBatch(
+  input: DepositBatchInput & { paymentIds?: number[] },
+  context: AuditContext
+): Promise<DepositBatch> {
+  return db.transaction(async (tx) => {
+    const [batch] = await tx
+      .insert(depositBatch)
+      .values({
+        depositDate: input.depositDate,
+        bankAccount: input.bankAccount,
+        notes: input.notes || null,
+        createdBy: context.changedBy,
+      })
+      .returning();
+    await recordAudit(tx, context, "deposit_batch", null, batch);
+
+    if (input.paymentIds?.length) {
+      await attachPayments(tx, batch, input.paymentIds, context);
+    }
+    return batch;
+  });
+}
+
+export async function updateDepositBatch(
+  batchId: number,
+  input: Partial<DepositBatchInput>,
+  context: AuditContext
+): Promise<DepositBatch> {
+  return db.transaction(async (tx) => {
+    const current = await lockBatch(tx, batchId);
+    assertOpen(current);
+
+    const [updated] = await tx
+      .update(depositBatch)
+      .set({
+        ...(input.depositDate !== undefined && {
+          depositDate: input.depositDate,
+        }),
+        ...(input.bankAccount !== undefined && {
+          bankAccount: input.bankAccount,
+        }),
+        ...(input.notes !== undefined && { notes: input.notes || null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(depositBatch.id, batchId))
+      .returning();
+    await recordAudit(tx, context, "deposit_batch", current, updated);
+    return updated;
+  });
+}
+
+// Only an open batch can be discarded; its payments become undeposited again
+export async function deleteDepositBatch(
+  batchId: number,
+  context: AuditContext
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const current = await lockBatch(tx, batchId);
+    assertOpen(current);
+
+    await detachPayments(
+      tx,
+      current,
+      (
+        await tx
+          .select({ id: payment.id })
+          .from(payment)
+          .where(eq(payment.depositBatchId, batchId))
+      ).map((row) => row.id),
+      context
+    );
+    await recordAudit(tx, context, "deposit_batch", current, null);
+    await tx.delete(depositBatch).where(eq(depositBatch.id, batchId));
+  });
+}
+
+async function attachPayments(
+  tx: Database,
+  batch: DepositBatch,
+  paymentIds: number[],
+  context: AuditContext
+): Promise<Payment[]> {
+  const rows = await tx
+    .select()
+    .from(payment)
+    .where(inArray(payment.id, paymentIds))
+    .orderBy(asc(payment.id))
+    .for("update");
+
+  const missing = paymentIds.filter((id) => !rows.some((row) => row.id === id));
+  if (missing.length > 0) {
+    throw new HttpError(404, `Payment #${missing[0]} not found`);
+  }
+
+  const attached: Payment[] = [];
+  for (const row of rows) {
+    if (row.depositBatchId === batch.id) continue;
+    if (row.depositBatchId) {
+      throw new HttpError(
+        409,
+        `Payment #${row.id} is already in deposit batch #${row.depositBatchId}`
+      );
+    }
+    if (row.paymentMethod !== "check" || row.refundOfPaymentId) {
+      throw new HttpError(
+        422,
+        `Payment #${row.id} is not a check and cannot be deposited`
+      );
+    }
+    if (row.paymentStatus !== "completed") {
+      throw new HttpError(
+        422,
+        `Payment #${row.id} is ${row.paymentStatus}; only completed checks can be deposited`
+      );
+    }
+
+    const [updated] = await tx
+      .update(payment)
+      .set({ depositBatchId: batch.id, updatedAt: new Date() })
+      .where(eq(payment.id, row.id))
+      .returning();
+    await recordAudit(tx, context, "payment", row, updated);
+    attached.push(updated);
+  }
+  return attached;
+}
+
+async function detachPayments(
+  tx: Database,
+  batch: DepositBatch,
+  paymentIds: number[],
+  context: AuditContext
+): Promise<void> {
+  if (paymentIds.length === 0) return;
+  const rows = await tx
+    .select()
+    .from(payment)
+    .where(
+      and(inArray(payment.id, paymentIds), eq(payment.depositBatchId, batch.id))
+    )
+    .for("update");
+
+  for (const row of rows) {
+    const [updated] = await tx
+      .update(payment)
+      .set({ depositBatchId: null, updatedAt: new Date() })
+      .where(eq(payment.id, row.id))
+      .returning();
+    await recordAudit(tx, context, "payment", row, updated);
+  }
+}
+
+export async function addPaymentsToBatch(
+  batchId: number,
+  paymentIds: number[],
+  context: AuditContext
+): Promise<Payment[]> {
+  return db.transaction(async (tx) => {
+    const batch = await lockBatch(tx, batchId);
+    assertOpen(batch);
+    return attachPayments(tx, batch, paymentIds, context);
+  });
+}
+
+export async function removePaymentsFromBatch(
+  batchId: number,
+  paymentIds: number[],
+  context: AuditContext
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const batch = await lockBatch(tx, batchId);
+    assertOpen(batch);
+    await detachPayments(tx, batch, paymentIds, context);
+  });
+}
+
+/**
+ * Marks the batch as taken to the bank. From then on it cannot be edited, and
+ * neither can the amount, currency, method, check number or status of its
+ * payments.
+ */
+export async function markBatchDeposited(
+  batchId: number,
+  { depositDate }: { depositDate?: string },
+  context: AuditContext
+): Promise<DepositBatch> {
+  return db.transaction(async (tx) => {
+    const current = await lockBatch(tx, batchId);
+    assertOpen(current);
+
+    const payments = await tx
+      .select({ id: payment.id, paymentStatus: payment.paymentStatus })
+      .from(payment)
+      .where(eq(payment.depositBatchId, batchId));
+    if (payments.length === 0) {
+      throw new HttpError(422, "An empty batch cannot be deposited");
+    }
+    // Refunded while the batch was open, so the check is no longer in hand
+    const lapsed = payments.find((row) => row.paymentStatus !== "completed");
+    if (lapsed) {
+      throw new HttpError(
+        422,
+        `Payment #${lapsed.id} is ${lapsed.paymentStatus}; remove it before depositing`
+      );
+    }
+
+    const [updated] = await tx
+      .update(depositBatch)
+      .set({
+        status: "deposited",
+        depositDate: depositDate ?? current.depositDate,
+        depositedAt: new Date(),
+        depositedBy: context.changedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(depositBatch.id, batchId))
+      .returning();
+    await recordAudit(tx, context, "deposit_batch", current, updated);
+    return updated;
+  });
+}
+
+/**
+ * Checks a deposited batch against the amounts the bank statement shows for
+ * it, one per currency. The batch is marked reconciled only when every
+ * currency matches to the cent; otherwise the differences are reported and
+ * nothing changes.
+ */
+export async function reconcileDepositBatch(
+  batchId: number,
+  {
+    bankTotals,
+    bankReference,
+  }: { bankTotals: BankTotal[]; bankReference?: string },
+  context: AuditContext
+): Promise<DepositBatchSummary> {
+  return db.transaction(async (tx) => {
+    const current = await lockBatch(tx, batchId);
+    if (current.status === "open") {
+      throw new HttpError(
+        409,
+        "Only a deposited batch can be reconciled against the bank"
+      );
+    }
+    if (current.status === "reconciled") {
+      throw new HttpError(
+        409,
+        `Deposit batch #${batchId} is already reconciled`
+      );
+    }
+
+    const totals = (await loadBatchTotals(tx, [batchId])).get(batchId) ?? [];
+    const reported = new Map<string, number>();
+    for (const line of bankTotals) {
+      reported.set(
+        line.currency,
+        round((reported.get(line.currency) ?? 0) + line.amount)
+      );
+    }
+
+    const currencies = new Set([
+      ...totals.map((total) => total.currency),
+      ...reported.keys(),
+    ]);
+    const differences = [...currencies].flatMap((currency) => {
+      const expected =
+        totals.find((total) => total.currency === currency)?.amount ?? 0;
+      const actual = reported.get(currency) ?? 0;
+      return expected === actual
+        ? []
+        : [
+            `${currency}: batch ${formatMoney(expected, currency)}, bank ${formatMoney(actual, currency)}`,
+          ];
+    });
+    if (differences.length > 0) {
+      throw new HttpError(
+        422,
+        `The bank amounts do not match the batch (${differences.join("; ")})`
+      );
+    }
+
+    const [updated] = await tx
+      .update(depositBatch)
+      .set({
+        status: "reconciled",
+        bankReference: bankReference || current.bankReference,
+        reconciledAt: new Date(),
+        reconciledBy: context.changedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(depositBatch.id, batchId))
+      .returning();
+    await recordAudit(tx, context, "deposit_batch", current, updated);
+    return summarize(updated, totals);
+  });
+}
+
+// Fields printed on the deposit slip, which stay as deposited
+const SLIP_FIELDS = [
+  "amount",
+  "currency",
+  "paymentMethod",
+  "checkNumber",
+  "paymentStatus",
+] as const;
+
+/**
+ * Guards edits and deletes of a payment that is in a deposit batch. Pass the
+ * changed fields, or null for a delete. A deposited batch keeps its payments
+ * and their slip details; an open one only needs them to stay completed
+ * checks, so anything else has to come out of the batch first.
+ */
+export async function assertDepositBatchAllows(
+  database: Database,
+  current: Payment,
+  changes: Partial<Record<(typeof SLIP_FIELDS)[number], unknown>> | null
+): Promise<void> {
+  if (!current.depositBatchId) return;
+  const batch = await lockBatch(database, current.depositBatchId);
+
+  if (batch.status !== "open") {
+    const changed =
+      changes === null
+        ? ["payment"]
+        : SLIP_FIELDS.filter((field) => {
+            const value = changes[field];
+            if (value === undefined) return false;
+            return field === "amount"
+              ? parseFloat(String(value)) !== parseFloat(current.amount)
+              : (value || null) !== current[field];
+          });
+    if (changed.length > 0) {
+      throw new HttpError(
+        409,
+        `Payment #${current.id} was deposited in batch #${batch.id}; ` +
+          (changes === null
+            ? "it cannot be deleted"
+            : "its amount, currency, method, check number and status cannot be changed")
+      );
+    }
+    return;
+  }
+
+  if (
+    changes &&
+    ((changes.paymentMethod !== undefined &&
+      changes.paymentMethod !== "check") ||
+      (changes.paymentStatus !== undefined &&
+        changes.paymentStatus !== "completed"))
+  ) {
+    throw new HttpError(
+      409,
+      `Remove payment #${current.id} from deposit batch #${batch.id} first`
+    );
+  }
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+
+// Left edges of the slip's text columns and right edge of its amounts
+const COLUMNS = {
+  check: MARGIN,
+  payer: MARGIN + 80,
+  date: MARGIN + 300,
+  amount: PAGE_WIDTH - MARGIN,
+};
+
+/**
+ * Lays out the deposit slip summary: the batch and bank account, then the
+ * checks grouped by currency with a subtotal each.
+ */
+export async function renderDepositSlipPdf(
+  detail: DepositBatchDetail
+): Promise<Buffer> {
+  const { batch, payments } = detail;
+  const pdf = await PDFDocument.create();
+  const organization = getReceiptOrganization();
+  pdf.setTitle(`Deposit slip for batch #${batch.id}`);
+  pdf.setAuthor(organization.name);
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const write = (
+    text: string,
+    x: number,
+    { font = regular, size = 10, color = TEXT_COLOR } = {}
+  ) => {
+    page.drawText(printable(font, text), { x, y, size, font, color });
+  };
+  const writeRight = (
+    text: string,
+    right: number,
+    font: PDFFont = regular,
+    size = 10
+  ) => {
+    const value = printable(font, text);
+    page.drawText(value, {
+      x: right - font.widthOfTextAtSize(value, size),
+      y,
+      size,
+      font,
+      color: TEXT_COLOR,
+    });
+  };
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.75,
+      color: MUTED_COLOR,
+    });
+  };
+  const ensureSpace = (needed: number) => {
+    if (y - needed >= MARGIN + 20) return;
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    write(`Deposit batch #${batch.id} (continued)`, MARGIN, {
+      color: MUTED_COLOR,
+    });
+    y -= 28;
+  };
+
+  write(organization.name, MARGIN, { font: bold, size: 18 });
+  y -= 16;
+  for (const line of organization.addressLines) {
+    write(line, MARGIN, { color: MUTED_COLOR });
+    y -= 13;
+  }
+  y -= 4;
+  rule();
+  y -= 32;
+
+  write("Deposit Slip", MARGIN, { font: bold, size: 16 });
+  writeRight(`Batch #${batch.id}`, PAGE_WIDTH - MARGIN, bold, 12);
+  y -= 24;
+
+  const details: Array<[string, string]> = [
+    ["Bank account", batch.bankAccount],
+    ["Deposit date", format(parseISO(batch.depositDate), "MMMM d, yyyy")],
+    ["Checks", batch.paymentCount.toString()],
+  ];
+  if (batch.bankReference)
+    details.push(["Bank reference", batch.bankReference]);
+  if (batch.status === "open") details.push(["Status", "Not yet deposited"]);
+  for (const [label, value] of details) {
+    write(label, MARGIN, { color: MUTED_COLOR });
+    write(value, MARGIN + 120);
+    y -= 16;
+  }
+  y -= 16;
+
+  for (const total of batch.totals) {
+    ensureSpace(60);
+    write(`${total.currency} checks`, MARGIN, { font: bold, size: 12 });
+    y -= 18;
+    write("Check #", COLUMNS.check, { font: bold, size: 9 });
+    write("Payer", COLUMNS.payer, { font: bold, size: 9 });
+    write("Dated", COLUMNS.date, { font: bold, size: 9 });
+    writeRight("Amount", COLUMNS.amount, bold, 9);
+    y -= 6;
+    rule();
+    y -= 14;
+
+    for (const line of payments.filter(
+      (row) => row.currency === total.currency
+    )) {
+      ensureSpace(14);
+      write(line.checkNumber ?? "—", COLUMNS.check);
+      write(line.contactName, COLUMNS.payer);
+      write(format(parseISO(line.paymentDate), "MMM d, yyyy"), COLUMNS.date);
+      writeRight(formatMoney(line.amount, line.currency), COLUMNS.amount);
+      y -= 14;
+    }
+
+    y -= 2;
+    write(
+      `${total.count} check${total.count === 1 ? "" : "s"}`,
+      COLUMNS.payer,
+      { font: bold }
+    );
+    writeRight(formatMoney(total.amount, total.currency), COLUMNS.amount, bold);
+    y -= 26;
+  }
+
+  if (batch.totals.length === 0) {
+    write("No checks have been added to this batch.", MARGIN);
+  }
+
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,292 @@
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { currencyEnum, exchangeRate, type ExchangeRate } from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+
+export type Currency = ExchangeRate["currency"];
+
+export const CURRENCIES = currencyEnum.enumValues;
+
+// How far back a missing rate may be filled from, which covers weekends and
+// holidays when no rate is published
+const MAX_FALLBACK_DAYS = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type RateSet = Partial<Record<Currency, number>>;
+
+export interface RateInput {
+  date: string;
+  currency: Currency;
+  rateToUsd: number;
+}
+
+export interface ResolvedRate {
+  rateToUsd: number;
+  date: string; // The date the rate was published for
+}
+
+export interface UsdConversion {
+  amountUsd: number;
+  exchangeRate: number;
+  rateDate: string;
+}
+
+/**
+ * A source of daily rates. Rates a provider returns are stored in
+ * `exchange_rate`, so each date is only fetched once.
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(date: string): Promise<RateSet>;
+}
+
+// Offline use: rates only come from manual entry and CSV import
+export const manualProvider: ExchangeRateProvider = {
+  name: "manual",
+  async fetchRates() {
+    return {};
+  },
+};
+
+export const exchangeRateHostProvider: ExchangeRateProvider = {
+  name: "exchangerate.host",
+  async fetchRates(date) {
+    const accessKey = process.env.EXCHANGERATE_API_KEY;
+    if (!accessKey) {
+      throw new Error(
+        "EXCHANGERATE_API_KEY is not set in the environment variables"
+      );
+    }
+
+    const url = new URL("https://api.exchangerate.host/historical");
+    url.searchParams.set("access_key", accessKey);
+    url.searchParams.set("date", date);
+    url.searchParams.set("currencies", CURRENCIES.join(","));
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) {
+      throw new Error(`exchangerate.host responded with ${response.status}`);
+    }
+    const body: { quotes?: Record<string, number> } = await response.json();
+
+    // Quotes are USD to currency ("USDILS"), so they are inverted to get the
+    // USD value of one unit
+    const rates: RateSet = {};
+    for (const [pair, value] of Object.entries(body.quotes ?? {})) {
+      const currency = pair.slice(3) as Currency;
+      if (CURRENCIES.includes(currency) && Number(value) > 0) {
+        rates[currency] = 1 / Number(value);
+      }
+    }
+    return rates;
+  },
+};
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  switch (process.env.EXCHANGE_RATE_PROVIDER) {
+    case exchangeRateHostProvider.name:
+      return exchangeRateHostProvider;
+    default:
+      return manualProvider;
+  }
+}
+
+function assertDate(date: string): void {
+  if (!DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+    throw new HttpError(400, `Invalid exchange rate date: ${date}`);
+  }
+}
+
+export async function upsertExchangeRates(
+  database: Database,
+  rates: RateInput[],
+  source: string
+): Promise<number> {
+  if (rates.length === 0) return 0;
+  rates.forEach((rate) => assertDate(rate.date));
+
+  // A later row for the same day and currency wins, as one statement cannot
+  // upsert the same key twice
+  const unique = new Map(
+    rates.map((rate) => [`${rate.date}:${rate.currency}`, rate])
+  );
+
+  const stored = await database
+    .insert(exchangeRate)
+    .values(
+      Array.from(unique.values()).map((rate) => ({
+        date: rate.date,
+        currency: rate.currency,
+        rateToUsd: rate.rateToUsd.toString(),
+        source,
+      }))
+    )
+    .onConflictDoUpdate({
+      target: [exchangeRate.date, exchangeRate.currency],
+      set: {
+        rateToUsd: sql`excluded.rate_to_usd`,
+        source: sql`excluded.source`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ id: exchangeRate.id });
+  return stored.length;
+}
+
+/**
+ * Resolves the rate to USD for each currency on a date: a stored rate for the
+ * day, then the configured provider, then the latest stored rate from the
+ * previous week. Currencies with no rate are left out of the result.
+ */
+export async function resolveRates(
+  database: Database,
+  date: string,
+  currencies: readonly Currency[] = CURRENCIES
+): Promise<Partial<Record<Currency, ResolvedRate>>> {
+  assertDate(date);
+  const resolved: Partial<Record<Currency, ResolvedRate>> = {};
+  const missing = () =>
+    currencies.filter((currency) => !resolved[currency] && currency !== "USD");
+
+  if (currencies.includes("USD")) {
+    resolved.USD = { rateToUsd: 1, date };
+  }
+  if (missing().length === 0) return resolved;
+
+  const stored = await database
+    .select()
+    .from(exchangeRate)
+    .where(
+      and(
+        eq(exchangeRate.date, date),
+        inArray(exchangeRate.currency, missing())
+      )
+    );
+  for (const row of stored) {
+    resolved[row.currency] = { rateToUsd: parseFloat(row.rateToUsd), date };
+  }
+
+  const provider = getExchangeRateProvider();
+  if (missing().length > 0 && provider !== manualProvider) {
+    try {
+      const fetched = await provider.fetchRates(date);
+      const inputs = Object.entries(fetched).map(([currency, rateToUsd]) => ({
+        date,
+        currency: currency as Currency,
+        rateToUsd,
+      }));
+      await upsertExchangeRates(database, inputs, provider.name);
+      for (const input of inputs) {
+        if (currencies.includes(input.currency)) {
+          resolved[input.currency] = { rateToUsd: input.rateToUsd, date };
+        }
+      }
+    } catch (error) {
+      console.error(`Error fetching rates from ${provider.name}:`, error);
+    }
+  }
+
+  for (const currency of missing()) {
+    const [latest] = await database
+      .select()
+      .from(exchangeRate)
+      .where(
+        and(
+          eq(exchangeRate.currency, currency),
+          lte(exchangeRate.date, date),
+          gte(exchangeRate.date, sql`${date}::date - ${MAX_FALLBACK_DAYS}::int`)
+        )
+      )
+      .orderBy(desc(exchangeRate.date))
+      .limit(1);
+    if (latest) {
+      resolved[currency] = {
+        rateToUsd: parseFloat(latest.rateToUsd),
+        date: latest.date,
+      };
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Converts an amount to USD at the server's rate for the date. Throws a 422
+ * when no rate is known, rather than guessing.
+ */
+export async function convertToUsd(
+  database: Database,
+  amount: number,
+  currency: Currency,
+  date: string
+): Promise<UsdConversion> {
+  const rateDate = date.slice(0, 10);
+  const { [currency]: rate } = await resolveRates(database, rateDate, [
+    currency,
+  ]);
+  if (!rate) {
+    throw new HttpError(
+      422,
+      `No ${currency} exchange rate is available for ${rateDate}`
+    );
+  }
+
+  return {
+    amountUsd: Math.round(amount * rate.rateToUsd * 100) / 100,
+    exchangeRate: rate.rateToUsd,
+    rateDate: rate.date,
+  };
+}
+
+/**
+ * Parses a `date,currency,rate` CSV (header row required, rate being the USD
+ * value of one unit). Returns the rows, or the problems found line by line.
+ */
+export function parseExchangeRateCsv(text: string): {
+  rates: RateInput[];
+  errors: { line: number; message: string }[];
+} {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  const rates: RateInput[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  const header = (lines[0] ?? "")
+    .split(",")
+    .map((column) => column.trim().toLowerCase());
+  const dateIndex = header.indexOf("date");
+  const currencyIndex = header.indexOf("currency");
+  const rateIndex = header.findIndex((column) =>
+    ["rate", "rate_to_usd"].includes(column)
+  );
+  if (dateIndex < 0 || currencyIndex < 0 || rateIndex < 0) {
+    return {
+      rates,
+      errors: [
+        { line: 1, message: "Header must contain date, currency and rate" },
+      ],
+    };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const date = cells[dateIndex] ?? "";
+    const currency = (cells[currencyIndex] ?? "").toUpperCase() as Currency;
+    const rateToUsd = Number(cells[rateIndex]);
+
+    if (!DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+      errors.push({ line: index + 2, message: `Invalid date "${date}"` });
+    } else if (!CURRENCIES.includes(currency)) {
+      errors.push({
+        line: index + 2,
+        message: `Unsupported currency "${currency}"`,
+      });
+    } else if (!(rateToUsd > 0)) {
+      errors.push({ line: index + 2, message: "Rate must be positive" });
+    } else {
+      rates.push({ date, currency, rateToUsd });
+    }
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,116 @@
+import { and, desc, gte, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { HttpError } from "@/lib/error-handler";
+
+// Incremental feeds for polling clients such as Zapier. Rows come newest
+// first by (updatedAt, id), which never reorders between polls, and the
+// cursor points just past the last row returned.
+
+const feedQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().min(1).max(500).default(100),
+  updatedSince: z.string().datetime({ offset: true }).optional(),
+});
+
+interface FeedCursor {
+  updatedAt: string;
+  id: number;
+}
+
+export interface FeedQuery {
+  cursor: FeedCursor | null;
+  limit: number;
+  updatedSince: Date | null;
+}
+
+export interface FeedColumns {
+  id: PgColumn;
+  updatedAt: PgColumn;
+}
+
+export interface FeedPage<T> {
+  data: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+function encodeCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): FeedCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (typeof cursor.updatedAt === "string" && Number.isInteger(cursor.id)) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(400, "Invalid cursor");
+}
+
+export function parseFeedQuery(request: Request): FeedQuery {
+  const { searchParams } = new URL(request.url);
+  const { cursor, limit, updatedSince } = feedQuerySchema.parse({
+    cursor: searchParams.get("cursor") || undefined,
+    limit: searchParams.get("limit") || undefined,
+    updatedSince: searchParams.get("updatedSince") || undefined,
+  });
+
+  return {
+    cursor: cursor ? decodeCursor(cursor) : null,
+    limit,
+    updatedSince: updatedSince ? new Date(updatedSince) : null,
+  };
+}
+
+export function feedWhere(
+  columns: FeedColumns,
+  query: FeedQuery
+): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (query.updatedSince) {
+    conditions.push(gte(columns.updatedAt, query.updatedSince));
+  }
+  if (query.cursor) {
+    conditions.push(
+      sql`(${columns.updatedAt}, ${columns.id}) < (${query.cursor.updatedAt}::timestamp, ${query.cursor.id})`
+    );
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export function feedOrderBy(columns: FeedColumns): SQL[] {
+  return [desc(columns.updatedAt), desc(columns.id)];
+}
+
+// The timestamp as Postgres prints it, which keeps the microseconds a JS Date
+// would drop and so lets the cursor compare exactly
+export function feedCursorKey(columns: FeedColumns) {
+  return sql<string>`${columns.updatedAt}::text`;
+}
+
+/**
+ * Turns `limit + 1` rows, each selected with a `cursorKey`, into a page. The
+ * extra row only tells us whether another page exists.
+ */
+export function feedPage<T extends { id: number; cursorKey: string }>(
+  rows: T[],
+  limit: number
+): FeedPage<Omit<T, "cursorKey">> {
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    data: pageRows.map(({ cursorKey, ...row }) => row),
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({ updatedAt: last.cursorKey, id: last.id })
+        : null,
+    hasMore,
+  };
+}
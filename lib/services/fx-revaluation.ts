@@ -0,0 +1,194 @@
+import { and, eq, ne, sql, type SQL } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { contact, pledge } from "@/lib/db/schema";
+import {
+  resolveRates,
+  type Currency,
+  type ResolvedRate,
+} from "./exchange-rates";
+import { ledgerEntry } from "./ledger-entries";
+
+export interface RevaluationFilters {
+  asOf: string;
+  currency?: Currency;
+  contactId?: number;
+  // Include pledges that are fully paid, which only carry realized FX
+  includeClosed?: boolean;
+}
+
+export interface PledgeRevaluation {
+  pledgeId: number;
+  contactId: number;
+  contactName: string;
+  pledgeDate: string;
+  description: string | null;
+  currency: Currency;
+  originalAmount: number;
+  originalAmountUsd: number;
+  pledgeRate: number;
+  totalPaid: number;
+  totalPaidUsd: number;
+  balance: number;
+  // Open balance at the pledge rate and at the rate on the report date
+  balanceUsdAtPledgeRate: number;
+  balanceUsdAtCurrentRate: number | null;
+  // What the pledge is worth now: USD already received plus the balance
+  currentValueUsd: number | null;
+  // USD received minus the same payments valued at the pledge rate
+  realizedFxUsd: number;
+  unrealizedFxUsd: number | null;
+}
+
+export interface CurrencyRevaluation {
+  currency: Currency;
+  currentRate: number | null;
+  rateDate: string | null;
+  pledgeCount: number;
+  originalAmount: number;
+  originalAmountUsd: number;
+  balance: number;
+  balanceUsdAtPledgeRate: number;
+  balanceUsdAtCurrentRate: number | null;
+  currentValueUsd: number | null;
+  realizedFxUsd: number;
+  unrealizedFxUsd: number | null;
+}
+
+export interface RevaluationReport {
+  asOf: string;
+  pledges: PledgeRevaluation[];
+  currencies: CurrencyRevaluation[];
+  // Currencies with no rate on or shortly before the report date
+  missingRates: Currency[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Values each non-USD pledge at the rate on `asOf` against the rate it was
+ * pledged at. Payments are recorded in the pledge currency, so the realized
+ * difference is their USD amount less the same amount at the pledge rate.
+ */
+export async function buildRevaluationReport(
+  database: Database,
+  filters: RevaluationFilters
+): Promise<RevaluationReport> {
+  const conditions: SQL[] = [ne(pledge.currency, "USD")];
+  if (filters.currency) {
+    conditions.push(eq(pledge.currency, filters.currency));
+  }
+  if (filters.contactId) {
+    conditions.push(eq(pledge.contactId, filters.contactId));
+  }
+  if (!filters.includeClosed) {
+    conditions.push(sql`${pledge.balance} > 0`);
+  }
+
+  const rows = await database
+    .select({
+      pledge,
+      contactName: sql<string>`CONCAT(${contact.firstName}, ' ', ${contact.lastName})`,
+      paidAmount: sql<string>`COALESCE(SUM(${ledgerEntry.amount}) FILTER (WHERE ${ledgerEntry.paymentStatus} = 'completed'), 0)`,
+      paidAmountUsd: sql<string>`COALESCE(SUM(${ledgerEntry.amountUsd}) FILTER (WHERE ${ledgerEntry.paymentStatus} = 'completed'), 0)`,
+    })
+    .from(pledge)
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .leftJoin(ledgerEntry, eq(ledgerEntry.pledgeId, pledge.id))
+    .where(and(...conditions))
+    .groupBy(pledge.id, contact.id)
+    .orderBy(pledge.currency, pledge.pledgeDate, pledge.id);
+
+  const currencies = Array.from(
+    new Set(rows.map((row) => row.pledge.currency))
+  );
+  const rates: Partial<Record<Currency, ResolvedRate>> =
+    currencies.length > 0
+      ? await resolveRates(database, filters.asOf, currencies)
+      : {};
+
+  const pledges = rows.map(
+    ({ pledge: record, contactName, paidAmount, paidAmountUsd }) => {
+      const originalAmount = parseFloat(record.originalAmount);
+      const originalAmountUsd = parseFloat(record.originalAmountUsd ?? "0");
+      // Older pledges may lack a stored rate; their USD amount implies one
+      const pledgeRate = record.exchangeRate
+        ? parseFloat(record.exchangeRate)
+        : originalAmount > 0
+          ? originalAmountUsd / originalAmount
+          : 0;
+      const totalPaid = parseFloat(paidAmount);
+      const totalPaidUsd = parseFloat(paidAmountUsd);
+      const balance = Math.max(parseFloat(record.balance), 0);
+      const currentRate = rates[record.currency]?.rateToUsd ?? null;
+
+      const balanceUsdAtPledgeRate = round(balance * pledgeRate);
+      const balanceUsdAtCurrentRate =
+        currentRate !== null ? round(balance * currentRate) : null;
+
+      return {
+        pledgeId: record.id,
+        contactId: record.contactId,
+        contactName,
+        pledgeDate: record.pledgeDate,
+        description: record.description,
+        currency: record.currency,
+        originalAmount,
+        originalAmountUsd,
+        pledgeRate,
+        totalPaid,
+        totalPaidUsd,
+        balance,
+        balanceUsdAtPledgeRate,
+        balanceUsdAtCurrentRate,
+        currentValueUsd:
+          balanceUsdAtCurrentRate !== null
+            ? round(totalPaidUsd + balanceUsdAtCurrentRate)
+            : null,
+        realizedFxUsd: round(totalPaidUsd - totalPaid * pledgeRate),
+        unrealizedFxUsd:
+          balanceUsdAtCurrentRate !== null
+            ? round(balanceUsdAtCurrentRate - balanceUsdAtPledgeRate)
+            : null,
+      };
+    }
+  );
+
+  return {
+    asOf: filters.asOf,
+    pledges,
+    currencies: currencies.map((currency) =>
+      summarizeCurrency(
+        currency,
+        rates[currency] ?? null,
+        pledges.filter((row) => row.currency === currency)
+      )
+    ),
+    missingRates: currencies.filter((currency) => !rates[currency]),
+  };
+}
+
+function summarizeCurrency(
+  currency: Currency,
+  rate: ResolvedRate | null,
+  pledges: PledgeRevaluation[]
+): CurrencyRevaluation {
+  const sum = (pick: (row: PledgeRevaluation) => number) =>
+    round(pledges.reduce((total, row) => total + pick(row), 0));
+  const sumIfRated = (pick: (row: PledgeRevaluation) => number | null) =>
+    rate ? sum((row) => pick(row) ?? 0) : null;
+
+  return {
+    currency,
+    currentRate: rate?.rateToUsd ?? null,
+    rateDate: rate?.date ?? null,
+    pledgeCount: pledges.length,
+    originalAmount: sum((row) => row.originalAmount),
+    originalAmountUsd: sum((row) => row.originalAmountUsd),
+    balance: sum((row) => row.balance),
+    balanceUsdAtPledgeRate: sum((row) => row.balanceUsdAtPledgeRate),
+    balanceUsdAtCurrentRate: sumIfRated((row) => row.balanceUsdAtCurrentRate),
+    currentValueUsd: sumIfRated((row) => row.currentValueUsd),
+    realizedFxUsd: sum((row) => row.realizedFxUsd),
+    unrealizedFxUsd: sumIfRated((row) => row.unrealizedFxUsd),
+  };
+}
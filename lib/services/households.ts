@@ -0,0 +1,696 @@
+import { and, asc, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { db, type Database, type Transaction } from "@/lib/db";
+import {
+  category,
+  contact,
+  contactAddress,
+  household,
+  householdMember,
+  pledge,
+  relationships,
+  studentRoles,
+  type Household,
+  type HouseholdMember,
+  type Pledge,
+  type Relationship,
+  type StudentRole,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+
+export type HouseholdRole = HouseholdMember["role"];
+
+export interface HouseholdGiving {
+  pledgeCount: number;
+  pledgedUsd: number;
+  paidUsd: number;
+  balanceUsd: number;
+}
+
+export interface HouseholdSummary extends Household {
+  headContactId: number | null;
+  headName: string | null;
+  memberCount: number;
+  studentCount: number;
+  giving: HouseholdGiving;
+}
+
+export interface HouseholdMemberDetail {
+  id: number;
+  contactId: number;
+  contactName: string;
+  email: string | null;
+  role: HouseholdRole;
+  giving: HouseholdGiving;
+}
+
+export interface HouseholdStudent {
+  id: number;
+  contactId: number;
+  contactName: string;
+  year: string;
+  program: StudentRole["program"];
+  track: StudentRole["track"];
+  status: StudentRole["status"];
+  isActive: boolean;
+}
+
+export interface HouseholdPledge {
+  id: number;
+  contactId: number;
+  contactName: string;
+  pledgeDate: string;
+  description: string | null;
+  categoryName: string | null;
+  currency: Pledge["currency"];
+  originalAmount: string;
+  originalAmountUsd: string | null;
+  totalPaidUsd: string | null;
+  balanceUsd: string | null;
+  isActive: boolean;
+}
+
+export interface HouseholdDetail {
+  household: HouseholdSummary;
+  members: HouseholdMemberDetail[];
+  students: HouseholdStudent[];
+  pledges: HouseholdPledge[];
+}
+
+export interface HouseholdMemberInput {
+  contactId: number;
+  role: HouseholdRole;
+}
+
+export interface HouseholdInput {
+  name: string;
+  street?: string | null;
+  street2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+  notes?: string | null;
+  members?: HouseholdMemberInput[];
+}
+
+export interface PlannedHousehold {
+  // Null for a household the build creates
+  householdId: number | null;
+  name: string;
+  members: (HouseholdMemberInput & { contactName: string })[];
+}
+
+export interface BuildHouseholdsResult {
+  created: PlannedHousehold[];
+  extended: PlannedHousehold[];
+}
+
+// Relationship types that put two people in one household. A row says the
+// related contact is the contact's <type>, so "mother" makes the related
+// contact the parent and "son" makes it the child. Former and separated
+// spouses are left out on purpose.
+const SPOUSE_TYPES: Relationship["relationshipType"][] = [
+  "spouse",
+  "partner",
+  "wife",
+  "husband",
+];
+const PARENT_TYPES: Relationship["relationshipType"][] = [
+  "mother",
+  "father",
+  "parent",
+  "step-parent",
+  "stepmother",
+  "stepfather",
+  "legal guardian",
+];
+const CHILD_TYPES: Relationship["relationshipType"][] = [
+  "son",
+  "daughter",
+  "stepson",
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const contactName = sql<string>`${contact.firstName} || ' ' || ${contact.lastName}`;
+
+const emptyGiving = (): HouseholdGiving => ({
+  pledgeCount: 0,
+  pledgedUsd: 0,
+  paidUsd: 0,
+  balanceUsd: 0,
+});
+
+const givingColumns = {
+  pledgeCount: sql<number>`count(${pledge.id})::int`,
+  pledgedUsd: sql<string>`COALESCE(sum(${pledge.originalAmountUsd}), 0)`,
+  paidUsd: sql<string>`COALESCE(sum(${pledge.totalPaidUsd}), 0)`,
+  balanceUsd: sql<string>`COALESCE(sum(${pledge.balanceUsd}), 0)`,
+};
+
+function toGiving(row: {
+  pledgeCount: number;
+  pledgedUsd: string;
+  paidUsd: string;
+  balanceUsd: string;
+}): HouseholdGiving {
+  return {
+    pledgeCount: row.pledgeCount,
+    pledgedUsd: round(parseFloat(row.pledgedUsd)),
+    paidUsd: round(parseFloat(row.paidUsd)),
+    balanceUsd: round(parseFloat(row.balanceUsd)),
+  };
+}
+
+// Member, student and giving totals for each household, every pledge of
+// every member counting once in USD
+async function summarizeHouseholds(
+  database: Database,
+  households: Household[]
+): Promise<HouseholdSummary[]> {
+  const ids = households.map((row) => row.id);
+  if (ids.length === 0) return [];
+
+  const [members, students, giving] = await Promise.all([
+    database
+      .select({
+        householdId: householdMember.householdId,
+        contactId: householdMember.contactId,
+        role: householdMember.role,
+        contactName,
+      })
+      .from(householdMember)
+      .innerJoin(contact, eq(householdMember.contactId, contact.id))
+      .where(inArray(householdMember.householdId, ids)),
+    database
+      .select({
+        householdId: householdMember.householdId,
+        count: sql<number>`count(DISTINCT ${studentRoles.contactId})::int`,
+      })
+      .from(studentRoles)
+      .innerJoin(
+        householdMember,
+        eq(studentRoles.contactId, householdMember.contactId)
+      )
+      .where(inArray(householdMember.householdId, ids))
+      .groupBy(householdMember.householdId),
+    database
+      .select({ householdId: householdMember.householdId, ...givingColumns })
+      .from(pledge)
+      .innerJoin(
+        householdMember,
+        eq(pledge.contactId, householdMember.contactId)
+      )
+      .where(inArray(householdMember.householdId, ids))
+      .groupBy(householdMember.householdId),
+  ]);
+
+  return households.map((row) => {
+    const own = members.filter((member) => member.householdId === row.id);
+    const head = own.find((member) => member.role === "head");
+    const totals = giving.find((total) => total.householdId === row.id);
+    return {
+      ...row,
+      headContactId: head?.contactId ?? null,
+      headName: head?.contactName ?? null,
+      memberCount: own.length,
+      studentCount:
+        students.find((total) => total.householdId === row.id)?.count ?? 0,
+      giving: totals ? toGiving(totals) : emptyGiving(),
+    };
+  });
+}
+
+export async function listHouseholds(
+  database: Database,
+  { search }: { search?: string } = {}
+): Promise<HouseholdSummary[]> {
+  const conditions: SQL[] = [];
+  if (search) {
+    const pattern = `%${search}%`;
+    conditions.push(
+      sql`(${household.name} ILIKE ${pattern} OR EXISTS (
+        SELECT 1 FROM ${householdMember}
+        INNER JOIN ${contact} ON ${contact.id} = ${householdMember.contactId}
+        WHERE ${householdMember.householdId} = ${household.id}
+          AND (${contact.firstName} || ' ' || ${contact.lastName}) ILIKE ${pattern}
+      ))`
+    );
+  }
+
+  const households = await database
+    .select()
+    .from(household)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(household.name), asc(household.id));
+  return summarizeHouseholds(database, households);
+}
+
+export async function getHousehold(
+  database: Database,
+  householdId: number
+): Promise<HouseholdDetail | null> {
+  const [row] = await database
+    .select()
+    .from(household)
+    .where(eq(household.id, householdId));
+  if (!row) return null;
+
+  const [[summary], members, giving, students, pledges] = await Promise.all([
+    summarizeHouseholds(database, [row]),
+    database
+      .select({
+        id: householdMember.id,
+        contactId: householdMember.contactId,
+        contactName,
+        email: contact.email,
+        role: householdMember.role,
+      })
+      .from(householdMember)
+      .innerJoin(contact, eq(householdMember.contactId, contact.id))
+      .where(eq(householdMember.householdId, householdId))
+      .orderBy(
+        sql`array_position(ARRAY['head', 'spouse', 'child', 'other']::household_member_role[], ${householdMember.role})`,
+        asc(contact.id)
+      ),
+    database
+      .select({ contactId: pledge.contactId, ...givingColumns })
+      .from(pledge)
+      .innerJoin(
+        householdMember,
+        eq(pledge.contactId, householdMember.contactId)
+      )
+      .where(eq(householdMember.householdId, householdId))
+      .groupBy(pledge.contactId),
+    database
+      .select({
+        id: studentRoles.id,
+        contactId: studentRoles.contactId,
+        contactName,
+        year: studentRoles.year,
+        program: studentRoles.program,
+        track: studentRoles.track,
+        status: studentRoles.status,
+        isActive: studentRoles.isActive,
+      })
+      .from(studentRoles)
+      .innerJoin(
+        householdMember,
+        eq(studentRoles.contactId, householdMember.contactId)
+      )
+      .innerJoin(contact, eq(studentRoles.contactId, contact.id))
+      .where(eq(householdMember.householdId, householdId))
+      .orderBy(desc(studentRoles.year), asc(contact.id)),
+    database
+      .select({
+        id: pledge.id,
+        contactId: pledge.contactId,
+        contactName,
+        pledgeDate: pledge.pledgeDate,
+        description: pledge.description,
+        categoryName: category.name,
+        currency: pledge.currency,
+        originalAmount: pledge.originalAmount,
+        originalAmountUsd: pledge.originalAmountUsd,
+        totalPaidUsd: pledge.totalPaidUsd,
+        balanceUsd: pledge.balanceUsd,
+        isActive: pledge.isActive,
+      })
+      .from(pledge)
+      .innerJoin(
+        householdMember,
+        eq(pledge.contactId, householdMember.contactId)
+      )
+      .innerJoin(contact, eq(pledge.contactId, contact.id))
+      .leftJoin(category, eq(pledge.categoryId, category.id))
+      .where(eq(householdMember.householdId, householdId))
+      .orderBy(desc(pledge.pledgeDate), desc(pledge.id)),
+  ]);
+
+  return {
+    household: summary,
+    members: members.map((member) => {
+      const totals = giving.find(
+        (total) => total.contactId === member.contactId
+      );
+      return { ...member, giving: totals ? toGiving(totals) : emptyGiving() };
+    }),
+    students,
+    pledges,
+  };
+}
+
+async function lockHousehold(
+  database: Database,
+  householdId: number
+): Promise<Household> {
+  const [row] = await database
+    .select()
+    .from(household)
+    .where(eq(household.id, householdId))
+    .for("update");
+  if (!row) throw new HttpError(404, "Household not found");
+  return row;
+}
+
+function householdFields(input: Partial<HouseholdInput>) {
+  const optional = (value?: string | null) =>
+    value === undefined ? undefined : value?.trim() || null;
+  return {
+    name: input.name?.trim(),
+    street: optional(input.street),
+    street2: optional(input.street2),
+    city: optional(input.city),
+    state: optional(input.state),
+    postalCode: optional(input.postalCode),
+    country: optional(input.country),
+    notes: optional(input.notes),
+  };
+}
+
+// Replaces the household's members. A household with members has exactly
+// one head, and a contact can only be in one household.
+async function saveMembers(
+  tx: Transaction,
+  householdId: number,
+  members: HouseholdMemberInput[]
+): Promise<void> {
+  const contactIds = members.map((member) => member.contactId);
+  if (new Set(contactIds).size !== contactIds.length) {
+    throw new HttpError(422, "A contact can only be listed once");
+  }
+  if (
+    members.length > 0 &&
+    members.filter((member) => member.role === "head").length !== 1
+  ) {
+    throw new HttpError(422, "A household needs exactly one head");
+  }
+
+  if (contactIds.length > 0) {
+    const found = await tx
+      .select({ id: contact.id })
+      .from(contact)
+      .where(inArray(contact.id, contactIds));
+    const missing = contactIds.find(
+      (id) => !found.some((row) => row.id === id)
+    );
+    if (missing) throw new HttpError(404, `Contact #${missing} not found`);
+
+    const [elsewhere] = await tx
+      .select({
+        contactId: householdMember.contactId,
+        householdId: householdMember.householdId,
+      })
+      .from(householdMember)
+      .where(
+        and(
+          inArray(householdMember.contactId, contactIds),
+          sql`${householdMember.householdId} <> ${householdId}`
+        )
+      )
+      .limit(1);
+    if (elsewhere) {
+      throw new HttpError(
+        409,
+        `Contact #${elsewhere.contactId} is already in household #${elsewhere.householdId}`
+      );
+    }
+  }
+
+  await tx
+    .delete(householdMember)
+    .where(eq(householdMember.householdId, householdId));
+  if (members.length > 0) {
+    await tx
+      .insert(householdMember)
+      .values(members.map((member) => ({ ...member, householdId })));
+  }
+}
+
+export async function createHousehold(
+  input: HouseholdInput,
+  context: AuditContext
+): Promise<Household> {
+  return db.transaction(async (tx) => {
+    const fields = householdFields(input);
+    const [created] = await tx
+      .insert(household)
+      .values({ ...fields, name: fields.name ?? input.name })
+      .returning();
+    await recordAudit(tx, context, "household", null, created);
+    await saveMembers(tx, created.id, input.members ?? []);
+    return created;
+  });
+}
+
+// Fields left out are kept; a member list that is sent replaces the old one
+export async function updateHousehold(
+  householdId: number,
+  input: Partial<HouseholdInput>,
+  context: AuditContext
+): Promise<Household> {
+  return db.transaction(async (tx) => {
+    const current = await lockHousehold(tx, householdId);
+
+    const [updated] = await tx
+      .update(household)
+      .set({ ...householdFields(input), updatedAt: new Date() })
+      .where(eq(household.id, householdId))
+      .returning();
+    await recordAudit(tx, context, "household", current, updated);
+
+    if (input.members) await saveMembers(tx, householdId, input.members);
+    return updated;
+  });
+}
+
+// The members stay as contacts; only the grouping goes
+export async function deleteHousehold(
+  householdId: number,
+  context: AuditContext
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const current = await lockHousehold(tx, householdId);
+    await recordAudit(tx, context, "household", current, null);
+    await tx.delete(household).where(eq(household.id, householdId));
+  });
+}
+
+/**
+ * Groups contacts into households from their active spouse and parent
+ * relationships. Spouses share a household, and so do parents and the
+ * children who have no spouse or children of their own; a child of parents
+ * in different households goes with the parent added first. Groups of two or
+ * more with nobody in a household yet become new households, headed by the
+ * adult added first, named after them and given their primary address.
+ * Groups that already touch a household add their remaining people to it.
+ * Contacts already in a household are never moved. With `dryRun` nothing is
+ * written and the result shows what would be.
+ */
+export async function buildHouseholds(
+  context: AuditContext,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<BuildHouseholdsResult> {
+  return db.transaction(async (tx) => {
+    const links = await tx
+      .select({
+        contactId: relationships.contactId,
+        relatedContactId: relationships.relatedContactId,
+        relationshipType: relationships.relationshipType,
+      })
+      .from(relationships)
+      .where(
+        and(
+          eq(relationships.isActive, true),
+          inArray(relationships.relationshipType, [
+            ...SPOUSE_TYPES,
+            ...PARENT_TYPES,
+            ...CHILD_TYPES,
+          ])
+        )
+      )
+      .orderBy(asc(relationships.id));
+
+    const spouses = new Map<number, Set<number>>();
+    const parents = new Map<number, Set<number>>();
+    const addTo = (map: Map<number, Set<number>>, key: number, id: number) => {
+      if (key === id) return;
+      map.set(key, (map.get(key) ?? new Set()).add(id));
+    };
+    for (const link of links) {
+      if (SPOUSE_TYPES.includes(link.relationshipType)) {
+        addTo(spouses, link.contactId, link.relatedContactId);
+        addTo(spouses, link.relatedContactId, link.contactId);
+      } else if (PARENT_TYPES.includes(link.relationshipType)) {
+        addTo(parents, link.contactId, link.relatedContactId);
+      } else {
+        addTo(parents, link.relatedContactId, link.contactId);
+      }
+    }
+    const hasChildren = new Set(
+      [...parents.values()].flatMap((ids) => [...ids])
+    );
+    // Children with a family of their own head their own household
+    const isDependent = (id: number) =>
+      parents.has(id) && !spouses.has(id) && !hasChildren.has(id);
+
+    const root = new Map<number, number>();
+    const find = (id: number): number => {
+      const parent = root.get(id) ?? id;
+      if (parent === id) return id;
+      const top = find(parent);
+      root.set(id, top);
+      return top;
+    };
+    const union = (a: number, b: number) => {
+      const [low, high] = [find(a), find(b)].sort((x, y) => x - y);
+      if (low !== high) root.set(high, low);
+    };
+
+    for (const [id, ids] of spouses) {
+      for (const spouse of ids) union(id, spouse);
+    }
+    for (const [child, ids] of parents) {
+      if (!isDependent(child)) continue;
+      union(child, Math.min(...ids));
+    }
+
+    const groups = new Map<number, number[]>();
+    for (const id of new Set([
+      ...spouses.keys(),
+      ...[...parents.entries()]
+        .filter(([child]) => isDependent(child))
+        .flatMap(([child, ids]) => [child, Math.min(...ids)]),
+    ])) {
+      const top = find(id);
+      groups.set(top, [...(groups.get(top) ?? []), id]);
+    }
+
+    const memberIds = [...groups.values()].flat();
+    if (memberIds.length === 0) return { created: [], extended: [] };
+
+    const [people, existing, addresses] = await Promise.all([
+      tx
+        .select({
+          id: contact.id,
+          lastName: contact.lastName,
+          contactName,
+        })
+        .from(contact)
+        .where(inArray(contact.id, memberIds)),
+      tx
+        .select()
+        .from(householdMember)
+        .where(inArray(householdMember.contactId, memberIds)),
+      tx
+        .select()
+        .from(contactAddress)
+        .where(
+          and(
+            inArray(contactAddress.contactId, memberIds),
+            eq(contactAddress.isPrimary, true)
+          )
+        ),
+    ]);
+    const existingIds = [...new Set(existing.map((row) => row.householdId))];
+    const existingHouseholds =
+      existingIds.length > 0
+        ? await tx
+            .select({
+              id: household.id,
+              name: household.name,
+              headId: householdMember.contactId,
+            })
+            .from(household)
+            .leftJoin(
+              householdMember,
+              and(
+                eq(householdMember.householdId, household.id),
+                eq(householdMember.role, "head")
+              )
+            )
+            .where(inArray(household.id, existingIds))
+        : [];
+
+    const person = (id: number) => people.find((row) => row.id === id)!;
+    const roleFor = (id: number, headId: number | null): HouseholdRole =>
+      id === headId
+        ? "head"
+        : headId !== null && spouses.get(headId)?.has(id)
+          ? "spouse"
+          : isDependent(id)
+            ? "child"
+            : "other";
+
+    // Unassigned people only ever join a household that already has a head
+    const result: BuildHouseholdsResult = { created: [], extended: [] };
+    for (const ids of groups.values()) {
+      if (ids.length < 2) continue;
+      ids.sort((a, b) => a - b);
+      const joined = existing.filter((row) => ids.includes(row.contactId));
+      const unassigned = ids.filter(
+        (id) => !joined.some((row) => row.contactId === id)
+      );
+      if (unassigned.length === 0) continue;
+
+      if (joined.length > 0) {
+        const householdId = Math.min(...joined.map((row) => row.householdId));
+        const target = existingHouseholds.find(
+          (row) => row.id === householdId
+        )!;
+        result.extended.push({
+          householdId,
+          name: target.name,
+          members: unassigned.map((id) => ({
+            contactId: id,
+            contactName: person(id).contactName,
+            role: roleFor(id, target.headId),
+          })),
+        });
+        continue;
+      }
+
+      const headId = ids.find((id) => !isDependent(id)) ?? ids[0];
+      const address = addresses.find((row) => row.contactId === headId);
+      const planned: PlannedHousehold = {
+        householdId: null,
+        name: `${person(headId).lastName} Family`,
+        members: ids.map((id) => ({
+          contactId: id,
+          contactName: person(id).contactName,
+          role: roleFor(id, headId),
+        })),
+      };
+      result.created.push(planned);
+      if (dryRun) continue;
+
+      const [created] = await tx
+        .insert(household)
+        .values({
+          name: planned.name,
+          street: address?.street ?? null,
+          street2: address?.street2 ?? null,
+          city: address?.city ?? null,
+          state: address?.state ?? null,
+          postalCode: address?.postalCode ?? null,
+          country: address?.country ?? null,
+        })
+        .returning();
+      await recordAudit(tx, context, "household", null, created);
+      planned.householdId = created.id;
+    }
+
+    if (!dryRun) {
+      const rows = [...result.created, ...result.extended].flatMap((planned) =>
+        planned.members.map((member) => ({
+          householdId: planned.householdId!,
+          contactId: member.contactId,
+          role: member.role,
+        }))
+      );
+      if (rows.length > 0) await tx.insert(householdMember).values(rows);
+    }
+    return result;
+  });
+}
@@ -0,0 +1,157 @@
+import { and, asc, eq, isNull } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  paymentPlan,
+  paymentPlanInstallment,
+  type PaymentPlan,
+  type PaymentPlanInstallment,
+} from "@/lib/db/schema";
+import {
+  buildSchedule,
+  type ScheduledInstallment,
+} from "@/lib/payment-schedule";
+import { ledgerEntry } from "./ledger-entries";
+
+/**
+ * Replaces a plan's installments with a fresh schedule and re-matches its
+ * payments. Used whenever a plan is created or its schedule changes. Custom
+ * plans pass their explicit schedule; without one their installments are kept,
+ * as there is nothing to generate them from.
+ */
+export async function regenerateInstallments(
+  database: Database,
+  plan: PaymentPlan,
+  customSchedule?: ScheduledInstallment[]
+): Promise<PaymentPlanInstallment[]> {
+  if (plan.frequency === "custom" && !customSchedule) {
+    return matchInstallmentPayments(database, plan.id);
+  }
+
+  await database
+    .delete(paymentPlanInstallment)
+    .where(eq(paymentPlanInstallment.paymentPlanId, plan.id));
+
+  const schedule = customSchedule ?? buildSchedule(plan);
+  if (schedule.length > 0) {
+    await database.insert(paymentPlanInstallment).values(
+      schedule.map((installment) => ({
+        ...installment,
+        paymentPlanId: plan.id,
+      }))
+    );
+  }
+
+  return matchInstallmentPayments(database, plan.id);
+}
+
+/**
+ * Allocates a plan's completed payments to its installments in due order:
+ * each payment pays off what is left of the earliest open installment and
+ * any remainder carries on to the next, so one payment can cover several
+ * installments and a short one leaves its installment partially paid. An
+ * installment records the payment that last went towards it. Like the plan
+ * totals this is re-derived every time, so edits, deletions and refunds of
+ * payments are picked up. Unpaid installments keep an overdue status they
+ * already had, and are cancelled while the plan is.
+ */
+export async function matchInstallmentPayments(
+  database: Database,
+  paymentPlanId: number
+): Promise<PaymentPlanInstallment[]> {
+  const installments = await database
+    .select()
+    .from(paymentPlanInstallment)
+    .where(eq(paymentPlanInstallment.paymentPlanId, paymentPlanId))
+    .orderBy(
+      asc(paymentPlanInstallment.dueDate),
+      asc(paymentPlanInstallment.installmentNumber)
+    );
+
+  if (installments.length === 0) return installments;
+
+  const [plan] = await database
+    .select({ planStatus: paymentPlan.planStatus })
+    .from(paymentPlan)
+    .where(eq(paymentPlan.id, paymentPlanId));
+  const planCancelled = plan?.planStatus === "cancelled";
+
+  // A split payment pays installments with the share allocated to the plan
+  const payments = await database
+    .select({
+      id: ledgerEntry.paymentId,
+      amount: ledgerEntry.amount,
+      paymentDate: ledgerEntry.paymentDate,
+    })
+    .from(ledgerEntry)
+    .where(
+      and(
+        eq(ledgerEntry.paymentPlanId, paymentPlanId),
+        eq(ledgerEntry.paymentStatus, "completed"),
+        isNull(ledgerEntry.refundOfPaymentId)
+      )
+    )
+    .orderBy(asc(ledgerEntry.paymentDate), asc(ledgerEntry.paymentId));
+
+  // Amounts are worked in cents so the allocation adds up exactly
+  const toCents = (value: string) => Math.round(parseFloat(value) * 100);
+  const available = payments.map((row) => ({
+    ...row,
+    cents: Math.max(0, toCents(row.amount)),
+  }));
+  let paymentIndex = 0;
+
+  const matched: PaymentPlanInstallment[] = [];
+  for (const installment of installments) {
+    const due = toCents(installment.amount);
+    let paidCents = 0;
+    let lastPayment: (typeof available)[number] | null = null;
+    while (paidCents < due && paymentIndex < available.length) {
+      const current = available[paymentIndex];
+      const share = Math.min(current.cents, due - paidCents);
+      if (share > 0) {
+        paidCents += share;
+        current.cents -= share;
+        lastPayment = current;
+      }
+      if (current.cents === 0) paymentIndex++;
+    }
+
+    const next = lastPayment
+      ? {
+          status:
+            paidCents >= due ? ("paid" as const) : ("partially_paid" as const),
+          paymentId: lastPayment.id,
+          paidAmount: (paidCents / 100).toFixed(2),
+          paidDate: lastPayment.paymentDate,
+        }
+      : {
+          status: planCancelled
+            ? ("cancelled" as const)
+            : installment.status === "overdue"
+              ? ("overdue" as const)
+              : ("pending" as const),
+          paymentId: null,
+          paidAmount: null,
+          paidDate: null,
+        };
+
+    const unchanged =
+      installment.status === next.status &&
+      installment.paymentId === next.paymentId &&
+      installment.paidAmount === next.paidAmount &&
+      installment.paidDate === next.paidDate;
+    if (unchanged) {
+      matched.push(installment);
+      continue;
+    }
+
+    const [updated] = await database
+      .update(paymentPlanInstallment)
+      .set({ ...next, updatedAt: new Date() })
+      .where(eq(paymentPlanInstallment.id, installment.id))
+      .returning();
+    matched.push(updated);
+  }
+
+  return matched;
+}
@@ -0,0 +1,132 @@
+import { eq, inArray, isNotNull, notExists, sql } from "drizzle-orm";
+import { QueryBuilder } from "drizzle-orm/pg-core";
+import type { Database } from "@/lib/db";
+import {
+  contactCredit,
+  payment,
+  paymentAllocation,
+  type Payment,
+  type PaymentAllocation,
+} from "@/lib/db/schema";
+
+const qb = new QueryBuilder();
+
+/**
+ * Payments as the pledges and plans see them: one row per allocation of a
+ * split payment, and a single row for every other payment against its own
+ * pledge and plan. Totals, installment matching and reports read from this
+ * rather than from `payment` directly, so each pledge counts only its share.
+ *
+ * Credit entries against a pledge count too, with the sign turned so they
+ * read as money paid: an overpayment takes its excess back off the pledge and
+ * an applied credit adds to it. An overpayment follows its payment's status;
+ * an applied credit is always completed. These rows carry a `creditId`, which
+ * is null for payments.
+ */
+export const ledgerEntry = qb
+  .select({
+    paymentId: payment.id,
+    pledgeId: payment.pledgeId,
+    paymentPlanId: payment.paymentPlanId,
+    amount: payment.amount,
+    amountUsd: payment.amountUsd,
+    paymentStatus: payment.paymentStatus,
+    paymentDate: payment.paymentDate,
+    refundOfPaymentId: payment.refundOfPaymentId,
+    creditId: sql<number | null>`NULL::integer`.as("credit_id"),
+  })
+  .from(payment)
+  .where(
+    notExists(
+      qb
+        .select({ id: paymentAllocation.id })
+        .from(paymentAllocation)
+        .where(eq(paymentAllocation.paymentId, payment.id))
+    )
+  )
+  .unionAll(
+    qb
+      .select({
+        paymentId: paymentAllocation.paymentId,
+        pledgeId: paymentAllocation.pledgeId,
+        paymentPlanId: paymentAllocation.paymentPlanId,
+        amount: paymentAllocation.amount,
+        amountUsd: paymentAllocation.amountUsd,
+        paymentStatus: payment.paymentStatus,
+        paymentDate: payment.paymentDate,
+        refundOfPaymentId: payment.refundOfPaymentId,
+        creditId: sql<number | null>`NULL::integer`.as("credit_id"),
+      })
+      .from(paymentAllocation)
+      .innerJoin(payment, eq(paymentAllocation.paymentId, payment.id))
+  )
+  .unionAll(
+    qb
+      .select({
+        // Null for applied credits, which never reach plans or statements
+        paymentId: sql<number>`${contactCredit.paymentId}`.as("payment_id"),
+        pledgeId: sql<number>`${contactCredit.pledgeId}`.as("pledge_id"),
+        paymentPlanId: sql<number | null>`NULL::integer`.as("payment_plan_id"),
+        amount: sql<string>`-${contactCredit.amount}`.as("amount"),
+        amountUsd: sql<string | null>`-${contactCredit.amountUsd}`.as(
+          "amount_usd"
+        ),
+        paymentStatus: sql<
+          Payment["paymentStatus"]
+        >`COALESCE(${payment.paymentStatus}, 'completed')`.as("payment_status"),
+        paymentDate: sql<string>`${contactCredit.creditDate}`.as(
+          "payment_date"
+        ),
+        refundOfPaymentId: sql<number | null>`NULL::integer`.as(
+          "refund_of_payment_id"
+        ),
+        creditId: sql<number | null>`${contactCredit.id}`.as("credit_id"),
+      })
+      .from(contactCredit)
+      .leftJoin(payment, eq(contactCredit.paymentId, payment.id))
+      .where(isNotNull(contactCredit.pledgeId))
+  )
+  .as("ledger_entry");
+
+export interface LedgerTargets {
+  pledgeIds: number[];
+  paymentPlanIds: number[];
+}
+
+/**
+ * Every pledge and plan the given payments apply to, through their own
+ * columns or their allocations. Collect these before a payment is deleted, as
+ * its allocations go with it.
+ */
+export async function loadLedgerTargets(
+  database: Database,
+  payments: Pick<Payment, "id" | "pledgeId" | "paymentPlanId">[]
+): Promise<LedgerTargets> {
+  const allocations: Pick<PaymentAllocation, "pledgeId" | "paymentPlanId">[] =
+    payments.length > 0
+      ? await database
+          .select({
+            pledgeId: paymentAllocation.pledgeId,
+            paymentPlanId: paymentAllocation.paymentPlanId,
+          })
+          .from(paymentAllocation)
+          .where(
+            inArray(
+              paymentAllocation.paymentId,
+              payments.map((row) => row.id)
+            )
+          )
+      : [];
+
+  const rows = [...payments, ...allocations];
+  return {
+    pledgeIds: [...new Set(rows.map((row) => row.pledgeId))],
+    paymentPlanIds: [
+      ...new Set(
+        rows
+          .map((row) => row.paymentPlanId)
+          .filter((id): id is number => id !== null)
+      ),
+    ],
+  };
+}
@@ -0,0 +1,196 @@
+import { eq, sql, type SQL } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  paymentPlan,
+  pledge,
+  type PaymentPlan,
+  type Pledge,
+} from "@/lib/db/schema";
+import { nextDueDate } from "@/lib/payment-schedule";
+import { matchInstallmentPayments } from "./installments";
+import { ledgerEntry, type LedgerTargets } from "./ledger-entries";
+
+// Only completed payments count towards pledge and plan totals, split
+// payments with their allocated share. Partial refunds are completed negative
+// entries, so they net off the amounts but are not counted as installments
+// paid.
+const completedAmount = sql<string>`COALESCE(SUM(${ledgerEntry.amount}) FILTER (WHERE ${ledgerEntry.paymentStatus} = 'completed'), 0)`;
+const completedAmountUsd = sql<string>`COALESCE(SUM(${ledgerEntry.amountUsd}) FILTER (WHERE ${ledgerEntry.paymentStatus} = 'completed'), 0)`;
+const completedCount = sql<number>`COUNT(${ledgerEntry.paymentId}) FILTER (WHERE ${ledgerEntry.paymentStatus} = 'completed' AND ${ledgerEntry.refundOfPaymentId} IS NULL)`;
+
+export type PledgeTotals = Pick<
+  Pledge,
+  "totalPaid" | "totalPaidUsd" | "balance" | "balanceUsd"
+>;
+
+export type PaymentPlanTotals = Pick<
+  PaymentPlan,
+  "installmentsPaid" | "totalPaid" | "totalPaidUsd" | "remainingAmount"
+>;
+
+export interface PledgeLedgerRow {
+  pledge: Pledge;
+  expected: PledgeTotals;
+}
+
+export interface PaymentPlanLedgerRow {
+  paymentPlan: PaymentPlan;
+  expected: PaymentPlanTotals;
+}
+
+/**
+ * Loads pledges alongside the totals their completed payments add up to.
+ */
+export async function loadPledgeLedger(
+  database: Database,
+  where?: SQL
+): Promise<PledgeLedgerRow[]> {
+  const rows = await database
+    .select({
+      pledge,
+      paid: completedAmount,
+      paidUsd: completedAmountUsd,
+    })
+    .from(pledge)
+    .leftJoin(ledgerEntry, eq(ledgerEntry.pledgeId, pledge.id))
+    .where(where)
+    .groupBy(pledge.id)
+    .orderBy(pledge.id);
+
+  return rows.map((row) => {
+    const paid = parseFloat(row.paid);
+    const paidUsd = parseFloat(row.paidUsd);
+    return {
+      pledge: row.pledge,
+      expected: {
+        totalPaid: paid.toFixed(2),
+        totalPaidUsd: paidUsd.toFixed(2),
+        balance: Math.max(
+          0,
+          parseFloat(row.pledge.originalAmount) - paid
+        ).toFixed(2),
+        balanceUsd: Math.max(
+          0,
+          parseFloat(row.pledge.originalAmountUsd || "0") - paidUsd
+        ).toFixed(2),
+      },
+    };
+  });
+}
+
+/**
+ * Loads payment plans alongside the progress their completed payments imply.
+ */
+export async function loadPaymentPlanLedger(
+  database: Database,
+  where?: SQL
+): Promise<PaymentPlanLedgerRow[]> {
+  const rows = await database
+    .select({
+      paymentPlan,
+      paid: completedAmount,
+      paidUsd: completedAmountUsd,
+      count: completedCount,
+    })
+    .from(paymentPlan)
+    .leftJoin(ledgerEntry, eq(ledgerEntry.paymentPlanId, paymentPlan.id))
+    .where(where)
+    .groupBy(paymentPlan.id)
+    .orderBy(paymentPlan.id);
+
+  return rows.map((row) => {
+    const paid = parseFloat(row.paid);
+    const installmentsPaid = Number(row.count);
+    return {
+      paymentPlan: row.paymentPlan,
+      expected: {
+        installmentsPaid,
+        totalPaid: paid.toFixed(2),
+        totalPaidUsd: parseFloat(row.paidUsd).toFixed(2),
+        remainingAmount: Math.max(
+          0,
+          parseFloat(row.paymentPlan.totalPlannedAmount) - paid
+        ).toFixed(2),
+      },
+    };
+  });
+}
+
+/**
+ * Rewrites a pledge's denormalized totals from its payments.
+ */
+export async function syncPledgeTotals(
+  database: Database,
+  pledgeId: number
+): Promise<Pledge | null> {
+  const [row] = await loadPledgeLedger(database, eq(pledge.id, pledgeId));
+  if (!row) return null;
+
+  const [updated] = await database
+    .update(pledge)
+    .set({ ...row.expected, updatedAt: new Date() })
+    .where(eq(pledge.id, pledgeId))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Rewrites a payment plan's progress counters from its payments, re-matches
+ * them to the installment schedule and moves the next payment date to the
+ * first unpaid installment. Plans without a schedule keep whatever date was
+ * entered for them if they are custom.
+ */
+export async function syncPaymentPlanTotals(
+  database: Database,
+  paymentPlanId: number
+): Promise<PaymentPlan | null> {
+  const [row] = await loadPaymentPlanLedger(
+    database,
+    eq(paymentPlan.id, paymentPlanId)
+  );
+  if (!row) return null;
+
+  const plan = row.paymentPlan;
+  const installments = await matchInstallmentPayments(database, plan.id);
+  const nextPaymentDate =
+    installments.length > 0
+      ? (installments.find(
+          (installment) =>
+            installment.status !== "paid" && installment.status !== "cancelled"
+        )?.dueDate ?? null)
+      : plan.frequency === "custom"
+        ? plan.nextPaymentDate
+        : nextDueDate(plan, row.expected.installmentsPaid);
+
+  const [updated] = await database
+    .update(paymentPlan)
+    .set({ ...row.expected, nextPaymentDate, updatedAt: new Date() })
+    .where(eq(paymentPlan.id, paymentPlanId))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Re-derives the totals of every pledge and plan a payment touched, which for
+ * a split payment is more than its own pledge.
+ */
+export async function syncLedgerTargets(
+  database: Database,
+  { pledgeIds, paymentPlanIds }: LedgerTargets
+): Promise<{ pledges: Pledge[]; paymentPlans: PaymentPlan[] }> {
+  const pledges: Pledge[] = [];
+  for (const pledgeId of pledgeIds) {
+    const updated = await syncPledgeTotals(database, pledgeId);
+    if (updated) pledges.push(updated);
+  }
+
+  const paymentPlans: PaymentPlan[] = [];
+  for (const paymentPlanId of paymentPlanIds) {
+    const updated = await syncPaymentPlanTotals(database, paymentPlanId);
+    if (updated) paymentPlans.push(updated);
+  }
+
+  return { pledges, paymentPlans };
+}
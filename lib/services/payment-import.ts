@@ -0,0 +1,837 @@
+import { and, asc, eq, gt, inArray, or, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  contact,
+  contactCredit,
+  payment,
+  paymentPlan,
+  paymentPlanInstallment,
+  pledge,
+  type Payment,
+} from "@/lib/db/schema";
+import type { AuditContext } from "./audit";
+import { recordUnappliedPayment } from "./credits";
+import { CURRENCIES, type Currency } from "./exchange-rates";
+import { postPayment } from "./payment-posting";
+
+export const IMPORT_SOURCES = ["stripe", "paypal", "bank"] as const;
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export const IMPORT_FIELDS = [
+  "date",
+  "amount",
+  "currency",
+  "reference",
+  "name",
+  "email",
+  "description",
+  "status",
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Header of the CSV column each field is read from
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export const DATE_FORMATS = ["ymd", "mdy", "dmy"] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+interface ImportPreset {
+  // Headers tried in order for each field, compared case-insensitively
+  columns: Record<ImportField, string[]>;
+  dateFormat: DateFormat;
+  paymentMethod: Payment["paymentMethod"];
+}
+
+const IMPORT_PRESETS: Record<ImportSource, ImportPreset> = {
+  stripe: {
+    columns: {
+      date: ["Created date (UTC)", "Created (UTC)", "Created"],
+      amount: ["Amount"],
+      currency: ["Currency"],
+      reference: ["id", "Payment ID"],
+      name: ["Customer Description", "Customer Name", "Card Name"],
+      email: ["Customer Email"],
+      description: ["Description"],
+      status: ["Status"],
+    },
+    dateFormat: "ymd",
+    paymentMethod: "credit_card",
+  },
+  paypal: {
+    columns: {
+      date: ["Date"],
+      amount: ["Gross"],
+      currency: ["Currency"],
+      reference: ["Transaction ID"],
+      name: ["Name"],
+      email: ["From Email Address"],
+      description: ["Item Title", "Subject", "Note"],
+      status: ["Status"],
+    },
+    dateFormat: "mdy",
+    paymentMethod: "paypal",
+  },
+  bank: {
+    columns: {
+      date: ["Date", "Transaction Date", "Posting Date", "Value Date"],
+      amount: ["Amount", "Credit", "Credit Amount", "Deposit"],
+      currency: ["Currency"],
+      reference: ["Reference", "Ref", "Check Number", "Transaction ID"],
+      name: ["Name", "Payer", "Counterparty", "Payee"],
+      email: ["Email"],
+      description: ["Description", "Memo", "Details", "Narrative"],
+      status: [],
+    },
+    dateFormat: "ymd",
+    paymentMethod: "bank_transfer",
+  },
+};
+
+// Processor statuses of money actually received; other rows are skipped
+const RECEIVED_STATUSES = ["paid", "succeeded", "completed", "complete"];
+
+export interface ParsedImportLine {
+  lineNumber: number;
+  paymentDate: string | null;
+  amount: number | null;
+  currency: Currency | null;
+  reference: string | null;
+  name: string | null;
+  email: string | null;
+  description: string | null;
+  // Set when the line cannot be posted whatever it matches
+  skipReason: string | null;
+  invalidReason: string | null;
+}
+
+export interface ParsedImport {
+  headers: string[];
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  lines: ParsedImportLine[];
+}
+
+export interface ImportCandidate {
+  contactId: number;
+  contactName: string;
+  pledgeId: number;
+  pledgeDescription: string | null;
+  pledgeBalance: string;
+  paymentPlanId: number | null;
+  installmentNumber: number | null;
+  installmentDueDate: string | null;
+  score: number;
+  confidence: "high" | "medium" | "low";
+  reasons: string[];
+}
+
+export type ImportLineStatus =
+  "matched" | "unmatched" | "duplicate" | "skipped" | "invalid";
+
+export interface ImportLine extends ParsedImportLine {
+  status: ImportLineStatus;
+  message: string | null;
+  // The contact the line was traced to, even without an open pledge
+  contact: { id: number; name: string } | null;
+  match: ImportCandidate | null;
+  candidates: ImportCandidate[];
+}
+
+export interface ConfirmedImportLine {
+  lineNumber: number;
+  paymentDate: string;
+  amount: number;
+  currency: Currency;
+  reference?: string;
+  description?: string;
+  pledgeId?: number;
+  // Undefined lets a pledge with a single active plan count it there
+  paymentPlanId?: number | null;
+  // Without a pledge, the money is held as credit for this contact
+  contactId?: number;
+}
+
+export interface ImportPostResult {
+  lineNumber: number;
+  status: "posted" | "credited" | "failed";
+  paymentId?: number;
+  creditId?: number;
+  error?: string;
+}
+
+/**
+ * Splits CSV text into rows, honouring quoted fields with embedded commas,
+ * quotes and line breaks. Blank lines are dropped.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map((cells) => cells.map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell !== ""));
+}
+
+function parseImportDate(value: string, format: DateFormat): string | null {
+  const pad = (part: string) => part.padStart(2, "0");
+  let year: string, month: string, day: string;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const parts = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (iso) {
+    [, year, month, day] = iso;
+  } else if (parts && format !== "ymd") {
+    const [, first, second, yearPart] = parts;
+    [month, day] = format === "mdy" ? [first, second] : [second, first];
+    year = yearPart.length === 2 ? `20${yearPart}` : yearPart;
+  } else {
+    return null;
+  }
+
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date
+    ? null
+    : date;
+}
+
+// Accepts currency symbols, accounting negatives and either a point or a
+// comma as the decimal separator. The last separator is the decimal one
+// unless it repeats or is followed by exactly three digits with no other
+// separator before it, as in "1,234".
+function parseImportAmount(value: string): number | null {
+  let text = value.replace(/[^\d.,()-]/g, "");
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/^-|-$/.test(text)) {
+    negative = true;
+    text = text.replace(/^-|-$/, "");
+  }
+
+  let whole = text;
+  let fraction = "";
+  const last = Math.max(text.lastIndexOf(","), text.lastIndexOf("."));
+  if (last >= 0) {
+    const separator = text[last];
+    const other = separator === "," ? "." : ",";
+    const decimals = text.slice(last + 1);
+    if (
+      text.indexOf(separator) === last &&
+      (decimals.length !== 3 || text.slice(0, last).includes(other))
+    ) {
+      whole = text.slice(0, last);
+      fraction = decimals;
+    }
+  }
+  whole = whole.replace(/[.,]/g, "");
+  if (!/^\d*$/.test(whole) || !/^\d*$/.test(fraction)) return null;
+  if (!whole && !fraction) return null;
+
+  const amount =
+    Math.round(parseFloat(`${whole || "0"}.${fraction || "0"}`) * 100) / 100;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Reads an export into lines using the source's usual column names, or the
+ * headers given in `mapping` where they differ. Generic bank exports vary, so
+ * their mapping and date format are usually chosen on the review screen.
+ */
+export function parsePaymentImport(
+  csv: string,
+  options: {
+    source: ImportSource;
+    mapping?: ColumnMapping;
+    dateFormat?: DateFormat;
+    defaultCurrency?: Currency;
+  }
+): ParsedImport {
+  const preset = IMPORT_PRESETS[options.source];
+  const [headers = [], ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ""));
+  const dateFormat = options.dateFormat ?? preset.dateFormat;
+
+  const mapping: ColumnMapping = {};
+  const indexes: Partial<Record<ImportField, number>> = {};
+  for (const field of IMPORT_FIELDS) {
+    const wanted =
+      options.mapping?.[field] !== undefined
+        ? [options.mapping[field]]
+        : preset.columns[field];
+    const index = headers.findIndex((header) =>
+      wanted.some((name) => name && header.toLowerCase() === name.toLowerCase())
+    );
+    if (index >= 0) {
+      mapping[field] = headers[index];
+      indexes[field] = index;
+    }
+  }
+
+  const lines = rows.map((cells, rowIndex): ParsedImportLine => {
+    const read = (field: ImportField) => {
+      const index = indexes[field];
+      const value = index === undefined ? "" : (cells[index] ?? "");
+      return value === "" ? null : value;
+    };
+
+    const rawDate = read("date");
+    const rawAmount = read("amount");
+    const rawCurrency = read("currency")?.toUpperCase();
+    const rawStatus = read("status");
+    const paymentDate = rawDate ? parseImportDate(rawDate, dateFormat) : null;
+    const amount = rawAmount ? parseImportAmount(rawAmount) : null;
+    const currency = (rawCurrency ??
+      options.defaultCurrency ??
+      null) as Currency | null;
+
+    let invalidReason: string | null = null;
+    if (!paymentDate) {
+      invalidReason = `Unreadable date "${rawDate ?? ""}"`;
+    } else if (amount === null) {
+      invalidReason = `Unreadable amount "${rawAmount ?? ""}"`;
+    } else if (!currency || !CURRENCIES.includes(currency)) {
+      invalidReason = currency
+        ? `Unsupported currency "${currency}"`
+        : "No currency given";
+    }
+
+    let skipReason: string | null = null;
+    if (amount !== null && amount <= 0) {
+      skipReason = "Not an incoming payment";
+    } else if (
+      rawStatus &&
+      !RECEIVED_STATUSES.includes(rawStatus.toLowerCase())
+    ) {
+      skipReason = `Status is "${rawStatus}"`;
+    }
+
+    return {
+      lineNumber: rowIndex + 2,
+      paymentDate,
+      amount,
+      currency: invalidReason ? null : currency,
+      reference: read("reference"),
+      name: read("name"),
+      email: read("email")?.toLowerCase() ?? null,
+      description: read("description"),
+      skipReason,
+      invalidReason,
+    };
+  });
+
+  return { headers, mapping, dateFormat, lines };
+}
+
+// "Doe, Jane" and "Jane  Doe" both become "jane doe"
+function normalizeName(name: string): string {
+  const [last, first] = name.split(",");
+  const ordered = first !== undefined ? `${first} ${last}` : name;
+  return ordered.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+const daysApart = (first: string, second: string) =>
+  Math.abs(Date.parse(first) - Date.parse(second)) / 86_400_000;
+
+const sameAmount = (first: number, second: number | string) =>
+  Math.abs(first - Number(second)) < 0.005;
+
+/**
+ * Suggests where each line belongs. The contact is traced by email, by a
+ * reference already used on one of their payments, or by name; their open
+ * pledges in the line's currency are then ranked by how well the amount and
+ * date fit the next unpaid installment or the outstanding balance. A
+ * reference already on a payment or credit with the same amount marks the
+ * line as a duplicate.
+ */
+export async function matchPaymentImport(
+  database: Database,
+  parsed: ParsedImportLine[]
+): Promise<ImportLine[]> {
+  const usable = parsed.filter(
+    (line) => !line.invalidReason && !line.skipReason
+  );
+  const emails = [
+    ...new Set(usable.flatMap((line) => (line.email ? [line.email] : []))),
+  ];
+  const names = [
+    ...new Set(
+      usable.flatMap((line) => (line.name ? [normalizeName(line.name)] : []))
+    ),
+  ];
+  const references = [
+    ...new Set(
+      usable.flatMap((line) => (line.reference ? [line.reference] : []))
+    ),
+  ];
+
+  const contactFilters = [];
+  if (emails.length > 0) {
+    contactFilters.push(inArray(sql`lower(${contact.email})`, emails));
+  }
+  if (names.length > 0) {
+    contactFilters.push(
+      inArray(
+        sql`lower(${contact.firstName} || ' ' || ${contact.lastName})`,
+        names
+      )
+    );
+  }
+  const contacts =
+    contactFilters.length > 0
+      ? await database
+          .select({
+            id: contact.id,
+            firstName: contact.firstName,
+            lastName: contact.lastName,
+            email: contact.email,
+          })
+          .from(contact)
+          .where(or(...contactFilters))
+      : [];
+
+  const referencedPayments =
+    references.length > 0
+      ? await database
+          .select({
+            id: payment.id,
+            referenceNumber: payment.referenceNumber,
+            amount: payment.amount,
+            contactId: pledge.contactId,
+          })
+          .from(payment)
+          .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+          .where(inArray(payment.referenceNumber, references))
+      : [];
+  const referencedCredits =
+    references.length > 0
+      ? await database
+          .select({
+            id: contactCredit.id,
+            referenceNumber: contactCredit.referenceNumber,
+            amount: contactCredit.amount,
+          })
+          .from(contactCredit)
+          .where(
+            and(
+              eq(contactCredit.creditType, "unapplied"),
+              inArray(contactCredit.referenceNumber, references)
+            )
+          )
+      : [];
+
+  const referenceContactIds = referencedPayments.map((row) => row.contactId);
+  const missingContactIds = referenceContactIds.filter(
+    (id) => !contacts.some((row) => row.id === id)
+  );
+  if (missingContactIds.length > 0) {
+    contacts.push(
+      ...(await database
+        .select({
+          id: contact.id,
+          firstName: contact.firstName,
+          lastName: contact.lastName,
+          email: contact.email,
+        })
+        .from(contact)
+        .where(inArray(contact.id, [...new Set(missingContactIds)])))
+    );
+  }
+
+  const contactIds = contacts.map((row) => row.id);
+  const openPledges =
+    contactIds.length > 0
+      ? await database
+          .select({
+            id: pledge.id,
+            contactId: pledge.contactId,
+            description: pledge.description,
+            currency: pledge.currency,
+            balance: pledge.balance,
+            pledgeDate: pledge.pledgeDate,
+          })
+          .from(pledge)
+          .where(
+            and(inArray(pledge.contactId, contactIds), gt(pledge.balance, "0"))
+          )
+          .orderBy(asc(pledge.pledgeDate), asc(pledge.id))
+      : [];
+  const plans =
+    openPledges.length > 0
+      ? await database
+          .select({
+            id: paymentPlan.id,
+            pledgeId: paymentPlan.pledgeId,
+            installmentAmount: paymentPlan.installmentAmount,
+          })
+          .from(paymentPlan)
+          .where(
+            and(
+              inArray(
+                paymentPlan.pledgeId,
+                openPledges.map((row) => row.id)
+              ),
+              inArray(paymentPlan.planStatus, ["active", "overdue"]),
+              eq(paymentPlan.isActive, true)
+            )
+          )
+          .orderBy(asc(paymentPlan.id))
+      : [];
+  // Payments are allocated to installments in order, so the next one to be
+  // paid is the first still open
+  const installments =
+    plans.length > 0
+      ? await database
+          .select()
+          .from(paymentPlanInstallment)
+          .where(
+            and(
+              inArray(
+                paymentPlanInstallment.paymentPlanId,
+                plans.map((row) => row.id)
+              ),
+              inArray(paymentPlanInstallment.status, [
+                "pending",
+                "partially_paid",
+                "overdue",
+              ])
+            )
+          )
+          .orderBy(asc(paymentPlanInstallment.installmentNumber))
+      : [];
+
+  return parsed.map((line): ImportLine => {
+    const base = { contact: null, match: null, candidates: [] };
+    if (line.invalidReason) {
+      return {
+        ...line,
+        ...base,
+        status: "invalid",
+        message: line.invalidReason,
+      };
+    }
+    if (line.skipReason) {
+      return { ...line, ...base, status: "skipped", message: line.skipReason };
+    }
+    const amount = line.amount!;
+
+    if (line.reference) {
+      const existing = referencedPayments.find(
+        (row) =>
+          row.referenceNumber === line.reference &&
+          sameAmount(amount, row.amount)
+      );
+      const credit = referencedCredits.find(
+        (row) =>
+          row.referenceNumber === line.reference &&
+          sameAmount(amount, row.amount)
+      );
+      if (existing || credit) {
+        return {
+          ...line,
+          ...base,
+          status: "duplicate",
+          message: existing
+            ? `Already recorded as payment #${existing.id}`
+            : `Already recorded as credit #${credit!.id}`,
+        };
+      }
+    }
+
+    // Evidence for each contact the line could belong to
+    const evidence = new Map<number, { score: number; reasons: string[] }>();
+    const addEvidence = (contactId: number, score: number, reason: string) => {
+      const entry = evidence.get(contactId) ?? { score: 0, reasons: [] };
+      // A second kind of evidence adds a little on top of the strongest
+      entry.score =
+        entry.score === 0 ? score : Math.max(entry.score, score) + 10;
+      entry.reasons.push(reason);
+      evidence.set(contactId, entry);
+    };
+    for (const row of contacts) {
+      if (line.email && row.email?.toLowerCase() === line.email) {
+        addEvidence(row.id, 40, "Email matches the contact");
+      }
+      if (
+        line.name &&
+        normalizeName(line.name) ===
+          normalizeName(`${row.firstName} ${row.lastName}`)
+      ) {
+        addEvidence(row.id, 30, "Name matches the contact");
+      }
+    }
+    if (line.reference) {
+      const earlier = referencedPayments.find(
+        (row) => row.referenceNumber === line.reference
+      );
+      if (earlier) {
+        addEvidence(
+          earlier.contactId,
+          40,
+          `Reference used on payment #${earlier.id}`
+        );
+      }
+    }
+
+    const candidates: ImportCandidate[] = [];
+    for (const [contactId, found] of evidence) {
+      const person = contacts.find((row) => row.id === contactId)!;
+      const contactName = `${person.firstName} ${person.lastName}`;
+      for (const openPledge of openPledges) {
+        if (
+          openPledge.contactId !== contactId ||
+          openPledge.currency !== line.currency
+        ) {
+          continue;
+        }
+        const pledgePlans = plans.filter(
+          (plan) => plan.pledgeId === openPledge.id
+        );
+        for (const plan of pledgePlans.length > 0 ? pledgePlans : [null]) {
+          const next = plan
+            ? installments.find((row) => row.paymentPlanId === plan.id)
+            : undefined;
+          const reasons = [...found.reasons];
+          let score = found.score;
+          if (
+            next &&
+            sameAmount(
+              amount,
+              Number(next.amount) - Number(next.paidAmount ?? 0)
+            )
+          ) {
+            score += 30;
+            reasons.push(
+              `Amount matches installment #${next.installmentNumber}`
+            );
+            if (daysApart(line.paymentDate!, next.dueDate) <= 15) {
+              score += 15;
+              reasons.push(`Installment due ${next.dueDate}`);
+            }
+          } else if (sameAmount(amount, openPledge.balance)) {
+            score += 25;
+            reasons.push("Amount settles the pledge balance");
+          } else if (plan && sameAmount(amount, plan.installmentAmount)) {
+            score += 20;
+            reasons.push("Amount matches the plan installment");
+          } else if (amount < parseFloat(openPledge.balance)) {
+            score += 5;
+            reasons.push("Within the pledge balance");
+          } else {
+            reasons.push(
+              "More than the pledge balance; the excess is held as credit"
+            );
+          }
+
+          candidates.push({
+            contactId,
+            contactName,
+            pledgeId: openPledge.id,
+            pledgeDescription: openPledge.description,
+            pledgeBalance: openPledge.balance,
+            paymentPlanId: plan?.id ?? null,
+            installmentNumber: next?.installmentNumber ?? null,
+            installmentDueDate: next?.dueDate ?? null,
+            score,
+            confidence: score >= 70 ? "high" : score >= 40 ? "medium" : "low",
+            reasons,
+          });
+        }
+      }
+    }
+    // Stable sort keeps older pledges first among equal scores
+    candidates.sort((first, second) => second.score - first.score);
+
+    const strongest = [...evidence.entries()].sort(
+      (first, second) => second[1].score - first[1].score
+    )[0];
+    const tracedContact = strongest
+      ? contacts.find((row) => row.id === strongest[0])!
+      : null;
+    const traced = tracedContact
+      ? {
+          id: tracedContact.id,
+          name: `${tracedContact.firstName} ${tracedContact.lastName}`,
+        }
+      : null;
+
+    if (candidates.length === 0) {
+      return {
+        ...line,
+        ...base,
+        contact: traced,
+        status: "unmatched",
+        message: traced
+          ? `${traced.name} has no open ${line.currency} pledge`
+          : "No contact found for this line",
+      };
+    }
+    return {
+      ...line,
+      status: "matched",
+      message: null,
+      contact: { id: candidates[0].contactId, name: candidates[0].contactName },
+      match: candidates[0],
+      candidates,
+    };
+  });
+}
+
+/**
+ * Posts confirmed lines one by one through the usual payment path, so each
+ * gets its totals, plan progress, bonus and webhook like a payment keyed in
+ * by hand. Lines confirmed against a contact without a pledge are held as
+ * credit on their account instead. A failing line does not stop the rest.
+ */
+export async function postPaymentImport(
+  database: Database,
+  source: ImportSource,
+  lines: ConfirmedImportLine[],
+  context: AuditContext
+): Promise<ImportPostResult[]> {
+  const { paymentMethod } = IMPORT_PRESETS[source];
+  const results: ImportPostResult[] = [];
+
+  for (const line of lines) {
+    const notes = line.description
+      ? `Imported from ${source}: ${line.description}`
+      : `Imported from ${source}`;
+    try {
+      // Guards against posting the same file twice
+      if (line.reference) {
+        const [existing] = await database
+          .select({ id: payment.id })
+          .from(payment)
+          .where(
+            and(
+              eq(payment.referenceNumber, line.reference),
+              eq(payment.amount, line.amount.toFixed(2))
+            )
+          )
+          .limit(1);
+        const [credit] = await database
+          .select({ id: contactCredit.id })
+          .from(contactCredit)
+          .where(
+            and(
+              eq(contactCredit.creditType, "unapplied"),
+              eq(contactCredit.referenceNumber, line.reference),
+              eq(contactCredit.amount, line.amount.toFixed(2))
+            )
+          )
+          .limit(1);
+        if (existing || credit) {
+          results.push({
+            lineNumber: line.lineNumber,
+            status: "failed",
+            error: existing
+              ? `Already recorded as payment #${existing.id}`
+              : `Already recorded as credit #${credit.id}`,
+          });
+          continue;
+        }
+      }
+
+      if (line.pledgeId) {
+        let paymentPlanId = line.paymentPlanId ?? undefined;
+        if (line.paymentPlanId === undefined) {
+          const activePlans = await database
+            .select({ id: paymentPlan.id })
+            .from(paymentPlan)
+            .where(
+              and(
+                eq(paymentPlan.pledgeId, line.pledgeId),
+                inArray(paymentPlan.planStatus, ["active", "overdue"]),
+                eq(paymentPlan.isActive, true)
+              )
+            );
+          if (activePlans.length === 1) paymentPlanId = activePlans[0].id;
+        }
+
+        const posted = await postPayment(
+          {
+            pledgeId: line.pledgeId,
+            paymentPlanId,
+            amount: line.amount,
+            currency: line.currency,
+            paymentDate: line.paymentDate,
+            paymentMethod,
+            paymentStatus: "completed",
+            referenceNumber: line.reference,
+            notes,
+          },
+          context
+        );
+        results.push({
+          lineNumber: line.lineNumber,
+          status: "posted",
+          paymentId: posted.payment.id,
+        });
+      } else if (line.contactId) {
+        const credit = await recordUnappliedPayment(
+          {
+            contactId: line.contactId,
+            amount: line.amount,
+            currency: line.currency,
+            creditDate: line.paymentDate,
+            paymentMethod,
+            referenceNumber: line.reference,
+            notes,
+          },
+          context
+        );
+        results.push({
+          lineNumber: line.lineNumber,
+          status: "credited",
+          creditId: credit.id,
+        });
+      } else {
+        results.push({
+          lineNumber: line.lineNumber,
+          status: "failed",
+          error: "Choose a pledge or a contact for this line",
+        });
+      }
+    } catch (error) {
+      results.push({
+        lineNumber: line.lineNumber,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to post line",
+      });
+    }
+  }
+
+  return results;
+}
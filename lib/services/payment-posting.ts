@@ -0,0 +1,396 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import { db, type Transaction } from "@/lib/db";
+import {
+  bonusCalculation,
+  category,
+  payment,
+  paymentAllocation,
+  paymentPlan,
+  pledge,
+  type BonusCalculation,
+  type ContactCredit,
+  type NewPayment,
+  type Payment,
+  type PaymentAllocation,
+  type PaymentPlan,
+  type Pledge,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+import { resolveBonus } from "./bonus";
+import { captureOverpayment } from "./credits";
+import { convertToUsd } from "./exchange-rates";
+import { syncLedgerTargets } from "./ledger";
+import { loadLedgerTargets } from "./ledger-entries";
+import { emitWebhookEvent } from "./webhooks";
+
+export interface PostPaymentInput {
+  pledgeId: number;
+  paymentPlanId?: number;
+  amount: number;
+  currency: Payment["currency"];
+  paymentDate: string;
+  receivedDate?: string;
+  paymentMethod: Payment["paymentMethod"];
+  paymentStatus: Payment["paymentStatus"];
+  referenceNumber?: string;
+  checkNumber?: string;
+  receiptType?: NonNullable<Payment["receiptType"]>;
+  solicitorId?: number;
+  bonusPercentage?: number;
+  bonusRuleId?: number;
+  notes?: string;
+  // Splits the payment across pledges; must add up to the amount and include
+  // the payment's own pledge
+  allocations?: PaymentAllocationInput[];
+}
+
+export interface PaymentAllocationInput {
+  pledgeId: number;
+  paymentPlanId?: number;
+  amount: number;
+  notes?: string;
+}
+
+export interface PostPaymentResult {
+  payment: Payment;
+  pledge: Pledge;
+  paymentPlan: PaymentPlan | null;
+  allocations: PaymentAllocation[];
+  pledges: Pledge[];
+  credits: ContactCredit[];
+  bonusCalculation: BonusCalculation | null;
+}
+
+/**
+ * Records a payment together with everything it affects: the pledge totals,
+ * the payment plan progress and the solicitor's bonus calculation. All writes
+ * share one transaction, so a failure part way leaves the ledger untouched.
+ * Totals are re-derived from the completed payments rather than incremented.
+ * The USD amount comes from the server's rate for the payment date.
+ * A split payment keeps its own pledge as the primary one and records an
+ * allocation for each pledge it covers, with the USD amount shared out in
+ * proportion. Anything paid beyond a pledge's original amount is held as
+ * credit on the contact's account rather than lost. The `payment.created`
+ * webhook is queued in the same transaction.
+ */
+export async function postPayment(
+  input: PostPaymentInput,
+  context: AuditContext
+): Promise<PostPaymentResult> {
+  // Resolved before the transaction, as it may call out to the rate provider
+  const { amountUsd, exchangeRate } = await convertToUsd(
+    db,
+    input.amount,
+    input.currency,
+    input.paymentDate
+  );
+
+  return db.transaction(async (tx) => {
+    const allocations = input.allocations ?? [];
+
+    // Every pledge the payment touches is locked at once and in id order, so
+    // two split payments over the same pledges wait for each other instead of
+    // deadlocking
+    const pledgeIds = [
+      ...new Set([input.pledgeId, ...allocations.map((row) => row.pledgeId)]),
+    ];
+    const lockedPledges = await tx
+      .select({ pledge, isTaxDeductible: category.isTaxDeductible })
+      .from(pledge)
+      .leftJoin(category, eq(pledge.categoryId, category.id))
+      .where(inArray(pledge.id, pledgeIds))
+      .orderBy(asc(pledge.id))
+      .for("update", { of: pledge });
+
+    const pledgeData = lockedPledges.find(
+      (row) => row.pledge.id === input.pledgeId
+    );
+    if (!pledgeData) {
+      throw new HttpError(404, "Pledge not found");
+    }
+
+    if (allocations.length > 0) {
+      await checkAllocations(
+        tx,
+        input,
+        allocations,
+        lockedPledges.map((row) => row.pledge)
+      );
+    }
+    const paymentPlanId =
+      allocations.length > 0
+        ? allocations.find(
+            (allocation) => allocation.pledgeId === input.pledgeId
+          )?.paymentPlanId
+        : input.paymentPlanId;
+
+    let planData: PaymentPlan | null = null;
+    if (paymentPlanId) {
+      [planData] = await tx
+        .select()
+        .from(paymentPlan)
+        .where(eq(paymentPlan.id, paymentPlanId))
+        .for("update")
+        .limit(1);
+
+      if (!planData) {
+        throw new HttpError(404, "Payment plan not found");
+      }
+      if (planData.pledgeId !== input.pledgeId) {
+        throw new HttpError(
+          400,
+          "Payment plan does not belong to the selected pledge"
+        );
+      }
+    }
+
+    const isCompleted = input.paymentStatus === "completed";
+
+    const bonus = input.solicitorId
+      ? await resolvePaymentBonus(
+          tx,
+          input,
+          amountUsd,
+          !!pledgeData.isTaxDeductible
+        )
+      : null;
+
+    const newPayment: NewPayment = {
+      pledgeId: input.pledgeId,
+      amount: input.amount.toString(),
+      currency: input.currency,
+      amountUsd: amountUsd.toString(),
+      exchangeRate: exchangeRate.toString(),
+      paymentDate: input.paymentDate,
+      receivedDate: input.receivedDate || input.paymentDate,
+      paymentMethod: input.paymentMethod,
+      paymentStatus: input.paymentStatus,
+      referenceNumber: input.referenceNumber || null,
+      checkNumber: input.checkNumber || null,
+      receiptType: input.receiptType || null,
+      solicitorId: input.solicitorId || null,
+      bonusPercentage: bonus?.bonusPercentage ?? null,
+      bonusAmount: bonus?.bonusAmount ?? null,
+      bonusRuleId: bonus?.bonusRuleId ?? null,
+      notes: input.notes || null,
+      paymentPlanId: paymentPlanId || null,
+    };
+
+    const [createdPayment] = await tx
+      .insert(payment)
+      .values(newPayment)
+      .returning();
+    await recordAudit(tx, context, "payment", null, createdPayment);
+
+    let createdAllocations: PaymentAllocation[] = [];
+    if (allocations.length > 0) {
+      const shares = shareOut(allocations, input.amount, amountUsd);
+      createdAllocations = await tx
+        .insert(paymentAllocation)
+        .values(
+          allocations.map((allocation, index) => ({
+            paymentId: createdPayment.id,
+            pledgeId: allocation.pledgeId,
+            paymentPlanId: allocation.paymentPlanId || null,
+            amount: allocation.amount.toFixed(2),
+            amountUsd: shares[index].toFixed(2),
+            notes: allocation.notes || null,
+          }))
+        )
+        .returning();
+    }
+
+    let updatedPledge = pledgeData.pledge;
+    let updatedPlan = planData;
+    let updatedPledges = [updatedPledge];
+    let credits: ContactCredit[] = [];
+    if (isCompleted) {
+      const synced = await syncLedgerTargets(
+        tx,
+        await loadLedgerTargets(tx, [createdPayment])
+      );
+      ({ credits, pledges: updatedPledges } = await captureOverpayment(
+        tx,
+        context,
+        createdPayment,
+        createdAllocations,
+        synced.pledges
+      ));
+      updatedPledge =
+        updatedPledges.find((row) => row.id === input.pledgeId) ??
+        updatedPledge;
+      updatedPlan =
+        synced.paymentPlans.find((row) => row.id === paymentPlanId) ??
+        updatedPlan;
+    }
+
+    let createdBonus: BonusCalculation | null = null;
+    // A bonus is only owed on money actually received
+    if (
+      isCompleted &&
+      bonus &&
+      input.solicitorId &&
+      parseFloat(bonus.bonusAmount) > 0
+    ) {
+      [createdBonus] = await tx
+        .insert(bonusCalculation)
+        .values({
+          paymentId: createdPayment.id,
+          solicitorId: input.solicitorId,
+          bonusRuleId: bonus.bonusRuleId,
+          paymentAmount: amountUsd.toString(),
+          bonusPercentage: bonus.bonusPercentage,
+          bonusAmount: bonus.bonusAmount,
+          calculatedAt: new Date(),
+          isPaid: false,
+          notes: bonus.notes,
+        })
+        .returning();
+    }
+
+    await emitWebhookEvent(tx, "payment.created", {
+      payment: createdPayment,
+      allocations: createdAllocations,
+      credits,
+      bonusCalculation: createdBonus,
+    });
+
+    return {
+      payment: createdPayment,
+      pledge: updatedPledge,
+      paymentPlan: updatedPlan,
+      allocations: createdAllocations,
+      pledges: updatedPledges,
+      credits,
+      bonusCalculation: createdBonus,
+    };
+  });
+}
+
+/**
+ * Validates a split against its already locked pledges and locks the plans it
+ * covers. Pledge totals add up payment amounts as they are, so every pledge
+ * must be in the payment's currency.
+ */
+async function checkAllocations(
+  tx: Transaction,
+  input: PostPaymentInput,
+  allocations: PaymentAllocationInput[],
+  pledges: Pick<Pledge, "id" | "currency">[]
+) {
+  if (input.paymentPlanId) {
+    throw new HttpError(
+      400,
+      "Give the payment plans of a split payment on its allocations"
+    );
+  }
+  const allocated = allocations.reduce(
+    (total, allocation) => total + allocation.amount,
+    0
+  );
+  if (Math.abs(allocated - input.amount) >= 0.005) {
+    throw new HttpError(400, "Allocations must add up to the payment amount");
+  }
+  if (
+    !allocations.some((allocation) => allocation.pledgeId === input.pledgeId)
+  ) {
+    throw new HttpError(400, "Allocations must include the payment's pledge");
+  }
+
+  const pledgeIds = [...new Set(allocations.map((row) => row.pledgeId))];
+  for (const pledgeId of pledgeIds) {
+    const found = pledges.find((row) => row.id === pledgeId);
+    if (!found) {
+      throw new HttpError(404, `Pledge #${pledgeId} not found`);
+    }
+    if (found.currency !== input.currency) {
+      throw new HttpError(
+        400,
+        `Pledge #${pledgeId} is in ${found.currency}; a split payment can only cover pledges in ${input.currency}`
+      );
+    }
+  }
+
+  const planIds = [
+    ...new Set(
+      allocations
+        .map((row) => row.paymentPlanId)
+        .filter((id): id is number => id !== undefined)
+    ),
+  ];
+  if (planIds.length === 0) return;
+  const plans = await tx
+    .select({ id: paymentPlan.id, pledgeId: paymentPlan.pledgeId })
+    .from(paymentPlan)
+    .where(inArray(paymentPlan.id, planIds))
+    .orderBy(asc(paymentPlan.id))
+    .for("update");
+  for (const allocation of allocations) {
+    if (!allocation.paymentPlanId) continue;
+    const plan = plans.find((row) => row.id === allocation.paymentPlanId);
+    if (!plan) {
+      throw new HttpError(
+        404,
+        `Payment plan #${allocation.paymentPlanId} not found`
+      );
+    }
+    if (plan.pledgeId !== allocation.pledgeId) {
+      throw new HttpError(
+        400,
+        `Payment plan #${plan.id} does not belong to pledge #${allocation.pledgeId}`
+      );
+    }
+  }
+}
+
+/**
+ * Shares a value out across allocations in proportion to their amounts, with
+ * the rounding difference on the last one so the shares add up exactly. Used
+ * for the USD side of a split payment and for the pledges' part of a refund.
+ */
+export function shareOut(
+  allocations: { amount: number }[],
+  amount: number,
+  value: number
+): number[] {
+  let remaining = Math.round(value * 100);
+  return allocations.map((allocation, index) => {
+    if (index === allocations.length - 1) return remaining / 100;
+    const cents = Math.round((value * allocation.amount * 100) / amount);
+    remaining -= cents;
+    return cents / 100;
+  });
+}
+
+async function resolvePaymentBonus(
+  tx: Transaction,
+  input: PostPaymentInput,
+  amountUsd: number,
+  isDonation: boolean
+) {
+  // An explicit percentage from the form wins over the solicitor's rules; the
+  // amount is always worked out here from the USD amount
+  if (input.bonusPercentage !== undefined) {
+    const bonusAmount = (amountUsd * input.bonusPercentage) / 100;
+    return {
+      bonusRuleId: input.bonusRuleId ?? null,
+      bonusPercentage: input.bonusPercentage.toString(),
+      bonusAmount: bonusAmount.toFixed(2),
+      notes: "Entered manually with the payment",
+    };
+  }
+
+  const resolved = await resolveBonus(tx, {
+    solicitorId: input.solicitorId!,
+    paymentDate: input.paymentDate,
+    amountUsd,
+    isDonation,
+  });
+  return {
+    bonusRuleId: resolved.bonusRuleId,
+    bonusPercentage: resolved.bonusPercentage,
+    bonusAmount: resolved.bonusAmount,
+    notes: `Auto-calculated on payment using rule: ${resolved.rule?.ruleName}`,
+  };
+}
@@ -0,0 +1,277 @@
+import { and, asc, eq, ne, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { addYears, format, parseISO } from "date-fns";
+import { db } from "@/lib/db";
+import {
+  paymentPlan,
+  paymentPlanInstallment,
+  pledge,
+  type PaymentPlan,
+  type Pledge,
+} from "@/lib/db/schema";
+import {
+  buildSchedule,
+  type ScheduledInstallment,
+} from "@/lib/payment-schedule";
+import { recordAudit, systemAuditContext } from "./audit";
+import { convertToUsd } from "./exchange-rates";
+import { regenerateInstallments } from "./installments";
+import { syncPledgeTotals } from "./ledger";
+import { emitWebhookEvent } from "./webhooks";
+
+const AUDIT_SOURCE = "payment-plan-renewal";
+
+export interface PlanRenewal {
+  paymentPlanId: number;
+  renewedPlanId: number;
+  pledgeId: number;
+  newPledge: boolean;
+}
+
+export interface RenewalRunResult {
+  renewals: PlanRenewal[];
+  errors: { paymentPlanId: number; message: string }[];
+}
+
+/**
+ * Moves academic years written as "2025-2026" forward, so a renewed plan or
+ * pledge is named for its own year.
+ */
+export function shiftAcademicYears(text: string, years: number): string {
+  return text.replace(/\b(\d{4})-(\d{4})\b/g, (match, from, to) =>
+    Number(to) === Number(from) + 1
+      ? `${Number(from) + years}-${Number(to) + years}`
+      : match
+  );
+}
+
+function shiftDate(date: string, years: number): string {
+  return format(addYears(parseISO(date), years), "yyyy-MM-dd");
+}
+
+/**
+ * Plans renew for the following year: the new plan starts on the old start
+ * date moved forward by whole years, enough to clear the old plan's last due
+ * date.
+ */
+export function renewalYears(startDate: string, lastDueDate: string): number {
+  let years = 1;
+  while (shiftDate(startDate, years) <= lastDueDate) years++;
+  return years;
+}
+
+/**
+ * Creates the next period's plan for a completed auto-renew plan, copying its
+ * frequency and amounts. The year's amount is either a new pledge, when the
+ * plan asks for it, or added to the plan's pledge, so the renewed payments
+ * count towards a pledge rather than spilling into credit. Returns null when
+ * the plan was already renewed.
+ */
+export async function renewPaymentPlan(
+  plan: PaymentPlan
+): Promise<PlanRenewal | null> {
+  const installments = await db
+    .select()
+    .from(paymentPlanInstallment)
+    .where(
+      and(
+        eq(paymentPlanInstallment.paymentPlanId, plan.id),
+        ne(paymentPlanInstallment.status, "cancelled")
+      )
+    )
+    .orderBy(asc(paymentPlanInstallment.installmentNumber));
+
+  const lastDueDate = [
+    plan.startDate,
+    plan.endDate,
+    ...installments.map((installment) => installment.dueDate),
+  ].reduce<string>(
+    (latest, date) => (date && date > latest ? date : latest),
+    plan.startDate
+  );
+  const years = renewalYears(plan.startDate, lastDueDate);
+  const startDate = shiftDate(plan.startDate, years);
+
+  // Custom plans keep their irregular dates, moved to the new year
+  const customSchedule: ScheduledInstallment[] | undefined =
+    plan.frequency === "custom"
+      ? installments.map((installment) => ({
+          installmentNumber: installment.installmentNumber,
+          dueDate: shiftDate(installment.dueDate, years),
+          amount: installment.amount,
+        }))
+      : undefined;
+  const schedule = customSchedule ?? buildSchedule({ ...plan, startDate });
+
+  const [previousPledge] = await db
+    .select()
+    .from(pledge)
+    .where(eq(pledge.id, plan.pledgeId))
+    .limit(1);
+
+  if (!previousPledge) {
+    throw new Error(`Pledge #${plan.pledgeId} of the plan no longer exists`);
+  }
+  if (!plan.renewWithNewPledge && previousPledge.currency !== plan.currency) {
+    throw new Error(
+      `Plan is in ${plan.currency} but pledge #${previousPledge.id} is in ${previousPledge.currency}; renew it with a new pledge`
+    );
+  }
+
+  // Rates can come from a remote provider, so they are resolved before any
+  // rows are locked
+  const conversion = await convertToUsd(
+    db,
+    parseFloat(plan.totalPlannedAmount),
+    plan.currency,
+    startDate
+  );
+
+  return db.transaction(async (tx) => {
+    const successor = alias(paymentPlan, "successor");
+    const [current] = await tx
+      .select()
+      .from(paymentPlan)
+      .where(
+        and(
+          eq(paymentPlan.id, plan.id),
+          notExists(
+            tx
+              .select({ id: successor.id })
+              .from(successor)
+              .where(eq(successor.renewedFromPlanId, paymentPlan.id))
+          )
+        )
+      )
+      .for("update");
+    if (!current) return null;
+
+    const context = systemAuditContext(AUDIT_SOURCE);
+    let pledgeId = current.pledgeId;
+    let createdPledge: Pledge | null = null;
+
+    if (current.renewWithNewPledge) {
+      [createdPledge] = await tx
+        .insert(pledge)
+        .values({
+          contactId: previousPledge.contactId,
+          categoryId: previousPledge.categoryId,
+          pledgeDate: startDate,
+          description: previousPledge.description
+            ? shiftAcademicYears(previousPledge.description, years)
+            : null,
+          originalAmount: current.totalPlannedAmount,
+          currency: current.currency,
+          originalAmountUsd: conversion.amountUsd.toString(),
+          exchangeRate: conversion.exchangeRate.toString(),
+          totalPaid: "0",
+          totalPaidUsd: "0",
+          balance: current.totalPlannedAmount,
+          balanceUsd: conversion.amountUsd.toString(),
+          isActive: true,
+          notes: `Renewed from pledge #${previousPledge.id}`,
+        })
+        .returning();
+      await recordAudit(tx, context, "pledge", null, createdPledge);
+      await emitWebhookEvent(tx, "pledge.created", { pledge: createdPledge });
+      pledgeId = createdPledge.id;
+    } else {
+      const [before] = await tx
+        .select()
+        .from(pledge)
+        .where(eq(pledge.id, pledgeId))
+        .for("update");
+      await tx
+        .update(pledge)
+        .set({
+          originalAmount: (
+            parseFloat(before.originalAmount) +
+            parseFloat(current.totalPlannedAmount)
+          ).toFixed(2),
+          originalAmountUsd: (
+            parseFloat(before.originalAmountUsd || "0") + conversion.amountUsd
+          ).toFixed(2),
+          isActive: true,
+        })
+        .where(eq(pledge.id, pledgeId));
+      const after = await syncPledgeTotals(tx, pledgeId);
+      await recordAudit(tx, context, "pledge", before, after);
+    }
+
+    const [created] = await tx
+      .insert(paymentPlan)
+      .values({
+        pledgeId,
+        planName: current.planName
+          ? shiftAcademicYears(current.planName, years)
+          : null,
+        frequency: current.frequency,
+        totalPlannedAmount: current.totalPlannedAmount,
+        currency: current.currency,
+        installmentAmount: current.installmentAmount,
+        numberOfInstallments: current.numberOfInstallments,
+        startDate: schedule[0]?.dueDate ?? startDate,
+        endDate: schedule[schedule.length - 1]?.dueDate ?? null,
+        nextPaymentDate: schedule[0]?.dueDate ?? startDate,
+        remainingAmount: current.totalPlannedAmount,
+        planStatus: "active",
+        autoRenew: true,
+        renewWithNewPledge: current.renewWithNewPledge,
+        renewedFromPlanId: current.id,
+        isActive: true,
+        notes: current.notes,
+        internalNotes: current.internalNotes,
+      })
+      .returning();
+    await recordAudit(tx, context, "payment_plan", null, created);
+    await regenerateInstallments(tx, created, customSchedule);
+
+    return {
+      paymentPlanId: current.id,
+      renewedPlanId: created.id,
+      pledgeId,
+      newPledge: createdPledge !== null,
+    };
+  });
+}
+
+/**
+ * Renews every completed auto-renew plan that has no successor yet. A plan
+ * that fails, for example for want of an exchange rate, is reported and
+ * tried again on the next run.
+ */
+export async function renewCompletedPlans(): Promise<RenewalRunResult> {
+  const successor = alias(paymentPlan, "successor");
+  const plans = await db
+    .select()
+    .from(paymentPlan)
+    .where(
+      and(
+        eq(paymentPlan.planStatus, "completed"),
+        eq(paymentPlan.autoRenew, true),
+        notExists(
+          db
+            .select({ id: successor.id })
+            .from(successor)
+            .where(eq(successor.renewedFromPlanId, paymentPlan.id))
+        )
+      )
+    )
+    .orderBy(asc(paymentPlan.id));
+
+  const result: RenewalRunResult = { renewals: [], errors: [] };
+  for (const plan of plans) {
+    try {
+      const renewal = await renewPaymentPlan(plan);
+      if (renewal) result.renewals.push(renewal);
+    } catch (error) {
+      console.error(`Error renewing payment plan #${plan.id}:`, error);
+      result.errors.push({
+        paymentPlanId: plan.id,
+        message: error instanceof Error ? error.message : "Renewal failed",
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,201 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import { format, parseISO, subDays } from "date-fns";
+import { db, type Database } from "@/lib/db";
+import {
+  paymentPlan,
+  paymentPlanInstallment,
+  paymentPlanStatusChange,
+  type PaymentPlan,
+  type PaymentPlanInstallment,
+} from "@/lib/db/schema";
+import { matchInstallmentPayments } from "./installments";
+import { loadPaymentPlanLedger, type PaymentPlanTotals } from "./ledger";
+import { emitWebhookEvent } from "./webhooks";
+
+export type PlanStatus = PaymentPlan["planStatus"];
+
+// Statuses the scheduled job moves plans between. Paused and cancelled plans
+// are only ever changed by hand.
+const EVALUATED_STATUSES: PlanStatus[] = ["active", "overdue", "completed"];
+
+export interface PlanStatusEvaluation {
+  status: PlanStatus;
+  reason: string;
+}
+
+export interface PlanStatusTransition {
+  paymentPlanId: number;
+  fromStatus: PlanStatus;
+  toStatus: PlanStatus;
+  reason: string;
+}
+
+export interface PlanStatusRunResult {
+  asOf: string;
+  evaluated: number;
+  transitions: PlanStatusTransition[];
+  installmentsMarkedOverdue: number;
+}
+
+/**
+ * Works out the status a plan should have on a date. A plan is completed once
+ * its payments cover the planned total, overdue while an unpaid installment
+ * fell due before `cutoff`, and active otherwise. Plans without installments
+ * go by their next payment date.
+ */
+export function evaluatePlanStatus(
+  plan: Pick<PaymentPlan, "nextPaymentDate">,
+  totals: PaymentPlanTotals,
+  installments: PaymentPlanInstallment[],
+  cutoff: string
+): PlanStatusEvaluation {
+  if (parseFloat(totals.remainingAmount) <= 0) {
+    return { status: "completed", reason: "Planned total has been paid" };
+  }
+
+  const scheduled = installments.filter(
+    (installment) => installment.status !== "cancelled"
+  );
+  const late = scheduled.filter(
+    (installment) =>
+      installment.status !== "paid" && installment.dueDate < cutoff
+  );
+  if (late.length > 0) {
+    return {
+      status: "overdue",
+      reason: `${late.length} installment${late.length === 1 ? "" : "s"} past due since ${late[0].dueDate}`,
+    };
+  }
+  if (
+    scheduled.length === 0 &&
+    plan.nextPaymentDate &&
+    plan.nextPaymentDate < cutoff
+  ) {
+    return {
+      status: "overdue",
+      reason: `Payment due ${plan.nextPaymentDate} has not been received`,
+    };
+  }
+
+  return { status: "active", reason: "Payments are up to date" };
+}
+
+/**
+ * Adds a row to a plan's status history when its status changed.
+ */
+export async function recordPlanStatusChange(
+  database: Database,
+  before: Pick<PaymentPlan, "id" | "planStatus">,
+  after: Pick<PaymentPlan, "planStatus">,
+  changedBy: number | null,
+  reason: string | null = null
+): Promise<void> {
+  if (before.planStatus === after.planStatus) return;
+
+  await database.insert(paymentPlanStatusChange).values({
+    paymentPlanId: before.id,
+    fromStatus: before.planStatus,
+    toStatus: after.planStatus,
+    reason,
+    changedBy,
+  });
+}
+
+/**
+ * Brings every active, overdue and completed plan in line with its schedule
+ * and payments on `asOf`, counting installments as late once they are more
+ * than `graceDays` past due. Plans that are already right are not touched, so
+ * running it again the same day changes nothing.
+ */
+export async function runPlanStatusJob({
+  asOf = format(new Date(), "yyyy-MM-dd"),
+  graceDays = 0,
+}: { asOf?: string; graceDays?: number } = {}): Promise<PlanStatusRunResult> {
+  const cutoff = format(subDays(parseISO(asOf), graceDays), "yyyy-MM-dd");
+  const plans = await db
+    .select({ id: paymentPlan.id })
+    .from(paymentPlan)
+    .where(inArray(paymentPlan.planStatus, EVALUATED_STATUSES))
+    .orderBy(asc(paymentPlan.id));
+
+  const result: PlanStatusRunResult = {
+    asOf,
+    evaluated: 0,
+    transitions: [],
+    installmentsMarkedOverdue: 0,
+  };
+
+  for (const { id } of plans) {
+    await db.transaction(async (tx) => {
+      const [plan] = await tx
+        .select()
+        .from(paymentPlan)
+        .where(eq(paymentPlan.id, id))
+        .for("update");
+      if (!plan || !EVALUATED_STATUSES.includes(plan.planStatus)) return;
+      result.evaluated++;
+
+      const matched = await matchInstallmentPayments(tx, plan.id);
+      const installments: PaymentPlanInstallment[] = [];
+      for (const installment of matched) {
+        // Statuses that follow from the payments are left as they are
+        const status =
+          installment.status === "paid" ||
+          installment.status === "partially_paid" ||
+          installment.status === "cancelled"
+            ? installment.status
+            : installment.dueDate < cutoff
+              ? "overdue"
+              : "pending";
+        if (status === installment.status) {
+          installments.push(installment);
+          continue;
+        }
+        const [updated] = await tx
+          .update(paymentPlanInstallment)
+          .set({ status, updatedAt: new Date() })
+          .where(eq(paymentPlanInstallment.id, installment.id))
+          .returning();
+        if (status === "overdue") result.installmentsMarkedOverdue++;
+        installments.push(updated);
+      }
+
+      const [ledger] = await loadPaymentPlanLedger(
+        tx,
+        eq(paymentPlan.id, plan.id)
+      );
+      const evaluation = evaluatePlanStatus(
+        plan,
+        ledger.expected,
+        installments,
+        cutoff
+      );
+      if (evaluation.status === plan.planStatus) return;
+
+      const [updated] = await tx
+        .update(paymentPlan)
+        .set({
+          planStatus: evaluation.status,
+          isActive: evaluation.status === "active",
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentPlan.id, plan.id))
+        .returning();
+      await recordPlanStatusChange(tx, plan, updated, null, evaluation.reason);
+      if (updated.planStatus === "overdue") {
+        await emitWebhookEvent(tx, "payment_plan.overdue", {
+          paymentPlan: updated,
+        });
+      }
+
+      result.transitions.push({
+        paymentPlanId: plan.id,
+        fromStatus: plan.planStatus,
+        toStatus: updated.planStatus,
+        reason: evaluation.reason,
+      });
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,530 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { format, parseISO } from "date-fns";
+import {
+  PDFDocument,
+  StandardFonts,
+  degrees,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import { db, type Database } from "@/lib/db";
+import {
+  category,
+  contact,
+  payment,
+  paymentAllocation,
+  pledge,
+  receipt,
+  receiptSequence,
+  type ContactAddress,
+  type Payment,
+  type Receipt,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+import { getContactDetails } from "./contact-details";
+
+export type ReceiptType = Receipt["receiptType"];
+
+export interface ReceiptOrganization {
+  name: string;
+  addressLines: string[];
+  taxId: string | null;
+  taxWording: string;
+}
+
+const DEFAULT_TAX_WORDING =
+  "No goods or services were provided in exchange for this contribution. " +
+  "This contribution is tax-deductible to the extent allowed by law.";
+
+const TITLES: Record<ReceiptType, string> = {
+  receipt: "Donation Receipt",
+  invoice: "Invoice",
+  confirmation: "Payment Confirmation",
+  other: "Receipt",
+};
+
+// Letterhead details come from the environment so each deployment prints its
+// own organization
+export function getReceiptOrganization(): ReceiptOrganization {
+  return {
+    name: process.env.RECEIPT_ORG_NAME || "Lev Hatorah",
+    addressLines: (process.env.RECEIPT_ORG_ADDRESS ?? "")
+      .split("|")
+      .map((line) => line.trim())
+      .filter(Boolean),
+    taxId: process.env.RECEIPT_ORG_TAX_ID || null,
+    taxWording: process.env.RECEIPT_TAX_WORDING || DEFAULT_TAX_WORDING,
+  };
+}
+
+export function formatReceiptNumber(year: number, sequence: number): string {
+  return `${year}-${sequence.toString().padStart(5, "0")}`;
+}
+
+/**
+ * Takes the next receipt number for a year. The sequence row stays locked
+ * until the caller's transaction ends, so numbers are handed out in order and
+ * a rolled-back receipt gives its number back.
+ */
+export async function nextReceiptNumber(
+  database: Database,
+  year: number
+): Promise<string> {
+  const [row] = await database
+    .insert(receiptSequence)
+    .values({ year, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: receiptSequence.year,
+      set: {
+        lastNumber: sql`${receiptSequence.lastNumber} + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return formatReceiptNumber(year, row.lastNumber);
+}
+
+/**
+ * Stops the deletion of payments that have been receipted. An issued number
+ * must stay in the year's sequence, so such payments are refunded instead.
+ */
+export async function assertNotReceipted(
+  database: Database,
+  paymentIds: number[]
+): Promise<void> {
+  if (paymentIds.length === 0) return;
+  const [issued] = await database
+    .select({ receiptNumber: receipt.receiptNumber })
+    .from(receipt)
+    .where(inArray(receipt.paymentId, paymentIds))
+    .limit(1);
+  if (issued) {
+    throw new HttpError(
+      409,
+      `Receipt ${issued.receiptNumber} has been issued for this payment; refund it instead of deleting it`
+    );
+  }
+}
+
+export interface ReceiptDocument {
+  organization: ReceiptOrganization;
+  receiptNumber: string;
+  receiptType: ReceiptType;
+  copyNumber: number;
+  issuedOn: string;
+  // Whether the tax wording is printed: only donation receipts for payments
+  // to tax-deductible categories carry it
+  taxDeductible: boolean;
+  donor: {
+    name: string;
+    address: string | null;
+    email: string | null;
+  };
+  payment: Pick<
+    Payment,
+    | "id"
+    | "amount"
+    | "currency"
+    | "amountUsd"
+    | "paymentDate"
+    | "paymentMethod"
+    | "referenceNumber"
+    | "checkNumber"
+  >;
+  pledgeDescription: string | null;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+
+// The standard PDF fonts only cover Latin text; anything else, such as Hebrew
+// names, is replaced rather than failing the whole receipt
+export function printable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+}
+
+export function wrapText(
+  font: PDFFont,
+  text: string,
+  size: number,
+  width: number
+): string[] {
+  const lines: string[] = [];
+  for (const paragraph of printable(font, text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function formatMoney(amount: string | number, currency: string): string {
+  return `${currency} ${Number(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+export const formatMethod = (method: string) =>
+  method
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+/**
+ * Lays out a one-page receipt: letterhead, donor, the payment and the tax
+ * wording. Reissued copies carry a "DUPLICATE" mark.
+ */
+export async function renderReceiptPdf(
+  document: ReceiptDocument
+): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const title = TITLES[document.receiptType];
+  pdf.setTitle(`${title} ${document.receiptNumber}`);
+  pdf.setAuthor(document.organization.name);
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const write = (
+    text: string,
+    options: {
+      font?: PDFFont;
+      size?: number;
+      x?: number;
+      color?: typeof TEXT_COLOR;
+    } = {}
+  ) => {
+    const font = options.font ?? regular;
+    const size = options.size ?? 10;
+    page.drawText(printable(font, text), {
+      x: options.x ?? MARGIN,
+      y,
+      size,
+      font,
+      color: options.color ?? TEXT_COLOR,
+    });
+  };
+  const writeRight = (text: string, font: PDFFont, size: number) => {
+    const value = printable(font, text);
+    page.drawText(value, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(value, size),
+      y,
+      size,
+      font,
+      color: TEXT_COLOR,
+    });
+  };
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.75,
+      color: MUTED_COLOR,
+    });
+  };
+
+  // Letterhead
+  write(document.organization.name, { font: bold, size: 18 });
+  y -= 16;
+  for (const line of document.organization.addressLines) {
+    write(line, { color: MUTED_COLOR });
+    y -= 13;
+  }
+  if (document.organization.taxId) {
+    write(`Tax ID: ${document.organization.taxId}`, { color: MUTED_COLOR });
+    y -= 13;
+  }
+  y -= 4;
+  rule();
+  y -= 32;
+
+  write(title, { font: bold, size: 16 });
+  writeRight(`No. ${document.receiptNumber}`, bold, 12);
+  y -= 16;
+  writeRight(
+    `Issued ${format(parseISO(document.issuedOn), "MMMM d, yyyy")}`,
+    regular,
+    10
+  );
+  if (document.copyNumber > 0) {
+    y -= 14;
+    writeRight(`Duplicate copy ${document.copyNumber}`, bold, 10);
+  }
+  y -= 30;
+
+  write("Received from", { font: bold, size: 11 });
+  y -= 16;
+  write(document.donor.name, { size: 11 });
+  y -= 14;
+  for (const line of (document.donor.address ?? "").split("\n")) {
+    if (!line.trim()) continue;
+    write(line.trim());
+    y -= 13;
+  }
+  if (document.donor.email) {
+    write(document.donor.email, { color: MUTED_COLOR });
+    y -= 13;
+  }
+  y -= 20;
+
+  const details: Array<[string, string]> = [
+    [
+      "Payment date",
+      format(parseISO(document.payment.paymentDate), "MMMM d, yyyy"),
+    ],
+    ["Payment method", formatMethod(document.payment.paymentMethod)],
+  ];
+  if (document.payment.checkNumber) {
+    details.push(["Check number", document.payment.checkNumber]);
+  }
+  if (document.payment.referenceNumber) {
+    details.push(["Reference", document.payment.referenceNumber]);
+  }
+  if (document.pledgeDescription) {
+    details.push(["For", document.pledgeDescription]);
+  }
+  for (const [label, value] of details) {
+    write(label, { color: MUTED_COLOR });
+    write(value, { x: MARGIN + 120 });
+    y -= 16;
+  }
+  y -= 8;
+  rule();
+  y -= 24;
+
+  write("Amount received", { font: bold, size: 12 });
+  writeRight(
+    formatMoney(document.payment.amount, document.payment.currency),
+    bold,
+    14
+  );
+  if (document.payment.currency !== "USD" && document.payment.amountUsd) {
+    y -= 16;
+    writeRight(
+      `Equivalent to ${formatMoney(document.payment.amountUsd, "USD")}`,
+      regular,
+      10
+    );
+  }
+  y -= 40;
+
+  if (document.taxDeductible && document.receiptType === "receipt") {
+    for (const line of wrapText(
+      regular,
+      document.organization.taxWording,
+      10,
+      contentWidth
+    )) {
+      write(line);
+      y -= 14;
+    }
+  }
+
+  y = MARGIN;
+  write(
+    `${document.organization.name} · ${title} ${document.receiptNumber}` +
+      (document.copyNumber > 0 ? " · Duplicate" : ""),
+    { size: 8, color: MUTED_COLOR }
+  );
+
+  if (document.copyNumber > 0) drawDuplicateMark(page, bold);
+
+  return Buffer.from(await pdf.save());
+}
+
+function drawDuplicateMark(page: PDFPage, font: PDFFont) {
+  const text = "DUPLICATE";
+  const size = 96;
+  page.drawText(text, {
+    x: PAGE_WIDTH / 2 - font.widthOfTextAtSize(text, size) / 2 + 40,
+    y: PAGE_HEIGHT / 2 - 160,
+    size,
+    font,
+    rotate: degrees(45),
+    color: rgb(0.85, 0.2, 0.2),
+    opacity: 0.15,
+  });
+}
+
+export interface IssuedReceipt {
+  receipt: Receipt;
+  duplicate: boolean;
+}
+
+// An address as the lines of an envelope
+function addressBlock(entry: ContactAddress): string {
+  const statePostal = [entry.state, entry.postalCode].filter(Boolean).join(" ");
+  const cityLine = [entry.city, statePostal].filter(Boolean).join(", ");
+  return [entry.street, entry.street2, cityLine, entry.country]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Issues the receipt for a completed payment. The first issue takes the next
+ * number in the payment year's sequence, stores the PDF and marks the payment
+ * as receipted; later calls store a duplicate copy under the same number.
+ */
+export async function issueReceipt(
+  paymentId: number,
+  { receiptType, context }: { receiptType?: ReceiptType; context: AuditContext }
+): Promise<IssuedReceipt> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(payment)
+      .where(eq(payment.id, paymentId))
+      .for("update");
+    if (!current) throw new HttpError(404, "Payment not found");
+    if (current.paymentStatus !== "completed") {
+      throw new HttpError(
+        422,
+        "Receipts can only be issued for completed payments"
+      );
+    }
+
+    const [latest] = await tx
+      .select({
+        receiptNumber: receipt.receiptNumber,
+        receiptType: receipt.receiptType,
+        copyNumber: receipt.copyNumber,
+      })
+      .from(receipt)
+      .where(eq(receipt.paymentId, paymentId))
+      .orderBy(desc(receipt.copyNumber))
+      .limit(1);
+
+    // A copy keeps the original's number and type, whatever was asked for
+    const receiptNumber =
+      latest?.receiptNumber ??
+      (await nextReceiptNumber(
+        tx,
+        parseISO(current.paymentDate).getFullYear()
+      ));
+    const type =
+      latest?.receiptType ?? receiptType ?? current.receiptType ?? "receipt";
+    const copyNumber = latest ? latest.copyNumber + 1 : 0;
+
+    const [donor] = await tx
+      .select({
+        contactId: contact.id,
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        pledgeDescription: pledge.description,
+      })
+      .from(pledge)
+      .innerJoin(contact, eq(pledge.contactId, contact.id))
+      .where(eq(pledge.id, current.pledgeId));
+    const details = await getContactDetails(tx, donor.contactId);
+    const primaryEmail =
+      details.emails.find((entry) => entry.isPrimary) ?? details.emails[0];
+    const primaryAddress =
+      details.addresses.find((entry) => entry.isPrimary) ??
+      details.addresses[0];
+
+    // A split payment is deductible only if every pledge it pays is
+    const allocations = await tx
+      .select({ pledgeId: paymentAllocation.pledgeId })
+      .from(paymentAllocation)
+      .where(eq(paymentAllocation.paymentId, paymentId));
+    const categories = await tx
+      .select({ isTaxDeductible: category.isTaxDeductible })
+      .from(pledge)
+      .leftJoin(category, eq(pledge.categoryId, category.id))
+      .where(
+        inArray(pledge.id, [
+          current.pledgeId,
+          ...allocations.map((allocation) => allocation.pledgeId),
+        ])
+      );
+
+    const pdf = await renderReceiptPdf({
+      organization: getReceiptOrganization(),
+      receiptNumber,
+      receiptType: type,
+      copyNumber,
+      issuedOn: format(new Date(), "yyyy-MM-dd"),
+      taxDeductible: categories.every((row) => !!row.isTaxDeductible),
+      donor: {
+        name: `${donor.firstName} ${donor.lastName}`,
+        address: primaryAddress ? addressBlock(primaryAddress) : null,
+        email: primaryEmail?.email ?? null,
+      },
+      payment: current,
+      pledgeDescription: donor.pledgeDescription,
+    });
+
+    const [created] = await tx
+      .insert(receipt)
+      .values({
+        paymentId,
+        receiptNumber,
+        receiptType: type,
+        copyNumber,
+        pdf,
+        issuedBy: context.changedBy,
+      })
+      .returning();
+
+    if (!latest) {
+      const [updated] = await tx
+        .update(payment)
+        .set({
+          receiptNumber,
+          receiptType: type,
+          receiptIssued: true,
+          updatedAt: new Date(),
+        })
+        .where(eq(payment.id, paymentId))
+        .returning();
+      await recordAudit(tx, context, "payment", current, updated);
+    }
+
+    return { receipt: created, duplicate: copyNumber > 0 };
+  });
+}
+
+/**
+ * A stored receipt for a payment: the given copy, or the original.
+ */
+export async function getReceipt(
+  paymentId: number,
+  copyNumber = 0
+): Promise<Receipt | null> {
+  const [stored] = await db
+    .select()
+    .from(receipt)
+    .where(
+      and(eq(receipt.paymentId, paymentId), eq(receipt.copyNumber, copyNumber))
+    )
+    .limit(1);
+  return stored ?? null;
+}
+
+export function receiptFileName(stored: Receipt): string {
+  return (
+    `receipt-${stored.receiptNumber}` +
+    (stored.copyNumber > 0 ? `-copy-${stored.copyNumber}` : "") +
+    ".pdf"
+  );
+}
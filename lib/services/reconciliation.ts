@@ -0,0 +1,120 @@
+import { db } from "@/lib/db";
+import { recordAudit, type AuditContext } from "./audit";
+import {
+  loadPaymentPlanLedger,
+  loadPledgeLedger,
+  syncPaymentPlanTotals,
+  syncPledgeTotals,
+} from "./ledger";
+
+export interface FieldDiscrepancy {
+  field: string;
+  stored: string | number | null;
+  expected: string | number | null;
+}
+
+export interface RecordDiscrepancy {
+  id: number;
+  fields: FieldDiscrepancy[];
+}
+
+export interface ReconciliationReport {
+  checkedAt: string;
+  fixed: boolean;
+  pledgesChecked: number;
+  paymentPlansChecked: number;
+  pledges: RecordDiscrepancy[];
+  paymentPlans: RecordDiscrepancy[];
+}
+
+type Totals = Record<string, string | number | null>;
+
+function diff(stored: Totals, expected: Totals): FieldDiscrepancy[] {
+  return Object.entries(expected).flatMap(([field, value]) => {
+    const current = stored[field];
+    const matches =
+      typeof value === "number"
+        ? Number(current) === value
+        : parseFloat(String(current ?? "0")).toFixed(2) === String(value);
+    return matches ? [] : [{ field, stored: current, expected: value }];
+  });
+}
+
+/**
+ * Recomputes every pledge and payment plan from its completed payments and
+ * reports where the stored totals disagree. With `fix`, the mismatched rows
+ * are rewritten in a single transaction and each rewrite is audited.
+ */
+export async function reconcileLedger(
+  context: AuditContext,
+  { fix = false }: { fix?: boolean } = {}
+): Promise<ReconciliationReport> {
+  return db.transaction(async (tx) => {
+    const pledgeRows = await loadPledgeLedger(tx);
+    const planRows = await loadPaymentPlanLedger(tx);
+
+    const pledges = pledgeRows
+      .map(({ pledge, expected }) => ({
+        id: pledge.id,
+        fields: diff(
+          {
+            totalPaid: pledge.totalPaid,
+            totalPaidUsd: pledge.totalPaidUsd,
+            balance: pledge.balance,
+            balanceUsd: pledge.balanceUsd,
+          },
+          expected
+        ),
+      }))
+      .filter((row) => row.fields.length > 0);
+
+    const paymentPlans = planRows
+      .map(({ paymentPlan, expected }) => ({
+        id: paymentPlan.id,
+        fields: diff(
+          {
+            installmentsPaid: paymentPlan.installmentsPaid,
+            totalPaid: paymentPlan.totalPaid,
+            totalPaidUsd: paymentPlan.totalPaidUsd,
+            remainingAmount: paymentPlan.remainingAmount,
+          },
+          expected
+        ),
+      }))
+      .filter((row) => row.fields.length > 0);
+
+    if (fix) {
+      for (const row of pledges) {
+        const before = pledgeRows.find(({ pledge }) => pledge.id === row.id);
+        const after = await syncPledgeTotals(tx, row.id);
+        if (before && after) {
+          await recordAudit(tx, context, "pledge", before.pledge, after);
+        }
+      }
+      for (const row of paymentPlans) {
+        const before = planRows.find(
+          ({ paymentPlan }) => paymentPlan.id === row.id
+        );
+        const after = await syncPaymentPlanTotals(tx, row.id);
+        if (before && after) {
+          await recordAudit(
+            tx,
+            context,
+            "payment_plan",
+            before.paymentPlan,
+            after
+          );
+        }
+      }
+    }
+
+    return {
+      checkedAt: new Date().toISOString(),
+      fixed: fix,
+      pledgesChecked: pledgeRows.length,
+      paymentPlansChecked: planRows.length,
+      pledges,
+      paymentPlans,
+    };
+  });
+}
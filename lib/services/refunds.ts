@@ -0,0 +1,293 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  bonusCalculation,
+  payment,
+  paymentAllocation,
+  pledge,
+  type BonusCalculation,
+  type Payment,
+  type PaymentPlan,
+  type Pledge,
+} from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { recordAudit, type AuditContext } from "./audit";
+import { assertCreditCovered, loadCreditContactIds } from "./credits";
+import { syncLedgerTargets } from "./ledger";
+import { loadLedgerTargets } from "./ledger-entries";
+import { shareOut } from "./payment-posting";
+import { emitWebhookEvent } from "./webhooks";
+
+export interface RefundPaymentInput {
+  // Defaults to everything not yet refunded
+  amount?: number;
+  refundDate: string;
+  paymentMethod?: Payment["paymentMethod"];
+  referenceNumber?: string;
+  reason?: string;
+}
+
+export interface RefundPaymentResult {
+  refund: Payment;
+  payment: Payment;
+  pledge: Pledge | null;
+  paymentPlan: PaymentPlan | null;
+  bonusCalculation: BonusCalculation | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Refunds all or part of a completed payment by recording a negative payment
+ * linked to it, so the original entry is never rewritten.
+ *
+ * A partial refund stays completed and nets off the pledge and plan totals.
+ * Once a payment is refunded in full, it and all its refund entries are marked
+ * refunded and drop out of the totals together, which also reopens the plan
+ * installment it paid. The USD side follows the original payment's rate, and
+ * a split payment is refunded from each of its pledges in proportion.
+ *
+ * The solicitor's bonus is reduced in proportion while it is unpaid, down to
+ * zero on a full refund. A bonus already paid out is left alone and a negative
+ * clawback calculation is recorded against the refund instead.
+ */
+export async function refundPayment(
+  paymentId: number,
+  input: RefundPaymentInput,
+  context: AuditContext
+): Promise<RefundPaymentResult> {
+  return db.transaction(async (tx) => {
+    const [original] = await tx
+      .select()
+      .from(payment)
+      .where(eq(payment.id, paymentId))
+      .for("update")
+      .limit(1);
+
+    if (!original) {
+      throw new HttpError(404, "Payment not found");
+    }
+    if (original.refundOfPaymentId) {
+      throw new HttpError(422, "A refund cannot itself be refunded");
+    }
+    if (original.paymentStatus !== "completed") {
+      throw new HttpError(422, "Only completed payments can be refunded");
+    }
+
+    const [pledgeData] = await tx
+      .select()
+      .from(pledge)
+      .where(eq(pledge.id, original.pledgeId))
+      .for("update")
+      .limit(1);
+
+    const previousRefunds = await tx
+      .select()
+      .from(payment)
+      .where(eq(payment.refundOfPaymentId, original.id))
+      .for("update");
+
+    const originalAmount = parseFloat(original.amount);
+    const refundedAmount = previousRefunds.reduce(
+      (total, entry) => total - parseFloat(entry.amount),
+      0
+    );
+    const refundable = round(originalAmount - refundedAmount);
+    if (refundable <= 0) {
+      throw new HttpError(422, "Payment has already been refunded in full");
+    }
+
+    const amount = round(input.amount ?? refundable);
+    if (amount > refundable) {
+      throw new HttpError(
+        422,
+        `Refund cannot exceed the ${refundable.toFixed(2)} ${original.currency} still refundable`
+      );
+    }
+    const isFull = amount === refundable;
+
+    // A full refund takes back exactly the USD still standing, so the entries
+    // net to zero without rounding drift
+    let amountUsd: number | null = null;
+    if (original.amountUsd !== null) {
+      const originalUsd = parseFloat(original.amountUsd);
+      const refundedUsd = previousRefunds.reduce(
+        (total, entry) => total - parseFloat(entry.amountUsd ?? "0"),
+        0
+      );
+      amountUsd = isFull
+        ? round(originalUsd - refundedUsd)
+        : round((originalUsd * amount) / originalAmount);
+    }
+
+    const [bonus] = await tx
+      .select()
+      .from(bonusCalculation)
+      .where(eq(bonusCalculation.paymentId, original.id))
+      .for("update")
+      .limit(1);
+
+    // What the solicitor still holds from a paid bonus after earlier clawbacks
+    let clawbackAmount = 0;
+    if (bonus?.isPaid) {
+      const clawbacks = await tx
+        .select({ bonusAmount: bonusCalculation.bonusAmount })
+        .from(bonusCalculation)
+        .innerJoin(payment, eq(bonusCalculation.paymentId, payment.id))
+        .where(
+          and(
+            eq(payment.refundOfPaymentId, original.id),
+            eq(bonusCalculation.isClawback, true)
+          )
+        );
+      const retained = clawbacks.reduce(
+        (total, row) => total + parseFloat(row.bonusAmount),
+        parseFloat(bonus.bonusAmount)
+      );
+      clawbackAmount = isFull
+        ? round(retained)
+        : round((retained * amount) / refundable);
+    }
+
+    const [refund] = await tx
+      .insert(payment)
+      .values({
+        pledgeId: original.pledgeId,
+        paymentPlanId: original.paymentPlanId,
+        refundOfPaymentId: original.id,
+        amount: (-amount).toFixed(2),
+        currency: original.currency,
+        amountUsd: amountUsd === null ? null : (-amountUsd).toFixed(2),
+        exchangeRate: original.exchangeRate,
+        paymentDate: input.refundDate,
+        receivedDate: input.refundDate,
+        paymentMethod: input.paymentMethod ?? original.paymentMethod,
+        paymentStatus: isFull ? "refunded" : "completed",
+        referenceNumber: input.referenceNumber || null,
+        receiptIssued: false,
+        solicitorId: original.solicitorId,
+        bonusPercentage: clawbackAmount > 0 ? bonus!.bonusPercentage : null,
+        bonusAmount: clawbackAmount > 0 ? (-clawbackAmount).toFixed(2) : null,
+        bonusRuleId: clawbackAmount > 0 ? bonus!.bonusRuleId : null,
+        notes: input.reason || `Refund of payment #${original.id}`,
+      })
+      .returning();
+    await recordAudit(tx, context, "payment", null, refund);
+
+    // A split payment is refunded from each pledge in proportion to its share
+    const allocations = await tx
+      .select()
+      .from(paymentAllocation)
+      .where(eq(paymentAllocation.paymentId, original.id))
+      .orderBy(paymentAllocation.id);
+    if (allocations.length > 0) {
+      const weights = allocations.map((allocation) => ({
+        amount: parseFloat(allocation.amount),
+      }));
+      const amounts = shareOut(weights, originalAmount, amount);
+      const amountsUsd =
+        amountUsd === null
+          ? null
+          : shareOut(weights, originalAmount, amountUsd);
+      await tx.insert(paymentAllocation).values(
+        allocations.map((allocation, index) => ({
+          paymentId: refund.id,
+          pledgeId: allocation.pledgeId,
+          paymentPlanId: allocation.paymentPlanId,
+          amount: (-amounts[index]).toFixed(2),
+          amountUsd: amountsUsd ? (-amountsUsd[index]).toFixed(2) : null,
+        }))
+      );
+    }
+
+    let updatedPayment = original;
+    if (isFull) {
+      const now = new Date();
+      for (const entry of [original, ...previousRefunds]) {
+        const [updated] = await tx
+          .update(payment)
+          .set({ paymentStatus: "refunded", updatedAt: now })
+          .where(eq(payment.id, entry.id))
+          .returning();
+        await recordAudit(tx, context, "payment", entry, updated);
+        if (entry.id === original.id) updatedPayment = updated;
+      }
+    }
+
+    let affectedBonus: BonusCalculation | null = null;
+    if (bonus && !bonus.isPaid) {
+      const remaining = isFull
+        ? 0
+        : round(
+            (parseFloat(bonus.bonusAmount) * (refundable - amount)) / refundable
+          );
+      const remainingUsd =
+        amountUsd === null
+          ? parseFloat(bonus.paymentAmount)
+          : parseFloat(bonus.paymentAmount) - amountUsd;
+      [affectedBonus] = await tx
+        .update(bonusCalculation)
+        .set({
+          paymentAmount: (isFull ? 0 : remainingUsd).toFixed(2),
+          bonusAmount: remaining.toFixed(2),
+          notes: isFull
+            ? `Voided: payment refunded in full by payment #${refund.id}`
+            : `Reduced for partial refund #${refund.id}`,
+        })
+        .where(eq(bonusCalculation.id, bonus.id))
+        .returning();
+
+      const [withBonus] = await tx
+        .update(payment)
+        .set({ bonusAmount: remaining.toFixed(2), updatedAt: new Date() })
+        .where(eq(payment.id, original.id))
+        .returning();
+      await recordAudit(tx, context, "payment", updatedPayment, withBonus);
+      updatedPayment = withBonus;
+    } else if (bonus && clawbackAmount > 0) {
+      [affectedBonus] = await tx
+        .insert(bonusCalculation)
+        .values({
+          paymentId: refund.id,
+          solicitorId: bonus.solicitorId,
+          bonusRuleId: bonus.bonusRuleId,
+          paymentAmount: (-(amountUsd ?? 0)).toFixed(2),
+          bonusPercentage: bonus.bonusPercentage,
+          bonusAmount: (-clawbackAmount).toFixed(2),
+          calculatedAt: new Date(),
+          isPaid: false,
+          isClawback: true,
+          notes: `Clawback of the bonus paid on payment #${original.id}`,
+        })
+        .returning();
+    }
+
+    const synced = await syncLedgerTargets(
+      tx,
+      await loadLedgerTargets(tx, [original])
+    );
+    // A full refund lapses any credit the payment's overpayment left
+    await assertCreditCovered(tx, await loadCreditContactIds(tx, original.id));
+    const updatedPledge =
+      synced.pledges.find((row) => row.id === original.pledgeId) ??
+      pledgeData ??
+      null;
+    const updatedPlan =
+      synced.paymentPlans.find((row) => row.id === original.paymentPlanId) ??
+      null;
+
+    await emitWebhookEvent(tx, "payment.refunded", {
+      payment: updatedPayment,
+      refund,
+      bonusCalculation: affectedBonus,
+    });
+
+    return {
+      refund,
+      payment: updatedPayment,
+      pledge: updatedPledge,
+      paymentPlan: updatedPlan,
+      bonusCalculation: affectedBonus,
+    };
+  });
+}
@@ -0,0 +1,373 @@
+import { appendFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { and, asc, eq, gt, inArray, lte, sql } from "drizzle-orm";
+import { differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import nodemailer from "nodemailer";
+import { db } from "@/lib/db";
+import {
+  contact,
+  paymentPlan,
+  paymentPlanInstallment,
+  paymentReminder,
+  pledge,
+  reminderTemplate,
+  type NewReminderTemplate,
+  type PaymentReminder,
+  type ReminderTemplate,
+} from "@/lib/db/schema";
+
+export type ReminderChannel = ReminderTemplate["channel"];
+
+// A reminder missed because the job did not run is still sent this many days
+// late, after which it is dropped
+const CATCH_UP_DAYS = 3;
+
+export interface ReminderMessage {
+  channel: ReminderChannel;
+  to: string;
+  subject: string | null;
+  body: string;
+}
+
+/**
+ * Delivers rendered reminders. Each transport says which channels it can
+ * send on; reminders on any other channel are logged as skipped.
+ */
+export interface ReminderTransport {
+  name: string;
+  channels: readonly ReminderChannel[];
+  send(message: ReminderMessage): Promise<void>;
+}
+
+export const consoleTransport: ReminderTransport = {
+  name: "console",
+  channels: ["email", "sms"],
+  async send(message) {
+    console.log(
+      `[reminder:${message.channel}] to ${message.to}` +
+        (message.subject ? ` — ${message.subject}` : "") +
+        `\n${message.body}`
+    );
+  },
+};
+
+// Appends one JSON line per reminder, for checking wording during testing
+export const fileTransport: ReminderTransport = {
+  name: "file",
+  channels: ["email", "sms"],
+  async send(message) {
+    const path =
+      process.env.REMINDER_OUTBOX_PATH ||
+      join(tmpdir(), "levhatora-reminders.log");
+    await appendFile(
+      path,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n"
+    );
+  },
+};
+
+export const smtpTransport: ReminderTransport = {
+  name: "smtp",
+  channels: ["email"],
+  async send(message) {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.REMINDER_FROM_EMAIL;
+    if (!host || !from) {
+      throw new Error(
+        "SMTP_HOST and REMINDER_FROM_EMAIL must be set in the environment variables"
+      );
+    }
+
+    const transporter = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+    await transporter.sendMail({
+      from,
+      to: message.to,
+      subject: message.subject ?? "Payment reminder",
+      text: message.body,
+    });
+  },
+};
+
+/**
+ * The transport named by REMINDER_TRANSPORT. Only development falls back to
+ * the console; anywhere else a missing or unknown setting stops the run, as
+ * reminders would otherwise be recorded as sent without being delivered.
+ */
+export function getReminderTransport(): ReminderTransport {
+  const name = process.env.REMINDER_TRANSPORT;
+  switch (name) {
+    case smtpTransport.name:
+      return smtpTransport;
+    case fileTransport.name:
+      return fileTransport;
+    case consoleTransport.name:
+      return consoleTransport;
+  }
+  if (!name && process.env.NODE_ENV === "development") {
+    return consoleTransport;
+  }
+  throw new Error(
+    name
+      ? `Unknown REMINDER_TRANSPORT "${name}"`
+      : "REMINDER_TRANSPORT is not set in the environment variables"
+  );
+}
+
+export const REMINDER_PLACEHOLDERS = [
+  "firstName",
+  "lastName",
+  "planName",
+  "amount",
+  "currency",
+  "dueDate",
+  "installmentNumber",
+  "numberOfInstallments",
+  "remainingAmount",
+  "daysUntilDue",
+  "daysOverdue",
+] as const;
+
+export type ReminderPlaceholder = (typeof REMINDER_PLACEHOLDERS)[number];
+
+/**
+ * Fills `{{placeholder}}` markers in a template. Unknown markers are left as
+ * they are so a typo shows up in the sent text rather than disappearing.
+ */
+export function renderReminderTemplate(
+  text: string,
+  values: Record<ReminderPlaceholder, string>
+): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (marker, key: string) =>
+    key in values ? values[key as ReminderPlaceholder] : marker
+  );
+}
+
+// The schedule most plans want: a week's notice, the due date itself and a
+// follow-up two weeks late
+export const DEFAULT_REMINDER_TEMPLATES: NewReminderTemplate[] = [
+  {
+    name: "Upcoming payment",
+    daysFromDue: -7,
+    channel: "email",
+    subject: "Upcoming payment of {{currency}} {{amount}} on {{dueDate}}",
+    body: "Dear {{firstName}} {{lastName}},\n\nThis is a reminder that installment {{installmentNumber}} of {{numberOfInstallments}} for {{planName}}, {{currency}} {{amount}}, is due on {{dueDate}}.\n\nThank you for your support.",
+  },
+  {
+    name: "Payment due today",
+    daysFromDue: 0,
+    channel: "email",
+    subject: "Your payment of {{currency}} {{amount}} is due today",
+    body: "Dear {{firstName}} {{lastName}},\n\nInstallment {{installmentNumber}} of {{numberOfInstallments}} for {{planName}}, {{currency}} {{amount}}, is due today.\n\nThank you for your support.",
+  },
+  {
+    name: "Payment overdue",
+    daysFromDue: 14,
+    channel: "email",
+    subject: "Your payment of {{currency}} {{amount}} is overdue",
+    body: "Dear {{firstName}} {{lastName}},\n\nWe have not yet received installment {{installmentNumber}} for {{planName}}, {{currency}} {{amount}}, which was due on {{dueDate}} ({{daysOverdue}} days ago). The remaining balance on the plan is {{currency}} {{remainingAmount}}.\n\nIf you have already paid, please disregard this message.",
+  },
+];
+
+export interface ReminderRunResult {
+  asOf: string;
+  transport: string;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Sends each active template's reminder for the unpaid installments of active
+ * and overdue plans whose due date is `daysFromDue` days before `asOf`. An
+ * installment gets each template at most once; failed and skipped sends are
+ * tried again on the next run while they are within the catch-up window, so
+ * a contact whose details are fixed still gets the reminder. Each reminder
+ * is claimed by locking its installment, so overlapping runs do not send it
+ * twice.
+ */
+export async function runReminderJob({
+  asOf = format(new Date(), "yyyy-MM-dd"),
+  transport = getReminderTransport(),
+}: {
+  asOf?: string;
+  transport?: ReminderTransport;
+} = {}): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = {
+    asOf,
+    transport: transport.name,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+  };
+
+  const templates = await db
+    .select()
+    .from(reminderTemplate)
+    .where(eq(reminderTemplate.isActive, true))
+    .orderBy(asc(reminderTemplate.daysFromDue), asc(reminderTemplate.id));
+
+  for (const template of templates) {
+    const target = format(
+      subDays(parseISO(asOf), template.daysFromDue),
+      "yyyy-MM-dd"
+    );
+    const earliest = format(
+      subDays(parseISO(target), CATCH_UP_DAYS),
+      "yyyy-MM-dd"
+    );
+
+    const due = await db
+      .select({
+        installment: paymentPlanInstallment,
+        plan: paymentPlan,
+        contact: {
+          firstName: contact.firstName,
+          lastName: contact.lastName,
+          email: contact.email,
+          phone: contact.phone,
+        },
+      })
+      .from(paymentPlanInstallment)
+      .innerJoin(
+        paymentPlan,
+        eq(paymentPlanInstallment.paymentPlanId, paymentPlan.id)
+      )
+      .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+      .innerJoin(contact, eq(pledge.contactId, contact.id))
+      .where(
+        and(
+          inArray(paymentPlanInstallment.status, [
+            "pending",
+            "partially_paid",
+            "overdue",
+          ]),
+          inArray(paymentPlan.planStatus, ["active", "overdue"]),
+          lte(paymentPlanInstallment.dueDate, target),
+          gt(paymentPlanInstallment.dueDate, earliest),
+          sql`NOT EXISTS (
+            SELECT 1 FROM ${paymentReminder}
+            WHERE ${paymentReminder.installmentId} = ${paymentPlanInstallment.id}
+              AND ${paymentReminder.templateId} = ${template.id}
+              AND ${paymentReminder.status} = 'sent'
+          )`
+        )
+      )
+      .orderBy(
+        asc(paymentPlanInstallment.dueDate),
+        asc(paymentPlanInstallment.id)
+      );
+
+    for (const row of due) {
+      const daysUntilDue = differenceInCalendarDays(
+        parseISO(row.installment.dueDate),
+        parseISO(asOf)
+      );
+      const values: Record<ReminderPlaceholder, string> = {
+        firstName: row.contact.firstName,
+        lastName: row.contact.lastName,
+        planName: row.plan.planName ?? "your payment plan",
+        // What is left of a partially paid installment
+        amount: (
+          parseFloat(row.installment.amount) -
+          parseFloat(row.installment.paidAmount ?? "0")
+        ).toFixed(2),
+        currency: row.plan.currency,
+        dueDate: row.installment.dueDate,
+        installmentNumber: row.installment.installmentNumber.toString(),
+        numberOfInstallments: row.plan.numberOfInstallments.toString(),
+        remainingAmount: row.plan.remainingAmount,
+        daysUntilDue: Math.max(daysUntilDue, 0).toString(),
+        daysOverdue: Math.max(-daysUntilDue, 0).toString(),
+      };
+      const subject = template.subject
+        ? renderReminderTemplate(template.subject, values)
+        : null;
+      const body = renderReminderTemplate(template.body, values);
+
+      // Reminders only ever go to the contact details on record
+      const recipient =
+        template.channel === "email" ? row.contact.email : row.contact.phone;
+
+      // The lock is held while sending; a run that finds the installment
+      // locked leaves it to the run holding it
+      const status = await db.transaction(async (tx) => {
+        const [claimed] = await tx
+          .select({ id: paymentPlanInstallment.id })
+          .from(paymentPlanInstallment)
+          .where(eq(paymentPlanInstallment.id, row.installment.id))
+          .for("update", { skipLocked: true });
+        if (!claimed) return null;
+        const [alreadySent] = await tx
+          .select({ id: paymentReminder.id })
+          .from(paymentReminder)
+          .where(
+            and(
+              eq(paymentReminder.installmentId, row.installment.id),
+              eq(paymentReminder.templateId, template.id),
+              eq(paymentReminder.status, "sent")
+            )
+          )
+          .limit(1);
+        if (alreadySent) return null;
+
+        let status: PaymentReminder["status"] = "sent";
+        let error: string | null = null;
+        if (!recipient) {
+          status = "skipped";
+          error = `Contact has no ${template.channel === "email" ? "email address" : "phone number"} on record`;
+        } else if (!transport.channels.includes(template.channel)) {
+          status = "skipped";
+          error = `The ${transport.name} transport cannot send ${template.channel} reminders`;
+        } else {
+          try {
+            await transport.send({
+              channel: template.channel,
+              to: recipient,
+              subject,
+              body,
+            });
+          } catch (err) {
+            status = "failed";
+            error = err instanceof Error ? err.message : "Sending failed";
+          }
+        }
+
+        await tx.insert(paymentReminder).values({
+          paymentPlanId: row.plan.id,
+          installmentId: row.installment.id,
+          templateId: template.id,
+          channel: template.channel,
+          recipient,
+          subject,
+          body,
+          dueDate: row.installment.dueDate,
+          status,
+          transport: transport.name,
+          error,
+        });
+        if (status === "sent") {
+          await tx
+            .update(paymentPlan)
+            .set({
+              remindersSent: sql`${paymentPlan.remindersSent} + 1`,
+              lastReminderDate: asOf,
+              updatedAt: new Date(),
+            })
+            .where(eq(paymentPlan.id, row.plan.id));
+        }
+        return status;
+      });
+      if (status) result[status]++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,103 @@
+import { and, asc, eq, getTableColumns, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { savedView, user, type SavedView } from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+
+export type SavedViewInput = Pick<
+  SavedView,
+  "name" | "filters" | "sorting" | "columnVisibility" | "pageSize" | "isShared"
+>;
+
+/** Views of a table the user can pick: their own and everyone's shared ones. */
+export async function listSavedViews(tableKey: string, userId: number) {
+  return db
+    .select({
+      ...getTableColumns(savedView),
+      ownerName: sql<string>`COALESCE(${user.name}, ${user.email})`,
+      isOwner: sql<boolean>`${savedView.ownerId} = ${userId}`,
+    })
+    .from(savedView)
+    .innerJoin(user, eq(savedView.ownerId, user.id))
+    .where(
+      and(
+        eq(savedView.tableKey, tableKey),
+        or(eq(savedView.ownerId, userId), eq(savedView.isShared, true))
+      )
+    )
+    .orderBy(asc(savedView.name));
+}
+
+// Only the owner changes a view; a shared view is read-only to everyone else
+// and a private one does not exist for them
+async function getOwnedView(id: number, userId: number): Promise<SavedView> {
+  const [view] = await db.select().from(savedView).where(eq(savedView.id, id));
+  if (!view || (view.ownerId !== userId && !view.isShared)) {
+    throw new HttpError(404, "Saved view not found");
+  }
+  if (view.ownerId !== userId) {
+    throw new HttpError(403, "Only the owner can change a saved view");
+  }
+  return view;
+}
+
+// Names are unique per owner and table, ignoring case, by the
+// saved_view_owner_table_name_idx index; a clash raises Postgres' unique
+// violation, which drizzle hands back as the cause of its query error
+function isNameTaken(error: unknown): boolean {
+  const cause =
+    error instanceof Error && error.cause !== undefined ? error.cause : error;
+  return (
+    typeof cause === "object" &&
+    cause !== null &&
+    "code" in cause &&
+    cause.code === "23505"
+  );
+}
+
+function nameTakenError(name: string) {
+  return new HttpError(409, `You already have a view named "${name}"`);
+}
+
+export async function createSavedView(
+  tableKey: string,
+  userId: number,
+  input: SavedViewInput
+): Promise<SavedView> {
+  try {
+    const [created] = await db
+      .insert(savedView)
+      .values({ ...input, tableKey, ownerId: userId })
+      .returning();
+    return created;
+  } catch (error) {
+    if (isNameTaken(error)) throw nameTakenError(input.name);
+    throw error;
+  }
+}
+
+export async function updateSavedView(
+  id: number,
+  userId: number,
+  changes: Partial<SavedViewInput>
+): Promise<SavedView> {
+  await getOwnedView(id, userId);
+
+  try {
+    const [updated] = await db
+      .update(savedView)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(savedView.id, id))
+      .returning();
+    return updated;
+  } catch (error) {
+    if (isNameTaken(error) && changes.name) {
+      throw nameTakenError(changes.name);
+    }
+    throw error;
+  }
+}
+
+export async function deleteSavedView(id: number, userId: number) {
+  await getOwnedView(id, userId);
+  await db.delete(savedView).where(eq(savedView.id, id));
+}
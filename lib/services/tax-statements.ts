@@ -0,0 +1,435 @@
+import { and, asc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+import { format, parseISO } from "date-fns";
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+import type { Database } from "@/lib/db";
+import {
+  category,
+  contact,
+  contactCredit,
+  payment,
+  pledge,
+  type Payment,
+} from "@/lib/db/schema";
+import { convertToUsd } from "./exchange-rates";
+import { ledgerEntry } from "./ledger-entries";
+import {
+  formatMethod,
+  formatMoney,
+  getReceiptOrganization,
+  printable,
+  wrapText,
+} from "./receipts";
+
+export interface TaxStatementPayment {
+  // Null for a credit applied to the pledge, which has its creditId instead
+  paymentId: number | null;
+  creditId: number | null;
+  paymentDate: string;
+  paymentMethod: string;
+  receiptNumber: string | null;
+  amount: number;
+  currency: string;
+  amountUsd: number;
+}
+
+export interface TaxStatementCategory {
+  categoryId: number;
+  categoryName: string;
+  totalUsd: number;
+  payments: TaxStatementPayment[];
+}
+
+export interface TaxStatement {
+  year: number;
+  contact: {
+    id: number;
+    name: string;
+    address: string | null;
+    email: string | null;
+  };
+  categories: TaxStatementCategory[];
+  totalUsd: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Year-end statements: every completed payment made in the calendar year on a
+ * pledge in a tax-deductible category, in USD and grouped by category. A split
+ * payment counts only the share allocated to such pledges. Credit is counted
+ * where it ends up: an overpayment comes off the payment that made it, and a
+ * credit applied to such a pledge is listed on the day it was applied, so
+ * money is reported once however it reached the pledge. Without a contact,
+ * one statement is built for each donor who gave that year.
+ */
+export async function buildTaxStatements(
+  database: Database,
+  { year, contactId }: { year: number; contactId?: number }
+): Promise<TaxStatement[]> {
+  const conditions: SQL[] = [
+    eq(ledgerEntry.paymentStatus, "completed"),
+    eq(category.isTaxDeductible, true),
+    gte(ledgerEntry.paymentDate, `${year}-01-01`),
+    lte(ledgerEntry.paymentDate, `${year}-12-31`),
+  ];
+  if (contactId) conditions.push(eq(pledge.contactId, contactId));
+
+  const rows = await database
+    .select({
+      payment: {
+        id: payment.id,
+        creditId: ledgerEntry.creditId,
+        paymentDate: ledgerEntry.paymentDate,
+        paymentMethod: sql<string>`COALESCE(${payment.paymentMethod}::text, 'credit')`,
+        receiptNumber: payment.receiptNumber,
+        amount: ledgerEntry.amount,
+        currency: sql<
+          Payment["currency"]
+        >`COALESCE(${payment.currency}, ${contactCredit.currency})`,
+        amountUsd: ledgerEntry.amountUsd,
+      },
+      category: { id: category.id, name: category.name },
+      contact: {
+        id: contact.id,
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        address: contact.address,
+        email: contact.email,
+      },
+    })
+    .from(ledgerEntry)
+    .leftJoin(payment, eq(ledgerEntry.paymentId, payment.id))
+    .leftJoin(contactCredit, eq(ledgerEntry.creditId, contactCredit.id))
+    .innerJoin(pledge, eq(ledgerEntry.pledgeId, pledge.id))
+    .innerJoin(category, eq(pledge.categoryId, category.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(...conditions))
+    .orderBy(
+      asc(contact.lastName),
+      asc(contact.firstName),
+      asc(contact.id),
+      asc(category.name),
+      asc(ledgerEntry.paymentDate),
+      asc(ledgerEntry.paymentId),
+      sql`${ledgerEntry.creditId} NULLS FIRST`
+    );
+
+  const statements = new Map<number, TaxStatement>();
+  for (const row of rows) {
+    // Payments recorded before USD amounts were stored are converted at the
+    // rate on their payment date
+    const amount = parseFloat(row.payment.amount);
+    const amountUsd =
+      row.payment.amountUsd !== null
+        ? parseFloat(row.payment.amountUsd)
+        : row.payment.currency === "USD"
+          ? amount
+          : (
+              await convertToUsd(
+                database,
+                amount,
+                row.payment.currency,
+                row.payment.paymentDate
+              )
+            ).amountUsd;
+
+    let statement = statements.get(row.contact.id);
+    if (!statement) {
+      statement = {
+        year,
+        contact: {
+          id: row.contact.id,
+          name: `${row.contact.firstName} ${row.contact.lastName}`,
+          address: row.contact.address,
+          email: row.contact.email,
+        },
+        categories: [],
+        totalUsd: 0,
+      };
+      statements.set(row.contact.id, statement);
+    }
+
+    let group = statement.categories.find(
+      (candidate) => candidate.categoryId === row.category.id
+    );
+    if (!group) {
+      group = {
+        categoryId: row.category.id,
+        categoryName: row.category.name,
+        totalUsd: 0,
+        payments: [],
+      };
+      statement.categories.push(group);
+    }
+
+    // An overpayment's credit entry nets off the payment it came from
+    const paymentLine =
+      row.payment.id !== null
+        ? group.payments.find((line) => line.paymentId === row.payment.id)
+        : undefined;
+    if (paymentLine) {
+      paymentLine.amount = round(paymentLine.amount + amount);
+      paymentLine.amountUsd = round(paymentLine.amountUsd + amountUsd);
+    } else {
+      group.payments.push({
+        paymentId: row.payment.id,
+        creditId: row.payment.id === null ? row.payment.creditId : null,
+        paymentDate: row.payment.paymentDate,
+        paymentMethod: row.payment.paymentMethod,
+        receiptNumber: row.payment.receiptNumber,
+        amount,
+        currency: row.payment.currency,
+        amountUsd,
+      });
+    }
+    group.totalUsd = round(group.totalUsd + amountUsd);
+    statement.totalUsd = round(statement.totalUsd + amountUsd);
+  }
+
+  return [...statements.values()];
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per payment, with the donor and category repeated on each so the
+ * file can be filtered and pivoted as it is.
+ */
+export function taxStatementsToCsv(statements: TaxStatement[]): string {
+  const header = [
+    "Year",
+    "Contact ID",
+    "Donor",
+    "Email",
+    "Category",
+    "Payment ID",
+    "Payment Date",
+    "Payment Method",
+    "Receipt Number",
+    "Amount",
+    "Currency",
+    "Amount USD",
+  ];
+  const lines = [header.join(",")];
+  for (const statement of statements) {
+    for (const group of statement.categories) {
+      for (const line of group.payments) {
+        lines.push(
+          [
+            statement.year,
+            statement.contact.id,
+            statement.contact.name,
+            statement.contact.email,
+            group.categoryName,
+            line.paymentId,
+            line.paymentDate,
+            formatMethod(line.paymentMethod),
+            line.receiptNumber,
+            line.amount.toFixed(2),
+            line.currency,
+            line.amountUsd.toFixed(2),
+          ]
+            .map(csvField)
+            .join(",")
+        );
+      }
+    }
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+
+// Left edges of the payment table's text columns and right edges of its
+// amount columns
+const COLUMNS = {
+  date: MARGIN,
+  method: MARGIN + 90,
+  receipt: MARGIN + 200,
+  amount: MARGIN + 390,
+  amountUsd: PAGE_WIDTH - MARGIN,
+};
+
+/**
+ * Renders statements into one PDF, each donor starting on a new page, so a
+ * whole year can be printed or mailed in one go.
+ */
+export async function renderTaxStatementsPdf(
+  statements: TaxStatement[]
+): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const organization = getReceiptOrganization();
+  const year = statements[0]?.year;
+  pdf.setTitle(
+    statements.length === 1
+      ? `${year} tax statement for ${statements[0].contact.name}`
+      : `${year ?? ""} tax statements`.trim()
+  );
+  pdf.setAuthor(organization.name);
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  for (const statement of statements) {
+    let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+
+    const write = (
+      text: string,
+      x: number,
+      { font = regular, size = 10, color = TEXT_COLOR } = {}
+    ) => {
+      page.drawText(printable(font, text), { x, y, size, font, color });
+    };
+    const writeRight = (
+      text: string,
+      right: number,
+      font: PDFFont = regular,
+      size = 10
+    ) => {
+      const value = printable(font, text);
+      page.drawText(value, {
+        x: right - font.widthOfTextAtSize(value, size),
+        y,
+        size,
+        font,
+        color: TEXT_COLOR,
+      });
+    };
+    const rule = () => {
+      page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: PAGE_WIDTH - MARGIN, y },
+        thickness: 0.75,
+        color: MUTED_COLOR,
+      });
+    };
+    // Long statements continue on further pages under a short heading
+    const ensureSpace = (needed: number) => {
+      if (y - needed >= MARGIN + 20) return;
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      write(
+        `${statement.contact.name} · ${statement.year} statement (continued)`,
+        MARGIN,
+        { color: MUTED_COLOR }
+      );
+      y -= 28;
+    };
+
+    write(organization.name, MARGIN, { font: bold, size: 18 });
+    y -= 16;
+    for (const line of organization.addressLines) {
+      write(line, MARGIN, { color: MUTED_COLOR });
+      y -= 13;
+    }
+    if (organization.taxId) {
+      write(`Tax ID: ${organization.taxId}`, MARGIN, { color: MUTED_COLOR });
+      y -= 13;
+    }
+    y -= 4;
+    rule();
+    y -= 32;
+
+    write(`${statement.year} Annual Giving Statement`, MARGIN, {
+      font: bold,
+      size: 16,
+    });
+    writeRight(
+      `Issued ${format(new Date(), "MMMM d, yyyy")}`,
+      PAGE_WIDTH - MARGIN
+    );
+    y -= 30;
+
+    write(statement.contact.name, MARGIN, { font: bold, size: 11 });
+    y -= 14;
+    for (const line of (statement.contact.address ?? "").split("\n")) {
+      if (!line.trim()) continue;
+      write(line.trim(), MARGIN);
+      y -= 13;
+    }
+    if (statement.contact.email) {
+      write(statement.contact.email, MARGIN, { color: MUTED_COLOR });
+      y -= 13;
+    }
+    y -= 12;
+    write(
+      `Contributions received from January 1 to December 31, ${statement.year}.`,
+      MARGIN
+    );
+    y -= 28;
+
+    for (const group of statement.categories) {
+      ensureSpace(60);
+      write(group.categoryName, MARGIN, { font: bold, size: 12 });
+      y -= 18;
+      write("Date", COLUMNS.date, { font: bold, size: 9 });
+      write("Method", COLUMNS.method, { font: bold, size: 9 });
+      write("Receipt", COLUMNS.receipt, { font: bold, size: 9 });
+      writeRight("Amount", COLUMNS.amount, bold, 9);
+      writeRight("USD", COLUMNS.amountUsd, bold, 9);
+      y -= 6;
+      rule();
+      y -= 14;
+
+      for (const line of group.payments) {
+        ensureSpace(14);
+        write(format(parseISO(line.paymentDate), "MMM d, yyyy"), COLUMNS.date);
+        write(formatMethod(line.paymentMethod), COLUMNS.method);
+        write(line.receiptNumber ?? "—", COLUMNS.receipt);
+        writeRight(formatMoney(line.amount, line.currency), COLUMNS.amount);
+        writeRight(formatMoney(line.amountUsd, "USD"), COLUMNS.amountUsd);
+        y -= 14;
+      }
+
+      y -= 2;
+      write(`Total ${group.categoryName}`, COLUMNS.receipt, { font: bold });
+      writeRight(formatMoney(group.totalUsd, "USD"), COLUMNS.amountUsd, bold);
+      y -= 26;
+    }
+
+    ensureSpace(90);
+    rule();
+    y -= 20;
+    write("Total contributions", MARGIN, { font: bold, size: 12 });
+    writeRight(
+      formatMoney(statement.totalUsd, "USD"),
+      COLUMNS.amountUsd,
+      bold,
+      12
+    );
+    y -= 30;
+
+    for (const line of wrapText(
+      regular,
+      organization.taxWording,
+      10,
+      PAGE_WIDTH - MARGIN * 2
+    )) {
+      ensureSpace(14);
+      write(line, MARGIN);
+      y -= 14;
+    }
+  }
+
+  // An empty year still produces a valid document
+  if (statements.length === 0) {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawText("No tax-deductible payments were found for this year.", {
+      x: MARGIN,
+      y: PAGE_HEIGHT - MARGIN,
+      size: 12,
+      font: regular,
+      color: TEXT_COLOR,
+    });
+  }
+
+  return Buffer.from(await pdf.save());
+}
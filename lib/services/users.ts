@@ -0,0 +1,129 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { solicitor, user, type User } from "@/lib/db/schema";
+import { HttpError } from "@/lib/error-handler";
+import { hashPassword } from "@/lib/auth/password";
+
+// Never send password hashes back to the client
+export const publicUserColumns = {
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  solicitorId: user.solicitorId,
+  isActive: user.isActive,
+  lastLoginAt: user.lastLoginAt,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+};
+
+export type PublicUser = Omit<User, "passwordHash" | "tokenVersion">;
+
+export interface CreateUserInput {
+  email: string;
+  name?: string | null;
+  password: string;
+  role: User["role"];
+  solicitorId?: number | null;
+}
+
+async function assertSolicitorExists(solicitorId: number) {
+  const [existing] = await db
+    .select({ id: solicitor.id })
+    .from(solicitor)
+    .where(eq(solicitor.id, solicitorId))
+    .limit(1);
+  if (!existing) {
+    throw new HttpError(404, "Solicitor not found");
+  }
+}
+
+/** Creates a login. Emails are stored lower-cased and must be unique. */
+export async function createUser(input: CreateUserInput): Promise<PublicUser> {
+  const email = input.email.toLowerCase();
+
+  const [existingUser] = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(sql`lower(${user.email}) = ${email}`)
+    .limit(1);
+  if (existingUser) {
+    throw new HttpError(409, "A user with this email already exists");
+  }
+
+  if (input.solicitorId) {
+    await assertSolicitorExists(input.solicitorId);
+  }
+
+  const [newUser] = await db
+    .insert(user)
+    .values({
+      email,
+      name: input.name || null,
+      passwordHash: await hashPassword(input.password),
+      role: input.role,
+      solicitorId: input.solicitorId || null,
+    })
+    .returning(publicUserColumns);
+
+  return newUser;
+}
+
+export interface UpdateUserInput {
+  name?: string | null;
+  password?: string;
+  role?: User["role"];
+  solicitorId?: number | null;
+  isActive?: boolean;
+}
+
+export async function updateUser(
+  userId: number,
+  input: UpdateUserInput
+): Promise<PublicUser> {
+  const [existingUser] = await db
+    .select()
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+  if (!existingUser) {
+    throw new HttpError(404, "User not found");
+  }
+
+  const role = input.role ?? existingUser.role;
+  const solicitorId =
+    input.solicitorId !== undefined
+      ? input.solicitorId
+      : existingUser.solicitorId;
+  if (role === "solicitor" && !solicitorId) {
+    throw new HttpError(400, "Solicitor users must be linked to a solicitor");
+  }
+  if (input.solicitorId) {
+    await assertSolicitorExists(input.solicitorId);
+  }
+
+  // Existing sessions carry the old access, so they are ended
+  const endSessions =
+    role !== existingUser.role ||
+    solicitorId !== existingUser.solicitorId ||
+    input.isActive === false ||
+    !!input.password;
+
+  const [updatedUser] = await db
+    .update(user)
+    .set({
+      name: input.name !== undefined ? input.name || null : undefined,
+      passwordHash: input.password
+        ? await hashPassword(input.password)
+        : undefined,
+      role: input.role,
+      solicitorId: input.solicitorId,
+      isActive: input.isActive,
+      tokenVersion: endSessions ? sql`${user.tokenVersion} + 1` : undefined,
+      updatedAt: new Date(),
+    })
+    .where(eq(user.id, userId))
+    .returning(publicUserColumns);
+
+  return updatedUser;
+}
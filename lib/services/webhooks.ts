@@ -0,0 +1,300 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { and, asc, eq, inArray, lte, sql } from "drizzle-orm";
+import { after } from "next/server";
+import { db, type Database } from "@/lib/db";
+import {
+  webhookDelivery,
+  webhookEndpoint,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@/lib/db/schema";
+
+export const WEBHOOK_EVENTS = [
+  "payment.created",
+  "payment.refunded",
+  "pledge.created",
+  "payment_plan.overdue",
+  "bonus.paid",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+const SECRET_PREFIX = "whsec_";
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY = 2_000;
+
+// Minutes to wait after each failed attempt. Once these run out the delivery
+// is marked failed and only a manual retry sends it again.
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 360, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// A claimed delivery is pushed this far into the future so a second worker
+// skips it, and is picked up again if the first worker dies mid-send
+const CLAIM_MINUTES = 5;
+
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, "secret">;
+
+export const publicWebhookEndpointColumns = {
+  id: webhookEndpoint.id,
+  url: webhookEndpoint.url,
+  description: webhookEndpoint.description,
+  events: webhookEndpoint.events,
+  isActive: webhookEndpoint.isActive,
+  createdBy: webhookEndpoint.createdBy,
+  createdAt: webhookEndpoint.createdAt,
+  updatedAt: webhookEndpoint.updatedAt,
+};
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface DeliveryRunResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Signature sent as `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`, where
+ * the digest is HMAC-SHA256 of `<t>.<raw body>` keyed with the endpoint
+ * secret. Receivers should recompute it and reject stale timestamps.
+ */
+export function signWebhookBody(
+  secret: string,
+  body: string,
+  timestamp: number
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Queues an event for every active endpoint subscribed to it. Call it with
+ * the transaction that made the change, so an event is only ever sent for
+ * writes that committed. Sending happens later in `deliverDueWebhooks`.
+ */
+export async function emitWebhookEvent(
+  database: Database,
+  type: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  const endpoints = await database
+    .select({ id: webhookEndpoint.id })
+    .from(webhookEndpoint)
+    .where(
+      and(
+        eq(webhookEndpoint.isActive, true),
+        sql`${type} = ANY(${webhookEndpoint.events})`
+      )
+    );
+
+  if (endpoints.length === 0) return;
+
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+
+  await database.insert(webhookDelivery).values(
+    endpoints.map((endpoint) => ({
+      endpointId: endpoint.id,
+      eventId: payload.id,
+      eventType: type,
+      payload,
+    }))
+  );
+}
+
+/**
+ * Sends the deliveries whose next attempt is due. Safe to run from several
+ * places at once: each run claims its rows with SKIP LOCKED first.
+ */
+export async function deliverDueWebhooks(
+  limit = 50
+): Promise<DeliveryRunResult> {
+  const claimed = await db.transaction(async (tx) => {
+    const due = await tx
+      .select()
+      .from(webhookDelivery)
+      .where(
+        and(
+          eq(webhookDelivery.status, "pending"),
+          lte(webhookDelivery.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(asc(webhookDelivery.nextAttemptAt), asc(webhookDelivery.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    if (due.length > 0) {
+      await tx
+        .update(webhookDelivery)
+        .set({ nextAttemptAt: minutesFromNow(CLAIM_MINUTES) })
+        .where(
+          inArray(
+            webhookDelivery.id,
+            due.map((delivery) => delivery.id)
+          )
+        );
+    }
+    return due;
+  });
+
+  const result: DeliveryRunResult = { delivered: 0, retrying: 0, failed: 0 };
+  if (claimed.length === 0) return result;
+
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoint)
+    .where(
+      inArray(
+        webhookEndpoint.id,
+        claimed.map((delivery) => delivery.endpointId)
+      )
+    );
+  const endpointsById = new Map(
+    endpoints.map((endpoint) => [endpoint.id, endpoint])
+  );
+
+  for (const delivery of claimed) {
+    const status = await attemptDelivery(
+      delivery,
+      endpointsById.get(delivery.endpointId)
+    );
+    if (status === "delivered") result.delivered++;
+    else if (status === "failed") result.failed++;
+    else result.retrying++;
+  }
+
+  return result;
+}
+
+/**
+ * Sends queued events once the current response has gone out, so callers do
+ * not wait on remote endpoints. Anything left over is retried by the cron job.
+ */
+export function deliverWebhooksAfterResponse(): void {
+  after(async () => {
+    try {
+      await deliverDueWebhooks();
+    } catch (error) {
+      console.error("Error delivering webhooks:", error);
+    }
+  });
+}
+
+/** Puts a failed delivery back in the queue with a fresh set of attempts. */
+export async function retryWebhookDelivery(
+  deliveryId: number
+): Promise<WebhookDelivery | null> {
+  const [requeued] = await db
+    .update(webhookDelivery)
+    .set({
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      error: null,
+    })
+    .where(
+      and(
+        eq(webhookDelivery.id, deliveryId),
+        eq(webhookDelivery.status, "failed")
+      )
+    )
+    .returning();
+  return requeued ?? null;
+}
+
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint | undefined
+): Promise<WebhookDelivery["status"]> {
+  const attempts = delivery.attempts + 1;
+  const attemptedAt = new Date();
+
+  if (!endpoint || !endpoint.isActive) {
+    await db
+      .update(webhookDelivery)
+      .set({
+        status: "failed",
+        attempts,
+        lastAttemptAt: attemptedAt,
+        error: "Endpoint is disabled",
+      })
+      .where(eq(webhookDelivery.id, delivery.id));
+    return "failed";
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Levhatora-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.eventType,
+        [SIGNATURE_HEADER]: signWebhookBody(endpoint.secret, body, timestamp),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+    if (!response.ok) {
+      error = `Endpoint responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  const delivered = error === null;
+  const status: WebhookDelivery["status"] = delivered
+    ? "delivered"
+    : attempts >= MAX_ATTEMPTS
+      ? "failed"
+      : "pending";
+
+  await db
+    .update(webhookDelivery)
+    .set({
+      status,
+      attempts,
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      responseBody,
+      error,
+      deliveredAt: delivered ? attemptedAt : null,
+      ...(status === "pending" && {
+        nextAttemptAt: minutesFromNow(RETRY_DELAYS_MINUTES[attempts - 1]),
+      }),
+    })
+    .where(eq(webhookDelivery.id, delivery.id));
+
+  return status;
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60_000);
+}
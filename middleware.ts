@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canAccessApi } from "@/lib/auth/roles";
+import {
+  SESSION_COOKIE,
+  SOLICITOR_ID_HEADER,
+  USER_ID_HEADER,
+  USER_ROLE_HEADER,
+  verifySession,
+} from "@/lib/auth/session";
+import { getTokenVersion } from "@/lib/auth/token-version";
+
+const PUBLIC_PATHS = ["/login", "/api/auth/login"];
+
+// Machine callers authenticate inside the route instead: feeds with an API
+// key and scheduled jobs with the cron secret
+const MACHINE_PREFIXES = ["/api/zapier/", "/api/cron/"];
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  const headers = new Headers(request.headers);
+  headers.delete(USER_ID_HEADER);
+  headers.delete(USER_ROLE_HEADER);
+  headers.delete(SOLICITOR_ID_HEADER);
+
+  if (
+    PUBLIC_PATHS.includes(pathname) ||
+    MACHINE_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  ) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const session = await verifySession(
+    request.cookies.get(SESSION_COOKIE)?.value,
+    getTokenVersion
+  );
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // A solicitor login that is not linked to a solicitor has nothing to see
+  const isUnlinkedSolicitor =
+    session.role === "solicitor" && !session.solicitorId;
+
+  if (
+    isApi &&
+    !pathname.startsWith("/api/auth/") &&
+    (isUnlinkedSolicitor || !canAccessApi(session, pathname, request.method))
+  ) {
+    return NextResponse.json(
+      { error: "You do not have permission to perform this action" },
+      { status: 403 }
+    );
+  }
+
+  headers.set(USER_ID_HEADER, session.userId.toString());
+  headers.set(USER_ROLE_HEADER, session.role);
+  if (session.solicitorId) {
+    headers.set(SOLICITOR_ID_HEADER, session.solicitorId.toString());
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,46 @@
+import "dotenv/config";
+import { parseArgs } from "util";
+import { USER_ROLES, type UserRole } from "@/lib/auth/roles";
+import { createUser } from "@/lib/services/users";
+
+// Usage: pnpm db:create-user --email a@b.org --password secret123 --role admin
+//        [--name "Full Name"] [--solicitor-id 3]
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      email: { type: "string" },
+      password: { type: "string" },
+      role: { type: "string", default: "admin" },
+      name: { type: "string" },
+      "solicitor-id": { type: "string" },
+    },
+  });
+
+  if (!values.email || !values.password) {
+    throw new Error("--email and --password are required");
+  }
+  if (!USER_ROLES.includes(values.role as UserRole)) {
+    throw new Error(`--role must be one of: ${USER_ROLES.join(", ")}`);
+  }
+
+  const newUser = await createUser({
+    email: values.email,
+    password: values.password,
+    role: values.role as UserRole,
+    name: values.name,
+    solicitorId: values["solicitor-id"]
+      ? parseInt(values["solicitor-id"], 10)
+      : null,
+  });
+
+  console.log(
+    `✅ Created ${newUser.role} user #${newUser.id} ${newUser.email}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,45 @@
+import "dotenv/config";
+import { and, eq, ne, notExists } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { paymentPlan, paymentPlanInstallment } from "@/lib/db/schema";
+import { regenerateInstallments } from "@/lib/services/installments";
+import { syncPaymentPlanTotals } from "@/lib/services/ledger";
+
+// Usage: pnpm db:generate-installments
+// Builds installment schedules for plans created before they existed.
+async function main() {
+  const plans = await db
+    .select()
+    .from(paymentPlan)
+    .where(
+      and(
+        ne(paymentPlan.frequency, "custom"),
+        notExists(
+          db
+            .select({ id: paymentPlanInstallment.id })
+            .from(paymentPlanInstallment)
+            .where(eq(paymentPlanInstallment.paymentPlanId, paymentPlan.id))
+        )
+      )
+    )
+    .orderBy(paymentPlan.id);
+
+  for (const plan of plans) {
+    await db.transaction(async (tx) => {
+      const installments = await regenerateInstallments(tx, plan);
+      await syncPaymentPlanTotals(tx, plan.id);
+      console.log(
+        `  payment plan #${plan.id}  ${installments.length} installments`
+      );
+    });
+  }
+
+  console.log(`✅ Generated schedules for ${plans.length} payment plans.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -17,8 +17,14 @@ const filePath = path.resolve(__dirname, "../data/contact.json");
 const raw = fs.readFileSync(filePath, "utf-8");
 const records: ContactRecord[] = JSON.parse(raw);
 
-// Track unique ACT_IDs
-const seen = new Set<string>();
+// Each record is one telephone row; a contact with several numbers or
+// emails appears once per row
+const grouped = new Map<string, { index: number; rows: ContactRecord[] }>();
+for (const [index, rec] of records.entries()) {
+  const group = grouped.get(rec.ACT_ID) ?? { index, rows: [] };
+  group.rows.push(rec);
+  grouped.set(rec.ACT_ID, group);
+}
 
 function escape(value: string | null | undefined): string {
   if (!value) return `''`;
@@ -36,33 +42,69 @@ function isLikelyEmail(input: string | undefined | null) {
   return typeof input === "string" && input.includes("@");
 }
 
-const inserts: string[] = [];
-
-for (const [index, rec] of records.entries()) {
-  if (seen.has(rec.ACT_ID)) continue;
-  seen.add(rec.ACT_ID);
+function toPhoneType(telType: string | undefined) {
+  const type = (telType || "").toLowerCase();
+  if (type.includes("cell") || type.includes("mobile")) return "mobile";
+  if (type.includes("fax")) return "fax";
+  if (type.includes("home")) return "home";
+  if (type.includes("work") || type.includes("office")) return "work";
+  return "other";
+}
 
-  const firstNameRaw = rec.ACT_HisName || `First${index}`;
-  const lastNameRaw = rec.ACT_Lastname || `Last${index}`;
-  const title = rec.ACT_HisTitle || "Mr.";
+const inserts: string[] = [];
 
-  const emailRaw = isLikelyEmail(rec.TEL_Number)
-    ? rec.TEL_Number
-    : toDefaultEmail(firstNameRaw, lastNameRaw);
-  const email = escape(emailRaw);
+for (const { index, rows } of grouped.values()) {
+  const [first] = rows;
+  const firstNameRaw = first.ACT_HisName || `First${index}`;
+  const lastNameRaw = first.ACT_Lastname || `Last${index}`;
+  const title = first.ACT_HisTitle || "Mr.";
 
-  let phoneRaw: string | null = null;
-  if (!isLikelyEmail(rec.TEL_Number)) {
-    phoneRaw = `${rec.TEL_AreaCode || ""}${rec.TEL_Number || ""}`.trim();
+  const emails = rows
+    .filter((rec) => isLikelyEmail(rec.TEL_Number))
+    .map((rec) => rec.TEL_Number.trim());
+  if (emails.length === 0) {
+    emails.push(toDefaultEmail(firstNameRaw, lastNameRaw));
   }
 
-  const phone = phoneRaw ? escape(phoneRaw) : "NULL";
+  const phones = rows
+    .filter((rec) => !isLikelyEmail(rec.TEL_Number))
+    .map((rec) => ({
+      countryCode: (rec.TEL_CountryCode || "").replace(/\D/g, ""),
+      number: `${rec.TEL_AreaCode || ""}${rec.TEL_Number || ""}`.trim(),
+      type: toPhoneType(rec.TEL_Type),
+    }))
+    .filter((phone) => phone.number);
+
+  // The contact row keeps the primary email and phone, as the app does
+  const primaryPhone = phones[0]
+    ? [phones[0].countryCode && `+${phones[0].countryCode}`, phones[0].number]
+        .filter(Boolean)
+        .join(" ")
+    : null;
 
-  inserts.push(
-    `INSERT INTO contact (first_name, last_name, email, phone, title) VALUES (${escape(
+  const statements = [
+    `WITH c AS (INSERT INTO contact (first_name, last_name, email, phone, title) VALUES (${escape(
       firstNameRaw
-    )}, ${escape(lastNameRaw)}, ${email}, ${phone}, ${escape(title)});`
+    )}, ${escape(lastNameRaw)}, ${escape(emails[0])}, ${
+      primaryPhone ? escape(primaryPhone) : "NULL"
+    }, ${escape(title)}) RETURNING id)`,
+    `, e AS (INSERT INTO contact_email (contact_id, email, type, is_primary, sort_order) SELECT c.id, v.email, 'personal'::contact_email_type, v.sort_order = 0, v.sort_order FROM c, (VALUES ${emails
+      .map((email, order) => `(${escape(email)}, ${order})`)
+      .join(", ")}) AS v(email, sort_order))`,
+  ];
+  statements.push(
+    phones.length > 0
+      ? `INSERT INTO contact_phone (contact_id, country_code, number, type, is_primary, sort_order) SELECT c.id, NULLIF(v.country_code, ''), v.number, v.type::contact_phone_type, v.sort_order = 0, v.sort_order FROM c, (VALUES ${phones
+          .map(
+            (phone, order) =>
+              `(${escape(phone.countryCode)}, ${escape(phone.number)}, ${escape(
+                phone.type
+              )}, ${order})`
+          )
+          .join(", ")}) AS v(country_code, number, type, sort_order);`
+      : "SELECT 1;"
   );
+  inserts.push(statements.join(" "));
 }
 
 fs.writeFileSync(
@@ -0,0 +1,44 @@
+import "dotenv/config";
+import { systemAuditContext } from "@/lib/services/audit";
+import { reconcileLedger } from "@/lib/services/reconciliation";
+
+// Usage: pnpm db:reconcile [--fix]
+async function main() {
+  const fix = process.argv.includes("--fix");
+  const report = await reconcileLedger(systemAuditContext("reconcile-ledger"), {
+    fix,
+  });
+
+  console.log(
+    `Checked ${report.pledgesChecked} pledges and ${report.paymentPlansChecked} payment plans.`
+  );
+
+  for (const [label, rows] of [
+    ["pledge", report.pledges],
+    ["payment plan", report.paymentPlans],
+  ] as const) {
+    for (const row of rows) {
+      const fields = row.fields
+        .map((f) => `${f.field}: ${f.stored} -> ${f.expected}`)
+        .join(", ");
+      console.log(`  ${label} #${row.id}  ${fields}`);
+    }
+  }
+
+  const total = report.pledges.length + report.paymentPlans.length;
+  if (total === 0) {
+    console.log("✅ Ledger is consistent.");
+  } else if (fix) {
+    console.log(`✅ Fixed ${total} records.`);
+  } else {
+    console.log(`⚠️  ${total} records disagree. Re-run with --fix to repair.`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,32 @@
+import "dotenv/config";
+import { count } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { reminderTemplate } from "@/lib/db/schema";
+import { DEFAULT_REMINDER_TEMPLATES } from "@/lib/services/reminders";
+
+// Usage: pnpm db:seed-reminder-templates
+// Adds the default reminder templates when none have been set up yet.
+async function main() {
+  const [{ value: existing }] = await db
+    .select({ value: count() })
+    .from(reminderTemplate);
+  if (existing > 0) {
+    console.log(`Skipped: ${existing} reminder templates already exist.`);
+    return;
+  }
+
+  await db.insert(reminderTemplate).values(DEFAULT_REMINDER_TEMPLATES);
+  for (const template of DEFAULT_REMINDER_TEMPLATES) {
+    console.log(`  ${template.name}  (${template.daysFromDue} days from due)`);
+  }
+  console.log(
+    `✅ Added ${DEFAULT_REMINDER_TEMPLATES.length} reminder templates.`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());